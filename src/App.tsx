@@ -28,10 +28,17 @@ import Subjects from "./pages/Subjects";
 import DashboardLayout from "./components/DashboardLayout";
 import NotFound from "./pages/NotFound";
 import ExamPanel from "./pages/ExamPanel";
+import ExamLobby from "./pages/ExamLobby";
 import EvaluatedSubmissions from "./pages/EvaluatedSubmissions";
 import ProtectedRoute from './components/ProtectedRoute';
 import Analytics from './pages/Analytics';
 import SubmissionDetails from './pages/SubmissionDetails';
+import Invigilation from './pages/Invigilation';
+import SubmissionReceipt from './pages/SubmissionReceipt';
+import VerifyReceipt from './pages/VerifyReceipt';
+import PracticePanel from './pages/PracticePanel';
+import PracticeHistory from './pages/PracticeHistory';
+import QuestionBank from './pages/QuestionBank';
 
 const App = () => (
   <QueryClientProvider client={queryClient}>
@@ -55,10 +62,14 @@ const App = () => (
               }>
                 <Route path="/dashboard" element={<Dashboard />} />
                 <Route path="/exams" element={<Exams />} />
+                <Route path="/exam-lobby/:id" element={<ExamLobby />} />
                 <Route path="/exam-panel/:id" element={<ExamPanel />} />
                 <Route path="/results" element={<Results />} />
                 <Route path="/exam-history" element={<ExamHistory />} />
+                <Route path="/practice/:id" element={<PracticePanel />} />
+                <Route path="/practice-history" element={<PracticeHistory />} />
                 <Route path="/submissions/:id" element={<SubmissionDetails />} />
+                <Route path="/submissions/:id/receipt" element={<SubmissionReceipt />} />
               </Route>
               
               {/* Faculty Routes */}
@@ -71,8 +82,12 @@ const App = () => (
                 <Route path="papers" element={<Papers />} />
                 <Route path="papers/:id" element={<PaperDetails />} />
                 <Route path="papers/create" element={<CreatePaper />} />
+                <Route path="papers/:id/edit" element={<CreatePaper />} />
+                <Route path="papers/:id/invigilate" element={<Invigilation />} />
                 <Route path="submissions" element={<Submissions />} />
                 <Route path="evaluated" element={<EvaluatedSubmissions />} />
+                <Route path="question-bank" element={<QuestionBank />} />
+                <Route path="verify" element={<VerifyReceipt />} />
               </Route>
 
               {/* Evaluation Route */}
@@ -95,9 +110,11 @@ const App = () => (
                 <Route path="users" element={<Users />} />
                 <Route path="papers" element={<Papers />} />
                 <Route path="papers/:id" element={<PaperDetails />} />
+                <Route path="papers/:id/invigilate" element={<Invigilation />} />
                 <Route path="results" element={<AdminResults />} />
                 <Route path="activities" element={<Activities />} />
                 <Route path="analytics" element={<Analytics />} />
+                <Route path="verify" element={<VerifyReceipt />} />
               </Route>
               
               <Route path="*" element={<Navigate to="/" replace />} />
@@ -12,7 +12,10 @@ import {
   BookOpen,
   PenTool,
   History,
-  BarChart
+  BarChart,
+  ShieldCheck,
+  Dumbbell,
+  Library
 } from "lucide-react";
 import { cn } from "@/lib/utils";
 
@@ -36,13 +39,16 @@ const Sidebar = ({ userType, onClose }: SidebarProps) => {
           { label: "Papers", icon: <FileText />, href: "/admin/papers" },
           { label: "Results", icon: <ClipboardList />, href: "/admin/results" },
           { label: "Analytics", icon: <BarChart />, href: "/admin/analytics" },
+          { label: "Verify Receipt", icon: <ShieldCheck />, href: "/admin/verify" },
         ];
       case "faculty":
         return [
           { label: "Dashboard", icon: <LayoutDashboard />, href: "/faculty" },
           { label: "Papers", icon: <FileText />, href: "/faculty/papers" },
+          { label: "Question Bank", icon: <Library />, href: "/faculty/question-bank" },
           { label: "Submissions", icon: <ClipboardList />, href: "/faculty/submissions" },
           { label: "Submit to Admin", icon: <FileText />, href: "/faculty/evaluated" },
+          { label: "Verify Receipt", icon: <ShieldCheck />, href: "/faculty/verify" },
         ];
       case "student":
         return [
@@ -50,6 +56,7 @@ const Sidebar = ({ userType, onClose }: SidebarProps) => {
           { label: "Available Exams", icon: <PenTool />, href: "/exams" },
           { label: "Results", icon: <ClipboardList />, href: "/results" },
           { label: "Exam History", icon: <History />, href: "/exam-history" },
+          { label: "Practice History", icon: <Dumbbell />, href: "/practice-history" },
         ];
       default:
         return [];
@@ -0,0 +1,42 @@
+import React from 'react';
+import { Badge } from '@/components/ui/badge';
+import { Accessibility } from 'lucide-react';
+import { Accommodations, describeAccommodations } from '@/lib/accommodations';
+
+interface AccommodationBadgeProps {
+  accommodations?: Accommodations | null;
+  // Spell out each accommodation instead of one summary badge
+  detailed?: boolean;
+}
+
+const AccommodationBadge = ({ accommodations, detailed = false }: AccommodationBadgeProps) => {
+  const labels = describeAccommodations(accommodations);
+  if (labels.length === 0) return null;
+
+  if (!detailed) {
+    return (
+      <Badge
+        variant="outline"
+        className="bg-indigo-50 text-indigo-700 border-indigo-300"
+        title={[...labels, accommodations?.notes].filter(Boolean).join(' • ')}
+      >
+        <Accessibility className="w-3 h-3 mr-1" />
+        Accommodated
+      </Badge>
+    );
+  }
+
+  return (
+    <div className="flex flex-wrap items-center gap-2">
+      {labels.map(label => (
+        <Badge key={label} variant="outline" className="bg-indigo-50 text-indigo-700 border-indigo-300">
+          <Accessibility className="w-3 h-3 mr-1" />
+          {label}
+        </Badge>
+      ))}
+      {accommodations?.notes && <span className="text-sm text-gray-600">{accommodations.notes}</span>}
+    </div>
+  );
+};
+
+export default AccommodationBadge;
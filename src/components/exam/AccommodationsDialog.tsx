@@ -0,0 +1,163 @@
+import React, { useEffect, useState } from 'react';
+import { useMutation } from '@tanstack/react-query';
+import { updateUser } from '@/lib/api';
+import { toast } from '@/hooks/use-toast';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { Textarea } from '@/components/ui/textarea';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Accommodations, FONT_SCALE_LABELS, FontScale, getAdjustedDuration } from '@/lib/accommodations';
+
+interface AccommodationsDialogProps {
+  student: { _id: string; name: string; accommodations?: Accommodations } | null;
+  onOpenChange: (open: boolean) => void;
+  onSaved: () => void;
+}
+
+const AccommodationsDialog = ({ student, onOpenChange, onSaved }: AccommodationsDialogProps) => {
+  const [form, setForm] = useState<Accommodations>({});
+
+  useEffect(() => {
+    if (student) {
+      setForm(student.accommodations || {});
+    }
+  }, [student]);
+
+  const saveMutation = useMutation({
+    mutationFn: () => updateUser(student!._id, {
+      accommodations: {
+        ...form,
+        extraTimePercent: form.extraTimePercent || undefined,
+        extraTimeMinutes: form.extraTimeMinutes || undefined,
+        notes: form.notes?.trim() || undefined,
+      },
+    }),
+    onSuccess: () => {
+      toast({
+        title: "Accommodations saved",
+        description: "They apply to exams this student starts from now on"
+      });
+      onSaved();
+      onOpenChange(false);
+    },
+    onError: (error: { response?: { data?: { message?: string } } }) => {
+      toast({
+        title: "Error",
+        description: error.response?.data?.message || "Failed to save accommodations",
+        variant: "destructive"
+      });
+    }
+  });
+
+  const parseAmount = (value: string) => Math.max(0, parseInt(value) || 0);
+
+  return (
+    <Dialog open={!!student} onOpenChange={onOpenChange}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Accommodations for {student?.name}</DialogTitle>
+          <DialogDescription>
+            Applied automatically in every exam. A 60 minute paper runs for{' '}
+            {getAdjustedDuration(60, form)} minutes.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="extra-percent">Extra time (%)</Label>
+              <Input
+                id="extra-percent"
+                type="number"
+                min={0}
+                max={200}
+                value={form.extraTimePercent || ''}
+                onChange={(e) => setForm({ ...form, extraTimePercent: parseAmount(e.target.value) })}
+                placeholder="e.g. 25"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="extra-minutes">Extra time (minutes)</Label>
+              <Input
+                id="extra-minutes"
+                type="number"
+                min={0}
+                value={form.extraTimeMinutes || ''}
+                onChange={(e) => setForm({ ...form, extraTimeMinutes: parseAmount(e.target.value) })}
+                placeholder="e.g. 15"
+              />
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <Label>Font size</Label>
+            <Select
+              value={form.fontScale || 'default'}
+              onValueChange={(value) => setForm({ ...form, fontScale: value as FontScale })}
+            >
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {Object.entries(FONT_SCALE_LABELS).map(([value, label]) => (
+                  <SelectItem key={value} value={value}>{label}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          <div className="flex items-center justify-between">
+            <Label htmlFor="high-contrast">High contrast</Label>
+            <Switch
+              id="high-contrast"
+              checked={!!form.highContrast}
+              onCheckedChange={(checked) => setForm({ ...form, highContrast: checked })}
+            />
+          </div>
+          <div className="flex items-center justify-between">
+            <div>
+              <Label htmlFor="screen-reader">Screen-reader layout</Label>
+              <p className="text-xs text-gray-500">Single column, with the remaining time announced every 5 minutes</p>
+            </div>
+            <Switch
+              id="screen-reader"
+              checked={!!form.screenReader}
+              onCheckedChange={(checked) => setForm({ ...form, screenReader: checked })}
+            />
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="accommodation-notes">Notes for invigilators</Label>
+            <Textarea
+              id="accommodation-notes"
+              value={form.notes || ''}
+              onChange={(e) => setForm({ ...form, notes: e.target.value })}
+              placeholder="e.g. Rest breaks allowed"
+            />
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => setForm({})}>
+            Clear All
+          </Button>
+          <Button onClick={() => saveMutation.mutate()} disabled={saveMutation.isPending}>
+            {saveMutation.isPending ? 'Saving...' : 'Save'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default AccommodationsDialog;
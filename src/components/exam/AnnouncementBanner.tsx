@@ -0,0 +1,105 @@
+import React, { useState } from 'react';
+import { format, isValid, parseISO } from 'date-fns';
+import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { Megaphone } from 'lucide-react';
+import { ExamAnnouncement } from '@/lib/exam-socket';
+
+interface AnnouncementBannerProps {
+  announcements: ExamAnnouncement[];
+  unreadCount: number;
+  onMarkRead: () => void;
+  onJumpToQuestion?: (index: number) => void;
+}
+
+const formatAnnouncementTime = (createdAt: string) => {
+  const date = parseISO(createdAt);
+  return isValid(date) ? format(date, 'p') : '';
+};
+
+const AnnouncementBanner = ({ announcements, unreadCount, onMarkRead, onJumpToQuestion }: AnnouncementBannerProps) => {
+  const [isLogOpen, setIsLogOpen] = useState(false);
+  const latest = announcements[announcements.length - 1];
+
+  if (!latest) {
+    return null;
+  }
+
+  const openLog = () => {
+    setIsLogOpen(true);
+    onMarkRead();
+  };
+
+  return (
+    <>
+      <Alert className={unreadCount > 0 ? 'border-blue-400 bg-blue-50' : 'bg-white'}>
+        <Megaphone className="h-4 w-4" />
+        <AlertTitle className="flex items-center gap-2">
+          Announcement from your examiner
+          {unreadCount > 0 && <Badge className="bg-blue-600">{unreadCount} new</Badge>}
+        </AlertTitle>
+        <AlertDescription className="flex flex-col sm:flex-row sm:items-start justify-between gap-2">
+          <div className="space-y-1">
+            <p className="whitespace-pre-wrap">
+              {typeof latest.questionIndex === 'number' && (
+                <span className="font-medium">Question {latest.questionIndex + 1}: </span>
+              )}
+              {latest.message}
+            </p>
+            <p className="text-xs text-gray-500">{formatAnnouncementTime(latest.createdAt)}</p>
+          </div>
+          <div className="flex gap-2 flex-shrink-0">
+            {unreadCount > 0 && (
+              <Button size="sm" variant="ghost" onClick={onMarkRead}>
+                Got it
+              </Button>
+            )}
+            <Button size="sm" variant="outline" onClick={openLog}>
+              All announcements ({announcements.length})
+            </Button>
+          </div>
+        </AlertDescription>
+      </Alert>
+
+      <Dialog open={isLogOpen} onOpenChange={setIsLogOpen}>
+        <DialogContent className="max-w-lg">
+          <DialogHeader>
+            <DialogTitle>Announcements</DialogTitle>
+            <DialogDescription>Clarifications sent during this exam</DialogDescription>
+          </DialogHeader>
+          <ScrollArea className="max-h-96 pr-3">
+            <ul className="space-y-3">
+              {[...announcements].reverse().map(announcement => (
+                <li key={announcement._id} className="p-3 rounded-lg border bg-gray-50 space-y-1">
+                  <div className="flex items-center justify-between text-xs text-gray-500">
+                    <span>{announcement.author?.name || 'Examiner'}</span>
+                    <span>{formatAnnouncementTime(announcement.createdAt)}</span>
+                  </div>
+                  <p className="text-sm whitespace-pre-wrap">{announcement.message}</p>
+                  {typeof announcement.questionIndex === 'number' && onJumpToQuestion && (
+                    <Button
+                      size="sm"
+                      variant="link"
+                      className="px-0 h-auto"
+                      onClick={() => {
+                        onJumpToQuestion(announcement.questionIndex!);
+                        setIsLogOpen(false);
+                      }}
+                    >
+                      Go to question {announcement.questionIndex + 1}
+                    </Button>
+                  )}
+                </li>
+              ))}
+            </ul>
+          </ScrollArea>
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+};
+
+export default AnnouncementBanner;
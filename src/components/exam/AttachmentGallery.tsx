@@ -0,0 +1,78 @@
+import React, { useState } from 'react';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { FileText, ZoomIn } from 'lucide-react';
+import { QuestionAttachment } from '@/lib/attachments';
+import { cn } from '@/lib/utils';
+
+interface AttachmentGalleryProps {
+  attachments?: QuestionAttachment[];
+  // Smaller thumbnails, used for MCQ options
+  compact?: boolean;
+  className?: string;
+}
+
+// Responsive images with click-to-zoom; PDFs open in a new tab
+const AttachmentGallery = ({ attachments = [], compact = false, className }: AttachmentGalleryProps) => {
+  const [zoomed, setZoomed] = useState<QuestionAttachment | null>(null);
+
+  if (attachments.length === 0) {
+    return null;
+  }
+
+  return (
+    <>
+      <div className={cn('flex flex-wrap gap-3', className)}>
+        {attachments.map(attachment => attachment.kind === 'image' ? (
+          <button
+            key={attachment.url}
+            type="button"
+            onClick={(e) => {
+              // Options wrap this in a label; don't select the option when zooming
+              e.preventDefault();
+              setZoomed(attachment);
+            }}
+            className="group relative rounded-lg border bg-white overflow-hidden focus:outline-none focus:ring-2 focus:ring-ring"
+            aria-label={`Enlarge image: ${attachment.alt || attachment.name}`}
+          >
+            <img
+              src={attachment.url}
+              alt={attachment.alt}
+              loading="lazy"
+              className={cn('object-contain', compact ? 'max-h-24 max-w-[10rem]' : 'max-h-80 w-full sm:w-auto')}
+            />
+            <span className="absolute bottom-1 right-1 rounded bg-black/60 p-1 text-white opacity-0 group-hover:opacity-100 group-focus:opacity-100">
+              <ZoomIn className="h-4 w-4" />
+            </span>
+          </button>
+        ) : (
+          <a
+            key={attachment.url}
+            href={attachment.url}
+            target="_blank"
+            rel="noopener noreferrer"
+            className="flex items-center gap-2 rounded-lg border bg-gray-50 px-3 py-2 text-sm text-blue-700 hover:bg-gray-100"
+          >
+            <FileText className="h-4 w-4" />
+            {attachment.alt || attachment.name}
+          </a>
+        ))}
+      </div>
+
+      <Dialog open={!!zoomed} onOpenChange={(open) => !open && setZoomed(null)}>
+        <DialogContent className="max-w-5xl">
+          <DialogHeader>
+            <DialogTitle>{zoomed?.alt || zoomed?.name}</DialogTitle>
+            <DialogDescription className="sr-only">Enlarged attachment</DialogDescription>
+          </DialogHeader>
+          {zoomed && (
+            <div className="max-h-[80vh] overflow-auto">
+              <img src={zoomed.url} alt={zoomed.alt} className="mx-auto max-w-full" />
+            </div>
+          )}
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+};
+
+export default AttachmentGallery;
@@ -0,0 +1,142 @@
+import React, { useRef, useState } from 'react';
+import { useMutation } from '@tanstack/react-query';
+import { uploadQuestionAttachment } from '@/lib/api';
+import {
+  ATTACHMENT_ACCEPT,
+  defaultAltText,
+  getAttachmentKind,
+  QuestionAttachment,
+  validateAttachmentFile,
+} from '@/lib/attachments';
+import { toast } from '@/hooks/use-toast';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Progress } from '@/components/ui/progress';
+import { FileText, ImagePlus, Trash2 } from 'lucide-react';
+
+interface AttachmentUploaderProps {
+  attachments: QuestionAttachment[];
+  onChange: (attachments: QuestionAttachment[]) => void;
+  maxFiles?: number;
+  allowPdf?: boolean;
+  // Icon-only trigger, used next to MCQ options
+  compact?: boolean;
+}
+
+const AttachmentUploader = ({
+  attachments,
+  onChange,
+  maxFiles = 5,
+  allowPdf = true,
+  compact = false,
+}: AttachmentUploaderProps) => {
+  const inputRef = useRef<HTMLInputElement>(null);
+  const [progress, setProgress] = useState(0);
+
+  const uploadMutation = useMutation({
+    mutationFn: async (file: File) => {
+      const uploaded = await uploadQuestionAttachment(file, setProgress);
+      return {
+        url: uploaded.url,
+        kind: getAttachmentKind(file) || 'image',
+        name: uploaded.name || file.name,
+        alt: defaultAltText(file.name),
+      } as QuestionAttachment;
+    },
+    onSuccess: (attachment) => {
+      onChange([...attachments, attachment]);
+    },
+    onError: (error: { response?: { data?: { message?: string } } }) => {
+      toast({
+        title: "Upload failed",
+        description: error.response?.data?.message || "Failed to upload the file. Please try again.",
+        variant: "destructive"
+      });
+    },
+    onSettled: () => setProgress(0),
+  });
+
+  const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    const error = validateAttachmentFile(file, allowPdf);
+    if (error) {
+      toast({
+        title: "Invalid file",
+        description: error,
+        variant: "destructive"
+      });
+      return;
+    }
+    uploadMutation.mutate(file);
+  };
+
+  const updateAlt = (index: number, alt: string) => {
+    onChange(attachments.map((attachment, i) => i === index ? { ...attachment, alt } : attachment));
+  };
+
+  const canAddMore = attachments.length < maxFiles;
+
+  return (
+    <div className={compact ? 'flex items-center gap-2' : 'space-y-3'}>
+      <input
+        ref={inputRef}
+        type="file"
+        accept={allowPdf ? ATTACHMENT_ACCEPT : ATTACHMENT_ACCEPT.replace(',application/pdf', '')}
+        className="hidden"
+        onChange={handleFileChange}
+      />
+
+      {attachments.map((attachment, index) => (
+        <div key={attachment.url} className="flex items-center gap-2">
+          {attachment.kind === 'image' ? (
+            <img
+              src={attachment.url}
+              alt={attachment.alt}
+              className="h-12 w-12 object-cover rounded border bg-white flex-shrink-0"
+            />
+          ) : (
+            <div className="h-12 w-12 rounded border bg-gray-50 flex items-center justify-center flex-shrink-0">
+              <FileText className="h-5 w-5 text-gray-500" />
+            </div>
+          )}
+          <Input
+            placeholder="Describe this for screen readers"
+            value={attachment.alt}
+            onChange={(e) => updateAlt(index, e.target.value)}
+            className={compact ? 'h-9 w-48' : ''}
+            aria-label={`Alt text for ${attachment.name}`}
+          />
+          <Button
+            type="button"
+            variant="outline"
+            size="sm"
+            onClick={() => onChange(attachments.filter((_, i) => i !== index))}
+            aria-label={`Remove ${attachment.name}`}
+          >
+            <Trash2 className="h-4 w-4" />
+          </Button>
+        </div>
+      ))}
+
+      {uploadMutation.isPending && <Progress value={progress} className="h-1 w-32" />}
+
+      {canAddMore && !uploadMutation.isPending && (
+        <Button
+          type="button"
+          variant="outline"
+          size="sm"
+          onClick={() => inputRef.current?.click()}
+          aria-label="Attach image"
+        >
+          <ImagePlus className={compact ? 'h-4 w-4' : 'h-4 w-4 mr-2'} />
+          {!compact && (allowPdf ? 'Attach Image or PDF' : 'Attach Image')}
+        </Button>
+      )}
+    </div>
+  );
+};
+
+export default AttachmentUploader;
@@ -0,0 +1,113 @@
+import React from 'react';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { COLLEGE_STRUCTURE } from '@/lib/constants';
+import {
+  ExamAudience,
+  getDepartmentSpecializations,
+  getSchoolDepartments,
+  getSchoolSemesters,
+} from '@/lib/exam-audience';
+
+interface AudienceFieldsProps {
+  audience: ExamAudience;
+  onChange: (audience: ExamAudience) => void;
+}
+
+// Radix selects cannot hold an empty value, so "any" stands in for it
+const ANY = 'any';
+
+// Cohort pickers driven by COLLEGE_STRUCTURE. Changing a level clears the
+// levels below it.
+const AudienceFields = ({ audience, onChange }: AudienceFieldsProps) => {
+  const fromSelect = (value: string) => value === ANY ? undefined : value;
+
+  return (
+    <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
+      <div className="space-y-2">
+        <Label>School</Label>
+        <Select
+          value={audience.school || ANY}
+          onValueChange={(value) => onChange({ school: fromSelect(value), section: audience.section })}
+        >
+          <SelectTrigger className="h-11">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value={ANY}>All schools</SelectItem>
+            {Object.entries(COLLEGE_STRUCTURE).map(([code, school]) => (
+              <SelectItem key={code} value={code}>{school.name}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+      <div className="space-y-2">
+        <Label>Department</Label>
+        <Select
+          value={audience.department || ANY}
+          onValueChange={(value) => onChange({ ...audience, department: fromSelect(value), specialization: undefined })}
+          disabled={!audience.school}
+        >
+          <SelectTrigger className="h-11">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value={ANY}>All departments</SelectItem>
+            {getSchoolDepartments(audience.school).map(([code, name]) => (
+              <SelectItem key={code} value={code}>{name}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+      <div className="space-y-2">
+        <Label>Specialization</Label>
+        <Select
+          value={audience.specialization || ANY}
+          onValueChange={(value) => onChange({ ...audience, specialization: fromSelect(value) })}
+          disabled={!audience.department}
+        >
+          <SelectTrigger className="h-11">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value={ANY}>All specializations</SelectItem>
+            {getDepartmentSpecializations(audience.school, audience.department).map(specialization => (
+              <SelectItem key={specialization} value={specialization}>{specialization}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+      <div className="space-y-2">
+        <Label>Semester</Label>
+        <Select
+          value={audience.semester ? String(audience.semester) : ANY}
+          onValueChange={(value) => onChange({ ...audience, semester: value === ANY ? undefined : Number(value) })}
+          disabled={!audience.school}
+        >
+          <SelectTrigger className="h-11">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value={ANY}>All semesters</SelectItem>
+            {getSchoolSemesters(audience.school).map(semester => (
+              <SelectItem key={semester} value={String(semester)}>Semester {semester}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+      <div className="space-y-2">
+        <Label htmlFor="audience-section">Section (optional)</Label>
+        <Input
+          id="audience-section"
+          value={audience.section || ''}
+          onChange={(e) => onChange({ ...audience, section: e.target.value.trim() || undefined })}
+          placeholder="All sections"
+          className="h-11"
+        />
+      </div>
+    </div>
+  );
+};
+
+export default AudienceFields;
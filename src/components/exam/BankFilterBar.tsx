@@ -0,0 +1,115 @@
+import React from 'react';
+import { Input } from '@/components/ui/input';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Search, X } from 'lucide-react';
+import { QUESTION_TYPE_LABELS } from '@/lib/question-types';
+import {
+  BankFilters,
+  BLOOM_LEVEL_LABELS,
+  BloomLevel,
+  Difficulty,
+  DIFFICULTY_LABELS,
+  EMPTY_BANK_FILTERS,
+  hasBankFilters,
+} from '@/lib/question-bank';
+
+interface BankFilterBarProps {
+  filters: BankFilters;
+  onChange: (filters: BankFilters) => void;
+  // Tags in the subject's bank, offered as toggles
+  tags: string[];
+}
+
+// Radix Select cannot hold an empty value, so 'any' stands for no filter
+const ANY = 'any';
+
+const BankFilterBar = ({ filters, onChange, tags }: BankFilterBarProps) => {
+  const selectedTags = filters.tags || [];
+
+  const toggleTag = (tag: string) => onChange({
+    ...filters,
+    tags: selectedTags.includes(tag) ? selectedTags.filter(t => t !== tag) : [...selectedTags, tag],
+  });
+
+  return (
+    <div className="space-y-3">
+      <div className="flex flex-col lg:flex-row gap-2">
+        <div className="relative flex-1">
+          <Search className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-gray-400" />
+          <Input
+            value={filters.search || ''}
+            onChange={(e) => onChange({ ...filters, search: e.target.value })}
+            placeholder="Search question text, options, explanations and tags"
+            className="pl-9"
+          />
+        </div>
+        <Select
+          value={filters.type || ANY}
+          onValueChange={(value) => onChange({ ...filters, type: value === ANY ? undefined : value })}
+        >
+          <SelectTrigger className="lg:w-44">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value={ANY}>Any type</SelectItem>
+            {Object.entries(QUESTION_TYPE_LABELS).map(([type, label]) => (
+              <SelectItem key={type} value={type}>{label}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <Select
+          value={filters.difficulty || ANY}
+          onValueChange={(value) => onChange({ ...filters, difficulty: value === ANY ? undefined : value as Difficulty })}
+        >
+          <SelectTrigger className="lg:w-36">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value={ANY}>Any difficulty</SelectItem>
+            {Object.entries(DIFFICULTY_LABELS).map(([value, label]) => (
+              <SelectItem key={value} value={value}>{label}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <Select
+          value={filters.bloomLevel || ANY}
+          onValueChange={(value) => onChange({ ...filters, bloomLevel: value === ANY ? undefined : value as BloomLevel })}
+        >
+          <SelectTrigger className="lg:w-40">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value={ANY}>Any Bloom's level</SelectItem>
+            {Object.entries(BLOOM_LEVEL_LABELS).map(([value, label]) => (
+              <SelectItem key={value} value={value}>{label}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        {hasBankFilters(filters) && (
+          <Button variant="ghost" onClick={() => onChange(EMPTY_BANK_FILTERS)}>
+            <X className="h-4 w-4 mr-1" />
+            Clear
+          </Button>
+        )}
+      </div>
+      {tags.length > 0 && (
+        <div className="flex flex-wrap gap-2">
+          {tags.map(tag => (
+            <Badge
+              key={tag}
+              variant={selectedTags.includes(tag) ? 'default' : 'outline'}
+              className="cursor-pointer"
+              onClick={() => toggleTag(tag)}
+            >
+              #{tag}
+            </Badge>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default BankFilterBar;
@@ -0,0 +1,231 @@
+import React, { useEffect, useState } from 'react';
+import { useMutation, useQueryClient } from '@tanstack/react-query';
+import { createBankQuestion, updateBankQuestion } from '@/lib/api';
+import { toast } from '@/hooks/use-toast';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import {
+  createEmptyQuestion,
+  QUESTION_TYPE_LABELS,
+  QuestionDefinition,
+  QuestionType,
+  toQuestionPayload,
+  validateQuestion,
+} from '@/lib/question-types';
+import {
+  BankQuestion,
+  BankQuestionMetadata,
+  BLOOM_LEVEL_LABELS,
+  BloomLevel,
+  DEFAULT_BANK_METADATA,
+  Difficulty,
+  DIFFICULTY_LABELS,
+  parseTags,
+} from '@/lib/question-bank';
+import QuestionTypeFields from '@/components/exam/QuestionTypeFields';
+import AttachmentUploader from '@/components/exam/AttachmentUploader';
+
+interface BankQuestionDialogProps {
+  subjectId?: string;
+  open: boolean;
+  // The question being edited; a new question is created when this is null
+  question: BankQuestion | null;
+  onOpenChange: (open: boolean) => void;
+}
+
+const BankQuestionDialog = ({ subjectId, open, question, onOpenChange }: BankQuestionDialogProps) => {
+  const queryClient = useQueryClient();
+  const [form, setForm] = useState<Partial<QuestionDefinition>>(createEmptyQuestion('mcq'));
+  const [metadata, setMetadata] = useState<BankQuestionMetadata>(DEFAULT_BANK_METADATA);
+  const [tagsInput, setTagsInput] = useState('');
+
+  useEffect(() => {
+    if (!open) return;
+    setForm(question ? toQuestionPayload(question) : createEmptyQuestion('mcq'));
+    setMetadata(question
+      ? { tags: question.tags, difficulty: question.difficulty, bloomLevel: question.bloomLevel }
+      : DEFAULT_BANK_METADATA);
+    setTagsInput(question?.tags.join(', ') || '');
+  }, [open, question]);
+
+  const saveMutation = useMutation({
+    mutationFn: () => {
+      const data = {
+        ...toQuestionPayload({ ...form, marks: form.marks || 1 } as QuestionDefinition),
+        ...metadata,
+        tags: parseTags(tagsInput),
+      };
+      return question ? updateBankQuestion(question._id, data) : createBankQuestion(subjectId!, data);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['questionBank', subjectId] });
+      queryClient.invalidateQueries({ queryKey: ['questionBankTags', subjectId] });
+      toast({
+        title: question ? "Question updated" : "Question saved",
+        description: question
+          ? "Papers that already use this question keep their own copy"
+          : "The question is now in the subject's bank"
+      });
+      onOpenChange(false);
+    },
+    onError: (error: { response?: { data?: { message?: string } } }) => {
+      toast({
+        title: "Error",
+        description: error.response?.data?.message || "Failed to save question",
+        variant: "destructive"
+      });
+    }
+  });
+
+  const handleSave = () => {
+    const validationError = validateQuestion(form);
+    if (validationError) {
+      toast({
+        title: "Incomplete Question",
+        description: validationError,
+        variant: "destructive"
+      });
+      return;
+    }
+    saveMutation.mutate();
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>{question ? 'Edit Bank Question' : 'New Bank Question'}</DialogTitle>
+          <DialogDescription>
+            Bank questions can be picked into any paper for this subject.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="space-y-2">
+            <Label>Question Type</Label>
+            <Select
+              value={form.type}
+              onValueChange={(value) => setForm({
+                ...createEmptyQuestion(value as QuestionType),
+                question: form.question,
+                marks: form.marks,
+                explanation: form.explanation
+              })}
+            >
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {Object.entries(QUESTION_TYPE_LABELS).map(([type, label]) => (
+                  <SelectItem key={type} value={type}>{label}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          <div className="space-y-2">
+            <Label>Question Text</Label>
+            <Textarea
+              value={form.question || ''}
+              onChange={(e) => setForm({ ...form, question: e.target.value })}
+              placeholder="Enter your question here"
+            />
+          </div>
+
+          <div className="space-y-2">
+            <Label>Images and Diagrams</Label>
+            <AttachmentUploader
+              attachments={form.attachments || []}
+              onChange={(attachments) => setForm({ ...form, attachments })}
+            />
+          </div>
+
+          <QuestionTypeFields question={form} onChange={setForm} />
+
+          <div className="space-y-2">
+            <Label>Explanation (optional)</Label>
+            <Textarea
+              value={form.explanation || ''}
+              onChange={(e) => setForm({ ...form, explanation: e.target.value })}
+            />
+          </div>
+
+          <div className="grid grid-cols-1 sm:grid-cols-3 gap-4">
+            <div className="space-y-2">
+              <Label>Marks</Label>
+              <Input
+                type="number"
+                min="1"
+                value={form.marks}
+                onChange={(e) => setForm({ ...form, marks: parseInt(e.target.value) || 1 })}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label>Difficulty</Label>
+              <Select
+                value={metadata.difficulty}
+                onValueChange={(value) => setMetadata({ ...metadata, difficulty: value as Difficulty })}
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {Object.entries(DIFFICULTY_LABELS).map(([value, label]) => (
+                    <SelectItem key={value} value={value}>{label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label>Bloom's Level</Label>
+              <Select
+                value={metadata.bloomLevel}
+                onValueChange={(value) => setMetadata({ ...metadata, bloomLevel: value as BloomLevel })}
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {Object.entries(BLOOM_LEVEL_LABELS).map(([value, label]) => (
+                    <SelectItem key={value} value={value}>{label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="bank-tags">Topic Tags</Label>
+            <Input
+              id="bank-tags"
+              value={tagsInput}
+              onChange={(e) => setTagsInput(e.target.value)}
+              placeholder="e.g. algebra, linear equations"
+            />
+            <p className="text-xs text-gray-500">Separate tags with commas.</p>
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>Cancel</Button>
+          <Button onClick={handleSave} disabled={saveMutation.isPending}>
+            {saveMutation.isPending ? 'Saving...' : 'Save Question'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default BankQuestionDialog;
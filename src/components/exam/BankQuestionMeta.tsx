@@ -0,0 +1,38 @@
+import React from 'react';
+import { Badge } from '@/components/ui/badge';
+import { History } from 'lucide-react';
+import { QUESTION_TYPE_LABELS } from '@/lib/question-types';
+import {
+  BankQuestion,
+  BLOOM_LEVEL_LABELS,
+  DIFFICULTY_BADGE_STYLES,
+  DIFFICULTY_LABELS,
+} from '@/lib/question-bank';
+
+interface BankQuestionMetaProps {
+  question: BankQuestion;
+}
+
+// Type, marks, difficulty, Bloom's level, tags and usage of a bank question
+const BankQuestionMeta = ({ question }: BankQuestionMetaProps) => (
+  <div className="flex flex-wrap items-center gap-2">
+    <Badge variant="outline">{QUESTION_TYPE_LABELS[question.type] || question.type}</Badge>
+    <Badge variant="secondary">{question.marks} {question.marks === 1 ? 'mark' : 'marks'}</Badge>
+    <Badge variant="outline" className={DIFFICULTY_BADGE_STYLES[question.difficulty]}>
+      {DIFFICULTY_LABELS[question.difficulty]}
+    </Badge>
+    <Badge variant="outline">{BLOOM_LEVEL_LABELS[question.bloomLevel]}</Badge>
+    {question.tags.map(tag => (
+      <span key={tag} className="text-xs text-gray-500">#{tag}</span>
+    ))}
+    <span
+      className="flex items-center text-xs text-gray-500"
+      title={question.usage.map(use => use.paper.title).join(', ')}
+    >
+      <History className="h-3 w-3 mr-1" />
+      {question.usage.length ? `Used in ${question.usage.length} ${question.usage.length === 1 ? 'paper' : 'papers'}` : 'Never used'}
+    </span>
+  </div>
+);
+
+export default BankQuestionMeta;
@@ -0,0 +1,238 @@
+import React, { useEffect, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { AlertCircle, Plus, Trash2 } from 'lucide-react';
+import { useQuestionBank } from '@/hooks/use-question-bank';
+import { QUESTION_TYPE_LABELS, QuestionType } from '@/lib/question-types';
+import { DIFFICULTY_LABELS, Difficulty, EMPTY_BANK_FILTERS } from '@/lib/question-bank';
+import {
+  Blueprint,
+  BlueprintResult,
+  DEFAULT_BLUEPRINT,
+  generateFromBlueprint,
+  getBlueprintTotals,
+  getSetCode,
+  MAX_PAPER_SETS,
+} from '@/lib/blueprint';
+
+interface BlueprintDialogProps {
+  subjectId?: string;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onGenerate: (result: BlueprintResult) => void;
+}
+
+const BlueprintDialog = ({ subjectId, open, onOpenChange, onGenerate }: BlueprintDialogProps) => {
+  const [blueprint, setBlueprint] = useState<Blueprint>(DEFAULT_BLUEPRINT);
+  const [issues, setIssues] = useState<string[]>([]);
+  const { questions: bank, tags, isLoading } = useQuestionBank(subjectId, EMPTY_BANK_FILTERS, open);
+  const totals = getBlueprintTotals(blueprint);
+
+  useEffect(() => {
+    setIssues([]);
+  }, [open, blueprint]);
+
+  const updateRow = (index: number, changes: Partial<Blueprint['rows'][number]>) => setBlueprint({
+    ...blueprint,
+    rows: blueprint.rows.map((row, i) => i === index ? { ...row, ...changes } : row),
+  });
+
+  const toggleUnit = (tag: string) => setBlueprint({
+    ...blueprint,
+    units: blueprint.units.includes(tag) ? blueprint.units.filter(unit => unit !== tag) : [...blueprint.units, tag],
+  });
+
+  const handleGenerate = () => {
+    const result = generateFromBlueprint(bank, blueprint);
+    if (result.issues.length) {
+      setIssues(result.issues);
+      return;
+    }
+    onGenerate(result);
+    onOpenChange(false);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Generate from Blueprint</DialogTitle>
+          <DialogDescription>
+            Describe the paper and questions are drawn from this subject's bank ({bank.length} questions).
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-6">
+          <div className="space-y-2">
+            <Label>Questions</Label>
+            {blueprint.rows.map((row, index) => (
+              <div key={index} className="flex items-center gap-2">
+                <Input
+                  type="number"
+                  min="1"
+                  value={row.count}
+                  onChange={(e) => updateRow(index, { count: Math.max(0, parseInt(e.target.value) || 0) })}
+                  className="w-20"
+                  aria-label="Number of questions"
+                />
+                <Select value={row.type} onValueChange={(value) => updateRow(index, { type: value as QuestionType })}>
+                  <SelectTrigger className="flex-1">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {Object.entries(QUESTION_TYPE_LABELS).map(([type, label]) => (
+                      <SelectItem key={type} value={type}>{label}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <span className="text-sm text-gray-500">of</span>
+                <Input
+                  type="number"
+                  min="1"
+                  value={row.marks}
+                  onChange={(e) => updateRow(index, { marks: Math.max(0, parseInt(e.target.value) || 0) })}
+                  className="w-20"
+                  aria-label="Marks per question"
+                />
+                <span className="text-sm text-gray-500">marks</span>
+                <Button
+                  type="button"
+                  size="icon"
+                  variant="ghost"
+                  onClick={() => setBlueprint({ ...blueprint, rows: blueprint.rows.filter((_, i) => i !== index) })}
+                >
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+              </div>
+            ))}
+            <div className="flex items-center justify-between">
+              <Button
+                type="button"
+                variant="outline"
+                size="sm"
+                onClick={() => setBlueprint({ ...blueprint, rows: [...blueprint.rows, { type: 'mcq', count: 1, marks: 1 }] })}
+              >
+                <Plus className="h-4 w-4 mr-2" />
+                Add Row
+              </Button>
+              <p className="text-sm text-gray-600">
+                {totals.questions} questions • {totals.marks} marks
+              </p>
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <Label>Difficulty mix (% of marks)</Label>
+            <div className="grid grid-cols-3 gap-4">
+              {(Object.keys(DIFFICULTY_LABELS) as Difficulty[]).map(difficulty => (
+                <div key={difficulty} className="space-y-1">
+                  <span className="text-sm text-gray-600">{DIFFICULTY_LABELS[difficulty]}</span>
+                  <Input
+                    type="number"
+                    min="0"
+                    max="100"
+                    value={blueprint.difficultyMix[difficulty]}
+                    onChange={(e) => setBlueprint({
+                      ...blueprint,
+                      difficultyMix: { ...blueprint.difficultyMix, [difficulty]: Math.max(0, parseInt(e.target.value) || 0) },
+                    })}
+                  />
+                </div>
+              ))}
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <Label>Units</Label>
+            {tags.length ? (
+              <>
+                <div className="flex flex-wrap gap-2">
+                  {tags.map(tag => (
+                    <Badge
+                      key={tag}
+                      variant={blueprint.units.includes(tag) ? 'default' : 'outline'}
+                      className="cursor-pointer"
+                      onClick={() => toggleUnit(tag)}
+                    >
+                      #{tag}
+                    </Badge>
+                  ))}
+                </div>
+                {blueprint.units.length > 0 && (
+                  <div className="flex items-center gap-2">
+                    <span className="text-sm text-gray-600">At least</span>
+                    <Input
+                      type="number"
+                      min="1"
+                      value={blueprint.minPerUnit}
+                      onChange={(e) => setBlueprint({ ...blueprint, minPerUnit: Math.max(1, parseInt(e.target.value) || 1) })}
+                      className="w-20"
+                    />
+                    <span className="text-sm text-gray-600">questions from each selected unit</span>
+                  </div>
+                )}
+              </>
+            ) : (
+              <p className="text-sm text-gray-500">Tag bank questions by unit to require coverage of each unit.</p>
+            )}
+          </div>
+
+          <div className="space-y-2">
+            <Label>Sets</Label>
+            <Select
+              value={String(blueprint.sets)}
+              onValueChange={(value) => setBlueprint({ ...blueprint, sets: Number(value) })}
+            >
+              <SelectTrigger className="w-48">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {Array.from({ length: MAX_PAPER_SETS }, (_, index) => (
+                  <SelectItem key={index} value={String(index + 1)}>
+                    {index === 0 ? 'One paper' : `${index + 1} sets (A–${getSetCode(index)})`}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <p className="text-xs text-gray-500">
+              Sets have the same types, marks and difficulty mix, with different questions where the bank allows.
+            </p>
+          </div>
+
+          {issues.length > 0 && (
+            <Alert variant="destructive">
+              <AlertCircle className="h-4 w-4" />
+              <AlertTitle>The blueprint can't be met</AlertTitle>
+              <AlertDescription>
+                <ul className="list-disc pl-4 space-y-1">
+                  {issues.map(issue => <li key={issue}>{issue}</li>)}
+                </ul>
+              </AlertDescription>
+            </Alert>
+          )}
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>Cancel</Button>
+          <Button onClick={handleGenerate} disabled={isLoading}>
+            {isLoading ? 'Loading bank...' : 'Generate'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default BlueprintDialog;
@@ -0,0 +1,100 @@
+import React, { useState } from 'react';
+import { useMutation } from '@tanstack/react-query';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Play } from 'lucide-react';
+import { toast } from '@/hooks/use-toast';
+import {
+  CODE_LANGUAGE_LABELS,
+  CodeLanguage,
+  CodeSettings,
+  getSampleTestCases,
+  parseCodeAnswer,
+  serializeCodeAnswer,
+} from '@/lib/code-questions';
+import { runTestCases } from '@/lib/code-runner';
+import CodeEditor from './CodeEditor';
+import CodeTestResults from './CodeTestResults';
+
+interface CodeAnswerInputProps {
+  settings: CodeSettings;
+  value: string;
+  onChange: (value: string) => void;
+}
+
+// Editor plus a runner for the sample test cases. Hidden cases never reach
+// the student; the server runs them when the submission is graded.
+const CodeAnswerInput = ({ settings, value, onChange }: CodeAnswerInputProps) => {
+  const answer = parseCodeAnswer(value);
+  const [language, setLanguage] = useState<CodeLanguage>(answer?.language || settings.languages[0] || 'python');
+  const starterCode = settings.starterCode[language] || '';
+  const code = answer?.language === language ? answer.code : starterCode;
+
+  const sampleTests = getSampleTestCases(settings);
+
+  const runMutation = useMutation({
+    mutationFn: () => runTestCases(language, code, sampleTests, { timeLimitMs: settings.timeLimitMs }),
+    onError: (error: Error) => {
+      toast({
+        title: "Could not run your code",
+        description: error.message || "The code runner is unavailable. Your answer is still saved.",
+        variant: "destructive"
+      });
+    }
+  });
+
+  const handleCodeChange = (nextCode: string) => {
+    onChange(serializeCodeAnswer({ language, code: nextCode }, starterCode));
+  };
+
+  // Switching language keeps written code; untouched starter code is replaced
+  const handleLanguageChange = (next: string) => {
+    const nextLanguage = next as CodeLanguage;
+    setLanguage(nextLanguage);
+    runMutation.reset();
+    if (answer) {
+      onChange(JSON.stringify({ language: nextLanguage, code: answer.code }));
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-wrap items-center justify-between gap-2">
+        <div className="flex items-center gap-2">
+          <Label>Language</Label>
+          <Select value={language} onValueChange={handleLanguageChange}>
+            <SelectTrigger className="w-40">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {settings.languages.map(option => (
+                <SelectItem key={option} value={option}>{CODE_LANGUAGE_LABELS[option]}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <Button
+          type="button"
+          variant="outline"
+          onClick={() => runMutation.mutate()}
+          disabled={runMutation.isPending || sampleTests.length === 0 || !code.trim()}
+        >
+          <Play className="h-4 w-4 mr-2" />
+          {runMutation.isPending ? 'Running...' : `Run Sample Tests (${sampleTests.length})`}
+        </Button>
+      </div>
+
+      <CodeEditor value={code} onChange={handleCodeChange} language={language} />
+
+      <p className="text-xs text-gray-500">
+        Read input from stdin and print your output.
+        {!!settings.hiddenTestCount && ` ${settings.hiddenTestCount} hidden test ${settings.hiddenTestCount === 1 ? 'case is' : 'cases are'} run when your exam is graded.`}
+      </p>
+
+      {runMutation.data && <CodeTestResults results={runMutation.data} testCases={sampleTests} />}
+    </div>
+  );
+};
+
+export default CodeAnswerInput;
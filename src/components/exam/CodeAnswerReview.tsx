@@ -0,0 +1,81 @@
+import React from 'react';
+import { useMutation } from '@tanstack/react-query';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Play } from 'lucide-react';
+import { toast } from '@/hooks/use-toast';
+import { CODE_LANGUAGE_LABELS, CodeSettings, parseCodeAnswer, scoreTestResults, TestCaseResult } from '@/lib/code-questions';
+import { runSubmissionTests } from '@/lib/api';
+import CodeEditor from './CodeEditor';
+import CodeTestResults from './CodeTestResults';
+
+interface CodeAnswerReviewProps {
+  submissionId: string;
+  questionIndex: number;
+  settings: CodeSettings;
+  answer: string;
+  // Results of the run made when the exam was submitted
+  testResults?: TestCaseResult[];
+  maxMarks: number;
+  // Called with the marks earned once every test case has run again
+  onScored: (marks: number) => void;
+}
+
+// Student code with its test results, hidden cases included. The marks are
+// pre-filled from the run made on submission; the reviewer can run the tests
+// again on the server, so the code never executes in the reviewer's browser.
+const CodeAnswerReview = ({ submissionId, questionIndex, settings, answer, testResults, maxMarks, onScored }: CodeAnswerReviewProps) => {
+  const code = parseCodeAnswer(answer);
+
+  const runMutation = useMutation<TestCaseResult[], Error>({
+    mutationFn: () => runSubmissionTests(submissionId, questionIndex),
+    onSuccess: (results) => {
+      const score = scoreTestResults(results, settings.testCases, maxMarks);
+      onScored(score);
+      toast({
+        title: "Tests complete",
+        description: `${results.filter(result => result.passed).length} of ${results.length} passed. ${score} marks applied.`
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to run the test cases",
+        variant: "destructive"
+      });
+    }
+  });
+
+  const results = runMutation.data || testResults;
+
+  if (!code) {
+    return <div className="p-3 bg-gray-50 rounded-lg">No answer provided</div>;
+  }
+
+  return (
+    <div className="space-y-3">
+      <div className="flex flex-wrap items-center justify-between gap-2">
+        <Badge variant="outline">{CODE_LANGUAGE_LABELS[code.language] || code.language}</Badge>
+        <Button
+          variant="outline"
+          size="sm"
+          onClick={() => runMutation.mutate()}
+          disabled={runMutation.isPending}
+        >
+          <Play className="h-4 w-4 mr-2" />
+          {runMutation.isPending
+            ? 'Running...'
+            : `${testResults?.length ? 'Re-run' : 'Run'} All Tests (${settings.testCases.length})`}
+        </Button>
+      </div>
+      <CodeEditor value={code.code} language={code.language} readOnly />
+      {results?.length ? (
+        <CodeTestResults results={results} testCases={settings.testCases} showHiddenDetails />
+      ) : (
+        <p className="text-sm text-gray-500">These tests have not been run yet.</p>
+      )}
+    </div>
+  );
+};
+
+export default CodeAnswerReview;
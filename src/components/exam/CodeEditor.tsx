@@ -0,0 +1,43 @@
+import React from 'react';
+import Editor from 'react-simple-code-editor';
+import Prism from 'prismjs';
+import 'prismjs/components/prism-clike';
+import 'prismjs/components/prism-c';
+import 'prismjs/components/prism-cpp';
+import 'prismjs/components/prism-java';
+import 'prismjs/components/prism-python';
+import 'prismjs/themes/prism.css';
+import { CodeLanguage } from '@/lib/code-questions';
+import { cn } from '@/lib/utils';
+
+interface CodeEditorProps {
+  value: string;
+  onChange?: (value: string) => void;
+  language: CodeLanguage;
+  readOnly?: boolean;
+  className?: string;
+}
+
+const highlight = (code: string, language: CodeLanguage) => {
+  const grammar = Prism.languages[language] || Prism.languages.clike;
+  return Prism.highlight(code, grammar, language);
+};
+
+const CodeEditor = ({ value, onChange, language, readOnly = false, className }: CodeEditorProps) => (
+  <div className={cn('rounded-md border bg-gray-50 overflow-auto', readOnly ? '' : 'min-h-[240px]', className)}>
+    <Editor
+      value={value}
+      onValueChange={(code) => onChange?.(code)}
+      highlight={(code) => highlight(code, language)}
+      readOnly={readOnly}
+      padding={12}
+      tabSize={4}
+      insertSpaces
+      textareaClassName="focus:outline-none"
+      className="font-mono text-sm"
+      style={{ minHeight: readOnly ? undefined : 240 }}
+    />
+  </div>
+);
+
+export default CodeEditor;
@@ -0,0 +1,165 @@
+import React, { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { Textarea } from '@/components/ui/textarea';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Plus, Trash2 } from 'lucide-react';
+import { CODE_LANGUAGE_LABELS, CodeLanguage, CodeSettings, CodeTestCase } from '@/lib/code-questions';
+import CodeEditor from './CodeEditor';
+
+interface CodeQuestionFieldsProps {
+  settings: CodeSettings;
+  onChange: (settings: CodeSettings) => void;
+}
+
+const CodeQuestionFields = ({ settings, onChange }: CodeQuestionFieldsProps) => {
+  const [starterLanguage, setStarterLanguage] = useState<CodeLanguage>(settings.languages[0] || 'python');
+  const update = (changes: Partial<CodeSettings>) => onChange({ ...settings, ...changes });
+
+  const toggleLanguage = (language: CodeLanguage, checked: boolean) => {
+    const languages = checked
+      ? (Object.keys(CODE_LANGUAGE_LABELS) as CodeLanguage[]).filter(l => l === language || settings.languages.includes(l))
+      : settings.languages.filter(l => l !== language);
+    update({ languages });
+    if (!languages.includes(starterLanguage) && languages[0]) {
+      setStarterLanguage(languages[0]);
+    }
+  };
+
+  const updateTestCase = (index: number, changes: Partial<CodeTestCase>) => {
+    update({ testCases: settings.testCases.map((test, i) => i === index ? { ...test, ...changes } : test) });
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="space-y-2">
+        <Label>Allowed Languages</Label>
+        <div className="flex flex-wrap gap-4">
+          {(Object.entries(CODE_LANGUAGE_LABELS) as [CodeLanguage, string][]).map(([language, label]) => (
+            <div key={language} className="flex items-center gap-2">
+              <Checkbox
+                id={`language-${language}`}
+                checked={settings.languages.includes(language)}
+                onCheckedChange={(checked) => toggleLanguage(language, checked === true)}
+              />
+              <Label htmlFor={`language-${language}`}>{label}</Label>
+            </div>
+          ))}
+        </div>
+        <p className="text-sm text-gray-500">Answers run on the server runner. Hidden test cases are never sent to students.</p>
+      </div>
+
+      <div className="space-y-2">
+        <Label htmlFor="time-limit">Time Limit per Test (seconds)</Label>
+        <Input
+          id="time-limit"
+          type="number"
+          min="1"
+          max="30"
+          value={settings.timeLimitMs / 1000}
+          onChange={(e) => update({ timeLimitMs: Math.min(Math.max(Number(e.target.value) || 1, 1), 30) * 1000 })}
+          className="w-32"
+        />
+      </div>
+
+      {settings.languages.length > 0 && (
+        <div className="space-y-2">
+          <div className="flex items-center justify-between gap-2">
+            <Label>Starter Code (optional)</Label>
+            <Select value={starterLanguage} onValueChange={(value) => setStarterLanguage(value as CodeLanguage)}>
+              <SelectTrigger className="w-40">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {settings.languages.map(language => (
+                  <SelectItem key={language} value={language}>{CODE_LANGUAGE_LABELS[language]}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <CodeEditor
+            value={settings.starterCode[starterLanguage] || ''}
+            onChange={(code) => update({ starterCode: { ...settings.starterCode, [starterLanguage]: code } })}
+            language={starterLanguage}
+            className="min-h-[120px]"
+          />
+        </div>
+      )}
+
+      <div className="space-y-3">
+        <Label>Test Cases</Label>
+        <p className="text-sm text-gray-500">
+          Sample cases can be run by students during the exam. Hidden cases are only run when grading.
+          Marks are split by weight.
+        </p>
+        {settings.testCases.map((test, index) => (
+          <div key={index} className="p-4 border rounded-lg space-y-3">
+            <div className="flex flex-wrap items-center justify-between gap-2">
+              <span className="font-medium text-sm">Test {index + 1}</span>
+              <div className="flex items-center gap-4">
+                <div className="flex items-center gap-2">
+                  <Switch
+                    id={`hidden-${index}`}
+                    checked={test.hidden}
+                    onCheckedChange={(checked) => updateTestCase(index, { hidden: checked })}
+                  />
+                  <Label htmlFor={`hidden-${index}`}>Hidden</Label>
+                </div>
+                <div className="flex items-center gap-2">
+                  <Label htmlFor={`weight-${index}`}>Weight</Label>
+                  <Input
+                    id={`weight-${index}`}
+                    type="number"
+                    min="1"
+                    value={test.weight}
+                    onChange={(e) => updateTestCase(index, { weight: Math.max(parseInt(e.target.value) || 1, 1) })}
+                    className="w-20 h-9"
+                  />
+                </div>
+                <Button
+                  type="button"
+                  variant="outline"
+                  size="sm"
+                  disabled={settings.testCases.length <= 1}
+                  onClick={() => update({ testCases: settings.testCases.filter((_, i) => i !== index) })}
+                >
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+              </div>
+            </div>
+            <div className="grid gap-3 md:grid-cols-2">
+              <Textarea
+                placeholder="Input (stdin)"
+                value={test.input}
+                onChange={(e) => updateTestCase(index, { input: e.target.value })}
+                className="font-mono text-sm"
+              />
+              <Textarea
+                placeholder="Expected output"
+                value={test.expectedOutput}
+                onChange={(e) => updateTestCase(index, { expectedOutput: e.target.value })}
+                className="font-mono text-sm"
+              />
+            </div>
+          </div>
+        ))}
+        <Button
+          type="button"
+          variant="outline"
+          size="sm"
+          onClick={() => update({
+            testCases: [...settings.testCases, { input: '', expectedOutput: '', hidden: true, weight: 1 }]
+          })}
+        >
+          <Plus className="h-4 w-4 mr-2" />
+          Add Test Case
+        </Button>
+      </div>
+    </div>
+  );
+};
+
+export default CodeQuestionFields;
@@ -0,0 +1,86 @@
+import React from 'react';
+import { Badge } from '@/components/ui/badge';
+import { CheckCircle, Clock, EyeOff, XCircle } from 'lucide-react';
+import { CodeTestCase, TestCaseResult } from '@/lib/code-questions';
+
+interface CodeTestResultsProps {
+  results: TestCaseResult[];
+  testCases: CodeTestCase[];
+  // Faculty see the input and expected output of hidden cases too
+  showHiddenDetails?: boolean;
+}
+
+const OutputBlock = ({ label, value }: { label: string; value: string }) => (
+  <div className="space-y-1">
+    <div className="text-xs font-medium text-gray-500">{label}</div>
+    <pre className="text-xs bg-white border rounded p-2 whitespace-pre-wrap break-all max-h-40 overflow-auto">
+      {value || '(empty)'}
+    </pre>
+  </div>
+);
+
+const CodeTestResults = ({ results, testCases, showHiddenDetails = false }: CodeTestResultsProps) => {
+  if (results.length === 0) {
+    return null;
+  }
+
+  const passed = results.filter(result => result.passed).length;
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center gap-2 text-sm">
+        <span className="font-medium">Test results</span>
+        <Badge
+          variant="outline"
+          className={passed === results.length
+            ? 'bg-green-50 text-green-700 border-green-300'
+            : 'bg-red-50 text-red-700 border-red-300'}
+        >
+          {passed}/{results.length} passed
+        </Badge>
+      </div>
+      {results.map(result => {
+        const testCase = testCases[result.index];
+        const showDetails = !result.hidden || showHiddenDetails;
+        return (
+          <div
+            key={result.index}
+            className={`p-3 rounded-lg border space-y-2 ${result.passed ? 'bg-green-50 border-green-200' : 'bg-red-50 border-red-200'}`}
+          >
+            <div className="flex items-center gap-2 text-sm font-medium">
+              {result.passed ? (
+                <CheckCircle className="h-4 w-4 text-green-600" />
+              ) : result.timedOut ? (
+                <Clock className="h-4 w-4 text-red-600" />
+              ) : (
+                <XCircle className="h-4 w-4 text-red-600" />
+              )}
+              Test {result.index + 1}
+              {result.hidden && (
+                <Badge variant="outline" className="text-xs">
+                  <EyeOff className="h-3 w-3 mr-1" />
+                  Hidden
+                </Badge>
+              )}
+              {testCase && testCase.weight !== 1 && (
+                <span className="text-xs text-gray-500">weight {testCase.weight}</span>
+              )}
+            </div>
+            {showDetails && testCase && !result.passed && (
+              <div className="grid gap-2 md:grid-cols-3">
+                <OutputBlock label="Input" value={testCase.input} />
+                <OutputBlock label="Expected output" value={testCase.expectedOutput} />
+                <OutputBlock label="Actual output" value={result.stdout} />
+              </div>
+            )}
+            {result.stderr && (showDetails || result.timedOut) && (
+              <pre className="text-xs text-red-700 whitespace-pre-wrap break-all max-h-40 overflow-auto">{result.stderr}</pre>
+            )}
+          </div>
+        );
+      })}
+    </div>
+  );
+};
+
+export default CodeTestResults;
@@ -0,0 +1,81 @@
+import React from 'react';
+import { format, startOfDay } from 'date-fns';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { AlertTriangle } from 'lucide-react';
+import { formatAudience } from '@/lib/exam-audience';
+import { findScheduleClashes, getExamSlot, ScheduledPaper } from '@/lib/exam-schedule';
+
+interface ExamTimetableProps {
+  schedule: ScheduledPaper[];
+  // Only days from here on are shown
+  from?: number;
+}
+
+// Upcoming scheduled papers by day, with clashing entries marked
+const ExamTimetable = ({ schedule, from = startOfDay(Date.now()).getTime() }: ExamTimetableProps) => {
+  const entries = schedule
+    .map(paper => ({ paper, slot: getExamSlot(paper) }))
+    .filter(entry => entry.slot && entry.slot.end >= from)
+    .sort((a, b) => a.slot!.start - b.slot!.start);
+
+  const days = entries.reduce<Record<string, typeof entries>>((groups, entry) => {
+    const day = format(entry.slot!.start, 'yyyy-MM-dd');
+    (groups[day] = groups[day] || []).push(entry);
+    return groups;
+  }, {});
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Exam Timetable</CardTitle>
+        <CardDescription>Pending and approved papers with a schedule</CardDescription>
+      </CardHeader>
+      <CardContent>
+        {entries.length === 0 ? (
+          <p className="text-sm text-gray-500">No exams are scheduled.</p>
+        ) : (
+          <div className="space-y-6">
+            {Object.entries(days).map(([day, dayEntries]) => (
+              <div key={day} className="space-y-2">
+                <h3 className="font-semibold text-gray-900">{format(new Date(`${day}T00:00`), 'EEEE, d MMMM yyyy')}</h3>
+                <div className="divide-y rounded-lg border">
+                  {dayEntries.map(({ paper, slot }) => {
+                    const clashes = findScheduleClashes(paper, schedule);
+                    return (
+                      <div key={paper._id} className="flex flex-col sm:flex-row sm:items-center justify-between gap-2 p-3">
+                        <div>
+                          <div className="font-medium">
+                            {format(slot!.start, 'p')} – {format(slot!.end, 'p')} • {paper.title}
+                          </div>
+                          <div className="text-sm text-gray-500">
+                            {paper.subject?.name && `${paper.subject.name} • `}{formatAudience(paper.audience)}
+                          </div>
+                        </div>
+                        <div className="flex flex-wrap gap-2">
+                          {paper.status === 'pending' && <Badge variant="outline">Pending</Badge>}
+                          {clashes.length > 0 && (
+                            <Badge
+                              variant="outline"
+                              className="bg-red-50 text-red-700 border-red-300"
+                              title={clashes.map(clash => clash.paper.title).join(', ')}
+                            >
+                              <AlertTriangle className="h-3 w-3 mr-1" />
+                              {paper.clashOverrideReason ? 'Clash (overridden)' : 'Clash'}
+                            </Badge>
+                          )}
+                        </div>
+                      </div>
+                    );
+                  })}
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default ExamTimetable;
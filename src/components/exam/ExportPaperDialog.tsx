@@ -0,0 +1,195 @@
+import React, { useEffect, useState } from 'react';
+import { useQuery } from '@tanstack/react-query';
+import { getPaper } from '@/lib/api';
+import { toast } from '@/hooks/use-toast';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { downloadBlob } from '@/lib/pdf';
+import { printElement } from '@/lib/print';
+import { getSetCode, MAX_PAPER_SETS } from '@/lib/blueprint';
+import {
+  createDocxExports,
+  DEFAULT_INSTITUTION,
+  EXPORT_FORMAT_LABELS,
+  ExportFormat,
+  getAllPaperLines,
+  getAnswerKeyLines,
+  PaperExportOptions,
+  PrintablePaper,
+  PrintLine,
+} from '@/lib/paper-export';
+import PrintDocument from './PrintDocument';
+
+interface ExportPaperDialogProps {
+  paperId: string | null;
+  onOpenChange: (open: boolean) => void;
+}
+
+const DEFAULT_OPTIONS: PaperExportOptions = {
+  format: 'pdf',
+  institution: DEFAULT_INSTITUTION,
+  sets: 1,
+  answerKey: true,
+};
+
+const ExportPaperDialog = ({ paperId, onOpenChange }: ExportPaperDialogProps) => {
+  const [options, setOptions] = useState<PaperExportOptions>(DEFAULT_OPTIONS);
+  const [isExporting, setIsExporting] = useState(false);
+
+  const { data: paper, isLoading } = useQuery<PrintablePaper>({
+    queryKey: ['paper', paperId],
+    queryFn: () => getPaper(paperId!),
+    enabled: !!paperId,
+  });
+
+  useEffect(() => {
+    if (paperId) {
+      setOptions(DEFAULT_OPTIONS);
+    }
+  }, [paperId]);
+
+  const exportOptions = { ...options, institution: options.institution.trim() || DEFAULT_INSTITUTION };
+
+  const handlePrint = async (lines: PrintLine[], title: string) => {
+    setIsExporting(true);
+    try {
+      await printElement(<PrintDocument lines={lines} />, title);
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  const handleDownload = async () => {
+    setIsExporting(true);
+    try {
+      const files = await createDocxExports(paper!, exportOptions);
+      files.forEach(({ blob, filename }) => downloadBlob(blob, filename));
+      toast({
+        title: "Export ready",
+        description: `${files.length} ${files.length === 1 ? 'file' : 'files'} downloaded`
+      });
+      onOpenChange(false);
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  return (
+    <Dialog open={!!paperId} onOpenChange={onOpenChange}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Export for Printing</DialogTitle>
+          <DialogDescription>
+            {paper ? `${paper.title} • ${paper.questions.length} questions` : 'Loading paper...'}
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="export-institution">Institution header</Label>
+            <Input
+              id="export-institution"
+              value={options.institution}
+              onChange={(e) => setOptions({ ...options, institution: e.target.value })}
+            />
+          </div>
+
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label>Format</Label>
+              <Select value={options.format} onValueChange={(value) => setOptions({ ...options, format: value as ExportFormat })}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {Object.entries(EXPORT_FORMAT_LABELS).map(([value, label]) => (
+                    <SelectItem key={value} value={value}>{label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label>Sets</Label>
+              <Select value={String(options.sets)} onValueChange={(value) => setOptions({ ...options, sets: Number(value) })}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {Array.from({ length: MAX_PAPER_SETS }, (_, index) => (
+                    <SelectItem key={index} value={String(index + 1)}>
+                      {index === 0 ? 'Single paper' : `${index + 1} sets (A–${getSetCode(index)})`}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+          {options.format === 'pdf' && (
+            <p className="text-xs text-gray-500">
+              Opens the print dialog; choose "Save as PDF" as the printer to keep a file.
+            </p>
+          )}
+          {options.sets > 1 && (
+            <p className="text-xs text-gray-500">
+              Set A keeps the paper's order; the other sets shuffle questions within sections and options. Each set is printed with its set code.
+            </p>
+          )}
+
+          <div className="flex items-center justify-between gap-4">
+            <div>
+              <Label htmlFor="export-answer-key">Answer key and marking scheme</Label>
+              <p className="text-xs text-gray-500">
+                {options.format === 'pdf' ? 'Printed separately' : 'Exported as a separate file'}, covering every set
+              </p>
+            </div>
+            <Switch
+              id="export-answer-key"
+              checked={options.answerKey}
+              onCheckedChange={(answerKey) => setOptions({ ...options, answerKey })}
+            />
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>Cancel</Button>
+          {options.format === 'pdf' ? (
+            <>
+              {options.answerKey && (
+                <Button
+                  variant="outline"
+                  onClick={() => handlePrint(getAnswerKeyLines(paper!, exportOptions), `${paper!.title} - Answer Key`)}
+                  disabled={isLoading || !paper || isExporting}
+                >
+                  Print Answer Key
+                </Button>
+              )}
+              <Button
+                onClick={() => handlePrint(getAllPaperLines(paper!, exportOptions), paper!.title)}
+                disabled={isLoading || !paper || isExporting}
+              >
+                Print Papers
+              </Button>
+            </>
+          ) : (
+            <Button onClick={handleDownload} disabled={isLoading || !paper || isExporting}>
+              {isExporting ? 'Exporting...' : 'Download'}
+            </Button>
+          )}
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default ExportPaperDialog;
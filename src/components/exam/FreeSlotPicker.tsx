@@ -0,0 +1,39 @@
+import React from 'react';
+import { format } from 'date-fns';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { ExamAudience } from '@/lib/exam-audience';
+import { ExamSlot, ScheduledPaper, suggestFreeSlots } from '@/lib/exam-schedule';
+
+interface FreeSlotPickerProps {
+  audience?: ExamAudience;
+  durationMinutes: number;
+  schedule: ScheduledPaper[];
+  onSelect: (slot: ExamSlot) => void;
+}
+
+// Next free slots for the cohort, based on the timetable
+const FreeSlotPicker = ({ audience, durationMinutes, schedule, onSelect }: FreeSlotPickerProps) => {
+  if (!durationMinutes) return null;
+
+  const slots = suggestFreeSlots(audience, durationMinutes, schedule, { from: Date.now() });
+
+  return (
+    <div className="space-y-2">
+      <Label>Free slots for this cohort</Label>
+      {slots.length === 0 ? (
+        <p className="text-sm text-gray-500">No free slot in the next two weeks during working hours.</p>
+      ) : (
+        <div className="flex flex-wrap gap-2">
+          {slots.map(slot => (
+            <Button key={slot.start} type="button" variant="outline" size="sm" onClick={() => onSelect(slot)}>
+              {format(slot.start, 'EEE d MMM, p')} – {format(slot.end, 'p')}
+            </Button>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default FreeSlotPicker;
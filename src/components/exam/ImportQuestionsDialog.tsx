@@ -0,0 +1,279 @@
+import React, { useEffect, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Textarea } from '@/components/ui/textarea';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { AlertCircle, CheckCircle2, Download, Pencil } from 'lucide-react';
+import { downloadBlob } from '@/lib/pdf';
+import {
+  createEmptyQuestion,
+  QUESTION_TYPE_LABELS,
+  QuestionDefinition,
+  QuestionType,
+  toQuestionPayload,
+} from '@/lib/question-types';
+import {
+  CSV_TEMPLATE,
+  detectImportFormat,
+  getImportIssues,
+  IMPORT_FORMAT_LABELS,
+  ImportedQuestion,
+  ImportFormat,
+  parseQuestionFile,
+} from '@/lib/question-import';
+import QuestionTypeFields from '@/components/exam/QuestionTypeFields';
+
+interface ImportQuestionsDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onImport: (questions: QuestionDefinition[]) => void;
+}
+
+interface ImportRow extends ImportedQuestion {
+  include: boolean;
+}
+
+const ImportQuestionsDialog = ({ open, onOpenChange, onImport }: ImportQuestionsDialogProps) => {
+  const [text, setText] = useState('');
+  const [fileName, setFileName] = useState('');
+  const [format, setFormat] = useState<ImportFormat>('csv');
+  const [rows, setRows] = useState<ImportRow[] | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [editingIndex, setEditingIndex] = useState<number>();
+
+  useEffect(() => {
+    if (open) {
+      setText('');
+      setFileName('');
+      setFormat('csv');
+      setRows(null);
+      setError(null);
+      setEditingIndex(undefined);
+    }
+  }, [open]);
+
+  const handleFile = async (file?: File) => {
+    if (!file) return;
+    const content = await file.text();
+    setFileName(file.name);
+    setText(content);
+    setFormat(detectImportFormat(file.name, content));
+    setError(null);
+  };
+
+  const handlePreview = () => {
+    try {
+      const parsed = parseQuestionFile(format, text);
+      if (!parsed.length) {
+        setError('No questions were found. Check that the format matches the file.');
+        return;
+      }
+      setRows(parsed.map(item => ({ ...item, include: true })));
+      setError(null);
+    } catch (parseError) {
+      setError(parseError instanceof Error ? parseError.message : 'The file could not be read');
+    }
+  };
+
+  // Editing a row replaces the parsed question, so parse errors no longer apply
+  const updateQuestion = (index: number, question: Partial<QuestionDefinition>) => {
+    setRows(rows!.map((row, i) => i === index ? { ...row, question, parseError: undefined } : row));
+  };
+
+  const checked = (rows || []).map(row => ({ row, issues: getImportIssues(row) }));
+  const ready = checked.filter(({ row, issues }) => row.include && !issues.length);
+  const needsFixing = checked.filter(({ issues }) => issues.length).length;
+
+  const handleImport = () => {
+    onImport(ready.map(({ row }) => toQuestionPayload(row.question as QuestionDefinition)));
+    onOpenChange(false);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-3xl max-h-[90vh] flex flex-col">
+        <DialogHeader>
+          <DialogTitle>Import Questions</DialogTitle>
+          <DialogDescription>
+            {rows
+              ? `${rows.length} questions found: ${ready.length} ready to add${needsFixing ? `, ${needsFixing} need fixing` : ''}.`
+              : 'Upload a CSV or JSON template, an Aiken or GIFT file exported from Moodle, or IMS QTI 2.1 items.'}
+          </DialogDescription>
+        </DialogHeader>
+
+        {!rows ? (
+          <div className="space-y-4">
+            <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="import-file">File</Label>
+                <Input
+                  id="import-file"
+                  type="file"
+                  accept=".csv,.json,.txt,.gift,.xml,.qti"
+                  onChange={(e) => handleFile(e.target.files?.[0])}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label>Format</Label>
+                <Select value={format} onValueChange={(value) => setFormat(value as ImportFormat)}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {Object.entries(IMPORT_FORMAT_LABELS).map(([value, label]) => (
+                      <SelectItem key={value} value={value}>{label}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="import-text">{fileName ? `Contents of ${fileName}` : 'Or paste questions'}</Label>
+              <Textarea
+                id="import-text"
+                value={text}
+                onChange={(e) => setText(e.target.value)}
+                className="font-mono text-xs h-48"
+              />
+            </div>
+            <Button
+              type="button"
+              variant="link"
+              className="px-0"
+              onClick={() => downloadBlob(new Blob([CSV_TEMPLATE], { type: 'text/csv' }), 'questions-template.csv')}
+            >
+              <Download className="h-4 w-4 mr-2" />
+              Download CSV template
+            </Button>
+            {error && (
+              <Alert variant="destructive">
+                <AlertCircle className="h-4 w-4" />
+                <AlertDescription>{error}</AlertDescription>
+              </Alert>
+            )}
+          </div>
+        ) : (
+          <div className="flex-1 overflow-y-auto space-y-2">
+            {checked.map(({ row, issues }, index) => (
+              <div key={index} className={`p-3 border rounded-lg space-y-2 ${issues.length ? 'border-red-200 bg-red-50/40' : ''}`}>
+                <div className="flex items-start gap-3">
+                  <Checkbox
+                    checked={row.include && !issues.length}
+                    disabled={!!issues.length}
+                    onCheckedChange={(value) => setRows(rows.map((other, i) => i === index ? { ...other, include: !!value } : other))}
+                    className="mt-1"
+                    aria-label={`Include ${row.source}`}
+                  />
+                  <div className="flex-1 min-w-0 space-y-1">
+                    <div className="flex flex-wrap items-center gap-2 text-xs text-gray-500">
+                      <span>{row.source}</span>
+                      {row.question.type && <Badge variant="outline">{QUESTION_TYPE_LABELS[row.question.type]}</Badge>}
+                      <span>{row.question.marks} {row.question.marks === 1 ? 'mark' : 'marks'}</span>
+                    </div>
+                    <p className="text-sm line-clamp-2">{row.question.question || <span className="italic text-gray-400">No question text</span>}</p>
+                    {issues.length ? (
+                      <ul className="text-xs text-red-600 list-disc pl-4">
+                        {issues.map(issue => <li key={issue}>{issue}</li>)}
+                      </ul>
+                    ) : (
+                      <p className="flex items-center text-xs text-green-700">
+                        <CheckCircle2 className="h-3 w-3 mr-1" />
+                        Ready
+                      </p>
+                    )}
+                  </div>
+                  <Button
+                    type="button"
+                    size="sm"
+                    variant="outline"
+                    onClick={() => setEditingIndex(editingIndex === index ? undefined : index)}
+                  >
+                    <Pencil className="h-4 w-4 mr-1" />
+                    {editingIndex === index ? 'Done' : issues.length ? 'Fix' : 'Edit'}
+                  </Button>
+                </div>
+
+                {editingIndex === index && (
+                  <div className="space-y-3 border-t pt-3">
+                    <div className="grid grid-cols-1 sm:grid-cols-3 gap-3">
+                      <div className="space-y-1 sm:col-span-2">
+                        <Label>Question Type</Label>
+                        <Select
+                          value={row.question.type}
+                          onValueChange={(value) => updateQuestion(index, {
+                            ...createEmptyQuestion(value as QuestionType),
+                            question: row.question.question,
+                            marks: row.question.marks,
+                            explanation: row.question.explanation
+                          })}
+                        >
+                          <SelectTrigger>
+                            <SelectValue placeholder="Select question type" />
+                          </SelectTrigger>
+                          <SelectContent>
+                            {Object.entries(QUESTION_TYPE_LABELS).map(([type, label]) => (
+                              <SelectItem key={type} value={type}>{label}</SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                      </div>
+                      <div className="space-y-1">
+                        <Label>Marks</Label>
+                        <Input
+                          type="number"
+                          min="1"
+                          value={Number.isNaN(row.question.marks) ? '' : row.question.marks}
+                          onChange={(e) => updateQuestion(index, { ...row.question, marks: Number(e.target.value) })}
+                        />
+                      </div>
+                    </div>
+                    <div className="space-y-1">
+                      <Label>Question Text</Label>
+                      <Textarea
+                        value={row.question.question || ''}
+                        onChange={(e) => updateQuestion(index, { ...row.question, question: e.target.value })}
+                      />
+                    </div>
+                    {row.question.type && (
+                      <QuestionTypeFields question={row.question} onChange={(question) => updateQuestion(index, question)} />
+                    )}
+                  </div>
+                )}
+              </div>
+            ))}
+          </div>
+        )}
+
+        <DialogFooter>
+          {rows ? (
+            <>
+              <Button variant="outline" onClick={() => setRows(null)}>Back</Button>
+              <Button onClick={handleImport} disabled={!ready.length}>
+                Add {ready.length} {ready.length === 1 ? 'Question' : 'Questions'}
+              </Button>
+            </>
+          ) : (
+            <>
+              <Button variant="outline" onClick={() => onOpenChange(false)}>Cancel</Button>
+              <Button onClick={handlePreview} disabled={!text.trim()}>Preview</Button>
+            </>
+          )}
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default ImportQuestionsDialog;
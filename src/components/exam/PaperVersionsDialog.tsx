@@ -0,0 +1,195 @@
+import React, { useEffect, useState } from 'react';
+import { useQuery } from '@tanstack/react-query';
+import { getPaperVersions } from '@/lib/api';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { formatCorrectAnswer, QUESTION_TYPE_LABELS, QuestionDefinition } from '@/lib/question-types';
+import {
+  diffPaperVersions,
+  formatVersionLabel,
+  PaperVersion,
+  QuestionChangeKind,
+} from '@/lib/paper-versions';
+
+interface PaperVersionsDialogProps {
+  paperId: string | null;
+  onOpenChange: (open: boolean) => void;
+}
+
+const CHANGE_STYLES: Record<QuestionChangeKind, { before: string; after: string }> = {
+  added: { before: '', after: 'bg-green-50 border-green-200' },
+  removed: { before: 'bg-red-50 border-red-200', after: '' },
+  changed: { before: 'bg-amber-50 border-amber-200', after: 'bg-amber-50 border-amber-200' },
+  unchanged: { before: '', after: '' },
+};
+
+const QuestionSide = ({ number, question, className }: { number?: number; question?: QuestionDefinition; className: string }) => {
+  if (!question) {
+    return <div className="p-3 border border-dashed rounded-lg text-sm text-gray-400 italic">Not in this version</div>;
+  }
+  const answer = formatCorrectAnswer(question);
+  return (
+    <div className={`p-3 border rounded-lg text-sm space-y-2 ${className}`}>
+      <div className="flex flex-wrap items-center gap-2">
+        <span className="font-medium">Q{number}</span>
+        <Badge variant="outline">{QUESTION_TYPE_LABELS[question.type]}</Badge>
+        <span className="text-gray-500">{question.marks} {question.marks === 1 ? 'mark' : 'marks'}</span>
+      </div>
+      <p className="whitespace-pre-wrap">{question.question}</p>
+      {question.options && question.options.length > 0 && question.type !== 'true_false' && (
+        <ol className="list-[upper-alpha] pl-5 text-gray-700">
+          {question.options.map((option, index) => <li key={index}>{option}</li>)}
+        </ol>
+      )}
+      {answer && <p className="text-green-700 whitespace-pre-wrap">Answer: {answer}</p>}
+    </div>
+  );
+};
+
+const PaperVersionsDialog = ({ paperId, onOpenChange }: PaperVersionsDialogProps) => {
+  const [beforeVersion, setBeforeVersion] = useState<number>();
+  const [afterVersion, setAfterVersion] = useState<number>();
+  const [showUnchanged, setShowUnchanged] = useState(false);
+
+  const { data: versions = [], isLoading } = useQuery<PaperVersion[]>({
+    queryKey: ['paperVersions', paperId],
+    queryFn: () => getPaperVersions(paperId!),
+    enabled: !!paperId,
+  });
+
+  // Start with the latest save against the one before it
+  useEffect(() => {
+    if (versions.length) {
+      setAfterVersion(versions[versions.length - 1].version);
+      setBeforeVersion(versions[Math.max(versions.length - 2, 0)].version);
+    }
+  }, [versions]);
+
+  useEffect(() => {
+    if (paperId) {
+      setShowUnchanged(false);
+    }
+  }, [paperId]);
+
+  const before = versions.find(version => version.version === beforeVersion);
+  const after = versions.find(version => version.version === afterVersion);
+  const diff = before && after ? diffPaperVersions(before.snapshot, after.snapshot) : null;
+  const changedFields = diff?.fields.filter(field => field.changed).length || 0;
+  const changedQuestions = diff?.questions.filter(question => question.kind !== 'unchanged').length || 0;
+
+  const renderVersionSelect = (value: number | undefined, onChange: (version: number) => void) => (
+    <Select value={value === undefined ? undefined : String(value)} onValueChange={(version) => onChange(Number(version))}>
+      <SelectTrigger>
+        <SelectValue placeholder="Select version" />
+      </SelectTrigger>
+      <SelectContent>
+        {versions.map(version => (
+          <SelectItem key={version._id} value={String(version.version)}>
+            {formatVersionLabel(version)}
+          </SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  );
+
+  const renderVersionNote = (version?: PaperVersion) => version && (
+    <p className="text-xs text-gray-500">
+      Saved as {version.status}{version.changeNote ? `: ${version.changeNote}` : ''}
+    </p>
+  );
+
+  return (
+    <Dialog open={!!paperId} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-5xl max-h-[90vh] flex flex-col">
+        <DialogHeader>
+          <DialogTitle>Version History</DialogTitle>
+          <DialogDescription>
+            {isLoading
+              ? 'Loading versions...'
+              : versions.length < 2
+              ? 'This paper has not been changed since it was first saved.'
+              : diff && `${changedFields} ${changedFields === 1 ? 'setting' : 'settings'} and ${changedQuestions} ${changedQuestions === 1 ? 'question' : 'questions'} changed between these versions.`}
+          </DialogDescription>
+        </DialogHeader>
+
+        {versions.length > 0 && (
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-1">
+              <Label>Before</Label>
+              {renderVersionSelect(beforeVersion, setBeforeVersion)}
+              {renderVersionNote(before)}
+            </div>
+            <div className="space-y-1">
+              <Label>After</Label>
+              {renderVersionSelect(afterVersion, setAfterVersion)}
+              {renderVersionNote(after)}
+            </div>
+          </div>
+        )}
+
+        {diff && (
+          <div className="flex-1 overflow-y-auto space-y-6 pr-1">
+            <div className="flex items-center justify-end gap-2">
+              <Label htmlFor="show-unchanged" className="text-sm">Show unchanged</Label>
+              <Switch id="show-unchanged" checked={showUnchanged} onCheckedChange={setShowUnchanged} />
+            </div>
+
+            <div className="space-y-2">
+              <h3 className="font-medium">Settings</h3>
+              {diff.fields.filter(field => showUnchanged || field.changed).map(field => (
+                <div key={field.label} className="grid grid-cols-[8rem,1fr,1fr] gap-3 text-sm">
+                  <span className="text-gray-500">{field.label}</span>
+                  <span className={`p-2 rounded whitespace-pre-wrap ${field.changed ? 'bg-red-50' : 'bg-gray-50'}`}>
+                    {field.before || <span className="italic text-gray-400">None</span>}
+                  </span>
+                  <span className={`p-2 rounded whitespace-pre-wrap ${field.changed ? 'bg-green-50' : 'bg-gray-50'}`}>
+                    {field.after || <span className="italic text-gray-400">None</span>}
+                  </span>
+                </div>
+              ))}
+              {!changedFields && !showUnchanged && <p className="text-sm text-gray-500">No settings changed.</p>}
+            </div>
+
+            <div className="space-y-3">
+              <h3 className="font-medium">Questions</h3>
+              {diff.questions.filter(question => showUnchanged || question.kind !== 'unchanged').map((question, index) => (
+                <div key={index} className="space-y-1">
+                  {question.kind !== 'unchanged' && (
+                    <div className="flex flex-wrap items-center gap-2 text-xs">
+                      <Badge variant="outline" className="capitalize">{question.kind}</Badge>
+                      {question.changedFields.map(field => (
+                        <span key={field} className="text-gray-500">{field}</span>
+                      ))}
+                    </div>
+                  )}
+                  <div className="grid grid-cols-2 gap-3">
+                    <QuestionSide number={question.beforeNumber} question={question.before} className={CHANGE_STYLES[question.kind].before} />
+                    <QuestionSide number={question.afterNumber} question={question.after} className={CHANGE_STYLES[question.kind].after} />
+                  </div>
+                </div>
+              ))}
+              {!changedQuestions && !showUnchanged && <p className="text-sm text-gray-500">No questions changed.</p>}
+            </div>
+          </div>
+        )}
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>Close</Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default PaperVersionsDialog;
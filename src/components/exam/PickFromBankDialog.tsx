@@ -0,0 +1,121 @@
+import React, { useEffect, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Library } from 'lucide-react';
+import { useQuestionBank } from '@/hooks/use-question-bank';
+import { BankFilters, BankQuestion, EMPTY_BANK_FILTERS } from '@/lib/question-bank';
+import BankFilterBar from '@/components/exam/BankFilterBar';
+import BankQuestionMeta from '@/components/exam/BankQuestionMeta';
+import RichText from '@/components/exam/RichText';
+
+interface PickFromBankDialogProps {
+  subjectId?: string;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onInsert: (questions: BankQuestion[]) => void;
+  // Bank questions already in the paper, shown as added
+  usedIds?: string[];
+}
+
+const PickFromBankDialog = ({ subjectId, open, onOpenChange, onInsert, usedIds = [] }: PickFromBankDialogProps) => {
+  const [filters, setFilters] = useState<BankFilters>(EMPTY_BANK_FILTERS);
+  // Selections survive filter changes, so they are kept by id with the question
+  const [selected, setSelected] = useState<Map<string, BankQuestion>>(new Map());
+  const { questions, tags, isLoading, isFetching } = useQuestionBank(subjectId, filters, open);
+
+  useEffect(() => {
+    if (open) {
+      setSelected(new Map());
+    }
+  }, [open]);
+
+  const toggle = (question: BankQuestion) => {
+    const next = new Map(selected);
+    if (next.has(question._id)) {
+      next.delete(question._id);
+    } else {
+      next.set(question._id, question);
+    }
+    setSelected(next);
+  };
+
+  const selectedMarks = [...selected.values()].reduce((sum, question) => sum + question.marks, 0);
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-3xl max-h-[90vh] flex flex-col">
+        <DialogHeader>
+          <DialogTitle>Pick from Question Bank</DialogTitle>
+          <DialogDescription>
+            Selected questions are copied into the paper; editing them there leaves the bank unchanged.
+          </DialogDescription>
+        </DialogHeader>
+
+        <BankFilterBar filters={filters} onChange={setFilters} tags={tags} />
+
+        <div className={`flex-1 overflow-y-auto space-y-2 min-h-[200px] ${isFetching ? 'opacity-60' : ''}`}>
+          {isLoading ? (
+            <div className="flex items-center justify-center py-12">
+              <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-gray-900"></div>
+            </div>
+          ) : questions.length === 0 ? (
+            <div className="flex flex-col items-center justify-center py-12 text-gray-500">
+              <Library className="h-10 w-10 mb-2" />
+              <p>No bank questions match these filters.</p>
+            </div>
+          ) : (
+            questions.map(question => {
+              const isUsed = usedIds.includes(question._id);
+              return (
+                <label
+                  key={question._id}
+                  className={`flex gap-3 p-3 border rounded-lg ${isUsed ? 'opacity-60' : 'cursor-pointer hover:bg-gray-50'}`}
+                >
+                  <Checkbox
+                    checked={isUsed || selected.has(question._id)}
+                    disabled={isUsed}
+                    onCheckedChange={() => toggle(question)}
+                    className="mt-1"
+                  />
+                  <div className="flex-1 min-w-0 space-y-2">
+                    <RichText content={question.question} className="line-clamp-3" />
+                    <BankQuestionMeta question={question} />
+                    {isUsed && <p className="text-xs text-gray-500">Already in this paper</p>}
+                  </div>
+                </label>
+              );
+            })
+          )}
+        </div>
+
+        <DialogFooter className="items-center">
+          {selected.size > 0 && (
+            <p className="text-sm text-gray-600 mr-auto">
+              {selected.size} selected • {selectedMarks} marks
+            </p>
+          )}
+          <Button variant="outline" onClick={() => onOpenChange(false)}>Cancel</Button>
+          <Button
+            disabled={selected.size === 0}
+            onClick={() => {
+              onInsert([...selected.values()]);
+              onOpenChange(false);
+            }}
+          >
+            Insert {selected.size || ''} {selected.size === 1 ? 'Question' : 'Questions'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default PickFromBankDialog;
@@ -0,0 +1,55 @@
+import React from 'react';
+import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert';
+import { CheckCircle, Info, XCircle } from 'lucide-react';
+import RichText from './RichText';
+import { formatAnswer, formatCorrectAnswer, QuestionDefinition } from '@/lib/question-types';
+
+interface PracticeFeedbackProps {
+  question: QuestionDefinition;
+  selectedOption: string;
+  // null when the question is not checked instantly
+  marks: number | null;
+  // Repeat the student's own answer, for the end-of-attempt summary
+  showAnswer?: boolean;
+}
+
+const PracticeFeedback = ({ question, selectedOption, marks, showAnswer = false }: PracticeFeedbackProps) => {
+  const correctAnswer = formatCorrectAnswer(question);
+  const isCorrect = marks !== null && marks >= (Number(question.marks) || 0);
+  const isPartial = marks !== null && marks > 0 && !isCorrect;
+
+  const Icon = marks === null ? Info : isCorrect ? CheckCircle : XCircle;
+  const title = marks === null
+    ? 'Not checked automatically'
+    : isCorrect ? 'Correct' : isPartial ? `Partly correct (${marks}/${question.marks})` : 'Incorrect';
+  const colour = marks === null
+    ? 'border-blue-300 bg-blue-50 text-blue-900'
+    : isCorrect ? 'border-green-300 bg-green-50 text-green-900' : 'border-red-300 bg-red-50 text-red-900';
+
+  return (
+    <Alert className={colour}>
+      <Icon className="h-4 w-4" />
+      <AlertTitle>{title}</AlertTitle>
+      <AlertDescription className="space-y-2">
+        {showAnswer && (
+          <p className="whitespace-pre-line">
+            <span className="font-medium">Your answer: </span>
+            {formatAnswer(question, selectedOption) || 'Not answered'}
+          </p>
+        )}
+        {marks !== null && !isCorrect && correctAnswer && (
+          <p className="whitespace-pre-line">
+            <span className="font-medium">Correct answer: </span>
+            {correctAnswer}
+          </p>
+        )}
+        {marks === null && (
+          <p>{question.explanation ? 'Compare your answer with the explanation below.' : 'There is no model answer for this question.'}</p>
+        )}
+        {question.explanation && <RichText content={question.explanation} className="text-sm" />}
+      </AlertDescription>
+    </Alert>
+  );
+};
+
+export default PracticeFeedback;
@@ -0,0 +1,45 @@
+import React from 'react';
+import RichText from './RichText';
+import { PrintLine } from '@/lib/paper-export';
+import { cn } from '@/lib/utils';
+
+interface PrintDocumentProps {
+  lines: PrintLine[];
+}
+
+const PrintDocument = ({ lines }: PrintDocumentProps) => (
+  <div className="bg-white text-black">
+    <style>{'@page { size: A4; margin: 18mm; }'}</style>
+    {lines.map((line, index) => (
+      <div
+        key={index}
+        className={cn('flex items-start gap-2', line.bold && 'font-bold', line.pageBreakBefore && 'break-before-page')}
+        style={{ fontSize: `${line.size || 11}pt`, marginTop: `${line.spaceBefore || 0}pt`, paddingLeft: `${line.indent || 0}pt` }}
+      >
+        {line.prefix && <span className="shrink-0">{line.prefix}</span>}
+        <div className="flex-1 min-w-0">
+          {line.rich ? (
+            <RichText content={line.text} className="text-[length:inherit] text-black prose-p:my-0 [&_strong]:text-inherit" />
+          ) : (
+            <p className="whitespace-pre-wrap">{line.text}</p>
+          )}
+          {line.attachments?.map((attachment, attachmentIndex) => attachment.kind === 'image' ? (
+            <img
+              key={attachmentIndex}
+              src={attachment.url}
+              alt={attachment.alt}
+              className="mt-2 max-h-72 max-w-full break-inside-avoid"
+            />
+          ) : (
+            <p key={attachmentIndex} className="mt-1 text-[0.9em]">
+              Attachment: {attachment.name} ({attachment.url})
+            </p>
+          ))}
+        </div>
+        {line.suffix && <span className="shrink-0 whitespace-nowrap">{line.suffix}</span>}
+      </div>
+    ))}
+  </div>
+);
+
+export default PrintDocument;
@@ -0,0 +1,75 @@
+import React from 'react';
+import { format, isValid, parseISO } from 'date-fns';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { ShieldAlert, ShieldCheck } from 'lucide-react';
+import { countViolations, PROCTORING_EVENT_LABELS, ProctoringEvent, VIOLATION_EVENTS } from '@/lib/proctoring';
+
+interface ProctoringLogProps {
+  events: ProctoringEvent[];
+  isLoading?: boolean;
+  className?: string;
+}
+
+const formatTimestamp = (timestamp: string) => {
+  const date = parseISO(timestamp);
+  return isValid(date) ? format(date, 'pp') : 'Unknown time';
+};
+
+const ProctoringLog = ({ events, isLoading, className }: ProctoringLogProps) => {
+  const sortedEvents = [...events].sort((a, b) => a.timestamp.localeCompare(b.timestamp));
+  const violationCount = countViolations(events);
+
+  return (
+    <Card className={className}>
+      <CardHeader>
+        <div className="flex items-center justify-between gap-2">
+          <CardTitle className="flex items-center gap-2">
+            {violationCount > 0
+              ? <ShieldAlert className="h-5 w-5 text-red-600" />
+              : <ShieldCheck className="h-5 w-5 text-green-600" />}
+            Proctoring Log
+          </CardTitle>
+          <Badge className={violationCount > 0 ? 'bg-red-100 text-red-800' : 'bg-green-100 text-green-800'}>
+            {violationCount} {violationCount === 1 ? 'violation' : 'violations'}
+          </Badge>
+        </div>
+        <CardDescription>Events recorded during the attempt</CardDescription>
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <p className="text-sm text-gray-500">Loading events...</p>
+        ) : sortedEvents.length === 0 ? (
+          <p className="text-sm text-gray-500">No events were recorded.</p>
+        ) : (
+          <ScrollArea className="h-64 pr-3">
+            <ul className="space-y-2">
+              {sortedEvents.map((event, index) => (
+                <li
+                  key={`${event.timestamp}-${index}`}
+                  className="flex items-center justify-between gap-2 text-sm p-2 rounded border bg-gray-50"
+                >
+                  <div className="flex items-center gap-2">
+                    <span
+                      className={`h-2 w-2 rounded-full ${
+                        VIOLATION_EVENTS.includes(event.type) ? 'bg-red-500' : 'bg-yellow-500'
+                      }`}
+                    />
+                    <span>{PROCTORING_EVENT_LABELS[event.type] || event.type}</span>
+                    {typeof event.questionIndex === 'number' && (
+                      <span className="text-gray-500">on Q{event.questionIndex + 1}</span>
+                    )}
+                  </div>
+                  <span className="text-gray-500 whitespace-nowrap">{formatTimestamp(event.timestamp)}</span>
+                </li>
+              ))}
+            </ul>
+          </ScrollArea>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default ProctoringLog;
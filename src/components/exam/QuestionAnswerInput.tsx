@@ -0,0 +1,171 @@
+import React from 'react';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Checkbox } from '@/components/ui/checkbox';
+import { RadioGroup, RadioGroupItem } from '@/components/ui/radio-group';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import RichText from './RichText';
+import AttachmentGallery from './AttachmentGallery';
+import CodeAnswerInput from './CodeAnswerInput';
+import { QuestionAttachment } from '@/lib/attachments';
+import {
+  getMatchingChoices,
+  parseListAnswer,
+  QuestionDefinition,
+  serializeListAnswer,
+  TRUE_FALSE_OPTIONS,
+} from '@/lib/question-types';
+
+interface QuestionAnswerInputProps {
+  question: Pick<QuestionDefinition, 'type' | 'pairs' | 'numericAnswer' | 'codeSettings'>;
+  // Options in the order this student sees them
+  options: string[];
+  // Option images, aligned with `options`
+  optionAttachments?: (QuestionAttachment | null)[];
+  value: string;
+  onChange: (value: string) => void;
+}
+
+// Answering widget for every question type; always reports the encoded
+// `selectedOption` string.
+const QuestionAnswerInput = ({ question, options, optionAttachments = [], value, onChange }: QuestionAnswerInputProps) => {
+  const renderOptionImage = (index: number) => {
+    const attachment = optionAttachments[index];
+    return attachment ? <AttachmentGallery compact attachments={[attachment]} className="mt-2" /> : null;
+  };
+
+  switch (question.type) {
+    case 'mcq':
+    case 'true_false': {
+      const choices = question.type === 'true_false' && options.length === 0 ? TRUE_FALSE_OPTIONS : options;
+      return (
+        <RadioGroup value={value} onValueChange={onChange}>
+          {choices.map((option, index) => (
+            <div key={index} className="flex items-start space-x-2">
+              <RadioGroupItem value={option} id={`option-${index}`} className="mt-0.5" />
+              <Label htmlFor={`option-${index}`}>
+                <RichText content={option} inline />
+                {renderOptionImage(index)}
+              </Label>
+            </div>
+          ))}
+        </RadioGroup>
+      );
+    }
+
+    case 'multi_select': {
+      const selected = parseListAnswer(value);
+      const toggle = (option: string, checked: boolean) => {
+        const next = checked ? [...selected, option] : selected.filter(item => item !== option);
+        onChange(serializeListAnswer(options.filter(item => next.includes(item))));
+      };
+      return (
+        <div className="space-y-3">
+          <p className="text-sm text-gray-500">Select all that apply.</p>
+          {options.map((option, index) => (
+            <div key={index} className="flex items-start space-x-2">
+              <Checkbox
+                id={`option-${index}`}
+                checked={selected.includes(option)}
+                onCheckedChange={(checked) => toggle(option, checked === true)}
+                className="mt-0.5"
+              />
+              <Label htmlFor={`option-${index}`}>
+                <RichText content={option} inline />
+                {renderOptionImage(index)}
+              </Label>
+            </div>
+          ))}
+        </div>
+      );
+    }
+
+    case 'numeric':
+      return (
+        <div className="flex items-center gap-2 max-w-xs">
+          <Input
+            type="text"
+            inputMode="decimal"
+            value={value}
+            onChange={(e) => onChange(e.target.value)}
+            placeholder="Enter a number"
+          />
+          {question.numericAnswer?.unit && (
+            <span className="text-gray-600 whitespace-nowrap">{question.numericAnswer.unit}</span>
+          )}
+        </div>
+      );
+
+    case 'fill_blank':
+      return (
+        <Input
+          value={value}
+          onChange={(e) => onChange(e.target.value)}
+          placeholder="Type your answer"
+          className="max-w-md"
+        />
+      );
+
+    case 'matching': {
+      const pairs = question.pairs || [];
+      const choices = getMatchingChoices(pairs);
+      const chosen = parseListAnswer(value);
+      const choose = (index: number, choice: string) => {
+        const next = pairs.map((_, i) => chosen[i] || '');
+        next[index] = choice;
+        onChange(serializeListAnswer(next));
+      };
+      return (
+        <div className="space-y-3">
+          {pairs.map((pair, index) => (
+            <div key={index} className="grid grid-cols-1 sm:grid-cols-2 gap-2 items-center">
+              <RichText content={pair.left} inline className="font-medium" />
+              <Select value={chosen[index] || ''} onValueChange={(choice) => choose(index, choice)}>
+                <SelectTrigger>
+                  <SelectValue placeholder="Select a match" />
+                </SelectTrigger>
+                <SelectContent>
+                  {choices.map(choice => (
+                    <SelectItem key={choice} value={choice}>{choice}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          ))}
+        </div>
+      );
+    }
+
+    case 'code':
+      return question.codeSettings
+        ? <CodeAnswerInput settings={question.codeSettings} value={value} onChange={onChange} />
+        : null;
+
+    default:
+      return (
+        <Tabs defaultValue="write">
+          <TabsList>
+            <TabsTrigger value="write">Write</TabsTrigger>
+            <TabsTrigger value="preview">Preview</TabsTrigger>
+          </TabsList>
+          <TabsContent value="write">
+            <Textarea
+              value={value}
+              onChange={(e) => onChange(e.target.value)}
+              placeholder="Type your answer here... Markdown and $LaTeX$ are supported."
+              className="min-h-[200px]"
+            />
+          </TabsContent>
+          <TabsContent value="preview" className="min-h-[200px] p-3 border rounded-md">
+            {value.trim() ? <RichText content={value} /> : (
+              <p className="text-sm text-gray-500">Nothing to preview yet.</p>
+            )}
+          </TabsContent>
+        </Tabs>
+      );
+  }
+};
+
+export default QuestionAnswerInput;
@@ -0,0 +1,120 @@
+import React from 'react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { cn } from '@/lib/utils';
+import { QuestionStatus } from '@/lib/exam-state';
+import { Lock } from 'lucide-react';
+
+interface PaletteSection {
+  title: string;
+  start: number;
+  end: number;
+}
+
+interface QuestionPaletteProps {
+  questionCount: number;
+  currentIndex: number;
+  getStatus: (index: number) => QuestionStatus;
+  isAnswered?: (index: number) => boolean;
+  onSelect: (index: number) => void;
+  // Sectioned papers group the tiles and lock sections outside the current one
+  sections?: PaletteSection[];
+  isLocked?: (index: number) => boolean;
+  className?: string;
+}
+
+const STATUS_STYLES: Record<QuestionStatus, { label: string; className: string }> = {
+  not_visited: {
+    label: 'Not visited',
+    className: 'bg-white border-gray-300 text-gray-700',
+  },
+  visited: {
+    label: 'Not answered',
+    className: 'bg-red-50 border-red-300 text-red-700',
+  },
+  answered: {
+    label: 'Answered',
+    className: 'bg-green-100 border-green-400 text-green-800',
+  },
+  review: {
+    label: 'Marked for review',
+    className: 'bg-purple-100 border-purple-400 text-purple-800',
+  },
+};
+
+const QuestionPalette = ({
+  questionCount,
+  currentIndex,
+  getStatus,
+  isAnswered,
+  onSelect,
+  sections,
+  isLocked,
+  className,
+}: QuestionPaletteProps) => {
+  const groups = sections?.length ? sections : [{ title: '', start: 0, end: questionCount }];
+
+  const counts = Array.from({ length: questionCount }, (_, index) => getStatus(index))
+    .reduce((acc, status) => ({ ...acc, [status]: (acc[status] || 0) + 1 }), {} as Record<QuestionStatus, number>);
+
+  return (
+    <Card className={cn('bg-white shadow-sm', className)}>
+      <CardHeader className="pb-3">
+        <CardTitle className="text-base">Questions</CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {groups.map(group => (
+          <div key={group.start} className="space-y-2">
+            {group.title && <div className="text-xs font-medium text-gray-600">{group.title}</div>}
+            <div className="grid grid-cols-5 gap-2">
+              {Array.from({ length: group.end - group.start }, (_, offset) => {
+                const index = group.start + offset;
+                const status = getStatus(index);
+                const locked = isLocked?.(index) ?? false;
+                return (
+                  <button
+                    key={index}
+                    type="button"
+                    onClick={() => onSelect(index)}
+                    disabled={locked}
+                    aria-label={`Question ${index + 1}: ${STATUS_STYLES[status].label}${locked ? ' (locked)' : ''}`}
+                    aria-current={index === currentIndex ? 'step' : undefined}
+                    className={cn(
+                      'relative h-9 rounded-md border text-sm font-medium transition-colors hover:opacity-80',
+                      STATUS_STYLES[status].className,
+                      index === currentIndex && 'ring-2 ring-offset-1 ring-blue-500',
+                      locked && 'opacity-50 cursor-not-allowed hover:opacity-50'
+                    )}
+                  >
+                    {index + 1}
+                    {locked && <Lock className="absolute bottom-0.5 right-0.5 h-2.5 w-2.5" />}
+                    {status === 'review' && isAnswered?.(index) && (
+                      <span className="absolute -top-1 -right-1 h-2.5 w-2.5 rounded-full bg-green-500 border border-white" />
+                    )}
+                  </button>
+                );
+              })}
+            </div>
+          </div>
+        ))}
+
+        <div className="space-y-1.5 text-xs">
+          {(Object.keys(STATUS_STYLES) as QuestionStatus[]).map((status) => (
+            <div key={status} className="flex items-center justify-between">
+              <div className="flex items-center gap-2">
+                <span className={cn('h-3 w-3 rounded-sm border', STATUS_STYLES[status].className)} />
+                <span className="text-gray-600">{STATUS_STYLES[status].label}</span>
+              </div>
+              <span className="font-medium text-gray-800">{counts[status] || 0}</span>
+            </div>
+          ))}
+          <div className="flex items-center gap-2 pt-1 text-gray-500">
+            <span className="h-2.5 w-2.5 rounded-full bg-green-500" />
+            Answered and marked for review
+          </div>
+        </div>
+      </CardContent>
+    </Card>
+  );
+};
+
+export default QuestionPalette;
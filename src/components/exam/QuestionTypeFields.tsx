@@ -0,0 +1,269 @@
+import React from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { Plus, Trash2 } from 'lucide-react';
+import { MatchPair, QuestionDefinition, TRUE_FALSE_OPTIONS } from '@/lib/question-types';
+import { QuestionAttachment } from '@/lib/attachments';
+import AttachmentUploader from './AttachmentUploader';
+import CodeQuestionFields from './CodeQuestionFields';
+
+interface QuestionTypeFieldsProps {
+  question: Partial<QuestionDefinition>;
+  onChange: (question: Partial<QuestionDefinition>) => void;
+}
+
+const correctClass = 'bg-green-100 hover:bg-green-200 text-green-700';
+
+// Answer-key fields for the selected question type. Question text, type and
+// marks are common to every type and stay with the parent form.
+const QuestionTypeFields = ({ question, onChange }: QuestionTypeFieldsProps) => {
+  const update = (changes: Partial<QuestionDefinition>) => onChange({ ...question, ...changes });
+
+  // Keep the answer key pointing at the same option when its text is edited
+  const updateOption = (index: number, value: string) => {
+    const previous = question.options?.[index];
+    const options = [...(question.options || [])];
+    options[index] = value;
+    update({
+      options,
+      correctAnswer: question.correctAnswer === previous ? value : question.correctAnswer,
+      correctAnswers: question.correctAnswers?.map(answer => answer === previous ? value : answer),
+    });
+  };
+
+  const updateOptionAttachment = (index: number, attachment: QuestionAttachment | null) => {
+    const optionAttachments = (question.options || []).map((_, i) => question.optionAttachments?.[i] || null);
+    optionAttachments[index] = attachment;
+    update({ optionAttachments });
+  };
+
+  const toggleCorrectOption = (option: string) => {
+    const current = question.correctAnswers || [];
+    update({
+      correctAnswers: current.includes(option) ? current.filter(answer => answer !== option) : [...current, option]
+    });
+  };
+
+  const updateVariant = (index: number, value: string) => {
+    const correctAnswers = [...(question.correctAnswers || [])];
+    correctAnswers[index] = value;
+    update({ correctAnswers });
+  };
+
+  const updatePair = (index: number, changes: Partial<MatchPair>) => {
+    const pairs = [...(question.pairs || [])];
+    pairs[index] = { ...pairs[index], ...changes };
+    update({ pairs });
+  };
+
+  switch (question.type) {
+    case 'mcq':
+    case 'multi_select': {
+      const isMulti = question.type === 'multi_select';
+      return (
+        <div className="space-y-2">
+          <Label>Options</Label>
+          {isMulti && (
+            <p className="text-sm text-gray-500">Mark every correct option. Students must select all of them to score.</p>
+          )}
+          {question.options?.map((option, index) => {
+            const isCorrect = !!option && (isMulti
+              ? question.correctAnswers?.includes(option)
+              : question.correctAnswer === option);
+            const attachment = question.optionAttachments?.[index];
+            return (
+              <div key={index} className="flex flex-wrap gap-2 items-center">
+                <Input
+                  placeholder={`Option ${index + 1}`}
+                  value={option}
+                  onChange={(e) => updateOption(index, e.target.value)}
+                  className="flex-1 min-w-[12rem]"
+                />
+                <AttachmentUploader
+                  compact
+                  maxFiles={1}
+                  allowPdf={false}
+                  attachments={attachment ? [attachment] : []}
+                  onChange={(attachments) => updateOptionAttachment(index, attachments[0] || null)}
+                />
+                <Button
+                  type="button"
+                  variant="outline"
+                  size="sm"
+                  disabled={!option.trim()}
+                  onClick={() => isMulti ? toggleCorrectOption(option) : update({ correctAnswer: option })}
+                  className={isCorrect ? correctClass : ''}
+                >
+                  Correct
+                </Button>
+              </div>
+            );
+          })}
+        </div>
+      );
+    }
+
+    case 'true_false':
+      return (
+        <div className="space-y-2">
+          <Label>Correct Answer</Label>
+          <div className="flex gap-2">
+            {TRUE_FALSE_OPTIONS.map(option => (
+              <Button
+                key={option}
+                type="button"
+                variant="outline"
+                onClick={() => update({ correctAnswer: option })}
+                className={question.correctAnswer === option ? correctClass : ''}
+              >
+                {option}
+              </Button>
+            ))}
+          </div>
+        </div>
+      );
+
+    case 'numeric': {
+      const numericAnswer = question.numericAnswer || { value: NaN, tolerance: 0 };
+      return (
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+          <div className="space-y-2">
+            <Label htmlFor="numeric-value">Correct Value</Label>
+            <Input
+              id="numeric-value"
+              type="number"
+              step="any"
+              value={Number.isNaN(numericAnswer.value) ? '' : numericAnswer.value}
+              onChange={(e) => update({
+                numericAnswer: { ...numericAnswer, value: e.target.value === '' ? NaN : Number(e.target.value) }
+              })}
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="numeric-tolerance">Tolerance (±)</Label>
+            <Input
+              id="numeric-tolerance"
+              type="number"
+              step="any"
+              min="0"
+              value={numericAnswer.tolerance}
+              onChange={(e) => update({
+                numericAnswer: { ...numericAnswer, tolerance: Math.abs(Number(e.target.value) || 0) }
+              })}
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="numeric-unit">Unit (optional)</Label>
+            <Input
+              id="numeric-unit"
+              placeholder="e.g. m/s"
+              value={numericAnswer.unit || ''}
+              onChange={(e) => update({ numericAnswer: { ...numericAnswer, unit: e.target.value } })}
+            />
+          </div>
+        </div>
+      );
+    }
+
+    case 'fill_blank':
+      return (
+        <div className="space-y-2">
+          <Label>Accepted Answers</Label>
+          <p className="text-sm text-gray-500">Any of these is marked correct. Extra spaces are ignored.</p>
+          {question.correctAnswers?.map((variant, index) => (
+            <div key={index} className="flex gap-2 items-center">
+              <Input
+                placeholder={`Accepted answer ${index + 1}`}
+                value={variant}
+                onChange={(e) => updateVariant(index, e.target.value)}
+              />
+              <Button
+                type="button"
+                variant="outline"
+                size="sm"
+                disabled={(question.correctAnswers?.length || 0) <= 1}
+                onClick={() => update({ correctAnswers: question.correctAnswers?.filter((_, i) => i !== index) })}
+              >
+                <Trash2 className="h-4 w-4" />
+              </Button>
+            </div>
+          ))}
+          <div className="flex items-center justify-between">
+            <Button
+              type="button"
+              variant="outline"
+              size="sm"
+              onClick={() => update({ correctAnswers: [...(question.correctAnswers || []), ''] })}
+            >
+              <Plus className="h-4 w-4 mr-2" />
+              Add Variant
+            </Button>
+            <div className="flex items-center gap-2">
+              <Switch
+                id="case-sensitive"
+                checked={!!question.caseSensitive}
+                onCheckedChange={(checked) => update({ caseSensitive: checked })}
+              />
+              <Label htmlFor="case-sensitive">Case sensitive</Label>
+            </div>
+          </div>
+        </div>
+      );
+
+    case 'matching':
+      return (
+        <div className="space-y-2">
+          <Label>Pairs</Label>
+          <p className="text-sm text-gray-500">Students see the right-hand items in a shuffled list. Each correct pair earns its share of the marks.</p>
+          {question.pairs?.map((pair, index) => (
+            <div key={index} className="flex gap-2 items-center">
+              <Input
+                placeholder={`Item ${index + 1}`}
+                value={pair.left}
+                onChange={(e) => updatePair(index, { left: e.target.value })}
+              />
+              <span className="text-gray-400">→</span>
+              <Input
+                placeholder={`Match ${index + 1}`}
+                value={pair.right}
+                onChange={(e) => updatePair(index, { right: e.target.value })}
+              />
+              <Button
+                type="button"
+                variant="outline"
+                size="sm"
+                disabled={(question.pairs?.length || 0) <= 2}
+                onClick={() => update({ pairs: question.pairs?.filter((_, i) => i !== index) })}
+              >
+                <Trash2 className="h-4 w-4" />
+              </Button>
+            </div>
+          ))}
+          <Button
+            type="button"
+            variant="outline"
+            size="sm"
+            onClick={() => update({ pairs: [...(question.pairs || []), { left: '', right: '' }] })}
+          >
+            <Plus className="h-4 w-4 mr-2" />
+            Add Pair
+          </Button>
+        </div>
+      );
+
+    case 'code':
+      return question.codeSettings ? (
+        <CodeQuestionFields
+          settings={question.codeSettings}
+          onChange={(codeSettings) => update({ codeSettings })}
+        />
+      ) : null;
+
+    default:
+      return null;
+  }
+};
+
+export default QuestionTypeFields;
@@ -0,0 +1,80 @@
+import React from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Copy, Download, ShieldCheck } from 'lucide-react';
+import { toast } from '@/hooks/use-toast';
+import { downloadBlob } from '@/lib/pdf';
+import { createReceiptPdf, formatConfirmationCode, getReceiptRows, SubmissionReceipt } from '@/lib/receipt';
+
+interface ReceiptCardProps {
+  receipt: SubmissionReceipt;
+  // Extra buttons next to the download, e.g. a link to the submission
+  actions?: React.ReactNode;
+}
+
+const ReceiptCard = ({ receipt, actions }: ReceiptCardProps) => {
+  const code = formatConfirmationCode(receipt.confirmationCode);
+
+  const copyCode = async () => {
+    try {
+      await navigator.clipboard.writeText(code);
+      toast({ title: "Copied", description: "Confirmation code copied to the clipboard" });
+    } catch (error) {
+      toast({ title: "Error", description: "Could not copy the code", variant: "destructive" });
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex flex-wrap items-center justify-between gap-2">
+          <CardTitle className="flex items-center gap-2">
+            <ShieldCheck className="h-5 w-5 text-green-600" />
+            Submission Receipt
+          </CardTitle>
+          {receipt.autoSubmitted && <Badge variant="outline">Submitted automatically</Badge>}
+        </div>
+        <CardDescription>Issued by the server when the submission was recorded</CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <div className="rounded-lg border bg-muted/50 p-4 text-center">
+          <p className="text-sm text-gray-600">Confirmation code</p>
+          <div className="mt-1 flex items-center justify-center gap-2">
+            <span className="font-mono text-2xl font-bold tracking-wider">{code}</span>
+            <Button variant="ghost" size="icon" onClick={copyCode} title="Copy code">
+              <Copy className="h-4 w-4" />
+            </Button>
+          </div>
+        </div>
+
+        <dl className="grid grid-cols-1 sm:grid-cols-2 gap-4 text-sm">
+          {getReceiptRows(receipt).map(([label, value]) => (
+            <div key={label}>
+              <dt className="text-gray-600">{label}</dt>
+              <dd className="font-medium break-words">{value}</dd>
+            </div>
+          ))}
+        </dl>
+
+        <div className="text-sm">
+          <p className="text-gray-600">Content hash (SHA-256)</p>
+          <p className="font-mono text-xs break-all">{receipt.contentHash}</p>
+        </div>
+
+        <div className="flex flex-wrap gap-2">
+          <Button
+            variant="outline"
+            onClick={() => downloadBlob(createReceiptPdf(receipt), `receipt-${code.toLowerCase()}.pdf`)}
+          >
+            <Download className="h-4 w-4 mr-2" />
+            Download PDF
+          </Button>
+          {actions}
+        </div>
+      </CardContent>
+    </Card>
+  );
+};
+
+export default ReceiptCard;
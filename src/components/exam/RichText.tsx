@@ -0,0 +1,58 @@
+import React from 'react';
+import ReactMarkdown, { Components } from 'react-markdown';
+import remarkMath from 'remark-math';
+import rehypeKatex from 'rehype-katex';
+import rehypeSanitize, { defaultSchema } from 'rehype-sanitize';
+import 'katex/dist/katex.min.css';
+import { cn } from '@/lib/utils';
+
+interface RichTextProps {
+  content?: string;
+  // Render without block wrappers, for options and other one-line labels
+  inline?: boolean;
+  className?: string;
+}
+
+// remark-math marks formulas with these classes; keep them through sanitizing
+// so KaTeX can still tell inline from display math.
+const schema = {
+  ...defaultSchema,
+  attributes: {
+    ...defaultSchema.attributes,
+    code: [['className', /^language-./, 'math-inline', 'math-display']],
+  },
+};
+
+const inlineComponents: Components = {
+  p: ({ children }) => <span>{children}</span>,
+};
+
+// Markdown with $inline$ / $$display$$ LaTeX and fenced code. Raw HTML is not
+// rendered and the generated markup is sanitized before KaTeX runs.
+const RichText = ({ content, inline = false, className }: RichTextProps) => {
+  if (!content) {
+    return null;
+  }
+
+  const Wrapper = inline ? 'span' : 'div';
+
+  return (
+    <Wrapper
+      className={cn(
+        'prose prose-sm max-w-none prose-pre:bg-gray-900 prose-pre:text-gray-100',
+        inline && 'inline [&_.katex-display]:inline-block',
+        className
+      )}
+    >
+      <ReactMarkdown
+        remarkPlugins={[remarkMath]}
+        rehypePlugins={[[rehypeSanitize, schema], rehypeKatex]}
+        components={inline ? inlineComponents : undefined}
+      >
+        {content}
+      </ReactMarkdown>
+    </Wrapper>
+  );
+};
+
+export default RichText;
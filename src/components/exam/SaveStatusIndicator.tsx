@@ -0,0 +1,49 @@
+import React from 'react';
+import { format } from 'date-fns';
+import { Badge } from '@/components/ui/badge';
+import { CloudOff, CloudUpload, CheckCircle, Cloud } from 'lucide-react';
+import { SaveStatus } from '@/hooks/use-draft-autosave';
+
+interface SaveStatusIndicatorProps {
+  status: SaveStatus;
+  lastSavedAt: Date | null;
+}
+
+const SaveStatusIndicator = ({ status, lastSavedAt }: SaveStatusIndicatorProps) => {
+  switch (status) {
+    case 'saving':
+      return (
+        <Badge variant="outline" className="py-2 px-3 bg-blue-50 text-blue-700 border-blue-300">
+          <CloudUpload className="w-4 h-4 mr-2 animate-pulse" />
+          Saving...
+        </Badge>
+      );
+    case 'saved':
+      return (
+        <Badge variant="outline" className="py-2 px-3 bg-green-50 text-green-700 border-green-300">
+          <CheckCircle className="w-4 h-4 mr-2" />
+          Saved{lastSavedAt ? ` at ${format(lastSavedAt, 'p')}` : ''}
+        </Badge>
+      );
+    case 'offline':
+      return (
+        <Badge
+          variant="outline"
+          className="py-2 px-3 bg-yellow-50 text-yellow-700 border-yellow-300"
+          title="Your answers are kept on this device and will be sent when the connection returns"
+        >
+          <CloudOff className="w-4 h-4 mr-2" />
+          Offline - saved locally
+        </Badge>
+      );
+    default:
+      return (
+        <Badge variant="outline" className="py-2 px-3 text-gray-600">
+          <Cloud className="w-4 h-4 mr-2" />
+          Not saved yet
+        </Badge>
+      );
+  }
+};
+
+export default SaveStatusIndicator;
@@ -0,0 +1,40 @@
+import React from 'react';
+import { format } from 'date-fns';
+import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert';
+import { AlertTriangle } from 'lucide-react';
+import { formatAudience } from '@/lib/exam-audience';
+import { ScheduleClash } from '@/lib/exam-schedule';
+
+interface ScheduleClashListProps {
+  clashes: ScheduleClash[];
+  className?: string;
+}
+
+const ScheduleClashList = ({ clashes, className }: ScheduleClashListProps) => {
+  if (clashes.length === 0) return null;
+
+  return (
+    <Alert variant="destructive" className={className}>
+      <AlertTriangle className="h-4 w-4" />
+      <AlertTitle>
+        Clashes with {clashes.length} {clashes.length === 1 ? 'exam' : 'exams'} for a shared cohort
+      </AlertTitle>
+      <AlertDescription>
+        <ul className="mt-2 space-y-2">
+          {clashes.map(({ paper, overlap }) => (
+            <li key={paper._id} className="text-sm">
+              <span className="font-medium">{paper.title}</span>
+              {paper.subject?.name && <span> ({paper.subject.name})</span>}
+              <div className="text-xs">
+                {formatAudience(paper.audience)} • overlaps {format(overlap.start, 'PPp')} – {format(overlap.end, 'p')}
+                {paper.status === 'pending' && ' • pending approval'}
+              </div>
+            </li>
+          ))}
+        </ul>
+      </AlertDescription>
+    </Alert>
+  );
+};
+
+export default ScheduleClashList;
@@ -0,0 +1,168 @@
+import React, { useEffect, useState } from 'react';
+import { useMutation, useQueryClient } from '@tanstack/react-query';
+import { schedulePaper } from '@/lib/api';
+import { toast } from '@/hooks/use-toast';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { formatAudience } from '@/lib/exam-audience';
+import { fromDateTimeInputValue, toDateTimeInputValue, validateExamWindow } from '@/lib/exam-window';
+import { findScheduleClashes, ScheduledPaper } from '@/lib/exam-schedule';
+import ScheduleClashList from './ScheduleClashList';
+import FreeSlotPicker from './FreeSlotPicker';
+
+interface ScheduleDialogProps {
+  paper: ScheduledPaper | null;
+  schedule: ScheduledPaper[];
+  // Admins may keep a clashing schedule by recording a reason
+  canOverride: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+const ScheduleDialog = ({ paper, schedule, canOverride, onOpenChange }: ScheduleDialogProps) => {
+  const queryClient = useQueryClient();
+  const [availability, setAvailability] = useState({ availableFrom: '', availableUntil: '', lateEntryUntil: '' });
+  const [overrideReason, setOverrideReason] = useState('');
+
+  useEffect(() => {
+    if (paper) {
+      setAvailability({
+        availableFrom: toDateTimeInputValue(paper.availableFrom || paper.scheduledDate),
+        availableUntil: toDateTimeInputValue(paper.availableUntil),
+        lateEntryUntil: toDateTimeInputValue(paper.lateEntryUntil),
+      });
+      setOverrideReason('');
+    }
+  }, [paper]);
+
+  const examWindow = {
+    availableFrom: fromDateTimeInputValue(availability.availableFrom),
+    availableUntil: fromDateTimeInputValue(availability.availableUntil),
+    lateEntryUntil: fromDateTimeInputValue(availability.lateEntryUntil),
+  };
+  const clashes = paper ? findScheduleClashes({ ...paper, scheduledDate: undefined, ...examWindow }, schedule) : [];
+  const windowError = paper ? validateExamWindow({ ...examWindow, duration: paper.duration }) : null;
+
+  const saveMutation = useMutation({
+    mutationFn: () => schedulePaper(paper!._id, {
+      ...examWindow,
+      clashOverrideReason: clashes.length ? overrideReason.trim() : undefined,
+    }),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['papers'] });
+      queryClient.invalidateQueries({ queryKey: ['examSchedule'] });
+      queryClient.invalidateQueries({ queryKey: ['paperVersions', paper!._id] });
+      toast({
+        title: "Schedule saved",
+        description: clashes.length ? "The clash and your reason have been recorded" : "No clashes with other exams"
+      });
+      onOpenChange(false);
+    },
+    onError: (error: { response?: { data?: { message?: string } } }) => {
+      toast({
+        title: "Error",
+        description: error.response?.data?.message || "Failed to save the schedule",
+        variant: "destructive"
+      });
+    }
+  });
+
+  const canSave = !windowError && !!availability.availableFrom &&
+    (clashes.length === 0 || (canOverride && !!overrideReason.trim()));
+
+  return (
+    <Dialog open={!!paper} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Schedule {paper?.title}</DialogTitle>
+          <DialogDescription>
+            For {formatAudience(paper?.audience)} • {paper?.duration} minutes
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="grid grid-cols-1 sm:grid-cols-3 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="schedule-from">Opens at</Label>
+              <Input
+                id="schedule-from"
+                type="datetime-local"
+                value={availability.availableFrom}
+                onChange={(e) => setAvailability({ ...availability, availableFrom: e.target.value })}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="schedule-late">Late entry until</Label>
+              <Input
+                id="schedule-late"
+                type="datetime-local"
+                value={availability.lateEntryUntil}
+                onChange={(e) => setAvailability({ ...availability, lateEntryUntil: e.target.value })}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="schedule-until">Closes at</Label>
+              <Input
+                id="schedule-until"
+                type="datetime-local"
+                value={availability.availableUntil}
+                onChange={(e) => setAvailability({ ...availability, availableUntil: e.target.value })}
+              />
+            </div>
+          </div>
+
+          {windowError && <p className="text-sm text-red-600">{windowError}</p>}
+
+          <ScheduleClashList clashes={clashes} />
+
+          {clashes.length > 0 && (canOverride ? (
+            <div className="space-y-2">
+              <Label htmlFor="override-reason">Reason for keeping this schedule</Label>
+              <Textarea
+                id="override-reason"
+                value={overrideReason}
+                onChange={(e) => setOverrideReason(e.target.value)}
+                placeholder="e.g. Students sit the two papers in different halls"
+              />
+            </div>
+          ) : (
+            <p className="text-sm text-gray-600">Pick a free slot, or ask an admin to approve the clash.</p>
+          ))}
+
+          {paper && (
+            <FreeSlotPicker
+              audience={paper.audience}
+              durationMinutes={paper.duration}
+              schedule={schedule.filter(other => other._id !== paper._id)}
+              onSelect={(slot) => setAvailability({
+                availableFrom: toDateTimeInputValue(slot.start),
+                availableUntil: toDateTimeInputValue(slot.end),
+                lateEntryUntil: '',
+              })}
+            />
+          )}
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button onClick={() => saveMutation.mutate()} disabled={!canSave || saveMutation.isPending}>
+            {saveMutation.isPending ? 'Saving...' : clashes.length ? 'Save with Clash' : 'Save Schedule'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default ScheduleDialog;
@@ -0,0 +1,143 @@
+import React, { useState } from 'react';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { format, isValid, parseISO } from 'date-fns';
+import { createAnnouncement, getAnnouncements } from '@/lib/api';
+import { ExamAnnouncement } from '@/lib/exam-socket';
+import { toast } from '@/hooks/use-toast';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Megaphone } from 'lucide-react';
+
+interface SendAnnouncementDialogProps {
+  examPaperId: string;
+  questionCount: number;
+}
+
+const SendAnnouncementDialog = ({ examPaperId, questionCount }: SendAnnouncementDialogProps) => {
+  const queryClient = useQueryClient();
+  const [isOpen, setIsOpen] = useState(false);
+  const [message, setMessage] = useState('');
+  const [questionIndex, setQuestionIndex] = useState('general');
+
+  const { data: announcements = [] } = useQuery<ExamAnnouncement[]>({
+    queryKey: ['announcements', examPaperId],
+    queryFn: () => getAnnouncements(examPaperId),
+    enabled: isOpen,
+    staleTime: 0,
+  });
+
+  const sendMutation = useMutation({
+    mutationFn: () => createAnnouncement(examPaperId, {
+      message: message.trim(),
+      questionIndex: questionIndex === 'general' ? undefined : parseInt(questionIndex),
+    }),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['announcements', examPaperId] });
+      toast({
+        title: "Announcement sent",
+        description: "All students in this exam will see it immediately"
+      });
+      setMessage('');
+      setQuestionIndex('general');
+    },
+    onError: (error: { response?: { data?: { message?: string } } }) => {
+      toast({
+        title: "Error",
+        description: error.response?.data?.message || "Failed to send announcement",
+        variant: "destructive"
+      });
+    }
+  });
+
+  return (
+    <>
+      <Button onClick={() => setIsOpen(true)} className="bg-red-800 hover:bg-red-900">
+        <Megaphone className="h-4 w-4 mr-2" />
+        Send Announcement
+      </Button>
+
+      <Dialog open={isOpen} onOpenChange={setIsOpen}>
+        <DialogContent className="max-w-lg">
+          <DialogHeader>
+            <DialogTitle>Send Announcement</DialogTitle>
+            <DialogDescription>
+              The message is shown as a banner to every student in this exam and kept for anyone who resumes later.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4">
+            <div className="space-y-2">
+              <Label>About</Label>
+              <Select value={questionIndex} onValueChange={setQuestionIndex}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="general">General</SelectItem>
+                  {Array.from({ length: questionCount }, (_, index) => (
+                    <SelectItem key={index} value={String(index)}>
+                      Question {index + 1}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="announcement">Message</Label>
+              <Textarea
+                id="announcement"
+                placeholder="e.g. In Question 4, read 'resistance' as 'reactance'."
+                value={message}
+                onChange={(e) => setMessage(e.target.value)}
+              />
+            </div>
+            {announcements.length > 0 && (
+              <div className="space-y-2">
+                <Label>Sent so far</Label>
+                <ScrollArea className="max-h-40 pr-3">
+                  <ul className="space-y-2">
+                    {[...announcements].reverse().map(announcement => {
+                      const sentAt = parseISO(announcement.createdAt);
+                      return (
+                        <li key={announcement._id} className="text-sm p-2 rounded border bg-gray-50">
+                          <div className="text-xs text-gray-500">
+                            {isValid(sentAt) ? format(sentAt, 'p') : ''}
+                            {typeof announcement.questionIndex === 'number' && ` • Question ${announcement.questionIndex + 1}`}
+                          </div>
+                          <p className="whitespace-pre-wrap">{announcement.message}</p>
+                        </li>
+                      );
+                    })}
+                  </ul>
+                </ScrollArea>
+              </div>
+            )}
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setIsOpen(false)}>
+              Close
+            </Button>
+            <Button
+              onClick={() => sendMutation.mutate()}
+              disabled={!message.trim() || sendMutation.isPending}
+            >
+              {sendMutation.isPending ? 'Sending...' : 'Send to All Students'}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+};
+
+export default SendAnnouncementDialog;
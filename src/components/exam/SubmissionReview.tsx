@@ -0,0 +1,159 @@
+import React from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert';
+import { AlertCircle, ArrowLeft, CheckCircle, Flag, Send } from 'lucide-react';
+import { cn } from '@/lib/utils';
+
+interface ReviewQuestion {
+  question: string;
+  marks: number;
+}
+
+interface SubmissionReviewProps {
+  questions: ReviewQuestion[];
+  getAnswerPreview: (index: number) => string;
+  flagged: number[];
+  isSubmitting: boolean;
+  onJumpTo: (index: number) => void;
+  onBack: () => void;
+  onConfirm: () => void;
+}
+
+const PREVIEW_LENGTH = 120;
+
+const truncate = (text: string) =>
+  text.length > PREVIEW_LENGTH ? `${text.slice(0, PREVIEW_LENGTH)}…` : text;
+
+const SubmissionReview = ({
+  questions,
+  getAnswerPreview,
+  flagged,
+  isSubmitting,
+  onJumpTo,
+  onBack,
+  onConfirm,
+}: SubmissionReviewProps) => {
+  const rows = questions.map((question, index) => {
+    const answer = getAnswerPreview(index).trim();
+    return {
+      index,
+      question,
+      answer,
+      isAnswered: answer !== '',
+      isFlagged: flagged.includes(index),
+    };
+  });
+
+  const unanswered = rows.filter(row => !row.isAnswered);
+  const flaggedRows = rows.filter(row => row.isFlagged);
+  const totalMarks = questions.reduce((sum, q) => sum + (Number(q.marks) || 0), 0);
+  const unansweredMarks = unanswered.reduce((sum, row) => sum + (Number(row.question.marks) || 0), 0);
+  const flaggedMarks = flaggedRows.reduce((sum, row) => sum + (Number(row.question.marks) || 0), 0);
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h2 className="text-xl font-bold text-gray-900">Review Your Answers</h2>
+        <p className="text-gray-600">
+          Check every question before the final submission. You cannot change your answers afterwards.
+        </p>
+      </div>
+
+      {/* Summary */}
+      <div className="grid grid-cols-1 sm:grid-cols-3 gap-4">
+        <Card className="bg-gradient-to-r from-green-50 to-green-100 border-green-200">
+          <CardContent className="p-4">
+            <p className="text-green-600 text-sm font-medium">Answered</p>
+            <p className="text-2xl font-bold text-green-800">
+              {rows.length - unanswered.length}/{rows.length}
+            </p>
+          </CardContent>
+        </Card>
+        <Card className="bg-gradient-to-r from-red-50 to-red-100 border-red-200">
+          <CardContent className="p-4">
+            <p className="text-red-600 text-sm font-medium">Unanswered</p>
+            <p className="text-2xl font-bold text-red-800">{unanswered.length}</p>
+            <p className="text-xs text-red-600">{unansweredMarks} of {totalMarks} marks at stake</p>
+          </CardContent>
+        </Card>
+        <Card className="bg-gradient-to-r from-purple-50 to-purple-100 border-purple-200">
+          <CardContent className="p-4">
+            <p className="text-purple-600 text-sm font-medium">Marked for Review</p>
+            <p className="text-2xl font-bold text-purple-800">{flaggedRows.length}</p>
+            <p className="text-xs text-purple-600">{flaggedMarks} marks flagged</p>
+          </CardContent>
+        </Card>
+      </div>
+
+      {unanswered.length > 0 && (
+        <Alert variant="destructive">
+          <AlertCircle className="h-4 w-4" />
+          <AlertTitle>Unanswered questions</AlertTitle>
+          <AlertDescription>
+            Questions {unanswered.map(row => row.index + 1).join(', ')} have no answer.
+          </AlertDescription>
+        </Alert>
+      )}
+
+      {/* Question list */}
+      <Card className="bg-white shadow-sm">
+        <CardHeader>
+          <CardTitle className="text-base">All Questions</CardTitle>
+          <CardDescription>Select a question to go back and change it</CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-2">
+          {rows.map(row => (
+            <button
+              key={row.index}
+              type="button"
+              onClick={() => onJumpTo(row.index)}
+              className={cn(
+                'w-full text-left p-3 rounded-lg border transition-colors hover:bg-gray-50',
+                row.isFlagged
+                  ? 'border-purple-300'
+                  : row.isAnswered
+                  ? 'border-gray-200'
+                  : 'border-red-300 bg-red-50/50'
+              )}
+            >
+              <div className="flex items-start justify-between gap-4">
+                <div className="min-w-0 space-y-1">
+                  <p className="font-medium text-gray-900">
+                    Q{row.index + 1}. <span className="font-normal">{truncate(row.question.question)}</span>
+                  </p>
+                  <p className={cn('text-sm', row.isAnswered ? 'text-gray-600' : 'text-red-600 italic')}>
+                    {row.isAnswered ? truncate(row.answer) : 'Not answered'}
+                  </p>
+                </div>
+                <div className="flex flex-shrink-0 items-center gap-2">
+                  {row.isFlagged && <Flag className="h-4 w-4 text-purple-600" />}
+                  {row.isAnswered && <CheckCircle className="h-4 w-4 text-green-600" />}
+                  <Badge variant="outline">{row.question.marks} marks</Badge>
+                </div>
+              </div>
+            </button>
+          ))}
+        </CardContent>
+      </Card>
+
+      <div className="flex justify-between items-center">
+        <Button variant="outline" onClick={onBack} disabled={isSubmitting}>
+          <ArrowLeft className="w-4 h-4 mr-2" />
+          Back to Exam
+        </Button>
+        <Button
+          onClick={onConfirm}
+          disabled={isSubmitting}
+          className="bg-green-600 hover:bg-green-700"
+        >
+          <Send className="w-4 h-4 mr-2" />
+          {isSubmitting ? 'Submitting...' : 'Confirm Final Submission'}
+        </Button>
+      </div>
+    </div>
+  );
+};
+
+export default SubmissionReview;
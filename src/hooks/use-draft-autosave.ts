@@ -0,0 +1,141 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { saveSubmissionDraft } from '@/lib/api';
+import { clearQueuedDraft, DraftAnswer, enqueueDraft, ExamDraft, flushDraftQueue } from '@/lib/draft-queue';
+
+export type SaveStatus = 'idle' | 'saving' | 'saved' | 'offline';
+
+interface DraftAutosaveOptions {
+  examPaperId?: string;
+  answers: DraftAnswer[];
+  flagged: number[];
+  enabled: boolean;
+}
+
+const SAVE_DEBOUNCE_MS = 1500;
+const SAVE_INTERVAL_MS = 30 * 1000;
+
+// Queues the draft in IndexedDB first so it survives a crash mid-request,
+// then pushes everything queued. Falls back to a direct save when
+// IndexedDB is unavailable (private browsing, old browsers).
+const persistDraft = async (draft: ExamDraft) => {
+  try {
+    await enqueueDraft(draft);
+  } catch (error) {
+    await saveSubmissionDraft(draft);
+    return true;
+  }
+  return flushDraftQueue(saveSubmissionDraft);
+};
+
+export function useDraftAutosave({ examPaperId, answers, flagged, enabled }: DraftAutosaveOptions) {
+  const [status, setStatus] = useState<SaveStatus>('idle');
+  const [lastSavedAt, setLastSavedAt] = useState<Date | null>(null);
+  const latestRef = useRef({ answers, flagged });
+  const isDirtyRef = useRef(false);
+  const isSavingRef = useRef(false);
+  const savingRef = useRef<Promise<void> | null>(null);
+
+  const save = useCallback(async () => {
+    if (!examPaperId || !enabled || isSavingRef.current) {
+      return;
+    }
+
+    const draft: ExamDraft = {
+      examPaper: examPaperId,
+      answers: latestRef.current.answers.map(({ questionIndex, selectedOption }) => ({
+        questionIndex,
+        selectedOption,
+      })),
+      flagged: latestRef.current.flagged,
+      updatedAt: new Date().toISOString(),
+    };
+
+    isSavingRef.current = true;
+    isDirtyRef.current = false;
+    setStatus('saving');
+
+    savingRef.current = (async () => {
+      try {
+        const allSaved = await persistDraft(draft);
+        if (allSaved) {
+          setStatus('saved');
+          setLastSavedAt(new Date());
+        } else {
+          setStatus('offline');
+        }
+      } catch (error) {
+        console.error('Failed to save exam draft:', error);
+        setStatus('offline');
+      } finally {
+        isSavingRef.current = false;
+      }
+    })();
+    await savingRef.current;
+  }, [examPaperId, enabled]);
+
+  // Waits for a save already in flight, then saves anything changed since
+  const flush = useCallback(async () => {
+    await savingRef.current;
+    if (isDirtyRef.current) {
+      await save();
+    }
+  }, [save]);
+
+  // Save shortly after every change
+  useEffect(() => {
+    latestRef.current = { answers, flagged };
+    if (!enabled) {
+      return;
+    }
+
+    isDirtyRef.current = true;
+    const timeout = setTimeout(save, SAVE_DEBOUNCE_MS);
+    return () => clearTimeout(timeout);
+  }, [answers, flagged, enabled, save]);
+
+  // Periodic save, which also retries anything still queued
+  useEffect(() => {
+    if (!enabled) {
+      return;
+    }
+
+    const interval = setInterval(() => {
+      if (isDirtyRef.current || status === 'offline') {
+        save();
+      }
+    }, SAVE_INTERVAL_MS);
+
+    return () => clearInterval(interval);
+  }, [enabled, save, status]);
+
+  // Flush as soon as the browser reports the network is back
+  useEffect(() => {
+    const handleOnline = () => save();
+    const handleOffline = () => setStatus('offline');
+
+    window.addEventListener('online', handleOnline);
+    window.addEventListener('offline', handleOffline);
+
+    return () => {
+      window.removeEventListener('online', handleOnline);
+      window.removeEventListener('offline', handleOffline);
+    };
+  }, [save]);
+
+  const clearDraft = useCallback(async () => {
+    if (!examPaperId) return;
+    try {
+      await clearQueuedDraft(examPaperId);
+    } catch (error) {
+      console.error('Failed to clear queued exam draft:', error);
+    }
+  }, [examPaperId]);
+
+  return {
+    status,
+    lastSavedAt,
+    saveNow: save,
+    flush,
+    clearDraft,
+  };
+}
@@ -0,0 +1,24 @@
+import { useEffect } from 'react';
+import { Accommodations, FONT_SCALE_SIZES } from '@/lib/accommodations';
+
+// Applies display accommodations to the whole page while the exam is open and
+// restores the previous settings on the way out.
+export function useExamAccessibility(accommodations?: Accommodations) {
+  const fontScale = accommodations?.fontScale || 'default';
+  const highContrast = !!accommodations?.highContrast;
+
+  useEffect(() => {
+    const root = document.documentElement;
+    const previousFontSize = root.style.fontSize;
+
+    if (fontScale !== 'default') {
+      root.style.fontSize = `${FONT_SCALE_SIZES[fontScale]}px`;
+    }
+    root.classList.toggle('high-contrast', highContrast);
+
+    return () => {
+      root.style.fontSize = previousFontSize;
+      root.classList.remove('high-contrast');
+    };
+  }, [fontScale, highContrast]);
+}
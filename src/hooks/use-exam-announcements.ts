@@ -0,0 +1,77 @@
+import { useEffect, useRef, useState } from 'react';
+import { useQuery, useQueryClient } from '@tanstack/react-query';
+import { getAnnouncements } from '@/lib/api';
+import { useSocket } from '@/lib/socket-context';
+import { EXAM_SOCKET_EVENTS, ExamAnnouncement } from '@/lib/exam-socket';
+
+interface ExamAnnouncementsOptions {
+  examPaperId?: string;
+  enabled: boolean;
+  onAnnouncement?: (announcement: ExamAnnouncement) => void;
+}
+
+// Stored announcements for the paper plus anything pushed live while the
+// student is in the exam. Read state is kept per paper so a resumed attempt
+// only highlights what the student hasn't seen.
+export function useExamAnnouncements({ examPaperId, enabled, onAnnouncement }: ExamAnnouncementsOptions) {
+  const queryClient = useQueryClient();
+  const { socket } = useSocket();
+  const queryKey = ['announcements', examPaperId];
+  const seenKey = `exam_${examPaperId}_announcementsSeen`;
+  const [lastSeenAt, setLastSeenAt] = useState<string | null>(null);
+  const onAnnouncementRef = useRef(onAnnouncement);
+
+  useEffect(() => {
+    onAnnouncementRef.current = onAnnouncement;
+  }, [onAnnouncement]);
+
+  const { data: announcements = [] } = useQuery<ExamAnnouncement[]>({
+    queryKey,
+    queryFn: () => getAnnouncements(examPaperId!),
+    enabled: !!examPaperId && enabled,
+    staleTime: 0,
+  });
+
+  useEffect(() => {
+    if (examPaperId) {
+      setLastSeenAt(localStorage.getItem(seenKey));
+    }
+  }, [examPaperId, seenKey]);
+
+  useEffect(() => {
+    if (!socket || !examPaperId || !enabled) {
+      return;
+    }
+
+    const handleAnnouncement = (announcement: ExamAnnouncement) => {
+      if (announcement.examPaper !== examPaperId) return;
+
+      queryClient.setQueryData<ExamAnnouncement[]>(['announcements', examPaperId], (prev = []) =>
+        prev.some(a => a._id === announcement._id) ? prev : [...prev, announcement]
+      );
+      onAnnouncementRef.current?.(announcement);
+    };
+
+    socket.on(EXAM_SOCKET_EVENTS.ANNOUNCEMENT, handleAnnouncement);
+    return () => {
+      socket.off(EXAM_SOCKET_EVENTS.ANNOUNCEMENT, handleAnnouncement);
+    };
+  }, [socket, examPaperId, enabled, queryClient]);
+
+  const sorted = [...announcements].sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+  const unreadCount = sorted.filter(a => !lastSeenAt || a.createdAt > lastSeenAt).length;
+
+  const markAllRead = () => {
+    const latest = sorted[sorted.length - 1];
+    if (!latest) return;
+    localStorage.setItem(seenKey, latest.createdAt);
+    setLastSeenAt(latest.createdAt);
+  };
+
+  return {
+    announcements: sorted,
+    latest: sorted[sorted.length - 1],
+    unreadCount,
+    markAllRead,
+  };
+}
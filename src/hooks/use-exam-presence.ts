@@ -0,0 +1,73 @@
+import { useEffect, useRef } from 'react';
+import { useSocket } from '@/lib/socket-context';
+import { EXAM_SOCKET_EVENTS, ExamProgressPayload } from '@/lib/exam-socket';
+
+interface ExamPresenceOptions {
+  examPaperId?: string;
+  studentId?: string;
+  answeredCount: number;
+  questionCount: number;
+  currentQuestionIndex: number;
+  deadline?: number | null;
+  enabled: boolean;
+}
+
+const HEARTBEAT_INTERVAL_MS = 15 * 1000;
+
+// Keeps invigilators informed that this student is in the exam and how far
+// along they are. Progress is re-sent on every change and on a heartbeat so
+// "last activity" stays accurate while the student is reading.
+export function useExamPresence({
+  examPaperId,
+  studentId,
+  answeredCount,
+  questionCount,
+  currentQuestionIndex,
+  deadline,
+  enabled,
+}: ExamPresenceOptions) {
+  const { socket, isConnected } = useSocket();
+  const payloadRef = useRef<ExamProgressPayload | null>(null);
+
+  payloadRef.current = examPaperId && studentId
+    ? {
+        examPaper: examPaperId,
+        student: studentId,
+        answeredCount,
+        questionCount,
+        currentQuestionIndex,
+        deadline: deadline ? new Date(deadline).toISOString() : undefined,
+      }
+    : null;
+
+  // Join the exam room, again after every reconnect
+  useEffect(() => {
+    if (!socket || !isConnected || !enabled || !examPaperId || !studentId) {
+      return;
+    }
+
+    socket.emit(EXAM_SOCKET_EVENTS.JOIN_EXAM, { examPaper: examPaperId, student: studentId });
+    if (payloadRef.current) {
+      socket.emit(EXAM_SOCKET_EVENTS.PROGRESS, payloadRef.current);
+    }
+
+    const heartbeat = setInterval(() => {
+      if (payloadRef.current) {
+        socket.emit(EXAM_SOCKET_EVENTS.PROGRESS, payloadRef.current);
+      }
+    }, HEARTBEAT_INTERVAL_MS);
+
+    return () => {
+      clearInterval(heartbeat);
+      socket.emit(EXAM_SOCKET_EVENTS.LEAVE_EXAM, { examPaper: examPaperId, student: studentId });
+    };
+  }, [socket, isConnected, enabled, examPaperId, studentId]);
+
+  // Report progress whenever it changes
+  useEffect(() => {
+    if (!socket || !isConnected || !enabled || !payloadRef.current) {
+      return;
+    }
+    socket.emit(EXAM_SOCKET_EVENTS.PROGRESS, payloadRef.current);
+  }, [socket, isConnected, enabled, answeredCount, questionCount, currentQuestionIndex, deadline]);
+}
@@ -0,0 +1,70 @@
+import { useMemo } from 'react';
+import { useMutation, useQueryClient } from '@tanstack/react-query';
+import { advanceExamSection } from '@/lib/api';
+import { ExamSection, getSectionRanges } from '@/lib/sections';
+import { getAdjustedSectionTime } from '@/lib/accommodations';
+import { ExamAttempt, useExamTimer } from './use-exam-timer';
+
+interface ExamSectionsOptions {
+  examPaperId?: string;
+  sections?: ExamSection[];
+  questionCount: number;
+  // Paper duration in minutes; extra time stretches section limits in proportion
+  duration?: number;
+  attempt?: ExamAttempt;
+  onSectionExpire: (sectionIndex: number, isLastSection: boolean) => void;
+}
+
+// Section order and per-section time limits. The server records when each
+// section was entered, so the section clock survives reloads like the exam
+// clock does. Earlier sections are locked; later ones are not reachable yet.
+export function useExamSections({ examPaperId, sections, questionCount, duration = 0, attempt, onSectionExpire }: ExamSectionsOptions) {
+  const queryClient = useQueryClient();
+  const ranges = useMemo(() => getSectionRanges(sections, questionCount), [sections, questionCount]);
+  const isSectioned = !!sections?.length;
+
+  const currentSection = Math.min(attempt?.currentSection ?? 0, ranges.length - 1);
+  const currentRange = ranges[currentSection];
+  const isLastSection = currentSection === ranges.length - 1;
+  const sectionStartTime = attempt?.sectionStartTimes?.[currentSection]
+    ?? (currentSection === 0 ? attempt?.startTime : undefined);
+  const sectionTimeLimit = getAdjustedSectionTime(currentRange?.section.timeLimit, duration, attempt?.accommodations);
+
+  const { timeLeft: sectionTimeLeft, isExpired } = useExamTimer({
+    startTime: isSectioned ? sectionStartTime : undefined,
+    durationMinutes: sectionTimeLimit,
+    serverOffset: attempt?.serverOffset,
+    onExpire: () => onSectionExpire(currentSection, isLastSection),
+  });
+
+  const advanceMutation = useMutation({
+    mutationFn: () => advanceExamSection(examPaperId!, currentSection + 1),
+    onSuccess: (data: { attempt: Omit<ExamAttempt, 'serverOffset'> }) => {
+      queryClient.setQueryData<ExamAttempt | null>(['examAttempt', examPaperId], (prev) =>
+        prev ? { ...prev, ...data.attempt, serverOffset: prev.serverOffset } : prev
+      );
+    },
+  });
+
+  // Display positions share the section ranges because shuffling stays
+  // within a section
+  const canAccess = (position: number) =>
+    !isSectioned || (
+      position >= currentRange.start &&
+      position < currentRange.end &&
+      !isExpired
+    );
+
+  return {
+    ranges,
+    isSectioned,
+    currentSection,
+    currentRange,
+    isLastSection,
+    sectionTimeLeft: sectionTimeLimit ? sectionTimeLeft : null,
+    isSectionExpired: isSectioned && isExpired,
+    canAccess,
+    advance: advanceMutation.mutate,
+    isAdvancing: advanceMutation.isPending,
+  };
+}
@@ -0,0 +1,147 @@
+import { useEffect, useRef, useState } from 'react';
+import { useMutation, useQueries, useQuery, useQueryClient } from '@tanstack/react-query';
+import { getExamAttempt, startExamAttempt } from '@/lib/api';
+import { Accommodations } from '@/lib/accommodations';
+
+export interface ExamAttempt {
+  _id: string;
+  examPaper: string;
+  startTime: string;
+  // Sectioned papers: the section in progress and when each one was entered
+  currentSection?: number;
+  sectionStartTimes?: string[];
+  // The student's accommodations, copied when the attempt started
+  accommodations?: Accommodations;
+  // Difference between the server clock and this browser's clock, in ms
+  serverOffset: number;
+}
+
+interface AttemptResponse {
+  attempt: Omit<ExamAttempt, 'serverOffset'> | null;
+  serverTime: string;
+}
+
+// Both attempt endpoints and the invigilation list return the server time,
+// which keeps every clock in the exam on the server's time rather than the
+// browser's.
+export const measureServerOffset = async <T extends { serverTime: string }>(request: () => Promise<T>) => {
+  const requestedAt = Date.now();
+  const data = await request();
+  const receivedAt = Date.now();
+
+  // Assume the server stamped its time halfway through the round trip
+  const serverTime = new Date(data.serverTime).getTime();
+  const serverOffset = Number.isNaN(serverTime)
+    ? 0
+    : serverTime - (requestedAt + receivedAt) / 2;
+
+  return { data, serverOffset };
+};
+
+const withServerOffset = async (request: () => Promise<AttemptResponse>): Promise<ExamAttempt | null> => {
+  const { data, serverOffset } = await measureServerOffset(request);
+  return data.attempt ? { ...data.attempt, serverOffset } : null;
+};
+
+// Resumes the student's attempt. The data is null until the attempt has been
+// started from the lobby; a reload or a second device gets back the original
+// startTime.
+export function useExamAttempt(examPaperId: string | undefined, enabled = true) {
+  return useQuery<ExamAttempt | null, Error>({
+    queryKey: ['examAttempt', examPaperId],
+    queryFn: () => withServerOffset(() => getExamAttempt(examPaperId!)),
+    enabled: !!examPaperId && enabled,
+    staleTime: Infinity,
+    gcTime: 0,
+    retry: 1,
+  });
+}
+
+// The student's attempts on several papers, sharing useExamAttempt's cache
+export function useExamAttempts(examPaperIds: string[]) {
+  return useQueries({
+    queries: examPaperIds.map(examPaperId => ({
+      queryKey: ['examAttempt', examPaperId],
+      queryFn: () => withServerOffset(() => getExamAttempt(examPaperId)),
+      staleTime: Infinity,
+      gcTime: 0,
+      retry: 1,
+    })),
+  });
+}
+
+// Starts the attempt. The server owns the start time, so the clock begins
+// when the student leaves the lobby, not when the exam page first loads.
+export function useStartExamAttempt(examPaperId: string | undefined) {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: () => withServerOffset(() => startExamAttempt(examPaperId!)),
+    onSuccess: (attempt) => {
+      queryClient.setQueryData(['examAttempt', examPaperId], attempt);
+    },
+  });
+}
+
+interface ExamTimerOptions {
+  startTime?: string;
+  durationMinutes?: number;
+  serverOffset?: number;
+  // End of the paper's availability window; no attempt runs past it
+  closesAt?: number | null;
+  onExpire: () => void;
+}
+
+export function useExamTimer({ startTime, durationMinutes, serverOffset = 0, closesAt, onExpire }: ExamTimerOptions) {
+  const [timeLeft, setTimeLeft] = useState<number | null>(null);
+  const onExpireRef = useRef(onExpire);
+  const hasExpiredRef = useRef(false);
+
+  useEffect(() => {
+    onExpireRef.current = onExpire;
+  }, [onExpire]);
+
+  const attemptDeadline = startTime && durationMinutes
+    ? new Date(startTime).getTime() + durationMinutes * 60 * 1000
+    : null;
+  const deadline = attemptDeadline !== null && closesAt
+    ? Math.min(attemptDeadline, closesAt)
+    : attemptDeadline;
+
+  useEffect(() => {
+    if (deadline === null || Number.isNaN(deadline)) {
+      setTimeLeft(null);
+      return;
+    }
+
+    hasExpiredRef.current = false;
+
+    // Always derive the remaining time from the deadline instead of counting
+    // down, so throttled background tabs and sleeping laptops stay correct.
+    const tick = () => {
+      const serverNow = Date.now() + serverOffset;
+      const remaining = Math.max(0, Math.ceil((deadline - serverNow) / 1000));
+      setTimeLeft(remaining);
+
+      if (remaining === 0 && !hasExpiredRef.current) {
+        hasExpiredRef.current = true;
+        onExpireRef.current();
+      }
+    };
+
+    tick();
+    const timer = setInterval(tick, 1000);
+    document.addEventListener('visibilitychange', tick);
+
+    return () => {
+      clearInterval(timer);
+      document.removeEventListener('visibilitychange', tick);
+    };
+  }, [deadline, serverOffset]);
+
+  return {
+    timeLeft,
+    deadline,
+    isExpired: timeLeft === 0,
+  };
+}
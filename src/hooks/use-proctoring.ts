@@ -0,0 +1,165 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { logProctoringEvents } from '@/lib/api';
+import { useSocket } from '@/lib/socket-context';
+import { EXAM_SOCKET_EVENTS } from '@/lib/exam-socket';
+import {
+  ProctoringEvent,
+  ProctoringEventType,
+  ProctoringSettings,
+  isNewViolation,
+} from '@/lib/proctoring';
+
+interface ProctoringOptions {
+  examPaperId?: string;
+  studentId?: string;
+  settings: ProctoringSettings;
+  enabled: boolean;
+  getQuestionIndex: () => number;
+  onWarning: (violations: number) => void;
+  onLimitReached: (violations: number) => void;
+}
+
+const FLUSH_INTERVAL_MS = 10 * 1000;
+
+export function useProctoring({
+  examPaperId,
+  studentId,
+  settings,
+  enabled,
+  getQuestionIndex,
+  onWarning,
+  onLimitReached,
+}: ProctoringOptions) {
+  const { socket } = useSocket();
+  const storageKey = `exam_${examPaperId}_violations`;
+  const [violations, setViolations] = useState(0);
+  const violationsRef = useRef(0);
+  const [isFullscreen, setIsFullscreen] = useState(!!document.fullscreenElement);
+  const pendingRef = useRef<ProctoringEvent[]>([]);
+  const lastViolationAtRef = useRef(0);
+  const callbacksRef = useRef({ getQuestionIndex, onWarning, onLimitReached });
+
+  useEffect(() => {
+    callbacksRef.current = { getQuestionIndex, onWarning, onLimitReached };
+  }, [getQuestionIndex, onWarning, onLimitReached]);
+
+  // Violation count survives reloads so the thresholds cannot be reset
+  useEffect(() => {
+    if (!examPaperId) return;
+    const saved = localStorage.getItem(storageKey);
+    if (saved) {
+      violationsRef.current = parseInt(saved) || 0;
+      setViolations(violationsRef.current);
+    }
+  }, [examPaperId, storageKey]);
+
+  const flush = useCallback(async () => {
+    if (!examPaperId || pendingRef.current.length === 0) {
+      return;
+    }
+
+    const batch = pendingRef.current;
+    pendingRef.current = [];
+    try {
+      await logProctoringEvents(examPaperId, batch);
+    } catch (error) {
+      console.error('Failed to send proctoring events:', error);
+      // Keep them for the next attempt, oldest first
+      pendingRef.current = [...batch, ...pendingRef.current];
+    }
+  }, [examPaperId]);
+
+  const record = useCallback((type: ProctoringEventType) => {
+    if (!examPaperId) return;
+
+    const event: ProctoringEvent = {
+      type,
+      timestamp: new Date().toISOString(),
+      questionIndex: callbacksRef.current.getQuestionIndex(),
+    };
+
+    pendingRef.current.push(event);
+    socket?.emit(EXAM_SOCKET_EVENTS.PROCTORING_EVENT, { examPaper: examPaperId, student: studentId, event });
+
+    const time = new Date(event.timestamp).getTime();
+    if (!isNewViolation(type, time, lastViolationAtRef.current)) {
+      return;
+    }
+    lastViolationAtRef.current = time;
+
+    const next = violationsRef.current + 1;
+    violationsRef.current = next;
+    setViolations(next);
+    localStorage.setItem(storageKey, next.toString());
+
+    if (settings.autoSubmitAfter > 0 && next >= settings.autoSubmitAfter) {
+      callbacksRef.current.onLimitReached(next);
+    } else if (settings.warnAfter > 0 && next >= settings.warnAfter) {
+      callbacksRef.current.onWarning(next);
+    }
+
+    // Violations go out straight away so invigilators see them promptly
+    flush();
+  }, [examPaperId, studentId, socket, settings.autoSubmitAfter, settings.warnAfter, storageKey, flush]);
+
+  useEffect(() => {
+    if (!enabled || !settings.enabled) {
+      return;
+    }
+
+    const handleVisibilityChange = () => {
+      if (document.visibilityState === 'hidden') {
+        record('tab_hidden');
+      }
+    };
+    const handleBlur = () => record('window_blur');
+    const handleFullscreenChange = () => {
+      const active = !!document.fullscreenElement;
+      setIsFullscreen(active);
+      if (!active) {
+        record('fullscreen_exit');
+      }
+    };
+    const handleCopy = () => record('copy');
+    const handlePaste = () => record('paste');
+    const handleContextMenu = (e: MouseEvent) => {
+      e.preventDefault();
+      record('context_menu');
+    };
+
+    document.addEventListener('visibilitychange', handleVisibilityChange);
+    window.addEventListener('blur', handleBlur);
+    document.addEventListener('fullscreenchange', handleFullscreenChange);
+    document.addEventListener('copy', handleCopy);
+    document.addEventListener('paste', handlePaste);
+    document.addEventListener('contextmenu', handleContextMenu);
+
+    const interval = setInterval(flush, FLUSH_INTERVAL_MS);
+
+    return () => {
+      document.removeEventListener('visibilitychange', handleVisibilityChange);
+      window.removeEventListener('blur', handleBlur);
+      document.removeEventListener('fullscreenchange', handleFullscreenChange);
+      document.removeEventListener('copy', handleCopy);
+      document.removeEventListener('paste', handlePaste);
+      document.removeEventListener('contextmenu', handleContextMenu);
+      clearInterval(interval);
+      flush();
+    };
+  }, [enabled, settings.enabled, record, flush]);
+
+  const enterFullscreen = useCallback(async () => {
+    try {
+      await document.documentElement.requestFullscreen();
+    } catch (error) {
+      console.error('Failed to enter fullscreen:', error);
+    }
+  }, []);
+
+  return {
+    violations,
+    isFullscreen,
+    enterFullscreen,
+    flush,
+  };
+}
@@ -0,0 +1,34 @@
+import { useEffect, useState } from 'react';
+import { keepPreviousData, useQuery } from '@tanstack/react-query';
+import { getQuestionBank, getQuestionBankTags } from '@/lib/api';
+import { BankFilters, BankQuestion } from '@/lib/question-bank';
+
+const SEARCH_DEBOUNCE_MS = 300;
+
+// Searches a subject's bank. Typing is debounced; the previous results stay
+// on screen while the next page of results loads.
+export function useQuestionBank(subjectId: string | undefined, filters: BankFilters, enabled = true) {
+  const [search, setSearch] = useState(filters.search || '');
+
+  useEffect(() => {
+    const timeout = setTimeout(() => setSearch(filters.search?.trim() || ''), SEARCH_DEBOUNCE_MS);
+    return () => clearTimeout(timeout);
+  }, [filters.search]);
+
+  const query = { ...filters, search: search || undefined };
+
+  const { data: questions = [], isLoading, isFetching } = useQuery<BankQuestion[]>({
+    queryKey: ['questionBank', subjectId, query],
+    queryFn: () => getQuestionBank(subjectId!, query),
+    enabled: !!subjectId && enabled,
+    placeholderData: keepPreviousData,
+  });
+
+  const { data: tags = [] } = useQuery<string[]>({
+    queryKey: ['questionBankTags', subjectId],
+    queryFn: () => getQuestionBankTags(subjectId!),
+    enabled: !!subjectId && enabled,
+  });
+
+  return { questions, tags, isLoading, isFetching };
+}
@@ -0,0 +1,28 @@
+import { useEffect, useRef } from 'react';
+import { getClockLevel } from '@/lib/exam-timing';
+
+// Calls onWarning once each time the clock crosses one of the warning
+// thresholds. Thresholds already passed when the exam is opened or resumed
+// are not announced again.
+export function useTimeWarnings(timeLeft: number | null, warnings: number[], onWarning: (minutes: number) => void) {
+  const previousRef = useRef<number | null>(null);
+  const onWarningRef = useRef(onWarning);
+
+  useEffect(() => {
+    onWarningRef.current = onWarning;
+  }, [onWarning]);
+
+  useEffect(() => {
+    const previous = previousRef.current;
+    previousRef.current = timeLeft;
+    if (previous === null || timeLeft === null || timeLeft === 0) return;
+
+    // A throttled tab can skip several thresholds; only the latest matters
+    const crossed = warnings.filter(minutes => previous > minutes * 60 && timeLeft <= minutes * 60);
+    if (crossed.length) {
+      onWarningRef.current(Math.min(...crossed));
+    }
+  }, [timeLeft, warnings]);
+
+  return getClockLevel(timeLeft, warnings);
+}
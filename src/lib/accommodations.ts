@@ -0,0 +1,66 @@
+// Per-student exam accommodations, set by admins on the user record. The
+// server copies them onto each attempt when it starts, so changing them later
+// does not affect an exam already in progress.
+export type FontScale = 'default' | 'large' | 'x-large';
+
+export interface Accommodations {
+  // Extra time as a share of the paper's duration, on top of any fixed minutes
+  extraTimePercent?: number;
+  extraTimeMinutes?: number;
+  fontScale?: FontScale;
+  highContrast?: boolean;
+  screenReader?: boolean;
+  notes?: string;
+}
+
+export const FONT_SCALE_LABELS: Record<FontScale, string> = {
+  default: 'Default',
+  large: 'Large',
+  'x-large': 'Extra large',
+};
+
+// Root font sizes in px; Tailwind sizes are in rem, so the whole exam scales
+export const FONT_SCALE_SIZES: Record<FontScale, number> = {
+  default: 16,
+  large: 18,
+  'x-large': 20,
+};
+
+export const getExtraTimeMinutes = (durationMinutes: number, accommodations?: Accommodations | null) => {
+  if (!accommodations) return 0;
+  const percent = Math.max(0, accommodations.extraTimePercent || 0);
+  const minutes = Math.max(0, accommodations.extraTimeMinutes || 0);
+  return Math.round((durationMinutes * percent) / 100) + minutes;
+};
+
+export const getAdjustedDuration = (durationMinutes: number, accommodations?: Accommodations | null) =>
+  durationMinutes + getExtraTimeMinutes(durationMinutes, accommodations);
+
+// Section limits stretch by the same ratio as the whole paper, so the
+// sections still add up to the accommodated duration
+export const getAdjustedSectionTime = (
+  timeLimit: number | undefined,
+  durationMinutes: number,
+  accommodations?: Accommodations | null
+) => {
+  if (!timeLimit || !durationMinutes) return timeLimit;
+  return Math.round((timeLimit * getAdjustedDuration(durationMinutes, accommodations)) / durationMinutes);
+};
+
+// Short labels for badges, e.g. ["+25% time", "Large font"]
+export const describeAccommodations = (accommodations?: Accommodations | null): string[] => {
+  if (!accommodations) return [];
+
+  const labels: string[] = [];
+  if (accommodations.extraTimePercent) labels.push(`+${accommodations.extraTimePercent}% time`);
+  if (accommodations.extraTimeMinutes) labels.push(`+${accommodations.extraTimeMinutes} min`);
+  if (accommodations.fontScale && accommodations.fontScale !== 'default') {
+    labels.push(`${FONT_SCALE_LABELS[accommodations.fontScale]} font`);
+  }
+  if (accommodations.highContrast) labels.push('High contrast');
+  if (accommodations.screenReader) labels.push('Screen reader');
+  return labels;
+};
+
+export const hasAccommodations = (accommodations?: Accommodations | null) =>
+  describeAccommodations(accommodations).length > 0;
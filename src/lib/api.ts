@@ -1,5 +1,9 @@
 import axios, { AxiosRequestConfig, InternalAxiosRequestConfig } from 'axios';
 import { QueryClient } from '@tanstack/react-query';
+import type { ExamDraft } from './draft-queue';
+import type { ProctoringEvent } from './proctoring';
+import type { BankFilters, BankQuestionMetadata } from './question-bank';
+import type { QuestionDefinition } from './question-types';
 
 // Create axios instance with base configuration
 const api = axios.create({
@@ -210,6 +214,10 @@ export const getExamPapers = () =>
 export const getPaper = (id: string) => 
   api.get(`/api/exam-papers/${id}`).then(res => res.data);
 
+// Students get a copy without hidden code test cases: the server removes them
+// and sets `codeSettings.hiddenTestCount` instead. For papers with sets, the
+// server assigns the student one set on first load and returns its questions,
+// sections and `setLabel` in place of the paper's own; `sets` is left out.
 export const getExamPaper = async (id: string) => {
   const response = await api.get(`/api/exam-papers/${id}`);
   return response.data;
@@ -226,24 +234,169 @@ export const updatePaper = (id: string, data: any) =>
 export const deletePaper = (id: string) => 
   api.delete(`/api/exam-papers/${id}`).then(res => res.data);
 
-export const approveExamPaper = (id: string) => 
-  api.post(`/api/exam-papers/${id}/approve`).then(res => res.data);
+// Sends a draft to the approval queue
+export const submitExamPaper = (id: string) =>
+  api.post(`/api/exam-papers/${id}/submit`).then(res => res.data);
+
+// Changes only the exam window, so approved papers can still be rescheduled
+// without reopening their questions for edits. The server records the new
+// window as a version and rejects changes once the exam has opened.
+export const schedulePaper = (id: string, data: {
+  availableFrom?: string;
+  availableUntil?: string;
+  lateEntryUntil?: string;
+  clashOverrideReason?: string;
+}) =>
+  api.put(`/api/exam-papers/${id}/schedule`, data).then(res => res.data);
+
+// Snapshots stored on every save, oldest first
+export const getPaperVersions = (id: string) =>
+  api.get(`/api/exam-papers/${id}/versions`).then(res => res.data);
+
+// clashOverrideReason is required by the server when the paper's window
+// overlaps another exam for a shared cohort
+export const approveExamPaper = (id: string, clashOverrideReason?: string) => 
+  api.post(`/api/exam-papers/${id}/approve`, { clashOverrideReason }).then(res => res.data);
 
 export const rejectExamPaper = (id: string, reason: string) => 
   api.post(`/api/exam-papers/${id}/reject`, { reason }).then(res => res.data);
 
+// Exam timetable: pending and approved papers with a window, across faculty
+export const getExamSchedule = () =>
+  api.get('/api/exam-papers/schedule').then(res => res.data);
+
+// Question attachments
+// Multipart upload of a single image or PDF; resolves to { url, name, mimeType }
+export const uploadQuestionAttachment = async (file: File, onProgress?: (percent: number) => void) => {
+  const formData = new FormData();
+  formData.append('file', file);
+
+  const response = await api.post('/api/uploads/question-attachments', formData, {
+    headers: {
+      'Content-Type': 'multipart/form-data',
+    },
+    onUploadProgress: (event) => {
+      if (onProgress && event.total) {
+        onProgress(Math.round((event.loaded / event.total) * 100));
+      }
+    },
+  });
+  return response.data as { url: string; name: string; mimeType: string };
+};
+
+// Code runner
+// Sandboxed execution for every language.
+// Resolves to { results: { stdout, stderr, timedOut }[] }, one per input.
+export const runCodeOnServer = (data: { language: string; code: string; inputs: string[]; timeLimitMs: number }) =>
+  api.post('/api/code-runner/run', data).then(res => res.data);
+
+// Runs a submitted answer again against every test case stored with the
+// paper, hidden ones included. The first run happens on submission and is
+// stored on the answer as `testResults`. Resolves to TestCaseResult[].
+export const runSubmissionTests = (submissionId: string, questionIndex: number) =>
+  api.post(`/api/submissions/${submissionId}/code-tests`, { questionIndex }).then(res => res.data);
+
+// Question Bank
+// Search runs on the server across question text, options, explanations and tags
+export const getQuestionBank = (subjectId: string, filters: BankFilters = {}) =>
+  api.get(`/api/subjects/${subjectId}/question-bank`, {
+    params: { ...filters, tags: filters.tags?.length ? filters.tags.join(',') : undefined },
+  }).then(res => res.data);
+
+// Every tag used in the subject's bank, for suggestions
+export const getQuestionBankTags = (subjectId: string) =>
+  api.get(`/api/subjects/${subjectId}/question-bank/tags`).then(res => res.data);
+
+export const createBankQuestion = (subjectId: string, data: QuestionDefinition & BankQuestionMetadata) =>
+  api.post(`/api/subjects/${subjectId}/question-bank`, data).then(res => res.data);
+
+export const updateBankQuestion = (id: string, data: QuestionDefinition & BankQuestionMetadata) =>
+  api.put(`/api/question-bank/${id}`, data).then(res => res.data);
+
+export const deleteBankQuestion = (id: string) =>
+  api.delete(`/api/question-bank/${id}`).then(res => res.data);
+
 // Submission APIs
 export const getSubmissions = () => 
   api.get('/api/submissions').then(res => res.data);
 
+// Submissions to papers with sets carry the student's set as `examPaper`
 export const getSubmission = (id: string) => 
   api.get(`/api/submissions/${id}`).then(res => res.data);
 
+// The server runs code answers against every test case, hidden ones included,
+// before responding, and stores each answer's `testResults`
 export const createSubmission = (data: any) => 
   api.post('/api/submissions', data).then(res => res.data);
 
 export const submitExam = createSubmission;
 
+// Receipts
+// submitExam responds with { submission, receipt }; the receipt can be
+// fetched again later by its owner, or looked up by code by faculty and admins
+export const getSubmissionReceipt = (submissionId: string) =>
+  api.get(`/api/submissions/${submissionId}/receipt`).then(res => res.data);
+
+export const lookupSubmissionReceipt = (confirmationCode: string) =>
+  api.get(`/api/submissions/receipts/${encodeURIComponent(confirmationCode)}`).then(res => res.data);
+
+// Exam Attempts
+// Returns { attempt, serverTime }; attempt is null until the student starts
+// the exam from the lobby.
+export const getExamAttempt = (examPaperId: string) =>
+  api.get(`/api/exam-papers/${examPaperId}/attempt`).then(res => res.data);
+
+// Returns { attempt, serverTime }. The server records the start time and the
+// instructions acknowledgement, and rejects starts outside the exam window.
+// Starting an attempt that already exists returns the original attempt.
+export const startExamAttempt = (examPaperId: string) =>
+  api.post(`/api/exam-papers/${examPaperId}/attempt`, { acknowledgedInstructions: true }).then(res => res.data);
+
+// Moves a sectioned attempt on to `section` and records when it started.
+// Returns { attempt }; the server rejects going back to an earlier section.
+export const advanceExamSection = (examPaperId: string, section: number) =>
+  api.post(`/api/exam-papers/${examPaperId}/attempt/section`, { section }).then(res => res.data);
+
+// Practice Attempts
+// The student's own practice attempts, optionally for one paper
+export const getPracticeAttempts = (examPaperId?: string) =>
+  api.get('/api/practice-attempts', { params: { examPaper: examPaperId } }).then(res => res.data);
+
+// The server re-grades the answers and rejects attempts over the paper's limit
+export const createPracticeAttempt = (
+  examPaperId: string,
+  data: { answers: { questionIndex: number; selectedOption: string }[]; startTime: string; endTime: string }
+) =>
+  api.post(`/api/exam-papers/${examPaperId}/practice-attempts`, data).then(res => res.data);
+
+// Submission Drafts
+// Incremental answer saves made while an attempt is in progress
+export const getSubmissionDraft = (examPaperId: string) =>
+  api.get(`/api/submissions/draft/${examPaperId}`).then(res => res.data);
+
+export const saveSubmissionDraft = (draft: ExamDraft) =>
+  api.put(`/api/submissions/draft/${draft.examPaper}`, draft).then(res => res.data);
+
+// Proctoring
+export const logProctoringEvents = (examPaperId: string, events: ProctoringEvent[]) =>
+  api.post(`/api/exam-papers/${examPaperId}/proctoring-events`, { events }).then(res => res.data);
+
+export const getProctoringEvents = (submissionId: string) =>
+  api.get(`/api/submissions/${submissionId}/proctoring-events`).then(res => res.data);
+
+// Invigilation
+// Initial list of attempts for a running paper; live changes arrive over the
+// socket. Returns { attempts, serverTime }, like the attempt endpoints.
+export const getLiveAttempts = (examPaperId: string) =>
+  api.get(`/api/exam-papers/${examPaperId}/attempts/live`).then(res => res.data);
+
+// Announcements are stored by the server and pushed to students over the socket
+export const getAnnouncements = (examPaperId: string) =>
+  api.get(`/api/exam-papers/${examPaperId}/announcements`).then(res => res.data);
+
+export const createAnnouncement = (examPaperId: string, data: { message: string; questionIndex?: number }) =>
+  api.post(`/api/exam-papers/${examPaperId}/announcements`, data).then(res => res.data);
+
 export const updateSubmission = (id: string, data: any) => 
   api.put(`/api/submissions/${id}`, data).then(res => res.data);
 
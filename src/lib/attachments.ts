@@ -0,0 +1,37 @@
+// Images and PDFs attached to questions and MCQ options. Files are uploaded
+// on their own first; the paper only stores the returned URL and metadata.
+
+export type AttachmentKind = 'image' | 'pdf';
+
+export interface QuestionAttachment {
+  url: string;
+  kind: AttachmentKind;
+  name: string;
+  alt: string;
+}
+
+export const MAX_ATTACHMENT_SIZE_MB = 10;
+
+export const ATTACHMENT_ACCEPT = 'image/png,image/jpeg,image/gif,image/webp,image/svg+xml,application/pdf';
+
+export const getAttachmentKind = (file: File): AttachmentKind | null => {
+  if (file.type.startsWith('image/')) return 'image';
+  if (file.type === 'application/pdf') return 'pdf';
+  return null;
+};
+
+// Returns an error message, or null when the file can be uploaded
+export const validateAttachmentFile = (file: File, allowPdf = true): string | null => {
+  const kind = getAttachmentKind(file);
+  if (!kind || (kind === 'pdf' && !allowPdf)) {
+    return allowPdf ? 'Only images and PDF files can be attached' : 'Only images can be attached';
+  }
+  if (file.size > MAX_ATTACHMENT_SIZE_MB * 1024 * 1024) {
+    return `Files must be smaller than ${MAX_ATTACHMENT_SIZE_MB} MB`;
+  }
+  return null;
+};
+
+// Alt text defaults to the file name without its extension
+export const defaultAltText = (fileName: string) =>
+  fileName.replace(/\.[^.]+$/, '').replace(/[-_]+/g, ' ').trim();
@@ -1,6 +1,7 @@
 import React, { createContext, useContext, useState, useEffect } from 'react';
 import { login as loginUser } from './api';
 import axios from 'axios';
+import { Accommodations } from './accommodations';
 
 interface User {
   _id: string;
@@ -11,6 +12,8 @@ interface User {
   department?: string;
   school?: string;
   specialization?: string;
+  section?: string;
+  accommodations?: Accommodations;
 }
 
 interface AuthContextType {
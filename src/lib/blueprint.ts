@@ -0,0 +1,321 @@
+import { QUESTION_TYPE_LABELS, QuestionDefinition, QuestionType } from './question-types';
+import { BankQuestion, Difficulty, DIFFICULTY_LABELS } from './question-bank';
+import { ExamSection } from './sections';
+
+// Builds papers from the question bank to match a blueprint: how many
+// questions of each type and mark value, the share of marks at each
+// difficulty, and a minimum number of questions per unit (a bank tag).
+// Several sets can be generated at once; they share the same type and
+// difficulty split and avoid repeating questions while the bank allows it.
+// Sets are variants of a single paper: set A is the paper's own questions and
+// the others are stored alongside them. The paper keeps one listing, window
+// and audience, and the server gives each student one set.
+
+export interface BlueprintRow {
+  type: QuestionType;
+  count: number;
+  marks: number;
+}
+
+export interface Blueprint {
+  rows: BlueprintRow[];
+  // Percent of the total marks at each difficulty; adds up to 100
+  difficultyMix: Record<Difficulty, number>;
+  units: string[];
+  minPerUnit: number;
+  sets: number;
+}
+
+export interface BlueprintResult {
+  sets: BankQuestion[][];
+  // Constraints that cannot be met; no sets are generated
+  issues: string[];
+  // Constraints met only approximately
+  warnings: string[];
+}
+
+// Sets B, C, ... as stored on the paper
+export interface PaperSetVariant {
+  label: string;
+  questions: QuestionDefinition[];
+  sections?: ExamSection[];
+  totalMarks: number;
+}
+
+export const MAX_PAPER_SETS = 4;
+
+// How far the generated mix may drift from the requested one, in percentage
+// points per difficulty, before the blueprint is rejected
+const DIFFICULTY_TOLERANCE = 10;
+
+// Attempts per set at placing the unit minimums, which is done greedily
+const UNIT_ATTEMPTS = 20;
+
+const DIFFICULTIES: Difficulty[] = ['easy', 'medium', 'hard'];
+
+export const DEFAULT_BLUEPRINT: Blueprint = {
+  rows: [
+    { type: 'mcq', count: 10, marks: 1 },
+    { type: 'subjective', count: 3, marks: 10 },
+  ],
+  difficultyMix: { easy: 30, medium: 50, hard: 20 },
+  units: [],
+  minPerUnit: 2,
+  sets: 1,
+};
+
+export const getSetCode = (index: number) => String.fromCharCode(65 + index);
+
+export const getSetLabel = (index: number) => `Set ${getSetCode(index)}`;
+
+export const getBlueprintTotals = (blueprint: Blueprint) => ({
+  questions: blueprint.rows.reduce((sum, row) => sum + row.count, 0),
+  marks: blueprint.rows.reduce((sum, row) => sum + row.count * row.marks, 0),
+});
+
+const describeRow = (row: Pick<BlueprintRow, 'type' | 'marks'>) =>
+  `${QUESTION_TYPE_LABELS[row.type]} questions worth ${row.marks} ${row.marks === 1 ? 'mark' : 'marks'}`;
+
+const describeMix = (marks: Record<Difficulty, number>, total: number) =>
+  DIFFICULTIES.map(difficulty => `${Math.round(marks[difficulty] / total * 100)}% ${DIFFICULTY_LABELS[difficulty].toLowerCase()}`).join(' / ');
+
+const shuffle = <T,>(items: T[]) => {
+  const copy = [...items];
+  for (let i = copy.length - 1; i > 0; i--) {
+    const j = Math.floor(Math.random() * (i + 1));
+    [copy[i], copy[j]] = [copy[j], copy[i]];
+  }
+  return copy;
+};
+
+export const validateBlueprint = (blueprint: Blueprint): string[] => {
+  const issues: string[] = [];
+  if (!blueprint.rows.length) {
+    issues.push('Add at least one row of questions.');
+  }
+  if (blueprint.rows.some(row => row.count < 1 || row.marks < 1)) {
+    issues.push('Every row needs at least one question worth at least one mark.');
+  }
+  const mixTotal = DIFFICULTIES.reduce((sum, difficulty) => sum + blueprint.difficultyMix[difficulty], 0);
+  if (mixTotal !== 100) {
+    issues.push(`The difficulty mix adds up to ${mixTotal}%, not 100%.`);
+  }
+  if (blueprint.units.length && blueprint.minPerUnit * blueprint.units.length > getBlueprintTotals(blueprint).questions) {
+    issues.push(`${blueprint.units.length} units with at least ${blueprint.minPerUnit} questions each need more questions than the blueprint has.`);
+  }
+  return issues;
+};
+
+// Marks wanted at each difficulty, rounded so they add up to the total
+export const getDifficultyTargets = (total: number, mix: Record<Difficulty, number>) => {
+  const exact = DIFFICULTIES.map(difficulty => total * mix[difficulty] / 100);
+  const targets = exact.map(Math.floor);
+  const byRemainder = DIFFICULTIES.map((_, index) => index)
+    .sort((a, b) => (exact[b] - targets[b]) - (exact[a] - targets[a]));
+  let remaining = total - targets.reduce((sum, value) => sum + value, 0);
+  for (const index of byRemainder) {
+    if (remaining <= 0) break;
+    targets[index]++;
+    remaining--;
+  }
+  return Object.fromEntries(DIFFICULTIES.map((difficulty, index) => [difficulty, targets[index]])) as Record<Difficulty, number>;
+};
+
+interface RowPool extends BlueprintRow {
+  pool: BankQuestion[];
+}
+
+type Split = Record<Difficulty, number>;
+
+// Chooses how many questions of each row come from each difficulty so the
+// marks per difficulty land as close to the targets as the bank allows.
+// Dynamic programming over (easy marks, medium marks) so far; hard marks
+// follow from the running total.
+const planDifficultySplit = (rows: RowPool[], targets: Record<Difficulty, number>) => {
+  interface State { easy: number; medium: number; previous?: string; split?: Split }
+  let layer = new Map<string, State>([['0,0', { easy: 0, medium: 0 }]]);
+  const layers: Map<string, State>[] = [];
+
+  for (const row of rows) {
+    const available = Object.fromEntries(DIFFICULTIES.map(difficulty => [
+      difficulty,
+      row.pool.filter(question => question.difficulty === difficulty).length,
+    ])) as Split;
+    const next = new Map<string, State>();
+    for (const [key, state] of layer) {
+      for (let easy = 0; easy <= Math.min(row.count, available.easy); easy++) {
+        for (let medium = 0; medium <= Math.min(row.count - easy, available.medium); medium++) {
+          const hard = row.count - easy - medium;
+          if (hard > available.hard) continue;
+          const nextState = {
+            easy: state.easy + easy * row.marks,
+            medium: state.medium + medium * row.marks,
+            previous: key,
+            split: { easy, medium, hard },
+          };
+          const nextKey = `${nextState.easy},${nextState.medium}`;
+          // Ties are broken at random so regenerating can vary the split
+          if (!next.has(nextKey) || Math.random() < 0.5) {
+            next.set(nextKey, nextState);
+          }
+        }
+      }
+    }
+    layers.push(next);
+    layer = next;
+  }
+
+  const total = rows.reduce((sum, row) => sum + row.count * row.marks, 0);
+  const deviation = (state: State) =>
+    Math.abs(state.easy - targets.easy)
+    + Math.abs(state.medium - targets.medium)
+    + Math.abs(total - state.easy - state.medium - targets.hard);
+  const candidates = shuffle([...layer.entries()]);
+  if (!candidates.length) return null;
+  let [bestKey, best] = candidates[0];
+  for (const [key, state] of candidates) {
+    if (deviation(state) < deviation(best)) {
+      [bestKey, best] = [key, state];
+    }
+  }
+
+  const splits: Split[] = [];
+  let key: string | undefined = bestKey;
+  for (let index = layers.length - 1; index >= 0; index--) {
+    const state: State = layers[index].get(key!)!;
+    splits.unshift(state.split!);
+    key = state.previous;
+  }
+  return {
+    splits,
+    marks: { easy: best.easy, medium: best.medium, hard: total - best.easy - best.medium },
+  };
+};
+
+interface Bucket {
+  rowIndex: number;
+  need: number;
+  pool: BankQuestion[];
+}
+
+// Fills every bucket, placing the unit minimums first. Questions used by
+// earlier sets are taken last.
+const pickSet = (buckets: Bucket[], blueprint: Blueprint, timesUsed: Map<string, number>) => {
+  const byUse = (pool: BankQuestion[]) =>
+    shuffle(pool).sort((a, b) => (timesUsed.get(a._id) || 0) - (timesUsed.get(b._id) || 0));
+
+  let best: { picks: BankQuestion[][]; shortfalls: string[] } | null = null;
+  for (let attempt = 0; attempt < UNIT_ATTEMPTS; attempt++) {
+    const picks: BankQuestion[][] = buckets.map(() => []);
+    const chosen = new Set<string>();
+    const take = (bucketIndex: number, question: BankQuestion) => {
+      picks[bucketIndex].push(question);
+      chosen.add(question._id);
+    };
+
+    const shortfalls: string[] = [];
+    for (const unit of shuffle(blueprint.units)) {
+      let have = picks.flat().filter(question => question.tags.includes(unit)).length;
+      while (have < blueprint.minPerUnit) {
+        const options = buckets.flatMap((bucket, bucketIndex) =>
+          picks[bucketIndex].length < bucket.need
+            ? bucket.pool
+              .filter(question => !chosen.has(question._id) && question.tags.includes(unit))
+              .map(question => ({ bucketIndex, question }))
+            : []);
+        if (!options.length) break;
+        const [{ bucketIndex, question }] = shuffle(options)
+          .sort((a, b) => (timesUsed.get(a.question._id) || 0) - (timesUsed.get(b.question._id) || 0));
+        take(bucketIndex, question);
+        have++;
+      }
+      if (have < blueprint.minPerUnit) {
+        shortfalls.push(`Unit "${unit}" can only get ${have} of the ${blueprint.minPerUnit} questions it needs.`);
+      }
+    }
+
+    buckets.forEach((bucket, bucketIndex) => {
+      for (const question of byUse(bucket.pool)) {
+        if (picks[bucketIndex].length >= bucket.need) break;
+        if (!chosen.has(question._id)) take(bucketIndex, question);
+      }
+    });
+
+    if (!best || shortfalls.length < best.shortfalls.length) {
+      best = { picks, shortfalls };
+    }
+    if (!shortfalls.length) break;
+  }
+  return best!;
+};
+
+export const generateFromBlueprint = (bank: BankQuestion[], blueprint: Blueprint): BlueprintResult => {
+  const issues = validateBlueprint(blueprint);
+  if (issues.length) return { sets: [], issues, warnings: [] };
+
+  // Rows asking for the same type and marks draw from the same pool
+  const rows: RowPool[] = [];
+  for (const row of blueprint.rows) {
+    const existing = rows.find(other => other.type === row.type && other.marks === row.marks);
+    if (existing) {
+      existing.count += row.count;
+    } else {
+      rows.push({
+        ...row,
+        pool: bank.filter(question => question.type === row.type && question.marks === row.marks),
+      });
+    }
+  }
+
+  for (const row of rows) {
+    if (row.pool.length < row.count) {
+      issues.push(`The bank has ${row.pool.length} ${describeRow(row)}; the blueprint needs ${row.count}.`);
+    }
+  }
+  if (issues.length) return { sets: [], issues, warnings: [] };
+
+  const { marks: total } = getBlueprintTotals(blueprint);
+  const targets = getDifficultyTargets(total, blueprint.difficultyMix);
+  const plan = planDifficultySplit(rows, targets)!;
+  const drift = Math.max(...DIFFICULTIES.map(difficulty =>
+    Math.abs(plan.marks[difficulty] - targets[difficulty]) / total * 100));
+  const warnings: string[] = [];
+  if (drift > DIFFICULTY_TOLERANCE) {
+    return {
+      sets: [],
+      issues: [`The difficulty mix can't be met with the questions in the bank; the closest is ${describeMix(plan.marks, total)}.`],
+      warnings,
+    };
+  }
+  if (drift > 0) {
+    warnings.push(`The difficulty mix is approximate: ${describeMix(plan.marks, total)}.`);
+  }
+
+  const buckets: Bucket[] = rows.flatMap((row, rowIndex) => DIFFICULTIES
+    .filter(difficulty => plan.splits[rowIndex][difficulty] > 0)
+    .map(difficulty => ({
+      rowIndex,
+      need: plan.splits[rowIndex][difficulty],
+      pool: row.pool.filter(question => question.difficulty === difficulty),
+    })));
+
+  const timesUsed = new Map<string, number>();
+  const sets: BankQuestion[][] = [];
+  for (let setIndex = 0; setIndex < blueprint.sets; setIndex++) {
+    const { picks, shortfalls } = pickSet(buckets, blueprint, timesUsed);
+    const prefix = blueprint.sets > 1 ? `${getSetLabel(setIndex)}: ` : '';
+    issues.push(...shortfalls.map(shortfall => prefix + shortfall));
+
+    // Questions follow the blueprint's row order, shuffled within a row
+    const questions = rows.flatMap((_, rowIndex) =>
+      shuffle(picks.filter((__, bucketIndex) => buckets[bucketIndex].rowIndex === rowIndex).flat()));
+    const repeated = questions.filter(question => timesUsed.has(question._id)).length;
+    if (repeated) {
+      warnings.push(`${getSetLabel(setIndex)} repeats ${repeated} ${repeated === 1 ? 'question' : 'questions'} from earlier sets; add more questions to the bank for fully distinct sets.`);
+    }
+    questions.forEach(question => timesUsed.set(question._id, (timesUsed.get(question._id) || 0) + 1));
+    sets.push(questions);
+  }
+
+  return issues.length ? { sets: [], issues, warnings } : { sets, issues, warnings };
+};
@@ -0,0 +1,96 @@
+// Programming questions: supported languages, faculty test cases and the
+// answer encoding. Execution lives in code-runner.ts; all of it happens on the
+// backend runner. When an exam is submitted the server runs each code answer
+// against every test case and stores the results with the answer, so the
+// marks are known before an evaluator opens the submission.
+
+export type CodeLanguage = 'python' | 'javascript' | 'c' | 'cpp' | 'java';
+
+export const CODE_LANGUAGE_LABELS: Record<CodeLanguage, string> = {
+  python: 'Python 3',
+  javascript: 'JavaScript',
+  c: 'C',
+  cpp: 'C++',
+  java: 'Java',
+};
+
+export const DEFAULT_TIME_LIMIT_MS = 5000;
+
+export interface CodeTestCase {
+  input: string;
+  expectedOutput: string;
+  // Hidden cases are removed by the server from the paper students receive
+  // and are only run on the server when the submission is graded
+  hidden: boolean;
+  weight: number;
+}
+
+export interface CodeSettings {
+  languages: CodeLanguage[];
+  starterCode: Partial<Record<CodeLanguage, string>>;
+  testCases: CodeTestCase[];
+  timeLimitMs: number;
+  // Set by the server on the students' copy, in place of the hidden cases
+  hiddenTestCount?: number;
+}
+
+export interface CodeAnswer {
+  language: CodeLanguage;
+  code: string;
+}
+
+export interface TestCaseResult {
+  index: number;
+  passed: boolean;
+  hidden: boolean;
+  stdout: string;
+  stderr: string;
+  timedOut: boolean;
+}
+
+export const createDefaultCodeSettings = (): CodeSettings => ({
+  languages: ['python'],
+  starterCode: {},
+  testCases: [{ input: '', expectedOutput: '', hidden: false, weight: 1 }],
+  timeLimitMs: DEFAULT_TIME_LIMIT_MS,
+});
+
+export const getSampleTestCases = (settings: CodeSettings) =>
+  settings.testCases.filter(test => !test.hidden);
+
+export const parseCodeAnswer = (value?: string): CodeAnswer | null => {
+  if (!value) return null;
+  try {
+    const parsed = JSON.parse(value);
+    return parsed && typeof parsed.code === 'string' && parsed.language
+      ? { language: parsed.language, code: parsed.code }
+      : null;
+  } catch {
+    return null;
+  }
+};
+
+// Untouched or emptied editors are stored as '' so they count as unanswered
+export const serializeCodeAnswer = (answer: CodeAnswer, starterCode = '') =>
+  answer.code.trim() && answer.code !== starterCode ? JSON.stringify(answer) : '';
+
+// Trailing whitespace on each line and trailing blank lines are ignored
+export const normalizeOutput = (output: string) =>
+  output.replace(/\r\n/g, '\n').split('\n').map(line => line.trimEnd()).join('\n').trimEnd();
+
+export const isOutputMatch = (actual: string, expected: string) =>
+  normalizeOutput(actual) === normalizeOutput(expected);
+
+// Marks in proportion to the weight of the passing test cases
+export const scoreTestResults = (results: TestCaseResult[], testCases: CodeTestCase[], marks: number) => {
+  const totalWeight = testCases.reduce((sum, test) => sum + (test.weight || 1), 0);
+  if (totalWeight === 0) return 0;
+  const passedWeight = results
+    .filter(result => result.passed)
+    .reduce((sum, result) => sum + (testCases[result.index]?.weight || 1), 0);
+  return Math.round((passedWeight / totalWeight) * marks * 100) / 100;
+};
+
+// Marks from the test run recorded at submission; null when there is none
+export const gradeCodeAnswer = (settings: CodeSettings | undefined, results: TestCaseResult[] | undefined, marks: number) =>
+  settings && results?.length ? scoreTestResults(results, settings.testCases, marks) : null;
@@ -0,0 +1,38 @@
+import { runCodeOnServer } from './api';
+import { CodeLanguage, CodeTestCase, DEFAULT_TIME_LIMIT_MS, isOutputMatch, TestCaseResult } from './code-questions';
+
+// Student code only ever runs on the backend runner, which isolates each run
+// and enforces the time limit. Nothing is executed in the browser, so code
+// under review can't reach the reviewer's session or storage.
+
+export interface RunOutput {
+  stdout: string;
+  stderr: string;
+  timedOut: boolean;
+}
+
+export const runCode = (language: CodeLanguage, code: string, inputs: string[], timeLimitMs = DEFAULT_TIME_LIMIT_MS) =>
+  runCodeOnServer({ language, code, inputs, timeLimitMs }).then(data => data.results as RunOutput[]);
+
+// For test cases the caller already has, i.e. a student's sample cases.
+// Grading with hidden cases goes through runSubmissionTests instead.
+export const runTestCases = async (
+  language: CodeLanguage,
+  code: string,
+  testCases: CodeTestCase[],
+  options: { timeLimitMs?: number } = {}
+): Promise<TestCaseResult[]> => {
+  const outputs = await runCode(language, code, testCases.map(test => test.input), options.timeLimitMs);
+
+  return testCases.map((test, index) => {
+    const output = outputs[index] || { stdout: '', stderr: 'No output', timedOut: false };
+    return {
+      index,
+      hidden: test.hidden,
+      passed: !output.timedOut && isOutputMatch(output.stdout, test.expectedOutput),
+      stdout: output.stdout,
+      stderr: output.stderr,
+      timedOut: output.timedOut,
+    };
+  });
+};
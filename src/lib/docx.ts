@@ -0,0 +1,228 @@
+import type { TextRun } from './rich-text';
+
+// Minimal DOCX writer for printable documents. A .docx file is a zip of XML
+// parts plus any embedded images; they are stored without compression, so
+// no zip library is needed. Word picks fonts for each script itself, so any
+// language prints as typed.
+
+// PNG data with its size in pixels
+export interface DocxImage {
+  data: Uint8Array;
+  width: number;
+  height: number;
+  alt: string;
+}
+
+export interface DocxParagraph {
+  runs: TextRun[];
+  // Points; defaults to 11
+  size?: number;
+  bold?: boolean;
+  // Extra space above the paragraph, in points
+  spaceBefore?: number;
+  indent?: number;
+  pageBreakBefore?: boolean;
+  // Each shown on its own line below the text
+  images?: DocxImage[];
+}
+
+const encoder = new TextEncoder();
+
+const CRC_TABLE = Array.from({ length: 256 }, (_, n) => {
+  let c = n;
+  for (let k = 0; k < 8; k++) {
+    c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+  }
+  return c >>> 0;
+});
+
+const crc32 = (bytes: Uint8Array) => {
+  let crc = 0xffffffff;
+  for (const byte of bytes) {
+    crc = CRC_TABLE[(crc ^ byte) & 0xff] ^ (crc >>> 8);
+  }
+  return (crc ^ 0xffffffff) >>> 0;
+};
+
+// Store-only zip: local headers and data, then the central directory
+const createZip = (files: { name: string; content: string | Uint8Array }[]) => {
+  const chunks: Uint8Array[] = [];
+  const central: Uint8Array[] = [];
+  let offset = 0;
+
+  files.forEach(file => {
+    const name = encoder.encode(file.name);
+    const data = typeof file.content === 'string' ? encoder.encode(file.content) : file.content;
+    const crc = crc32(data);
+
+    const local = new DataView(new ArrayBuffer(30));
+    local.setUint32(0, 0x04034b50, true);
+    local.setUint16(4, 20, true);
+    local.setUint32(14, crc, true);
+    local.setUint32(18, data.length, true);
+    local.setUint32(22, data.length, true);
+    local.setUint16(26, name.length, true);
+
+    const entry = new DataView(new ArrayBuffer(46));
+    entry.setUint32(0, 0x02014b50, true);
+    entry.setUint16(4, 20, true);
+    entry.setUint16(6, 20, true);
+    entry.setUint32(16, crc, true);
+    entry.setUint32(20, data.length, true);
+    entry.setUint32(24, data.length, true);
+    entry.setUint16(28, name.length, true);
+    entry.setUint32(42, offset, true);
+
+    chunks.push(new Uint8Array(local.buffer), name, data);
+    central.push(new Uint8Array(entry.buffer), name);
+    offset += 30 + name.length + data.length;
+  });
+
+  const centralSize = central.reduce((sum, chunk) => sum + chunk.length, 0);
+  const end = new DataView(new ArrayBuffer(22));
+  end.setUint32(0, 0x06054b50, true);
+  end.setUint16(8, files.length, true);
+  end.setUint16(10, files.length, true);
+  end.setUint32(12, centralSize, true);
+  end.setUint32(16, offset, true);
+
+  return [...chunks, ...central, new Uint8Array(end.buffer)];
+};
+
+const escapeXml = (text: string) =>
+  text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+// Images are scaled down to fit the A4 text width and a third of its height
+const MAX_IMAGE_WIDTH = 660;
+const MAX_IMAGE_HEIGHT = 320;
+// English Metric Units per pixel at 96 dpi
+const EMU_PER_PIXEL = 9525;
+
+const toImageRun = (image: DocxImage, id: number) => {
+  const scale = Math.min(1, MAX_IMAGE_WIDTH / image.width, MAX_IMAGE_HEIGHT / image.height);
+  const cx = Math.round(image.width * scale * EMU_PER_PIXEL);
+  const cy = Math.round(image.height * scale * EMU_PER_PIXEL);
+  return '<w:r><w:drawing><wp:inline distT="0" distB="0" distL="0" distR="0">' +
+    `<wp:extent cx="${cx}" cy="${cy}"/><wp:docPr id="${id}" name="Picture ${id}" descr="${escapeXml(image.alt)}"/>` +
+    '<a:graphic xmlns:a="http://schemas.openxmlformats.org/drawingml/2006/main">' +
+    '<a:graphicData uri="http://schemas.openxmlformats.org/drawingml/2006/picture">' +
+    '<pic:pic xmlns:pic="http://schemas.openxmlformats.org/drawingml/2006/picture">' +
+    `<pic:nvPicPr><pic:cNvPr id="${id}" name="image${id}.png"/><pic:cNvPicPr/></pic:nvPicPr>` +
+    `<pic:blipFill><a:blip r:embed="rIdImage${id}"/><a:stretch><a:fillRect/></a:stretch></pic:blipFill>` +
+    `<pic:spPr><a:xfrm><a:off x="0" y="0"/><a:ext cx="${cx}" cy="${cy}"/></a:xfrm><a:prstGeom prst="rect"><a:avLst/></a:prstGeom></pic:spPr>` +
+    '</pic:pic></a:graphicData></a:graphic></wp:inline></w:drawing></w:r>';
+};
+
+// Sizes are in half-points and spacing in twentieths of a point
+const toTextRun = ({ text, bold, italic, code, break: lineBreak }: TextRun, size: number) => {
+  const properties = [
+    code ? '<w:rFonts w:ascii="Consolas" w:hAnsi="Consolas"/>' : '',
+    bold ? '<w:b/><w:bCs/>' : '',
+    italic ? '<w:i/><w:iCs/>' : '',
+    `<w:sz w:val="${size * 2}"/><w:szCs w:val="${size * 2}"/>`,
+  ].join('');
+  return `<w:r><w:rPr>${properties}</w:rPr>${lineBreak ? '<w:br/>' : ''}<w:t xml:space="preserve">${escapeXml(text)}</w:t></w:r>`;
+};
+
+const toParagraphs = (
+  { runs, size = 11, bold = false, spaceBefore = 0, indent = 0, pageBreakBefore = false, images = [] }: DocxParagraph,
+  addImage: (image: DocxImage) => number,
+) => {
+  const properties = (before: number, breakBefore: boolean) => [
+    breakBefore ? '<w:pageBreakBefore/>' : '',
+    `<w:spacing w:before="${before * 20}" w:after="0"/>`,
+    indent ? `<w:ind w:left="${indent * 20}"/>` : '',
+  ].join('');
+  const text = runs.map(run => toTextRun(bold ? { ...run, bold } : run, size)).join('');
+  return [
+    `<w:p><w:pPr>${properties(spaceBefore, pageBreakBefore)}</w:pPr>${text}</w:p>`,
+    ...images.map(image => `<w:p><w:pPr>${properties(4, false)}</w:pPr>${toImageRun(image, addImage(image))}</w:p>`),
+  ].join('');
+};
+
+// Fetches an image and converts it to PNG, which every Word version shows;
+// resolves to null when it can't be loaded, e.g. a cross-origin URL
+export const loadDocxImage = async (url: string, alt: string): Promise<DocxImage | null> => {
+  try {
+    const response = await fetch(url);
+    if (!response.ok) {
+      return null;
+    }
+    const objectUrl = URL.createObjectURL(await response.blob());
+    try {
+      const image = new Image();
+      image.src = objectUrl;
+      await image.decode();
+      const canvas = document.createElement('canvas');
+      canvas.width = image.naturalWidth;
+      canvas.height = image.naturalHeight;
+      canvas.getContext('2d')?.drawImage(image, 0, 0);
+      const png = await new Promise<Blob | null>(resolve => canvas.toBlob(resolve, 'image/png'));
+      return png && {
+        data: new Uint8Array(await png.arrayBuffer()),
+        width: canvas.width,
+        height: canvas.height,
+        alt,
+      };
+    } finally {
+      URL.revokeObjectURL(objectUrl);
+    }
+  } catch {
+    return null;
+  }
+};
+
+const XML_HEADER = '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>';
+
+export const createDocx = (paragraphs: DocxParagraph[], title = 'Document'): Blob => {
+  const images: DocxImage[] = [];
+  const body = paragraphs.map(paragraph => toParagraphs(paragraph, image => images.push(image))).join('');
+
+  const files: { name: string; content: string | Uint8Array }[] = [
+    {
+      name: '[Content_Types].xml',
+      content: `${XML_HEADER}<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types">` +
+        '<Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/>' +
+        '<Default Extension="xml" ContentType="application/xml"/>' +
+        '<Default Extension="png" ContentType="image/png"/>' +
+        '<Override PartName="/word/document.xml" ContentType="application/vnd.openxmlformats-officedocument.wordprocessingml.document.main+xml"/>' +
+        '<Override PartName="/docProps/core.xml" ContentType="application/vnd.openxmlformats-package.core-properties+xml"/>' +
+        '</Types>',
+    },
+    {
+      name: '_rels/.rels',
+      content: `${XML_HEADER}<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">` +
+        '<Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/officeDocument" Target="word/document.xml"/>' +
+        '<Relationship Id="rId2" Type="http://schemas.openxmlformats.org/package/2006/relationships/metadata/core-properties" Target="docProps/core.xml"/>' +
+        '</Relationships>',
+    },
+    {
+      name: 'docProps/core.xml',
+      content: `${XML_HEADER}<cp:coreProperties xmlns:cp="http://schemas.openxmlformats.org/package/2006/metadata/core-properties" ` +
+        `xmlns:dc="http://purl.org/dc/elements/1.1/"><dc:title>${escapeXml(title)}</dc:title></cp:coreProperties>`,
+    },
+    {
+      name: 'word/document.xml',
+      // A4 with 50pt margins
+      content: `${XML_HEADER}<w:document xmlns:w="http://schemas.openxmlformats.org/wordprocessingml/2006/main" ` +
+        'xmlns:r="http://schemas.openxmlformats.org/officeDocument/2006/relationships" ' +
+        'xmlns:wp="http://schemas.openxmlformats.org/drawingml/2006/wordprocessingDrawing"><w:body>' +
+        body +
+        '<w:sectPr><w:pgSz w:w="11906" w:h="16838"/>' +
+        '<w:pgMar w:top="1000" w:right="1000" w:bottom="1000" w:left="1000" w:header="708" w:footer="708" w:gutter="0"/>' +
+        '</w:sectPr></w:body></w:document>',
+    },
+    {
+      name: 'word/_rels/document.xml.rels',
+      content: `${XML_HEADER}<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">` +
+        images.map((_, index) =>
+          `<Relationship Id="rIdImage${index + 1}" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/image" Target="media/image${index + 1}.png"/>`
+        ).join('') +
+        '</Relationships>',
+    },
+    ...images.map((image, index) => ({ name: `word/media/image${index + 1}.png`, content: image.data })),
+  ];
+  return new Blob(createZip(files), {
+    type: 'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+  });
+};
@@ -0,0 +1,104 @@
+// IndexedDB-backed queue for exam answer drafts that could not reach the
+// server. Only the newest draft per paper matters, so entries are keyed by
+// examPaper and a newer draft simply replaces an older one.
+
+export interface DraftAnswer {
+  questionIndex: number;
+  selectedOption: string;
+}
+
+export interface ExamDraft {
+  examPaper: string;
+  answers: DraftAnswer[];
+  flagged: number[];
+  updatedAt: string;
+}
+
+const DB_NAME = 'exam-portal';
+const DB_VERSION = 1;
+const STORE_NAME = 'draftQueue';
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDb = (): Promise<IDBDatabase> => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      if (typeof indexedDB === 'undefined') {
+        reject(new Error('IndexedDB is not available'));
+        return;
+      }
+
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        if (!db.objectStoreNames.contains(STORE_NAME)) {
+          db.createObjectStore(STORE_NAME, { keyPath: 'examPaper' });
+        }
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+
+    // Allow a later call to retry if opening failed
+    dbPromise.catch(() => {
+      dbPromise = null;
+    });
+  }
+  return dbPromise;
+};
+
+const withStore = async <T>(
+  mode: IDBTransactionMode,
+  run: (store: IDBObjectStore) => IDBRequest<T>
+): Promise<T> => {
+  const db = await openDb();
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction(STORE_NAME, mode);
+    const request = run(transaction.objectStore(STORE_NAME));
+    transaction.oncomplete = () => resolve(request.result);
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error);
+  });
+};
+
+export const enqueueDraft = async (draft: ExamDraft) => {
+  await withStore('readwrite', store => store.put(draft));
+};
+
+export const getQueuedDraft = (examPaper: string) =>
+  withStore<ExamDraft | undefined>('readonly', store => store.get(examPaper));
+
+export const getQueuedDrafts = () =>
+  withStore<ExamDraft[]>('readonly', store => store.getAll());
+
+// Removes the queued draft only if it is the one that was just saved, so a
+// newer draft queued while the request was in flight is not lost.
+export const dequeueDraft = async (draft: ExamDraft) => {
+  const queued = await getQueuedDraft(draft.examPaper);
+  if (queued && queued.updatedAt === draft.updatedAt) {
+    await withStore('readwrite', store => store.delete(draft.examPaper));
+  }
+};
+
+export const clearQueuedDraft = async (examPaper: string) => {
+  await withStore('readwrite', store => store.delete(examPaper));
+};
+
+// Sends every queued draft through `save`. Drafts that fail stay queued for
+// the next flush. Returns true when the queue is empty afterwards.
+export const flushDraftQueue = async (save: (draft: ExamDraft) => Promise<unknown>) => {
+  const drafts = await getQueuedDrafts();
+  let allSaved = true;
+
+  for (const draft of drafts) {
+    try {
+      await save(draft);
+      await dequeueDraft(draft);
+    } catch (error) {
+      console.error('Failed to flush exam draft:', error);
+      allSaved = false;
+    }
+  }
+
+  return allSaved;
+};
@@ -0,0 +1,69 @@
+import { COLLEGE_STRUCTURE } from './constants';
+
+type SchoolKey = keyof typeof COLLEGE_STRUCTURE;
+
+// Which students a paper is for. Every field narrows the cohort; a field left
+// empty matches everyone.
+export interface ExamAudience {
+  school?: string;
+  department?: string;
+  specialization?: string;
+  semester?: number;
+  section?: string;
+}
+
+export interface StudentCohort {
+  school?: string;
+  department?: string;
+  specialization?: string;
+  semester?: number;
+  section?: string;
+}
+
+export const getSchoolDepartments = (school?: string): [string, string][] =>
+  school && school in COLLEGE_STRUCTURE
+    ? Object.entries(COLLEGE_STRUCTURE[school as SchoolKey].departments).map(([key, department]) => [key, department.name])
+    : [];
+
+export const getDepartmentSpecializations = (school?: string, department?: string): readonly string[] => {
+  if (!school || !(school in COLLEGE_STRUCTURE)) return [];
+  const departments: Record<string, { specializations: readonly string[] }> = COLLEGE_STRUCTURE[school as SchoolKey].departments;
+  return departments[department || '']?.specializations || [];
+};
+
+export const getSchoolSemesters = (school?: string) =>
+  school && school in COLLEGE_STRUCTURE
+    ? Array.from({ length: COLLEGE_STRUCTURE[school as SchoolKey].semesters }, (_, i) => i + 1)
+    : [];
+
+// Subjects already carry a cohort; papers start out targeting it
+export const getAudienceFromSubject = (subject: StudentCohort): ExamAudience => ({
+  school: subject.school || undefined,
+  department: subject.department || undefined,
+  specialization: subject.specialization || undefined,
+  semester: subject.semester ? Number(subject.semester) : undefined,
+});
+
+const matches = (expected: string | number | undefined, actual: string | number | undefined) =>
+  expected === undefined || expected === '' || String(expected).toLowerCase() === String(actual ?? '').toLowerCase();
+
+export const isInAudience = (audience: ExamAudience | undefined, student: StudentCohort | null | undefined) => {
+  if (!audience) return true;
+  if (!student) return false;
+  return matches(audience.school, student.school) &&
+    matches(audience.department, student.department) &&
+    matches(audience.specialization, student.specialization) &&
+    matches(audience.semester, student.semester) &&
+    matches(audience.section, student.section);
+};
+
+export const formatAudience = (audience?: ExamAudience) => {
+  const parts = [
+    audience?.school,
+    audience?.department,
+    audience?.specialization,
+    audience?.semester && `Semester ${audience.semester}`,
+    audience?.section && `Section ${audience.section}`,
+  ].filter(Boolean);
+  return parts.length ? parts.join(' • ') : 'All students';
+};
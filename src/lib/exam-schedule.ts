@@ -0,0 +1,114 @@
+import { addDays, setHours, startOfDay } from 'date-fns';
+import { ExamAudience } from './exam-audience';
+import { ExamWindowSource, getExamWindow } from './exam-window';
+
+// Timetable entries as returned by the schedule endpoint: pending and
+// approved papers that have a window, for every faculty member.
+export interface ScheduledPaper extends ExamWindowSource {
+  _id: string;
+  title: string;
+  status: string;
+  subject?: { name: string };
+  audience?: ExamAudience;
+  clashOverrideReason?: string;
+}
+
+export interface ExamSlot {
+  start: number;
+  end: number;
+}
+
+export interface ScheduleClash {
+  paper: ScheduledPaper;
+  overlap: ExamSlot;
+}
+
+// Only these statuses hold a slot in the timetable
+const SCHEDULED_STATUSES = ['pending', 'approved'];
+
+// The time a paper occupies: its whole availability window, or just its
+// duration when only a start is set
+export const getExamSlot = (paper: ExamWindowSource): ExamSlot | null => {
+  const { opensAt, closesAt } = getExamWindow(paper);
+  if (opensAt === null) return null;
+  return { start: opensAt, end: closesAt ?? opensAt + paper.duration * 60 * 1000 };
+};
+
+const sameValue = (a?: string | number, b?: string | number) =>
+  a === undefined || a === '' || b === undefined || b === '' ||
+  String(a).toLowerCase() === String(b).toLowerCase();
+
+// Two cohorts share students unless some level names different values.
+// An empty level means "everyone", so it overlaps with anything.
+export const audiencesOverlap = (a: ExamAudience = {}, b: ExamAudience = {}) =>
+  sameValue(a.school, b.school) &&
+  sameValue(a.department, b.department) &&
+  sameValue(a.specialization, b.specialization) &&
+  sameValue(a.semester, b.semester) &&
+  sameValue(a.section, b.section);
+
+const slotsOverlap = (a: ExamSlot, b: ExamSlot) => a.start < b.end && b.start < a.end;
+
+export const findScheduleClashes = (
+  paper: { _id?: string; audience?: ExamAudience } & ExamWindowSource,
+  schedule: ScheduledPaper[]
+): ScheduleClash[] => {
+  const slot = getExamSlot(paper);
+  if (!slot) return [];
+
+  return schedule.flatMap(other => {
+    const otherSlot = getExamSlot(other);
+    if (
+      other._id === paper._id ||
+      !SCHEDULED_STATUSES.includes(other.status) ||
+      !otherSlot ||
+      !slotsOverlap(slot, otherSlot) ||
+      !audiencesOverlap(paper.audience, other.audience)
+    ) {
+      return [];
+    }
+    return [{ paper: other, overlap: { start: Math.max(slot.start, otherSlot.start), end: Math.min(slot.end, otherSlot.end) } }];
+  });
+};
+
+interface FreeSlotOptions {
+  from: number;
+  days?: number;
+  // Working hours, local time
+  dayStartHour?: number;
+  dayEndHour?: number;
+  stepMinutes?: number;
+  count?: number;
+}
+
+// First free slots of `durationMinutes` for the cohort, within working hours
+export const suggestFreeSlots = (
+  audience: ExamAudience | undefined,
+  durationMinutes: number,
+  schedule: ScheduledPaper[],
+  { from, days = 14, dayStartHour = 9, dayEndHour = 17, stepMinutes = 30, count = 5 }: FreeSlotOptions
+): ExamSlot[] => {
+  const busy = schedule
+    .filter(paper => SCHEDULED_STATUSES.includes(paper.status) && audiencesOverlap(audience, paper.audience))
+    .map(getExamSlot)
+    .filter((slot): slot is ExamSlot => slot !== null);
+
+  const slots: ExamSlot[] = [];
+  const firstDay = startOfDay(from);
+
+  for (let day = 0; day < days && slots.length < count; day++) {
+    const dayStart = setHours(addDays(firstDay, day), dayStartHour).getTime();
+    const dayEnd = setHours(addDays(firstDay, day), dayEndHour).getTime();
+
+    for (let start = dayStart; slots.length < count; start += stepMinutes * 60 * 1000) {
+      const candidate = { start, end: start + durationMinutes * 60 * 1000 };
+      if (candidate.end > dayEnd) break;
+      if (candidate.start < from) continue;
+      if (busy.some(slot => slotsOverlap(slot, candidate))) continue;
+      slots.push(candidate);
+      // Continue after this slot so suggestions do not overlap each other
+      start = candidate.end - stepMinutes * 60 * 1000;
+    }
+  }
+  return slots;
+};
@@ -0,0 +1,86 @@
+import type { ProctoringEvent } from './proctoring';
+import type { Accommodations } from './accommodations';
+
+// Socket.io event names shared by the exam panel and the invigilation view
+export const EXAM_SOCKET_EVENTS = {
+  // Student -> server
+  JOIN_EXAM: 'exam:join',
+  LEAVE_EXAM: 'exam:leave',
+  PROGRESS: 'exam:progress',
+  PROCTORING_EVENT: 'proctoring:event',
+  // Server -> students in the exam
+  ANNOUNCEMENT: 'exam:announcement',
+  // Invigilator -> server
+  JOIN_INVIGILATION: 'invigilation:join',
+  LEAVE_INVIGILATION: 'invigilation:leave',
+  // Server -> invigilator
+  INVIGILATION_SNAPSHOT: 'invigilation:snapshot',
+  INVIGILATION_UPDATE: 'invigilation:update',
+} as const;
+
+export type LiveAttemptStatus = 'connected' | 'disconnected' | 'submitted';
+
+export interface LiveAttempt {
+  student: {
+    _id: string;
+    name: string;
+    email?: string;
+    studentId?: string;
+  };
+  status: LiveAttemptStatus;
+  answeredCount: number;
+  questionCount: number;
+  currentQuestionIndex?: number;
+  startTime?: string;
+  deadline?: string;
+  lastActivityAt?: string;
+  violations: number;
+  events?: ProctoringEvent[];
+  // Extra time is already included in the deadline
+  accommodations?: Accommodations;
+}
+
+export interface ExamProgressPayload {
+  examPaper: string;
+  student: string;
+  answeredCount: number;
+  questionCount: number;
+  currentQuestionIndex: number;
+  deadline?: string;
+}
+
+export interface ExamAnnouncement {
+  _id: string;
+  examPaper: string;
+  message: string;
+  questionIndex?: number;
+  createdAt: string;
+  author?: {
+    _id: string;
+    name: string;
+  };
+}
+
+// Applies a partial update from the server to the current list of attempts
+export const mergeLiveAttempt = (
+  attempts: LiveAttempt[],
+  update: Partial<LiveAttempt> & { student: LiveAttempt['student'] }
+): LiveAttempt[] => {
+  const index = attempts.findIndex(attempt => attempt.student._id === update.student._id);
+  if (index === -1) {
+    return [
+      ...attempts,
+      {
+        status: 'connected',
+        answeredCount: 0,
+        questionCount: 0,
+        violations: 0,
+        ...update,
+      },
+    ];
+  }
+
+  const next = [...attempts];
+  next[index] = { ...next[index], ...update, student: { ...next[index].student, ...update.student } };
+  return next;
+};
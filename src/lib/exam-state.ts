@@ -0,0 +1,20 @@
+// Palette state of a single question inside the exam panel
+export type QuestionStatus = 'not_visited' | 'visited' | 'answered' | 'review';
+
+export const getQuestionStatus = (
+  index: number,
+  { answered, flagged, visited }: { answered: boolean; flagged: number[]; visited: number[] }
+): QuestionStatus => {
+  if (flagged.includes(index)) return 'review';
+  if (answered) return 'answered';
+  if (visited.includes(index)) return 'visited';
+  return 'not_visited';
+};
+
+// Formats a number of seconds as HH:MM:SS for exam clocks
+export const formatTimeLeft = (seconds: number) => {
+  const hrs = Math.floor(seconds / 3600);
+  const mins = Math.floor((seconds % 3600) / 60);
+  const secs = seconds % 60;
+  return `${hrs.toString().padStart(2, '0')}:${mins.toString().padStart(2, '0')}:${secs.toString().padStart(2, '0')}`;
+};
@@ -0,0 +1,51 @@
+// End-of-exam timing: warnings before time runs out and the grace window
+// for answers still being saved when it does
+
+export interface TimingSettings {
+  // Minutes left at which the student is warned
+  warnings: number[];
+  // Seconds after time is up during which pending saves can still land
+  gracePeriod: number;
+}
+
+export const DEFAULT_TIMING_SETTINGS: TimingSettings = {
+  warnings: [10, 5, 1],
+  gracePeriod: 15,
+};
+
+export const MAX_GRACE_PERIOD = 120;
+
+export const getTimingSettings = (paper?: { timing?: Partial<TimingSettings> }): TimingSettings => {
+  const settings = { ...DEFAULT_TIMING_SETTINGS, ...(paper?.timing || {}) };
+  return {
+    warnings: [...new Set(settings.warnings.filter(minutes => minutes > 0))].sort((a, b) => b - a),
+    gracePeriod: Math.min(Math.max(settings.gracePeriod, 0), MAX_GRACE_PERIOD),
+  };
+};
+
+// "10, 5, 1" -> [10, 5, 1]; anything that is not a positive number is dropped
+export const parseWarningMinutes = (value: string) =>
+  [...new Set(value.split(',').map(part => parseInt(part.trim())).filter(minutes => minutes > 0))]
+    .sort((a, b) => b - a);
+
+export type ClockLevel = 'normal' | 'warning' | 'critical';
+
+// Amber from the first warning, red from the last one
+export const getClockLevel = (secondsLeft: number | null, warnings: number[]): ClockLevel => {
+  if (secondsLeft === null || warnings.length === 0) return 'normal';
+  if (secondsLeft <= Math.min(...warnings) * 60) return 'critical';
+  if (secondsLeft <= Math.max(...warnings) * 60) return 'warning';
+  return 'normal';
+};
+
+export const CLOCK_LEVEL_CLASSES: Record<ClockLevel, string> = {
+  normal: '',
+  warning: 'bg-amber-50 text-amber-700 border-amber-300',
+  critical: 'bg-red-50 text-red-700 border-red-300 animate-pulse',
+};
+
+// Requests that never reached the server have no response; those are worth
+// retrying, while a rejection from the server is final
+export const isNetworkError = (error: { response?: unknown }) => !error.response;
+
+export const getSubmitRetryDelay = (failureCount: number) => Math.min(1000 * 2 ** failureCount, 30 * 1000);
@@ -0,0 +1,103 @@
+import { format } from 'date-fns';
+
+// When a student may start a paper. The availability window opens at
+// availableFrom (or scheduledDate) and closes at availableUntil (or once the
+// duration has passed after scheduledDate). New attempts are accepted until
+// the late-entry cutoff, which defaults to the close of the window. A paper
+// with no schedule at all can be started at any time.
+
+export interface ExamWindowSource {
+  scheduledDate?: string;
+  availableFrom?: string;
+  availableUntil?: string;
+  lateEntryUntil?: string;
+  duration: number;
+}
+
+export type ExamWindowStatus = 'upcoming' | 'open' | 'closed';
+
+export interface ExamWindow {
+  opensAt: number | null;
+  // Attempts still running at this point are submitted
+  closesAt: number | null;
+  // Last moment a new attempt can be started
+  entryClosesAt: number | null;
+}
+
+export const EXAM_WINDOW_STATUS_LABELS: Record<ExamWindowStatus, string> = {
+  upcoming: 'Upcoming',
+  open: 'Open',
+  closed: 'Closed',
+};
+
+const toTime = (value?: string) => {
+  const time = value ? new Date(value).getTime() : NaN;
+  return Number.isNaN(time) ? null : time;
+};
+
+export const getExamWindow = ({ scheduledDate, availableFrom, availableUntil, lateEntryUntil, duration }: ExamWindowSource): ExamWindow => {
+  const scheduledAt = toTime(scheduledDate);
+  const opensAt = toTime(availableFrom) ?? scheduledAt;
+  const closesAt = toTime(availableUntil) ?? (scheduledAt !== null ? scheduledAt + duration * 60 * 1000 : null);
+  const entryClosesAt = toTime(lateEntryUntil) ?? closesAt;
+  return {
+    opensAt,
+    closesAt,
+    entryClosesAt: entryClosesAt !== null && closesAt !== null ? Math.min(entryClosesAt, closesAt) : entryClosesAt,
+  };
+};
+
+export const getExamWindowStatus = ({ opensAt, entryClosesAt }: ExamWindow, now: number): ExamWindowStatus => {
+  if (opensAt !== null && now < opensAt) return 'upcoming';
+  if (entryClosesAt !== null && now >= entryClosesAt) return 'closed';
+  return 'open';
+};
+
+// Past the late-entry cutoff but before the window closes: no new attempts,
+// while attempts already started can still be resumed
+export const isResumeOnly = ({ entryClosesAt, closesAt }: ExamWindow, now: number) =>
+  entryClosesAt !== null && now >= entryClosesAt && (closesAt === null || now < closesAt);
+
+// Returns an error message, or null when the window is consistent
+export const validateExamWindow = ({ availableFrom, availableUntil, lateEntryUntil, duration }: ExamWindowSource) => {
+  const opensAt = toTime(availableFrom);
+  const closesAt = toTime(availableUntil);
+  const entryClosesAt = toTime(lateEntryUntil);
+
+  if (opensAt !== null && closesAt !== null) {
+    if (closesAt <= opensAt) {
+      return 'The exam must close after it opens';
+    }
+    if (duration && closesAt - opensAt < duration * 60 * 1000) {
+      return `The window is shorter than the ${duration} minute exam`;
+    }
+  }
+  if (entryClosesAt !== null) {
+    if (opensAt !== null && entryClosesAt < opensAt) {
+      return 'The late-entry cutoff must be after the exam opens';
+    }
+    if (closesAt !== null && entryClosesAt > closesAt) {
+      return 'The late-entry cutoff must be before the exam closes';
+    }
+  }
+  return null;
+};
+
+// Value for a datetime-local input, in the browser's time zone
+export const toDateTimeInputValue = (value?: string | number | null) => {
+  const time = typeof value === 'number' ? value : toTime(value || undefined);
+  return time === null || Number.isNaN(time) ? '' : format(time, "yyyy-MM-dd'T'HH:mm");
+};
+
+export const fromDateTimeInputValue = (value: string) => value ? new Date(value).toISOString() : undefined;
+
+// Countdown text for the lobby: days are spelled out, the rest is HH:MM:SS
+export const formatCountdown = (milliseconds: number) => {
+  const totalSeconds = Math.max(0, Math.ceil(milliseconds / 1000));
+  const days = Math.floor(totalSeconds / 86400);
+  const rest = totalSeconds % 86400;
+  const clock = [Math.floor(rest / 3600), Math.floor((rest % 3600) / 60), rest % 60]
+    .map(part => part.toString().padStart(2, '0'))
+    .join(':');
+  return days > 0 ? `${days}d ${clock}` : clock;
+};
@@ -0,0 +1,326 @@
+import { createDocx, DocxImage, DocxParagraph, loadDocxImage } from './docx';
+import { markdownToRuns, TextRun } from './rich-text';
+import { QuestionAttachment } from './attachments';
+import { getSetCode, getSetLabel } from './blueprint';
+import { buildExamLayout, ExamLayout } from './shuffle';
+import { ExamSection, getSectionRanges } from './sections';
+import { formatCorrectAnswer, getMatchingChoices, QuestionDefinition, TRUE_FALSE_OPTIONS } from './question-types';
+
+// Print versions of a paper for offline exams and network-failure backups.
+// With several sets, set A keeps the paper's own order and the other sets
+// shuffle questions (within sections) and options, seeded by the set so the
+// same set always prints the same way. The answer key follows each set's order.
+// PDFs go through the browser's print dialog, so question text in any script,
+// formulas and figures print as they look on screen; DOCX files carry the
+// same content as Word text with the figures embedded.
+
+export type ExportFormat = 'pdf' | 'docx';
+
+export interface PrintablePaper {
+  _id: string;
+  title: string;
+  subject: { name: string; semester?: number };
+  duration: number;
+  totalMarks: number;
+  passingMarks?: number;
+  instructions?: string;
+  questions: QuestionDefinition[];
+  sections?: ExamSection[];
+}
+
+export interface PrintLine {
+  text: string;
+  // Markdown with LaTeX, as written in the question editor
+  rich?: boolean;
+  // Printed beside the text, such as the question number and its marks
+  prefix?: string;
+  suffix?: string;
+  // Points; defaults to 11
+  size?: number;
+  bold?: boolean;
+  // Extra space above the line, in points
+  spaceBefore?: number;
+  indent?: number;
+  pageBreakBefore?: boolean;
+  attachments?: QuestionAttachment[];
+}
+
+export interface PaperExportOptions {
+  format: ExportFormat;
+  institution: string;
+  sets: number;
+  answerKey: boolean;
+}
+
+export const DEFAULT_INSTITUTION = 'Centurion University';
+
+export const EXPORT_FORMAT_LABELS: Record<ExportFormat, string> = {
+  pdf: 'PDF (print dialog)',
+  docx: 'Word (DOCX)',
+};
+
+const OPTION_INDENT = 18;
+
+const optionLetter = (index: number) => `(${String.fromCharCode(97 + index)})`;
+
+const marksLabel = (marks: number) => `[${marks} ${marks === 1 ? 'mark' : 'marks'}]`;
+
+const getSetLayout = (paper: PrintablePaper, setIndex: number): ExamLayout =>
+  buildExamLayout({ ...paper, shuffleQuestions: setIndex > 0, shuffleOptions: setIndex > 0 }, `print:${getSetLabel(setIndex)}`);
+
+// Options in the order printed for this set
+const getPrintedOptions = (question: QuestionDefinition, layout: ExamLayout, canonicalIndex: number) =>
+  question.type === 'true_false'
+    ? TRUE_FALSE_OPTIONS
+    : (layout.optionOrders[canonicalIndex] || []).map(index => question.options![index]);
+
+// Attachments follow their option when the options are shuffled
+const getPrintedOptionAttachments = (question: QuestionDefinition, layout: ExamLayout, canonicalIndex: number) =>
+  question.type === 'true_false'
+    ? []
+    : (layout.optionOrders[canonicalIndex] || []).map(index => question.optionAttachments?.[index] || null);
+
+// Later sets in a combined document start on a new page
+const startOnNewPage = (lines: PrintLine[], setIndex: number) =>
+  lines.map((line, index) => index === 0 ? { ...line, pageBreakBefore: setIndex > 0 } : line);
+
+const getHeaderLines = (paper: PrintablePaper, options: PaperExportOptions, setIndex: number, heading?: string): PrintLine[] => [
+  { text: options.institution, size: 16, bold: true },
+  { text: heading ? `${paper.title} - ${heading}` : paper.title, size: 14, bold: true, spaceBefore: 4 },
+  { text: `Subject: ${paper.subject.name}${paper.subject.semester ? ` (Semester ${paper.subject.semester})` : ''}`, spaceBefore: 6 },
+  { text: `Duration: ${paper.duration} minutes    Maximum Marks: ${paper.totalMarks}${paper.passingMarks ? `    Pass Marks: ${paper.passingMarks}` : ''}` },
+  ...(options.sets > 1 ? [{ text: `Set Code: ${getSetCode(setIndex)}`, bold: true }] : []),
+];
+
+// Section headings keyed by the display position they start at
+const getSectionHeadings = (paper: PrintablePaper) => new Map(
+  getSectionRanges(paper.sections, paper.questions.length)
+    .filter(range => range.end > range.start)
+    .map(({ start, section }) => [start, section])
+);
+
+export const getPaperLines = (paper: PrintablePaper, options: PaperExportOptions, setIndex = 0): PrintLine[] => {
+  const layout = getSetLayout(paper, setIndex);
+  const sections = getSectionHeadings(paper);
+  const lines: PrintLine[] = [
+    ...getHeaderLines(paper, options, setIndex),
+    { text: 'Name: ______________________________    Roll No.: ____________________', spaceBefore: 12 },
+  ];
+
+  if (paper.instructions?.trim()) {
+    lines.push({ text: 'Instructions', bold: true, spaceBefore: 12 }, { text: paper.instructions.trim() });
+  }
+
+  layout.questionOrder.forEach((canonicalIndex, position) => {
+    const question = paper.questions[canonicalIndex];
+    const section = sections.get(position);
+    if (section) {
+      lines.push({ text: section.title, size: 13, bold: true, spaceBefore: 16 });
+      if (section.attemptAny) {
+        lines.push({ text: `Attempt any ${section.attemptAny} ${section.attemptAny === 1 ? 'question' : 'questions'}.` });
+      }
+      if (section.instructions?.trim()) {
+        lines.push({ text: section.instructions.trim() });
+      }
+    }
+
+    lines.push({
+      text: question.question,
+      rich: true,
+      prefix: `${position + 1}.`,
+      suffix: marksLabel(question.marks),
+      spaceBefore: 10,
+      attachments: question.attachments,
+    });
+
+    switch (question.type) {
+      case 'mcq':
+      case 'multi_select':
+      case 'true_false':
+        if (question.type === 'multi_select') {
+          lines.push({ text: 'Select all that apply.', indent: OPTION_INDENT, size: 10 });
+        }
+        getPrintedOptions(question, layout, canonicalIndex).forEach((option, index) => {
+          const attachment = getPrintedOptionAttachments(question, layout, canonicalIndex)[index];
+          lines.push({
+            text: option,
+            rich: true,
+            prefix: optionLetter(index),
+            indent: OPTION_INDENT,
+            attachments: attachment ? [attachment] : undefined,
+          });
+        });
+        break;
+      case 'matching':
+        lines.push({ text: 'Column A', bold: true, indent: OPTION_INDENT });
+        question.pairs?.forEach((pair, index) => lines.push({ text: pair.left, rich: true, prefix: `${index + 1}.`, indent: OPTION_INDENT }));
+        lines.push({ text: 'Column B', bold: true, indent: OPTION_INDENT, spaceBefore: 4 });
+        getMatchingChoices(question.pairs).forEach((choice, index) => lines.push({ text: choice, rich: true, prefix: optionLetter(index), indent: OPTION_INDENT }));
+        break;
+      case 'numeric':
+        lines.push({ text: `Answer: ____________${question.numericAnswer?.unit ? ` ${question.numericAnswer.unit}` : ''}`, indent: OPTION_INDENT });
+        break;
+      case 'code':
+        if (question.codeSettings?.languages.length) {
+          lines.push({ text: `Write your answer in: ${question.codeSettings.languages.join(', ')}`, indent: OPTION_INDENT, size: 10 });
+        }
+        break;
+    }
+  });
+
+  lines.push({ text: '*** End of Paper ***', bold: true, spaceBefore: 24 });
+  return lines;
+};
+
+// The correct answer as printed for this set, with option letters
+const getPrintedAnswer = (question: QuestionDefinition, layout: ExamLayout, canonicalIndex: number) => {
+  const options = getPrintedOptions(question, layout, canonicalIndex);
+  const withLetter = (answer?: string) => {
+    const index = options.indexOf(answer || '');
+    return index === -1 ? answer || '' : `${optionLetter(index)} ${answer}`;
+  };
+  switch (question.type) {
+    case 'mcq':
+    case 'true_false':
+      return withLetter(question.correctAnswer);
+    case 'multi_select':
+      return (question.correctAnswers || []).map(withLetter).join(', ');
+    case 'matching': {
+      const choices = getMatchingChoices(question.pairs);
+      return (question.pairs || [])
+        .map((pair, index) => `${index + 1} → ${optionLetter(choices.indexOf(pair.right))} ${pair.right}`)
+        .join('; ');
+    }
+    case 'code':
+    case 'subjective':
+      return 'Marked by the examiner';
+    default:
+      return formatCorrectAnswer(question);
+  }
+};
+
+const getMarkingScheme = (question: QuestionDefinition) => {
+  switch (question.type) {
+    case 'mcq':
+    case 'true_false':
+      return `${question.marks} for the correct option, otherwise 0.`;
+    case 'multi_select':
+      return `${question.marks} only when exactly the correct options are chosen, otherwise 0.`;
+    case 'numeric':
+      return question.numericAnswer?.tolerance
+        ? `${question.marks} for any answer within ± ${question.numericAnswer.tolerance} of ${question.numericAnswer.value}.`
+        : `${question.marks} for the exact value.`;
+    case 'fill_blank':
+      return `${question.marks} for any accepted answer (${question.caseSensitive ? 'case-sensitive' : 'not case-sensitive'}).`;
+    case 'matching':
+      return `Equal share of ${question.marks} for each correct pair.`;
+    case 'code': {
+      const tests = question.codeSettings?.testCases || [];
+      return `${question.marks} shared across ${tests.length} test ${tests.length === 1 ? 'case' : 'cases'} by weight.`;
+    }
+    default:
+      return `Out of ${question.marks}, at the examiner's judgement.`;
+  }
+};
+
+export const getAnswerKeyLines = (paper: PrintablePaper, options: PaperExportOptions): PrintLine[] =>
+  Array.from({ length: options.sets }, (_, setIndex) => {
+    const layout = getSetLayout(paper, setIndex);
+    const sections = getSectionHeadings(paper);
+    const lines: PrintLine[] = [
+      ...startOnNewPage(getHeaderLines(paper, options, setIndex, 'Answer Key and Marking Scheme'), setIndex),
+      { text: 'Confidential: for examiners only.', size: 10, spaceBefore: 6 },
+    ];
+
+    layout.questionOrder.forEach((canonicalIndex, position) => {
+      const question = paper.questions[canonicalIndex];
+      const section = sections.get(position);
+      if (section) {
+        lines.push({ text: section.title, size: 13, bold: true, spaceBefore: 14 });
+        if (section.attemptAny) {
+          lines.push({
+            text: section.attemptAny === 1
+              ? 'Only the best answer in this section counts.'
+              : `Only the best ${section.attemptAny} answers in this section count.`,
+            size: 10
+          });
+        }
+      }
+      lines.push(
+        {
+          text: getPrintedAnswer(question, layout, canonicalIndex),
+          rich: true,
+          prefix: `${position + 1}.`,
+          suffix: marksLabel(question.marks),
+          bold: true,
+          spaceBefore: 8,
+        },
+        { text: `Marking: ${getMarkingScheme(question)}`, indent: OPTION_INDENT, size: 10 },
+      );
+      if (question.explanation?.trim()) {
+        lines.push({ text: question.explanation.trim(), rich: true, prefix: 'Notes:', indent: OPTION_INDENT, size: 10 });
+      }
+    });
+    return lines;
+  }).flat();
+
+// Every set in one document, for printing in one go
+export const getAllPaperLines = (paper: PrintablePaper, options: PaperExportOptions): PrintLine[] =>
+  Array.from({ length: options.sets }, (_, setIndex) =>
+    startOnNewPage(getPaperLines(paper, options, setIndex), setIndex)
+  ).flat();
+
+const toFileSlug = (title: string) =>
+  title.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '') || 'paper';
+
+// Figures that can't be fetched are named in the text instead
+const toDocxParagraphs = async (lines: PrintLine[], loadImage: (attachment: QuestionAttachment) => Promise<DocxImage | null>) =>
+  Promise.all(lines.map(async ({ text, rich, prefix, suffix, attachments = [], ...format }): Promise<DocxParagraph> => {
+    const images: DocxImage[] = [];
+    const notes: TextRun[] = [];
+    for (const attachment of attachments) {
+      const image = attachment.kind === 'image' ? await loadImage(attachment) : null;
+      if (image) {
+        images.push(image);
+      } else {
+        notes.push({ text: `[${attachment.kind === 'image' ? 'Figure' : 'Attachment'}: ${attachment.alt || attachment.name} - ${attachment.url}]`, break: true });
+      }
+    }
+    return {
+      ...format,
+      runs: [
+        ...(prefix ? [{ text: `${prefix} ` }] : []),
+        ...(rich ? markdownToRuns(text) : text.split('\n').map((line, index) => ({ text: line, break: index > 0 }))),
+        ...(suffix ? [{ text: `  ${suffix}` }] : []),
+        ...notes,
+      ],
+      images,
+    };
+  }));
+
+// One Word file per set, plus one answer key covering every set
+export const createDocxExports = async (paper: PrintablePaper, options: PaperExportOptions) => {
+  const images = new Map<string, Promise<DocxImage | null>>();
+  const loadImage = (attachment: QuestionAttachment) => {
+    if (!images.has(attachment.url)) {
+      images.set(attachment.url, loadDocxImage(attachment.url, attachment.alt));
+    }
+    return images.get(attachment.url)!;
+  };
+
+  const slug = toFileSlug(paper.title);
+  const files = await Promise.all(Array.from({ length: options.sets }, async (_, setIndex) => {
+    const suffix = options.sets > 1 ? `-set-${getSetCode(setIndex).toLowerCase()}` : '';
+    return {
+      blob: createDocx(await toDocxParagraphs(getPaperLines(paper, options, setIndex), loadImage), paper.title),
+      filename: `${slug}${suffix}.docx`,
+    };
+  }));
+  if (options.answerKey) {
+    files.push({
+      blob: createDocx(await toDocxParagraphs(getAnswerKeyLines(paper, options), loadImage), `${paper.title} - Answer Key`),
+      filename: `${slug}-answer-key.docx`,
+    });
+  }
+  return files;
+};
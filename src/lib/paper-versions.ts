@@ -0,0 +1,222 @@
+import { format } from 'date-fns';
+import { ExamSection } from './sections';
+import { PaperSetVariant } from './blueprint';
+import { ExamAudience, formatAudience } from './exam-audience';
+import { PaperMode } from './practice';
+import { getProctoringSettings, ProctoringSettings } from './proctoring';
+import { getTimingSettings, TimingSettings } from './exam-timing';
+import { formatCorrectAnswer, QUESTION_TYPE_LABELS, QuestionDefinition, toQuestionPayload } from './question-types';
+
+// Papers start as drafts that only their faculty member sees, and reach the
+// approval queue when they are submitted. Rejected papers can be revised and
+// resubmitted. Every save stores an immutable, numbered snapshot of the paper
+// on the server, so reviewers can compare any two versions.
+
+export type PaperStatus = 'draft' | 'pending' | 'approved' | 'rejected' | 'completed';
+
+// Approved papers may already be open to students, so they are never edited
+export const EDITABLE_STATUSES: PaperStatus[] = ['draft', 'pending', 'rejected'];
+
+export const canEditPaper = (paper: { status: PaperStatus }) => EDITABLE_STATUSES.includes(paper.status);
+
+export interface PaperSnapshot {
+  title: string;
+  description?: string;
+  duration: number;
+  totalMarks: number;
+  passingMarks?: number;
+  instructions?: string;
+  questions: QuestionDefinition[];
+  sections?: ExamSection[];
+  // Blueprint sets after set A
+  sets?: PaperSetVariant[];
+  availableFrom?: string;
+  availableUntil?: string;
+  lateEntryUntil?: string;
+  audience?: ExamAudience;
+  mode?: PaperMode;
+  practiceAttemptLimit?: number;
+  proctoring?: Partial<ProctoringSettings>;
+  timing?: Partial<TimingSettings>;
+  shuffleQuestions?: boolean;
+  shuffleOptions?: boolean;
+}
+
+export interface PaperVersion {
+  _id: string;
+  // Starts at 1 and increases with every save
+  version: number;
+  status: PaperStatus;
+  changeNote?: string;
+  editedBy?: { _id: string; name: string };
+  createdAt: string;
+  snapshot: PaperSnapshot;
+}
+
+export interface FieldDiff {
+  label: string;
+  before: string;
+  after: string;
+  changed: boolean;
+}
+
+export type QuestionChangeKind = 'added' | 'removed' | 'changed' | 'unchanged';
+
+export interface QuestionDiff {
+  kind: QuestionChangeKind;
+  // 1-based positions in each version
+  beforeNumber?: number;
+  before?: QuestionDefinition;
+  afterNumber?: number;
+  after?: QuestionDefinition;
+  // For changed questions, the parts that differ
+  changedFields: string[];
+}
+
+export interface PaperDiff {
+  fields: FieldDiff[];
+  questions: QuestionDiff[];
+}
+
+export const formatVersionLabel = (version: PaperVersion) =>
+  `v${version.version} • ${format(new Date(version.createdAt), 'PPp')}${version.editedBy ? ` • ${version.editedBy.name}` : ''}`;
+
+const formatDate = (value?: string) => value ? format(new Date(value), 'PPp') : '';
+
+const formatSections = (sections?: ExamSection[]) =>
+  (sections || []).map(section => [
+    `${section.title} (${section.questionCount} ${section.questionCount === 1 ? 'question' : 'questions'}`,
+    section.attemptAny ? `, attempt any ${section.attemptAny}` : '',
+    section.timeLimit ? `, ${section.timeLimit} min` : '',
+    ')',
+  ].join('')).join('\n');
+
+const formatSets = (sets?: PaperSetVariant[]) =>
+  (sets || []).map(set => [
+    `${set.label} (${set.questions.length} questions, ${set.totalMarks} marks)`,
+    ...set.questions.map((question, index) => `${index + 1}. ${question.question}`),
+  ].join('\n')).join('\n\n');
+
+const formatViolations = (count: number) => `${count} ${count === 1 ? 'violation' : 'violations'}`;
+
+const formatProctoring = (paper: PaperSnapshot) => {
+  const settings = getProctoringSettings(paper);
+  if (!settings.enabled) {
+    return 'Off';
+  }
+  return [
+    settings.requireFullscreen ? 'Fullscreen required' : 'Fullscreen optional',
+    settings.warnAfter ? `warn after ${formatViolations(settings.warnAfter)}` : 'no warning',
+    settings.autoSubmitAfter ? `submit after ${formatViolations(settings.autoSubmitAfter)}` : 'no auto-submit',
+  ].join(', ');
+};
+
+const formatTiming = (paper: PaperSnapshot) => {
+  const settings = getTimingSettings(paper);
+  return [
+    settings.warnings.length ? `Warnings at ${settings.warnings.join(', ')} minutes left` : 'No warnings',
+    `${settings.gracePeriod}s grace period`,
+  ].join(', ');
+};
+
+const PAPER_FIELDS: [string, (paper: PaperSnapshot) => string][] = [
+  ['Title', paper => paper.title],
+  ['Description', paper => paper.description || ''],
+  ['Duration', paper => `${paper.duration} minutes`],
+  ['Total marks', paper => String(paper.totalMarks)],
+  ['Passing marks', paper => paper.passingMarks ? String(paper.passingMarks) : ''],
+  ['Instructions', paper => paper.instructions || ''],
+  ['Sections', paper => formatSections(paper.sections)],
+  ['Other sets', paper => formatSets(paper.sets)],
+  ['Available from', paper => formatDate(paper.availableFrom)],
+  ['Available until', paper => formatDate(paper.availableUntil)],
+  ['Late entry until', paper => formatDate(paper.lateEntryUntil)],
+  ['Audience', paper => formatAudience(paper.audience)],
+  ['Paper type', paper => paper.mode === 'practice' ? 'Practice' : 'Graded exam'],
+  ['Practice attempts', paper => paper.mode === 'practice' ? String(paper.practiceAttemptLimit || 'Unlimited') : ''],
+  ['Proctoring', formatProctoring],
+  ['Timing', formatTiming],
+  ['Shuffling', paper => [paper.shuffleQuestions && 'Questions', paper.shuffleOptions && 'Options'].filter(Boolean).join(', ') || 'Off'],
+];
+
+const QUESTION_FIELDS: [string, (question: QuestionDefinition) => string][] = [
+  ['Type', question => QUESTION_TYPE_LABELS[question.type]],
+  ['Question', question => question.question],
+  ['Marks', question => String(question.marks)],
+  ['Options', question => (question.options || []).join('\n')],
+  ['Answer', question => formatCorrectAnswer(question) || ''],
+  ['Attachments', question => JSON.stringify([question.attachments || [], question.optionAttachments || []])],
+  ['Explanation', question => question.explanation || ''],
+];
+
+// Server copies carry ids and defaults that are not part of the question itself
+const getQuestionKey = (question: QuestionDefinition) => JSON.stringify(toQuestionPayload(question));
+
+const getChangedQuestionFields = (before: QuestionDefinition, after: QuestionDefinition) => {
+  const changed = QUESTION_FIELDS
+    .filter(([, read]) => read(before) !== read(after))
+    .map(([label]) => label);
+  // Anything else, such as code test cases or case sensitivity
+  return changed.length ? changed : ['Settings'];
+};
+
+// Longest common subsequence of identical questions; the questions between
+// two matches are paired up as edits, and any left over were added or removed
+const alignQuestions = (before: QuestionDefinition[], after: QuestionDefinition[]): QuestionDiff[] => {
+  const beforeKeys = before.map(getQuestionKey);
+  const afterKeys = after.map(getQuestionKey);
+  const lengths = Array.from({ length: before.length + 1 }, () => new Array<number>(after.length + 1).fill(0));
+  for (let i = before.length - 1; i >= 0; i--) {
+    for (let j = after.length - 1; j >= 0; j--) {
+      lengths[i][j] = beforeKeys[i] === afterKeys[j]
+        ? lengths[i + 1][j + 1] + 1
+        : Math.max(lengths[i + 1][j], lengths[i][j + 1]);
+    }
+  }
+
+  const diffs: QuestionDiff[] = [];
+  let removed: number[] = [];
+  let added: number[] = [];
+  const flush = () => {
+    for (let k = 0; k < Math.max(removed.length, added.length); k++) {
+      const i = removed[k];
+      const j = added[k];
+      diffs.push({
+        kind: i === undefined ? 'added' : j === undefined ? 'removed' : 'changed',
+        beforeNumber: i === undefined ? undefined : i + 1,
+        before: before[i],
+        afterNumber: j === undefined ? undefined : j + 1,
+        after: after[j],
+        changedFields: i === undefined || j === undefined ? [] : getChangedQuestionFields(before[i], after[j]),
+      });
+    }
+    removed = [];
+    added = [];
+  };
+
+  let i = 0;
+  let j = 0;
+  while (i < before.length || j < after.length) {
+    if (i < before.length && j < after.length && beforeKeys[i] === afterKeys[j]) {
+      flush();
+      diffs.push({ kind: 'unchanged', beforeNumber: i + 1, before: before[i], afterNumber: j + 1, after: after[j], changedFields: [] });
+      i++;
+      j++;
+    } else if (j >= after.length || (i < before.length && lengths[i + 1][j] >= lengths[i][j + 1])) {
+      removed.push(i++);
+    } else {
+      added.push(j++);
+    }
+  }
+  flush();
+  return diffs;
+};
+
+export const diffPaperVersions = (before: PaperSnapshot, after: PaperSnapshot): PaperDiff => ({
+  fields: PAPER_FIELDS.map(([label, read]) => {
+    const beforeValue = read(before);
+    const afterValue = read(after);
+    return { label, before: beforeValue, after: afterValue, changed: beforeValue !== afterValue };
+  }),
+  questions: alignQuestions(before.questions, after.questions),
+});
@@ -0,0 +1,124 @@
+// Minimal text-only PDF writer for receipts and printable documents. Lines
+// are wrapped to the page width and flow onto new A4 pages as needed; only
+// the standard Helvetica fonts are used, so nothing has to be embedded.
+
+export interface PdfLine {
+  text: string;
+  // Points; defaults to 11
+  size?: number;
+  bold?: boolean;
+  // Extra space above the line, in points
+  spaceBefore?: number;
+}
+
+const PAGE_WIDTH = 595;
+const PAGE_HEIGHT = 842;
+const MARGIN = 50;
+const LINE_HEIGHT = 1.4;
+// Average Helvetica glyph width as a share of the font size
+const AVERAGE_CHAR_WIDTH = 0.5;
+
+// The standard fonts use WinAnsi encoding; anything outside Latin-1 is
+// replaced so the byte offsets in the cross-reference table stay exact
+const toPdfText = (text: string) =>
+  text
+    .replace(/[‘’]/g, "'")
+    .replace(/[“”]/g, '"')
+    .replace(/[–—]/g, '-')
+    .replace(/•/g, '-')
+    .replace(/[^\x20-\x7e\xa0-\xff]/g, '?')
+    .replace(/([\\()])/g, '\\$1');
+
+export const wrapText = (text: string, size: number, width = PAGE_WIDTH - MARGIN * 2) => {
+  const maxChars = Math.max(1, Math.floor(width / (size * AVERAGE_CHAR_WIDTH)));
+  return text.split('\n').flatMap(paragraph => {
+    const lines: string[] = [];
+    let current = '';
+    paragraph.split(/\s+/).filter(Boolean).forEach(word => {
+      while (word.length > maxChars) {
+        if (current) lines.push(current);
+        lines.push(word.slice(0, maxChars));
+        word = word.slice(maxChars);
+        current = '';
+      }
+      if (!current) {
+        current = word;
+      } else if (current.length + 1 + word.length <= maxChars) {
+        current += ` ${word}`;
+      } else {
+        lines.push(current);
+        current = word;
+      }
+    });
+    lines.push(current);
+    return lines;
+  });
+};
+
+// Splits the lines into page content streams
+const layoutPages = (lines: PdfLine[]) => {
+  const pages: string[][] = [[]];
+  let y = PAGE_HEIGHT - MARGIN;
+
+  lines.forEach(({ text, size = 11, bold = false, spaceBefore = 0 }) => {
+    y -= spaceBefore;
+    wrapText(text, size).forEach(row => {
+      const height = size * LINE_HEIGHT;
+      if (y - height < MARGIN) {
+        pages.push([]);
+        y = PAGE_HEIGHT - MARGIN;
+      }
+      y -= height;
+      pages[pages.length - 1].push(
+        `BT /${bold ? 'F2' : 'F1'} ${size} Tf ${MARGIN} ${y.toFixed(2)} Td (${toPdfText(row)}) Tj ET`
+      );
+    });
+  });
+
+  return pages.map(rows => rows.join('\n'));
+};
+
+export const createPdf = (lines: PdfLine[], title = 'Document'): Blob => {
+  const pages = layoutPages(lines);
+  // 1: catalog, 2: page tree, 3-4: fonts, 5: info, then a page and a
+  // content stream per page
+  const pageIds = pages.map((_, index) => 6 + index * 2);
+  const objects = [
+    '<< /Type /Catalog /Pages 2 0 R >>',
+    `<< /Type /Pages /Kids [${pageIds.map(id => `${id} 0 R`).join(' ')}] /Count ${pages.length} >>`,
+    '<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica /Encoding /WinAnsiEncoding >>',
+    '<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica-Bold /Encoding /WinAnsiEncoding >>',
+    `<< /Title (${toPdfText(title)}) /Producer (Exam Portal) >>`,
+    ...pages.flatMap((content, index) => [
+      `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${PAGE_WIDTH} ${PAGE_HEIGHT}] ` +
+        `/Resources << /Font << /F1 3 0 R /F2 4 0 R >> >> /Contents ${pageIds[index] + 1} 0 R >>`,
+      `<< /Length ${content.length} >>\nstream\n${content}\nendstream`,
+    ]),
+  ];
+
+  let output = '%PDF-1.4\n';
+  const offsets = objects.map((body, index) => {
+    const offset = output.length;
+    output += `${index + 1} 0 obj\n${body}\nendobj\n`;
+    return offset;
+  });
+  const xrefOffset = output.length;
+  output += `xref\n0 ${objects.length + 1}\n0000000000 65535 f \n`;
+  output += offsets.map(offset => `${String(offset).padStart(10, '0')} 00000 n \n`).join('');
+  output += `trailer\n<< /Size ${objects.length + 1} /Root 1 0 R /Info 5 0 R >>\nstartxref\n${xrefOffset}\n%%EOF`;
+
+  // One byte per character: everything above is Latin-1 after toPdfText
+  const bytes = Uint8Array.from(output, char => char.charCodeAt(0));
+  return new Blob([bytes], { type: 'application/pdf' });
+};
+
+export const downloadBlob = (blob: Blob, filename: string) => {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  URL.revokeObjectURL(url);
+};
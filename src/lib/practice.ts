@@ -0,0 +1,93 @@
+import { gradeAnswer, isAutoGraded, needsTestRun, QuestionDefinition } from './question-types';
+
+// Practice papers can be retaken and never enter the evaluation pipeline.
+// The server returns correct answers and explanations for them, so each
+// answer is checked in the browser as soon as the student asks.
+export type PaperMode = 'exam' | 'practice';
+
+export interface PracticeSettings {
+  mode?: PaperMode;
+  // 0 or missing means unlimited attempts
+  practiceAttemptLimit?: number;
+}
+
+export interface PracticeAnswerResult {
+  questionIndex: number;
+  selectedOption: string;
+  // null when the question cannot be checked instantly (subjective, code)
+  marks: number | null;
+}
+
+export interface PracticeAttempt {
+  _id: string;
+  examPaper: {
+    _id: string;
+    title: string;
+    subject?: { name: string };
+  };
+  attemptNumber: number;
+  startTime: string;
+  endTime: string;
+  answers: PracticeAnswerResult[];
+  score: number;
+  maxScore: number;
+}
+
+export const isPracticePaper = (paper?: PracticeSettings | null) => paper?.mode === 'practice';
+
+// Questions that get instant feedback
+export const isInstantlyGraded = (question: Pick<QuestionDefinition, 'type'>) =>
+  isAutoGraded(question.type) && !needsTestRun(question.type);
+
+// Attempts left, or null when unlimited
+export const getRemainingPracticeAttempts = (settings: PracticeSettings, used: number) =>
+  settings.practiceAttemptLimit ? Math.max(0, settings.practiceAttemptLimit - used) : null;
+
+export const gradePracticeAnswers = (
+  questions: QuestionDefinition[],
+  answers: { questionIndex: number; selectedOption: string }[]
+) => {
+  const byIndex = new Map(answers.map(answer => [answer.questionIndex, answer.selectedOption]));
+  const results: PracticeAnswerResult[] = questions.map((question, questionIndex) => {
+    const selectedOption = byIndex.get(questionIndex) || '';
+    return {
+      questionIndex,
+      selectedOption,
+      marks: isInstantlyGraded(question) ? gradeAnswer(question, selectedOption) : null,
+    };
+  });
+
+  const score = results.reduce((sum, result) => sum + (result.marks || 0), 0);
+  const maxScore = questions
+    .filter(isInstantlyGraded)
+    .reduce((sum, question) => sum + (Number(question.marks) || 0), 0);
+
+  return { results, score: Math.round(score * 100) / 100, maxScore };
+};
+
+export const getPracticePercentage = (attempt: Pick<PracticeAttempt, 'score' | 'maxScore'>) =>
+  attempt.maxScore ? Math.round((attempt.score / attempt.maxScore) * 100) : 0;
+
+// Attempts grouped per paper, oldest first, with best/latest/average scores
+export const summarizePracticeAttempts = (attempts: PracticeAttempt[]) => {
+  const byPaper = new Map<string, PracticeAttempt[]>();
+  attempts.forEach(attempt => {
+    const list = byPaper.get(attempt.examPaper._id) || [];
+    list.push(attempt);
+    byPaper.set(attempt.examPaper._id, list);
+  });
+
+  return [...byPaper.values()].map(list => {
+    const sorted = [...list].sort((a, b) => new Date(a.endTime).getTime() - new Date(b.endTime).getTime());
+    const percentages = sorted.map(getPracticePercentage);
+    return {
+      paper: sorted[0].examPaper,
+      attempts: sorted,
+      best: Math.max(...percentages),
+      latest: percentages[percentages.length - 1],
+      average: Math.round(percentages.reduce((sum, value) => sum + value, 0) / percentages.length),
+      // Change from the first attempt to the latest, in percentage points
+      improvement: percentages[percentages.length - 1] - percentages[0],
+    };
+  });
+};
@@ -0,0 +1,49 @@
+import { ReactElement } from 'react';
+import { flushSync } from 'react-dom';
+import { createRoot } from 'react-dom/client';
+
+// Prints React content from a hidden frame, so the browser lays out the text
+// in any script, the KaTeX formulas and the images, and the print dialog can
+// send it to a printer or save it as PDF. The app's stylesheets are copied
+// into the frame so components look the same as on screen.
+
+const waitForLoad = (element: HTMLLinkElement | HTMLImageElement) =>
+  new Promise<void>(resolve => {
+    element.addEventListener('load', () => resolve(), { once: true });
+    element.addEventListener('error', () => resolve(), { once: true });
+  });
+
+export const printElement = async (element: ReactElement, title: string) => {
+  const frame = document.createElement('iframe');
+  frame.setAttribute('aria-hidden', 'true');
+  Object.assign(frame.style, { position: 'fixed', right: '0', bottom: '0', width: '0', height: '0', border: '0' });
+  document.body.appendChild(frame);
+
+  const frameWindow = frame.contentWindow!;
+  const frameDocument = frameWindow.document;
+  frameDocument.title = title;
+  const stylesheets = Array.from(document.querySelectorAll('style, link[rel="stylesheet"]'), node => node.cloneNode(true) as HTMLElement);
+  const stylesLoaded = stylesheets
+    .filter((node): node is HTMLLinkElement => node instanceof HTMLLinkElement)
+    .map(waitForLoad);
+  frameDocument.head.append(...stylesheets);
+
+  const container = frameDocument.createElement('div');
+  frameDocument.body.appendChild(container);
+  const root = createRoot(container);
+  flushSync(() => root.render(element));
+
+  const imagesLoaded = Array.from(frameDocument.images)
+    .filter(image => !image.complete)
+    .map(waitForLoad);
+  await Promise.all([...stylesLoaded, ...imagesLoaded]);
+  await frameDocument.fonts.ready;
+
+  // Some browsers return from print() before the dialog closes
+  frameWindow.addEventListener('afterprint', () => {
+    root.unmount();
+    frame.remove();
+  }, { once: true });
+  frameWindow.focus();
+  frameWindow.print();
+};
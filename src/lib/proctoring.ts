@@ -0,0 +1,71 @@
+// Integrity signals captured while a student is inside an exam attempt
+
+export type ProctoringEventType =
+  | 'tab_hidden'
+  | 'window_blur'
+  | 'fullscreen_exit'
+  | 'copy'
+  | 'paste'
+  | 'context_menu';
+
+export interface ProctoringEvent {
+  type: ProctoringEventType;
+  timestamp: string;
+  questionIndex?: number;
+}
+
+export interface ProctoringSettings {
+  enabled: boolean;
+  requireFullscreen: boolean;
+  // Number of violations before the student is warned / the attempt is submitted.
+  // 0 disables that step.
+  warnAfter: number;
+  autoSubmitAfter: number;
+}
+
+// Papers created before proctoring settings existed only record and warn
+export const DEFAULT_PROCTORING_SETTINGS: ProctoringSettings = {
+  enabled: true,
+  requireFullscreen: false,
+  warnAfter: 3,
+  autoSubmitAfter: 0,
+};
+
+export const PROCTORING_EVENT_LABELS: Record<ProctoringEventType, string> = {
+  tab_hidden: 'Switched tab / minimised',
+  window_blur: 'Left exam window',
+  fullscreen_exit: 'Exited fullscreen',
+  copy: 'Copied text',
+  paste: 'Pasted text',
+  context_menu: 'Right-clicked',
+};
+
+// Events that count towards the warning and auto-submit thresholds
+export const VIOLATION_EVENTS: ProctoringEventType[] = ['tab_hidden', 'window_blur', 'fullscreen_exit'];
+
+// Switching tabs fires both blur and visibilitychange; treat anything this
+// close together as a single violation.
+export const VIOLATION_DEBOUNCE_MS = 1000;
+
+// Shared by the student's counter and the invigilation view so both agree.
+// Times are the events' own timestamps, in milliseconds.
+export const isNewViolation = (type: ProctoringEventType, time: number, lastViolationAt: number) =>
+  VIOLATION_EVENTS.includes(type) && time - lastViolationAt >= VIOLATION_DEBOUNCE_MS;
+
+export const countViolations = (events: ProctoringEvent[]) => {
+  let count = 0;
+  let lastViolationAt = 0;
+  [...events].sort((a, b) => a.timestamp.localeCompare(b.timestamp)).forEach(event => {
+    const time = new Date(event.timestamp).getTime();
+    if (isNewViolation(event.type, time, lastViolationAt)) {
+      count++;
+      lastViolationAt = time;
+    }
+  });
+  return count;
+};
+
+export const getProctoringSettings = (paper?: { proctoring?: Partial<ProctoringSettings> }): ProctoringSettings => ({
+  ...DEFAULT_PROCTORING_SETTINGS,
+  ...(paper?.proctoring || {}),
+});
@@ -0,0 +1,83 @@
+import { QuestionDefinition } from './question-types';
+
+// Reusable questions, stored per subject. Papers copy a bank question when it
+// is inserted, so later edits in the bank never change a paper; the copy keeps
+// `bankQuestionId` so the server can record where each question was used.
+
+export type Difficulty = 'easy' | 'medium' | 'hard';
+
+export type BloomLevel = 'remember' | 'understand' | 'apply' | 'analyze' | 'evaluate' | 'create';
+
+export const DIFFICULTY_LABELS: Record<Difficulty, string> = {
+  easy: 'Easy',
+  medium: 'Medium',
+  hard: 'Hard',
+};
+
+export const DIFFICULTY_BADGE_STYLES: Record<Difficulty, string> = {
+  easy: 'bg-green-50 text-green-700 border-green-300',
+  medium: 'bg-amber-50 text-amber-700 border-amber-300',
+  hard: 'bg-red-50 text-red-700 border-red-300',
+};
+
+// In taxonomy order, lowest to highest
+export const BLOOM_LEVEL_LABELS: Record<BloomLevel, string> = {
+  remember: 'Remember',
+  understand: 'Understand',
+  apply: 'Apply',
+  analyze: 'Analyze',
+  evaluate: 'Evaluate',
+  create: 'Create',
+};
+
+export interface BankQuestionUsage {
+  paper: { _id: string; title: string };
+  usedAt: string;
+}
+
+export interface BankQuestionMetadata {
+  tags: string[];
+  difficulty: Difficulty;
+  bloomLevel: BloomLevel;
+}
+
+export interface BankQuestion extends QuestionDefinition, BankQuestionMetadata {
+  _id: string;
+  subject: string;
+  usage: BankQuestionUsage[];
+  createdBy?: { _id: string; name: string };
+  updatedAt: string;
+}
+
+// Query parameters for the bank search; empty values are left out
+export interface BankFilters {
+  search?: string;
+  tags?: string[];
+  difficulty?: Difficulty;
+  bloomLevel?: BloomLevel;
+  type?: string;
+}
+
+export const EMPTY_BANK_FILTERS: BankFilters = {};
+
+export const DEFAULT_BANK_METADATA: BankQuestionMetadata = {
+  tags: [],
+  difficulty: 'medium',
+  bloomLevel: 'understand',
+};
+
+export const hasBankFilters = (filters: BankFilters) =>
+  !!(filters.search?.trim() || filters.tags?.length || filters.difficulty || filters.bloomLevel || filters.type);
+
+// Tags are matched case-insensitively, so they are stored in lower case
+export const normalizeTag = (tag: string) => tag.trim().toLowerCase().replace(/\s+/g, '-');
+
+// "Algebra, linear equations" -> ['algebra', 'linear-equations']
+export const parseTags = (value: string) =>
+  [...new Set(value.split(',').map(normalizeTag).filter(Boolean))];
+
+// The question as a paper stores it: no bank metadata, plus the link back
+export const toPaperQuestion = (question: BankQuestion): QuestionDefinition & { bankQuestionId: string } => {
+  const { _id, subject, usage, createdBy, updatedAt, tags, difficulty, bloomLevel, ...definition } = question;
+  return { ...definition, bankQuestionId: _id };
+};
@@ -0,0 +1,550 @@
+import {
+  hasOptions,
+  MatchPair,
+  NumericAnswer,
+  QUESTION_TYPE_LABELS,
+  QuestionDefinition,
+  QuestionType,
+  validateQuestion,
+} from './question-types';
+
+// Parsers for question files written outside the app: our CSV and JSON
+// templates, Moodle's Aiken and GIFT text formats, and IMS QTI 2.1 items.
+// Every parser produces the same authoring shape as the CreatePaper form, so
+// imported questions are checked with the usual rules and can be fixed in
+// the same fields before they are added.
+
+export type ImportFormat = 'csv' | 'json' | 'aiken' | 'gift' | 'qti';
+
+export const IMPORT_FORMAT_LABELS: Record<ImportFormat, string> = {
+  csv: 'CSV template',
+  json: 'JSON template',
+  aiken: 'Aiken',
+  gift: 'GIFT (Moodle)',
+  qti: 'IMS QTI 2.1',
+};
+
+export interface ImportedQuestion {
+  // Where the question came from, e.g. "Row 4" or "Question 2"
+  source: string;
+  question: Partial<QuestionDefinition>;
+  // Set when the source could not be turned into a question at all
+  parseError?: string;
+}
+
+// Columns of the CSV template. `options` and `answer` hold several values
+// separated by "|"; options can also be given as "option a", "option b", ...
+// columns. Answers may be option letters or option text, numeric answers are
+// "value" or "value:tolerance", and matching options are "left -> right".
+export const CSV_TEMPLATE = [
+  'type,question,options,answer,marks,explanation',
+  'mcq,What is 2 + 2?,3|4|5|6,B,1,Two plus two is four.',
+  'multi_select,Which are prime numbers?,2|4|5|9,A|C,2,',
+  'true_false,The earth orbits the sun.,,True,1,',
+  'numeric,What is the value of g in m/s²?,,9.8:0.1,2,',
+  'fill_blank,The capital of France is ___.,,Paris,1,',
+  'matching,Match each country to its capital.,France -> Paris|Japan -> Tokyo|Kenya -> Nairobi,,3,',
+  'subjective,Explain the water cycle.,,,10,',
+].join('\n');
+
+const normalizeKey = (value: string) => value.toLowerCase().replace(/[^a-z0-9]/g, '');
+
+const TYPE_ALIASES: Record<string, QuestionType> = {
+  ...Object.fromEntries(Object.entries(QUESTION_TYPE_LABELS).flatMap(([type, label]) => [
+    [normalizeKey(type), type],
+    [normalizeKey(label), type],
+  ])),
+  mc: 'mcq',
+  multichoice: 'mcq',
+  multipleresponse: 'multi_select',
+  tf: 'true_false',
+  truefalse: 'true_false',
+  numerical: 'numeric',
+  shortanswer: 'fill_blank',
+  match: 'matching',
+  essay: 'subjective',
+  longanswer: 'subjective',
+};
+
+export const detectImportFormat = (fileName: string, text: string): ImportFormat => {
+  const extension = fileName.split('.').pop()?.toLowerCase();
+  if (extension === 'csv' || extension === 'json' || extension === 'gift') return extension;
+  if (extension === 'xml' || extension === 'qti') return 'qti';
+
+  const trimmed = text.trim();
+  if (trimmed.startsWith('<')) return 'qti';
+  if (trimmed.startsWith('[') || trimmed.startsWith('{')) return 'json';
+  if (/^ANSWER:\s*[A-Z]\s*$/im.test(trimmed)) return 'aiken';
+  if (/\{[^}]*\}/.test(trimmed)) return 'gift';
+  return 'csv';
+};
+
+// Loose fields shared by the CSV and JSON templates
+interface TemplateFields {
+  type?: string;
+  question?: string;
+  options?: string[];
+  answers?: string[];
+  marks?: string | number;
+  explanation?: string;
+  numericAnswer?: NumericAnswer;
+  pairs?: MatchPair[];
+  caseSensitive?: boolean;
+}
+
+const parseMarks = (value?: string | number) =>
+  value === undefined || String(value).trim() === '' ? 1 : Number(value);
+
+// "9.8", "9.8:0.1" or "9.8 ± 0.1"
+const parseNumericAnswer = (value = ''): NumericAnswer => {
+  const [answer, tolerance = '0'] = value.split(/:|±|\+\/?-/).map(part => part.trim());
+  return { value: answer ? Number(answer) : NaN, tolerance: Number(tolerance) || 0 };
+};
+
+const parsePair = (value: string): MatchPair => {
+  const [left, ...right] = value.split('->');
+  return { left: left.trim(), right: right.join('->').trim() };
+};
+
+// An answer given as a letter ("B") or as the option text
+const resolveOption = (answer: string, options: string[]) => {
+  const trimmed = answer.trim();
+  const byText = options.find(option => option.trim().toLowerCase() === trimmed.toLowerCase());
+  if (byText !== undefined) return byText;
+  const index = /^[A-Za-z]$/.test(trimmed) ? trimmed.toUpperCase().charCodeAt(0) - 65 : -1;
+  return options[index] ?? trimmed;
+};
+
+const buildQuestion = (source: string, fields: TemplateFields): ImportedQuestion => {
+  const options = (fields.options || []).map(option => option.trim());
+  const answers = (fields.answers || []).map(answer => answer.trim()).filter(Boolean);
+  const rawType = fields.type?.trim();
+  const type = rawType
+    ? TYPE_ALIASES[normalizeKey(rawType)]
+    : options.length ? 'mcq' : 'subjective';
+  const base = {
+    type,
+    question: fields.question?.trim() || '',
+    marks: parseMarks(fields.marks),
+    explanation: fields.explanation?.trim() || undefined,
+  };
+
+  if (!type) {
+    return { source, question: base, parseError: `Unknown question type "${rawType}"` };
+  }
+  switch (type) {
+    case 'mcq':
+      return { source, question: { ...base, options, correctAnswer: answers[0] && resolveOption(answers[0], options) } };
+    case 'multi_select':
+      return { source, question: { ...base, options, correctAnswers: answers.map(answer => resolveOption(answer, options)) } };
+    case 'true_false': {
+      const answer = answers[0]?.toLowerCase();
+      const correctAnswer = answer === 'true' || answer === 't' ? 'True' : answer === 'false' || answer === 'f' ? 'False' : undefined;
+      return { source, question: { ...base, correctAnswer } };
+    }
+    case 'numeric':
+      return { source, question: { ...base, numericAnswer: fields.numericAnswer || parseNumericAnswer(answers[0]) } };
+    case 'fill_blank':
+      return { source, question: { ...base, correctAnswers: answers, caseSensitive: !!fields.caseSensitive } };
+    case 'matching':
+      return { source, question: { ...base, pairs: fields.pairs || options.map(parsePair) } };
+    case 'code':
+      return { source, question: base, parseError: 'Programming questions need test cases; add them in the editor instead' };
+    default:
+      return { source, question: base };
+  }
+};
+
+// RFC 4180 style: quoted fields may hold commas, newlines and "" quotes
+const parseCsvRows = (text: string) => {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let quoted = false;
+  for (let i = 0; i < text.length; i++) {
+    const ch = text[i];
+    if (quoted) {
+      if (ch === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (ch === '"') {
+        quoted = false;
+      } else {
+        field += ch;
+      }
+    } else if (ch === '"') {
+      quoted = true;
+    } else if (ch === ',') {
+      row.push(field);
+      field = '';
+    } else if (ch === '\n' || ch === '\r') {
+      if (ch === '\r' && text[i + 1] === '\n') i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += ch;
+    }
+  }
+  if (field || row.length) {
+    row.push(field);
+    rows.push(row);
+  }
+  return rows;
+};
+
+const splitList = (value?: string) => value ? value.split('|') : [];
+
+const parseCsv = (text: string): ImportedQuestion[] => {
+  const [header, ...rows] = parseCsvRows(text.replace(/^\uFEFF/, ''));
+  const columns = (header || []).map(normalizeKey);
+  if (!columns.includes('question')) {
+    throw new Error('The CSV needs a header row with at least a "question" column. Download the template to see the expected columns.');
+  }
+  const optionColumns = columns.flatMap((column, index) => column !== 'options' && /^option[a-z0-9]+$/.test(column) ? [index] : []);
+
+  return rows.flatMap((row, index) => {
+    if (!row.some(cell => cell.trim())) return [];
+    const cell = (name: string) => {
+      const column = columns.indexOf(name);
+      return column === -1 ? undefined : row[column];
+    };
+    const options = optionColumns.length
+      ? optionColumns.map(column => row[column] || '').filter(option => option.trim())
+      : splitList(cell('options'));
+    return [buildQuestion(`Row ${index + 2}`, {
+      type: cell('type'),
+      question: cell('question'),
+      options,
+      answers: splitList(cell('answer') ?? cell('correctanswer')),
+      marks: cell('marks'),
+      explanation: cell('explanation'),
+    })];
+  });
+};
+
+const toStringList = (value: unknown) =>
+  Array.isArray(value) ? value.map(String) : value === undefined || value === null ? [] : splitList(String(value));
+
+const parseJson = (text: string): ImportedQuestion[] => {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    throw new Error('The file is not valid JSON.');
+  }
+  const items = Array.isArray(data) ? data : (data as { questions?: unknown })?.questions;
+  if (!Array.isArray(items)) {
+    throw new Error('Expected a JSON array of questions, or an object with a "questions" array.');
+  }
+
+  return items.map((item: Record<string, unknown>, index) => buildQuestion(`Question ${index + 1}`, {
+    type: item.type as string | undefined,
+    question: (item.question ?? item.text) as string | undefined,
+    options: toStringList(item.options),
+    answers: toStringList(item.answer ?? item.correctAnswers ?? item.correctAnswer),
+    marks: item.marks as string | number | undefined,
+    explanation: item.explanation as string | undefined,
+    numericAnswer: item.numericAnswer as NumericAnswer | undefined,
+    pairs: item.pairs as MatchPair[] | undefined,
+    caseSensitive: item.caseSensitive as boolean | undefined,
+  }));
+};
+
+// Aiken: question text, lettered options ("A." or "A)"), then "ANSWER: B"
+const parseAiken = (text: string): ImportedQuestion[] => {
+  const questions: ImportedQuestion[] = [];
+  let lines: string[] = [];
+  let options: string[] = [];
+
+  const finish = (answer?: string) => {
+    if (!lines.length && !options.length) return;
+    questions.push(buildQuestion(`Question ${questions.length + 1}`, {
+      type: 'mcq',
+      question: lines.join('\n'),
+      options,
+      answers: answer ? [answer] : [],
+    }));
+    lines = [];
+    options = [];
+  };
+
+  for (const line of text.replace(/\r/g, '').split('\n')) {
+    const answer = line.match(/^\s*ANSWER:\s*([A-Za-z])\s*$/i);
+    const option = line.match(/^\s*([A-Za-z])[.)]\s+(.*)$/);
+    if (answer) {
+      finish(answer[1]);
+    } else if (option && (options.length || lines.length)) {
+      options.push(option[2]);
+    } else if (line.trim()) {
+      // Text after the options without an ANSWER line starts a new question
+      if (options.length) finish();
+      lines.push(line.trim());
+    }
+  }
+  finish();
+  return questions;
+};
+
+// Index of the first unescaped `target` at or after `from`
+const findUnescaped = (text: string, target: string, from = 0) => {
+  for (let i = from; i < text.length; i++) {
+    if (text[i] === '\\') {
+      i++;
+    } else if (text.startsWith(target, i)) {
+      return i;
+    }
+  }
+  return -1;
+};
+
+const unescapeGift = (text: string) =>
+  text.replace(/\\n/g, '\n').replace(/\\([:~=#{}\\])/g, '$1').trim();
+
+// Splits a GIFT answer block into "=..." and "~..." tokens
+const splitGiftAnswers = (body: string) => {
+  const tokens: string[] = [];
+  let current = '';
+  for (let i = 0; i < body.length; i++) {
+    const ch = body[i];
+    if (ch === '\\') {
+      current += ch + (body[i + 1] || '');
+      i++;
+    } else if ((ch === '=' || ch === '~') && body[i + 1] !== '>') {
+      if (current.trim()) tokens.push(current.trim());
+      current = ch;
+    } else {
+      current += ch;
+    }
+  }
+  if (current.trim()) tokens.push(current.trim());
+  return tokens.map(token => {
+    const feedback = findUnescaped(token, '#');
+    const answer = (feedback === -1 ? token : token.slice(0, feedback)).slice(1).trim();
+    const weight = answer.match(/^%(-?\d+(?:\.\d+)?)%/);
+    return {
+      correct: weight ? Number(weight[1]) > 0 : token.startsWith('='),
+      text: weight ? answer.slice(weight[0].length) : answer,
+    };
+  });
+};
+
+// GIFT: one question per blank-line separated block, answers in {braces}
+const parseGift = (text: string): ImportedQuestion[] => {
+  const blocks = text
+    .replace(/\r/g, '')
+    .split('\n')
+    .filter(line => !/^\s*\/\//.test(line) && !/^\s*\$CATEGORY:/i.test(line))
+    .join('\n')
+    .split(/\n\s*\n/)
+    .map(block => block.trim())
+    .filter(Boolean);
+
+  return blocks.map((block, index) => {
+    const source = `Question ${index + 1}`;
+    const content = block.replace(/^::(?:[^:\\]|\\.|:(?!:))*::/, '').trim();
+    const open = findUnescaped(content, '{');
+    const close = open === -1 ? -1 : findUnescaped(content, '}', open);
+    if (open === -1 || close === -1) {
+      return { source, question: { question: unescapeGift(content), marks: 1 }, parseError: 'No answer block in {braces}' };
+    }
+
+    const before = unescapeGift(content.slice(0, open).replace(/^\[(?:markdown|html|plain|moodle)\]/i, ''));
+    const after = unescapeGift(content.slice(close + 1));
+    let body = content.slice(open + 1, close).trim();
+    const generalFeedback = findUnescaped(body, '####');
+    const explanation = generalFeedback === -1 ? undefined : unescapeGift(body.slice(generalFeedback + 4));
+    if (generalFeedback !== -1) body = body.slice(0, generalFeedback).trim();
+    // Text on both sides of the braces puts the answer in the middle
+    const questionText = after ? `${before} ___${/^[.,;:!?]/.test(after) ? '' : ' '}${after}` : before;
+
+    if (!body) {
+      return buildQuestion(source, { type: 'subjective', question: questionText, explanation });
+    }
+    const trueFalse = body.match(/^(T|TRUE|F|FALSE)(?:#.*)?$/i);
+    if (trueFalse) {
+      return buildQuestion(source, { type: 'true_false', question: questionText, answers: [trueFalse[1]], explanation });
+    }
+    if (body.startsWith('#')) {
+      const value = unescapeGift(body.slice(1).replace(/^=/, '').split(/[=#~]/)[0]);
+      const range = value.match(/^(-?[\d.]+)\.\.(-?[\d.]+)$/);
+      const numericAnswer = range
+        ? { value: (Number(range[1]) + Number(range[2])) / 2, tolerance: Math.abs(Number(range[2]) - Number(range[1])) / 2 }
+        : parseNumericAnswer(value);
+      return buildQuestion(source, { type: 'numeric', question: questionText, numericAnswer, explanation });
+    }
+
+    const answers = splitGiftAnswers(body).map(answer => ({ ...answer, text: unescapeGift(answer.text) }));
+    if (answers.length && answers.every(answer => answer.text.includes('->'))) {
+      return buildQuestion(source, {
+        type: 'matching',
+        question: questionText,
+        pairs: answers.map(answer => parsePair(answer.text)),
+        explanation,
+      });
+    }
+    if (answers.every(answer => answer.correct)) {
+      return buildQuestion(source, {
+        type: 'fill_blank',
+        question: questionText,
+        answers: answers.map(answer => answer.text),
+        explanation,
+      });
+    }
+    const correct = answers.filter(answer => answer.correct).map(answer => answer.text);
+    return buildQuestion(source, {
+      type: correct.length > 1 ? 'multi_select' : 'mcq',
+      question: questionText,
+      options: answers.map(answer => answer.text),
+      answers: correct,
+      explanation,
+    });
+  });
+};
+
+// QTI files use namespaces inconsistently, so elements are matched by local name
+const byLocalName = (root: Element | Document, name: string) =>
+  Array.from(root.getElementsByTagName('*')).filter(element => element.localName === name);
+
+const textOf = (element?: Element | null) => element?.textContent?.replace(/\s+/g, ' ').trim() || '';
+
+const INTERACTIONS = ['choiceInteraction', 'textEntryInteraction', 'extendedTextInteraction', 'matchInteraction'];
+
+const parseQtiItem = (item: Element, index: number): ImportedQuestion => {
+  const source = item.getAttribute('title') || item.getAttribute('identifier') || `Item ${index + 1}`;
+  const responses = new Map(byLocalName(item, 'responseDeclaration').map(declaration => {
+    const correctResponse = byLocalName(declaration, 'correctResponse')[0];
+    return [declaration.getAttribute('identifier'), {
+      cardinality: declaration.getAttribute('cardinality'),
+      baseType: declaration.getAttribute('baseType'),
+      correct: correctResponse ? byLocalName(correctResponse, 'value').map(textOf) : [],
+      mapped: byLocalName(declaration, 'mapEntry').map(entry => entry.getAttribute('mapKey') || ''),
+    }];
+  }));
+  // Marks come from SCORE's normalMaximum or the default value of MAXSCORE
+  const outcomes = byLocalName(item, 'outcomeDeclaration');
+  const maxScore = outcomes.find(outcome => outcome.getAttribute('identifier') === 'MAXSCORE');
+  const marks = outcomes.find(outcome => outcome.getAttribute('identifier') === 'SCORE')?.getAttribute('normalMaximum')
+    || textOf(maxScore && byLocalName(maxScore, 'value')[0])
+    || undefined;
+
+  const body = byLocalName(item, 'itemBody')[0];
+  if (!body) {
+    return { source, question: { marks: 1 }, parseError: 'The item has no itemBody' };
+  }
+  const found = Array.from(body.getElementsByTagName('*')).find(element => INTERACTIONS.includes(element.localName));
+
+  // Question text is the item body with interactions replaced by their prompt
+  const clone = body.cloneNode(true) as Element;
+  for (const element of Array.from(clone.getElementsByTagName('*'))) {
+    if (element.localName === 'textEntryInteraction') {
+      element.replaceWith(clone.ownerDocument.createTextNode('___'));
+    } else if (INTERACTIONS.includes(element.localName)) {
+      element.replaceWith(clone.ownerDocument.createTextNode(textOf(byLocalName(element, 'prompt')[0])));
+    }
+  }
+  const question = Array.from(clone.childNodes).map(node => textOf(node as Element)).filter(Boolean).join('\n\n');
+
+  if (!found) {
+    return { source, question: { question, marks: parseMarks(marks) }, parseError: 'The item has no supported interaction' };
+  }
+  const response = responses.get(found.getAttribute('responseIdentifier'));
+  const correct = response?.correct || [];
+
+  switch (found.localName) {
+    case 'choiceInteraction': {
+      const choices = byLocalName(found, 'simpleChoice').map(choice => ({
+        id: choice.getAttribute('identifier'),
+        text: textOf(choice),
+      }));
+      const options = choices.map(choice => choice.text);
+      const answers = correct.map(id => choices.find(choice => choice.id === id)?.text || id);
+      const isTrueFalse = options.length === 2 && options.every(option => /^(true|false)$/i.test(option));
+      const isMultiple = response?.cardinality === 'multiple' || (found.getAttribute('maxChoices') || '1') !== '1';
+      return buildQuestion(source, {
+        type: isTrueFalse ? 'true_false' : isMultiple ? 'multi_select' : 'mcq',
+        question,
+        options: isTrueFalse ? [] : options,
+        answers,
+        marks,
+      });
+    }
+    case 'textEntryInteraction':
+      return response?.baseType === 'float' || response?.baseType === 'integer'
+        ? buildQuestion(source, { type: 'numeric', question, answers: correct, marks })
+        : buildQuestion(source, { type: 'fill_blank', question, answers: [...new Set([...correct, ...response?.mapped || []])], marks });
+    case 'matchInteraction': {
+      const [leftSet, rightSet] = byLocalName(found, 'simpleMatchSet')
+        .map(set => new Map(byLocalName(set, 'simpleAssociableChoice').map(choice => [choice.getAttribute('identifier'), textOf(choice)])));
+      const pairs = correct.map(value => {
+        const [left, right] = value.split(/\s+/);
+        return { left: leftSet?.get(left) || left, right: rightSet?.get(right) || right || '' };
+      });
+      return buildQuestion(source, { type: 'matching', question, pairs, marks });
+    }
+    default:
+      return buildQuestion(source, { type: 'subjective', question, marks });
+  }
+};
+
+const parseQti = (text: string): ImportedQuestion[] => {
+  const doc = new DOMParser().parseFromString(text, 'application/xml');
+  if (doc.getElementsByTagName('parsererror').length) {
+    throw new Error('The QTI file is not valid XML.');
+  }
+  const items = byLocalName(doc, 'assessmentItem');
+  if (!items.length) {
+    throw new Error('No QTI 2.1 assessmentItem elements were found. Extract content packages and import the item files.');
+  }
+  return items.map(parseQtiItem);
+};
+
+const PARSERS: Record<ImportFormat, (text: string) => ImportedQuestion[]> = {
+  csv: parseCsv,
+  json: parseJson,
+  aiken: parseAiken,
+  gift: parseGift,
+  qti: parseQti,
+};
+
+// Throws an Error with a readable message when the file can't be read at all
+export const parseQuestionFile = (format: ImportFormat, text: string) => PARSERS[format](text);
+
+// Problems that stop a question from being added, most specific first
+export const getImportIssues = ({ question, parseError }: ImportedQuestion): string[] => {
+  if (parseError) return [parseError];
+
+  const issues: string[] = [];
+  if (!question.question?.trim()) {
+    issues.push('Question text is missing');
+  }
+  if (!Number.isInteger(question.marks) || question.marks! < 1) {
+    issues.push('Marks must be a whole number of at least 1');
+  }
+  if (hasOptions(question.type)) {
+    const answers = question.type === 'mcq' ? [question.correctAnswer].filter(Boolean) : question.correctAnswers || [];
+    if ((question.options?.length || 0) < 2) {
+      issues.push('At least two options are needed');
+    } else if (question.options!.some(option => !option.trim())) {
+      issues.push('Some options are empty');
+    }
+    if (!answers.length) {
+      issues.push('Missing correct answer');
+    } else if (answers.some(answer => !question.options?.includes(answer!))) {
+      issues.push('The correct answer is not one of the options');
+    }
+  } else if (question.type === 'true_false' && !question.correctAnswer) {
+    issues.push('Missing correct answer');
+  } else if (question.type === 'numeric' && Number.isNaN(question.numericAnswer?.value ?? NaN)) {
+    issues.push('Missing correct answer');
+  } else if (question.type === 'fill_blank' && !question.correctAnswers?.length) {
+    issues.push('Missing correct answer');
+  }
+
+  if (!issues.length) {
+    const error = validateQuestion(question);
+    if (error) issues.push(error);
+  }
+  return issues;
+};
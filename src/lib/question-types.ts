@@ -0,0 +1,297 @@
+// Question types supported by papers, with the answer encoding and auto-grading
+// rules for each. Answers are always sent as a single `selectedOption` string:
+// list-style answers (multi-select, matching) are JSON-encoded arrays.
+
+import type { QuestionAttachment } from './attachments';
+import { CodeSettings, createDefaultCodeSettings, parseCodeAnswer } from './code-questions';
+
+export type QuestionType =
+  | 'mcq'
+  | 'multi_select'
+  | 'true_false'
+  | 'numeric'
+  | 'fill_blank'
+  | 'matching'
+  | 'code'
+  | 'subjective';
+
+export interface NumericAnswer {
+  value: number;
+  tolerance: number;
+  unit?: string;
+}
+
+export interface MatchPair {
+  left: string;
+  right: string;
+}
+
+export interface QuestionDefinition {
+  type: QuestionType;
+  question: string;
+  marks: number;
+  // mcq, multi_select
+  options?: string[];
+  // mcq and true_false: the correct option text
+  correctAnswer?: string;
+  // multi_select: every correct option; fill_blank: accepted variants
+  correctAnswers?: string[];
+  numericAnswer?: NumericAnswer;
+  pairs?: MatchPair[];
+  caseSensitive?: boolean;
+  codeSettings?: CodeSettings;
+  attachments?: QuestionAttachment[];
+  // mcq, multi_select: one optional image per option, aligned with `options`
+  optionAttachments?: (QuestionAttachment | null)[];
+  // Shown with the correct answer in practice mode
+  explanation?: string;
+}
+
+export const QUESTION_TYPE_LABELS: Record<QuestionType, string> = {
+  mcq: 'Multiple Choice',
+  multi_select: 'Multiple Select',
+  true_false: 'True / False',
+  numeric: 'Numeric',
+  fill_blank: 'Fill in the Blank',
+  matching: 'Match the Following',
+  code: 'Programming',
+  subjective: 'Subjective',
+};
+
+export const TRUE_FALSE_OPTIONS = ['True', 'False'];
+
+// Types whose options are shown to the student as a choice list
+export const hasOptions = (type?: string) => type === 'mcq' || type === 'multi_select';
+
+export const isAutoGraded = (type?: string) => !!type && type !== 'subjective';
+
+// Code is graded by running the test cases, which can't happen synchronously
+export const needsTestRun = (type?: string) => type === 'code';
+
+export const parseListAnswer = (value?: string): string[] => {
+  if (!value) return [];
+  try {
+    const parsed = JSON.parse(value);
+    return Array.isArray(parsed) ? parsed.map(String) : [];
+  } catch {
+    return [];
+  }
+};
+
+// Empty lists are stored as '' so an untouched widget counts as unanswered
+export const serializeListAnswer = (values: string[]) =>
+  values.some(value => value !== '') ? JSON.stringify(values) : '';
+
+// Sorted so the right-hand column never gives away the pairing order
+export const getMatchingChoices = (pairs: MatchPair[] = []) =>
+  pairs.map(pair => pair.right).sort((a, b) => a.localeCompare(b));
+
+const normalizeText = (value: string, caseSensitive?: boolean) => {
+  const collapsed = value.trim().replace(/\s+/g, ' ');
+  return caseSensitive ? collapsed : collapsed.toLowerCase();
+};
+
+const parseNumber = (value: string) => {
+  const match = value.trim().replace(/,/g, '').match(/^[-+]?(\d+\.?\d*|\.\d+)(e[-+]?\d+)?/i);
+  return match ? Number(match[0]) : NaN;
+};
+
+const roundMarks = (value: number) => Math.round(value * 100) / 100;
+
+// Marks for an answer, or null when the question needs manual grading or a
+// test run. Multi-select is all-or-nothing; matching earns credit per correct pair.
+export const gradeAnswer = (question: QuestionDefinition, selectedOption?: string): number | null => {
+  const answer = selectedOption || '';
+  const marks = Number(question.marks) || 0;
+
+  switch (question.type) {
+    case 'mcq':
+    case 'true_false':
+      return answer !== '' && answer === question.correctAnswer ? marks : 0;
+    case 'multi_select': {
+      const selected = new Set(parseListAnswer(answer));
+      const correct = new Set(question.correctAnswers || []);
+      const isExact = correct.size > 0 &&
+        selected.size === correct.size &&
+        [...correct].every(option => selected.has(option));
+      return isExact ? marks : 0;
+    }
+    case 'numeric': {
+      if (!question.numericAnswer) return null;
+      const value = parseNumber(answer);
+      if (Number.isNaN(value)) return 0;
+      const { value: expected, tolerance } = question.numericAnswer;
+      return Math.abs(value - expected) <= Math.abs(tolerance || 0) ? marks : 0;
+    }
+    case 'fill_blank': {
+      if (!answer.trim()) return 0;
+      const given = normalizeText(answer, question.caseSensitive);
+      const accepted = (question.correctAnswers || []).map(variant => normalizeText(variant, question.caseSensitive));
+      return accepted.includes(given) ? marks : 0;
+    }
+    case 'matching': {
+      const pairs = question.pairs || [];
+      if (pairs.length === 0) return null;
+      const chosen = parseListAnswer(answer);
+      const correctCount = pairs.filter((pair, index) => chosen[index] === pair.right).length;
+      return roundMarks((correctCount / pairs.length) * marks);
+    }
+    default:
+      return null;
+  }
+};
+
+// Human-readable form of a stored answer
+export const formatAnswer = (question: Pick<QuestionDefinition, 'type' | 'pairs' | 'numericAnswer'>, selectedOption?: string) => {
+  const answer = selectedOption || '';
+  switch (question.type) {
+    case 'code':
+      return parseCodeAnswer(answer)?.code || '';
+    case 'multi_select':
+      return parseListAnswer(answer).join(', ');
+    case 'matching': {
+      const chosen = parseListAnswer(answer);
+      return (question.pairs || [])
+        .map((pair, index) => `${pair.left} → ${chosen[index] || '—'}`)
+        .join('\n');
+    }
+    case 'numeric':
+      return answer && question.numericAnswer?.unit && !answer.includes(question.numericAnswer.unit)
+        ? `${answer} ${question.numericAnswer.unit}`
+        : answer;
+    default:
+      return answer;
+  }
+};
+
+export const formatCorrectAnswer = (question: QuestionDefinition) => {
+  switch (question.type) {
+    case 'mcq':
+    case 'true_false':
+      return question.correctAnswer || '';
+    case 'multi_select':
+      return (question.correctAnswers || []).join(', ');
+    case 'fill_blank':
+      return (question.correctAnswers || []).join(' / ');
+    case 'numeric': {
+      if (!question.numericAnswer) return '';
+      const { value, tolerance, unit } = question.numericAnswer;
+      return `${value}${tolerance ? ` ± ${tolerance}` : ''}${unit ? ` ${unit}` : ''}`;
+    }
+    case 'matching':
+      return (question.pairs || []).map(pair => `${pair.left} → ${pair.right}`).join('\n');
+    default:
+      return '';
+  }
+};
+
+// Authoring checks; returns an error message or null when the question is complete
+export const validateQuestion = (question: Partial<QuestionDefinition>): string | null => {
+  if (!question.question?.trim() || !question.marks) {
+    return 'Please fill in all required fields';
+  }
+
+  const attachments = [...(question.attachments || []), ...(question.optionAttachments || [])];
+  if (attachments.some(attachment => attachment && !attachment.alt.trim())) {
+    return 'Please add alt text for every attachment';
+  }
+
+  switch (question.type) {
+    case 'mcq':
+      if (question.options?.some(option => !option.trim()) || !question.correctAnswer) {
+        return 'Please fill all options and select the correct answer';
+      }
+      break;
+    case 'multi_select':
+      if (question.options?.some(option => !option.trim()) || !question.correctAnswers?.length) {
+        return 'Please fill all options and select at least one correct answer';
+      }
+      break;
+    case 'true_false':
+      if (!question.correctAnswer) {
+        return 'Please select whether the statement is true or false';
+      }
+      break;
+    case 'numeric':
+      if (!question.numericAnswer || Number.isNaN(question.numericAnswer.value)) {
+        return 'Please enter the correct numeric answer';
+      }
+      break;
+    case 'fill_blank':
+      if (!question.correctAnswers?.some(variant => variant.trim())) {
+        return 'Please enter at least one accepted answer';
+      }
+      break;
+    case 'code':
+      if (!question.codeSettings?.languages.length) {
+        return 'Please allow at least one language';
+      }
+      if (!question.codeSettings.testCases.length || question.codeSettings.testCases.some(test => !test.expectedOutput.trim())) {
+        return 'Please add test cases with an expected output';
+      }
+      break;
+    case 'matching':
+      if (!question.pairs || question.pairs.length < 2 || question.pairs.some(pair => !pair.left.trim() || !pair.right.trim())) {
+        return 'Please fill in at least two complete pairs';
+      }
+      if (new Set(question.pairs.map(pair => pair.right.trim())).size !== question.pairs.length) {
+        return 'Each item on the right must be unique';
+      }
+      break;
+  }
+  return null;
+};
+
+// Blank authoring state for a freshly selected type
+export const createEmptyQuestion = (type: QuestionType): Partial<QuestionDefinition> => {
+  const base = { type, question: '', marks: 1, attachments: [] };
+  switch (type) {
+    case 'mcq':
+    case 'multi_select':
+      return { ...base, options: ['', '', '', ''], correctAnswers: [], optionAttachments: [null, null, null, null] };
+    case 'numeric':
+      return { ...base, numericAnswer: { value: NaN, tolerance: 0, unit: '' } };
+    case 'fill_blank':
+      return { ...base, correctAnswers: [''], caseSensitive: false };
+    case 'matching':
+      return { ...base, pairs: [{ left: '', right: '' }, { left: '', right: '' }, { left: '', right: '' }] };
+    case 'code':
+      return { ...base, codeSettings: createDefaultCodeSettings() };
+    default:
+      return base;
+  }
+};
+
+// Only the fields that apply to the type are sent to the server
+export const toQuestionPayload = (question: QuestionDefinition): QuestionDefinition => {
+  const payload: QuestionDefinition = {
+    type: question.type,
+    question: question.question,
+    marks: question.marks,
+    attachments: question.attachments?.length ? question.attachments : undefined,
+    explanation: question.explanation?.trim() || undefined,
+  };
+  const optionAttachments = question.optionAttachments?.some(Boolean) ? question.optionAttachments : undefined;
+  switch (question.type) {
+    case 'mcq':
+      return { ...payload, options: question.options, correctAnswer: question.correctAnswer, optionAttachments };
+    case 'true_false':
+      return { ...payload, options: TRUE_FALSE_OPTIONS, correctAnswer: question.correctAnswer };
+    case 'multi_select':
+      return { ...payload, options: question.options, correctAnswers: question.correctAnswers, optionAttachments };
+    case 'numeric':
+      return { ...payload, numericAnswer: { ...question.numericAnswer!, unit: question.numericAnswer?.unit?.trim() || undefined } };
+    case 'fill_blank':
+      return {
+        ...payload,
+        correctAnswers: question.correctAnswers?.map(variant => variant.trim()).filter(Boolean),
+        caseSensitive: !!question.caseSensitive,
+      };
+    case 'code':
+      return { ...payload, codeSettings: question.codeSettings };
+    case 'matching':
+      return { ...payload, pairs: question.pairs?.map(pair => ({ left: pair.left.trim(), right: pair.right.trim() })) };
+    default:
+      return payload;
+  }
+};
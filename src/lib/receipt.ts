@@ -0,0 +1,63 @@
+import { format } from 'date-fns';
+import { createPdf, PdfLine } from './pdf';
+
+// Proof of submission issued by the server when an exam is submitted. The
+// content hash covers the submitted answers, so faculty can confirm later
+// that what they grade is what the student sent.
+export interface SubmissionReceipt {
+  submissionId: string;
+  confirmationCode: string;
+  contentHash: string;
+  examPaper: {
+    _id: string;
+    title: string;
+    subject?: { name: string };
+  };
+  student: {
+    name: string;
+    studentId?: string;
+  };
+  startTime: string;
+  submittedAt: string;
+  answeredCount: number;
+  questionCount: number;
+  // Submitted by the timer or proctoring rather than by the student
+  autoSubmitted?: boolean;
+}
+
+// Codes are shown in groups of four, e.g. 7KQ2-M9XD-4RTP, and looked up
+// without the dashes, in any case
+export const normalizeConfirmationCode = (code: string) => code.replace(/[^a-z0-9]/gi, '').toUpperCase();
+
+export const formatConfirmationCode = (code: string) =>
+  normalizeConfirmationCode(code).match(/.{1,4}/g)?.join('-') ?? '';
+
+const formatTimestamp = (value: string) => format(new Date(value), "d MMM yyyy, HH:mm:ss 'UTC'xxx");
+
+export const getReceiptRows = (receipt: SubmissionReceipt): [string, string][] => [
+  ['Exam', receipt.examPaper.title],
+  ['Subject', receipt.examPaper.subject?.name || '-'],
+  ['Student', `${receipt.student.name}${receipt.student.studentId ? ` (${receipt.student.studentId})` : ''}`],
+  ['Started', formatTimestamp(receipt.startTime)],
+  ['Submitted', `${formatTimestamp(receipt.submittedAt)}${receipt.autoSubmitted ? ' (automatically)' : ''}`],
+  ['Questions answered', `${receipt.answeredCount} of ${receipt.questionCount}`],
+];
+
+export const createReceiptPdf = (receipt: SubmissionReceipt) => {
+  const lines: PdfLine[] = [
+    { text: 'Exam Submission Receipt', size: 20, bold: true },
+    { text: `Confirmation code: ${formatConfirmationCode(receipt.confirmationCode)}`, size: 14, bold: true, spaceBefore: 12 },
+    ...getReceiptRows(receipt).map(([label, value], index) => ({
+      text: `${label}: ${value}`,
+      spaceBefore: index === 0 ? 12 : 0,
+    })),
+    { text: 'Content hash (SHA-256)', bold: true, spaceBefore: 12 },
+    { text: receipt.contentHash, size: 9 },
+    {
+      text: 'Keep this receipt. Faculty and administrators can look up this submission with the confirmation code.',
+      size: 9,
+      spaceBefore: 18,
+    },
+  ];
+  return createPdf(lines, `Receipt ${formatConfirmationCode(receipt.confirmationCode)}`);
+};
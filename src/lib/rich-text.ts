@@ -0,0 +1,182 @@
+// Text rendering of RichText content (Markdown with $inline$ and $$display$$
+// LaTeX) for documents that can't show HTML, such as DOCX exports. Formulas
+// become linear Unicode (x², √(a+b), (a+b)/c, α ≤ β), which needs no
+// equation editor to display.
+
+export interface TextRun {
+  text: string;
+  bold?: boolean;
+  italic?: boolean;
+  code?: boolean;
+  // Start a new line before this run
+  break?: boolean;
+}
+
+const SYMBOLS: Record<string, string> = {
+  alpha: 'α', beta: 'β', gamma: 'γ', delta: 'δ', epsilon: 'ε', varepsilon: 'ε', zeta: 'ζ', eta: 'η',
+  theta: 'θ', vartheta: 'ϑ', iota: 'ι', kappa: 'κ', lambda: 'λ', mu: 'μ', nu: 'ν', xi: 'ξ', pi: 'π',
+  varpi: 'ϖ', rho: 'ρ', sigma: 'σ', varsigma: 'ς', tau: 'τ', upsilon: 'υ', phi: 'φ', varphi: 'φ',
+  chi: 'χ', psi: 'ψ', omega: 'ω',
+  Gamma: 'Γ', Delta: 'Δ', Theta: 'Θ', Lambda: 'Λ', Xi: 'Ξ', Pi: 'Π', Sigma: 'Σ', Upsilon: 'Υ',
+  Phi: 'Φ', Psi: 'Ψ', Omega: 'Ω',
+  times: '×', div: '÷', pm: '±', mp: '∓', cdot: '·', ast: '∗', star: '⋆', circ: '∘', bullet: '•',
+  leq: '≤', le: '≤', geq: '≥', ge: '≥', neq: '≠', ne: '≠', approx: '≈', equiv: '≡', sim: '∼',
+  simeq: '≃', cong: '≅', propto: '∝', ll: '≪', gg: '≫',
+  infty: '∞', partial: '∂', nabla: '∇', sum: '∑', prod: '∏', int: '∫', iint: '∬', oint: '∮',
+  in: '∈', notin: '∉', ni: '∋', subset: '⊂', subseteq: '⊆', supset: '⊃', supseteq: '⊇',
+  cup: '∪', cap: '∩', setminus: '∖', emptyset: '∅', varnothing: '∅',
+  forall: '∀', exists: '∃', neg: '¬', lnot: '¬', land: '∧', wedge: '∧', lor: '∨', vee: '∨', oplus: '⊕',
+  to: '→', rightarrow: '→', leftarrow: '←', gets: '←', leftrightarrow: '↔', Rightarrow: '⇒',
+  Leftarrow: '⇐', Leftrightarrow: '⇔', implies: '⇒', iff: '⇔', mapsto: '↦', uparrow: '↑', downarrow: '↓',
+  angle: '∠', triangle: '△', perp: '⊥', parallel: '∥', mid: '∣', therefore: '∴', because: '∵',
+  degree: '°', prime: '′', ldots: '…', cdots: '⋯', dots: '…', vdots: '⋮',
+  hbar: 'ℏ', ell: 'ℓ', Re: 'ℜ', Im: 'ℑ', aleph: 'ℵ',
+  langle: '⟨', rangle: '⟩', lceil: '⌈', rceil: '⌉', lfloor: '⌊', rfloor: '⌋', lbrace: '{', rbrace: '}',
+  quad: '  ', qquad: '    ', ',': ' ', ':': ' ', ';': ' ', ' ': ' ', '!': '', '\\': ' ',
+  '{': '{', '}': '}', '%': '%', '$': '$', '&': '&', '#': '#', '_': '_',
+};
+
+// Printed as their own names, e.g. \sin x -> sin x
+const FUNCTIONS = ['sin', 'cos', 'tan', 'cot', 'sec', 'csc', 'arcsin', 'arccos', 'arctan', 'sinh', 'cosh', 'tanh',
+  'log', 'ln', 'lg', 'exp', 'lim', 'max', 'min', 'sup', 'inf', 'det', 'gcd', 'mod', 'deg', 'dim', 'ker', 'arg'];
+
+// Sizing and layout commands with no printed form
+const IGNORED = ['left', 'right', 'big', 'Big', 'bigg', 'Bigg', 'displaystyle', 'textstyle', 'limits', 'nolimits'];
+
+// Commands whose single argument is printed as is
+const TEXT_COMMANDS = ['text', 'textrm', 'textbf', 'textit', 'mathrm', 'mathbf', 'mathit', 'mathsf', 'mathtt',
+  'mathbb', 'mathcal', 'operatorname', 'mbox', 'boldsymbol', 'overline', 'underline', 'vec', 'hat', 'bar'];
+
+const SUPERSCRIPTS: Record<string, string> = {
+  '0': '⁰', '1': '¹', '2': '²', '3': '³', '4': '⁴', '5': '⁵', '6': '⁶', '7': '⁷', '8': '⁸', '9': '⁹',
+  '+': '⁺', '-': '⁻', '=': '⁼', '(': '⁽', ')': '⁾', n: 'ⁿ', i: 'ⁱ', '′': '′', '∘': '°',
+};
+
+const SUBSCRIPTS: Record<string, string> = {
+  '0': '₀', '1': '₁', '2': '₂', '3': '₃', '4': '₄', '5': '₅', '6': '₆', '7': '₇', '8': '₈', '9': '₉',
+  '+': '₊', '-': '₋', '=': '₌', '(': '₍', ')': '₎',
+  a: 'ₐ', e: 'ₑ', h: 'ₕ', i: 'ᵢ', j: 'ⱼ', k: 'ₖ', l: 'ₗ', m: 'ₘ', n: 'ₙ', o: 'ₒ', p: 'ₚ', r: 'ᵣ',
+  s: 'ₛ', t: 'ₜ', u: 'ᵤ', v: 'ᵥ', x: 'ₓ',
+};
+
+// The next argument: a {group}, a \command or a single character
+const readArgument = (tex: string, start: number): [string, number] => {
+  let index = start;
+  while (tex[index] === ' ') index++;
+  if (tex[index] === '{') {
+    let depth = 0;
+    for (let end = index; end < tex.length; end++) {
+      if (tex[end] === '\\') {
+        end++;
+      } else if (tex[end] === '{') {
+        depth++;
+      } else if (tex[end] === '}' && --depth === 0) {
+        return [tex.slice(index + 1, end), end + 1];
+      }
+    }
+    return [tex.slice(index + 1), tex.length];
+  }
+  const command = /^\\([a-zA-Z]+|.)/.exec(tex.slice(index));
+  if (command) {
+    return [command[0], index + command[0].length];
+  }
+  return [tex[index] || '', index + 1];
+};
+
+// Compound terms are bracketed so a/b and x^n stay unambiguous
+const group = (text: string) => /^[\p{L}\p{N}.′]*$/u.test(text) || text.length === 1 ? text : `(${text})`;
+
+const toScript = (text: string, scripts: Record<string, string>, marker: string) =>
+  text && [...text].every(char => scripts[char])
+    ? [...text].map(char => scripts[char]).join('')
+    : `${marker}${group(text)}`;
+
+export const latexToText = (tex: string): string => {
+  let output = '';
+  let index = 0;
+  while (index < tex.length) {
+    const char = tex[index];
+    if (char === '\\') {
+      const [command, next] = readArgument(tex, index);
+      const name = command.slice(1);
+      index = next;
+      if (name === 'frac' || name === 'dfrac' || name === 'tfrac') {
+        const [numerator, afterNumerator] = readArgument(tex, index);
+        const [denominator, afterDenominator] = readArgument(tex, afterNumerator);
+        output += `${group(latexToText(numerator))}/${group(latexToText(denominator))}`;
+        index = afterDenominator;
+      } else if (name === 'sqrt') {
+        let degree = '';
+        if (tex[index] === '[') {
+          const end = tex.indexOf(']', index);
+          degree = latexToText(tex.slice(index + 1, end));
+          index = end + 1;
+        }
+        const [radicand, end] = readArgument(tex, index);
+        output += `${degree ? toScript(degree, SUPERSCRIPTS, '') : ''}√${group(latexToText(radicand))}`;
+        index = end;
+      } else if (TEXT_COMMANDS.includes(name)) {
+        const [argument, end] = readArgument(tex, index);
+        output += name.startsWith('text') || name === 'mbox' ? argument : latexToText(argument);
+        index = end;
+      } else if (name in SYMBOLS) {
+        output += SYMBOLS[name];
+      } else if (FUNCTIONS.includes(name)) {
+        output += /^[\\a-zA-Z]/.test(tex[index] || '') ? `${name} ` : name;
+      } else if (!IGNORED.includes(name)) {
+        output += name;
+      }
+    } else if (char === '^' || char === '_') {
+      const [argument, end] = readArgument(tex, index + 1);
+      output += toScript(latexToText(argument), char === '^' ? SUPERSCRIPTS : SUBSCRIPTS, char);
+      index = end;
+    } else if (char === '{' || char === '}') {
+      index++;
+    } else {
+      output += char === '~' ? ' ' : char;
+      index++;
+    }
+  }
+  return output.replace(/\s+/g, ' ').trim();
+};
+
+const INLINE_PATTERN = /(`[^`]+`|\*\*[^*]+\*\*|__[^_]+__|\*[^*\s][^*]*\*|_[^_\s][^_]*_|!?\[[^\]]*\]\([^)]*\))/g;
+
+const parseInline = (text: string, start: Partial<TextRun>): TextRun[] =>
+  text.split(INLINE_PATTERN).filter(Boolean).map((part, index): TextRun => {
+    const run = index === 0 ? start : {};
+    if (part.startsWith('`')) return { ...run, text: part.slice(1, -1), code: true };
+    if (/^(\*\*|__)/.test(part)) return { ...run, text: part.slice(2, -2), bold: true };
+    if (/^[*_][^*_]/.test(part) && part.length > 2) return { ...run, text: part.slice(1, -1), italic: true };
+    const link = /^(!?)\[([^\]]*)\]\(([^)]*)\)$/.exec(part);
+    if (link) return { ...run, text: link[1] ? `[Figure: ${link[2] || link[3]}]` : `${link[2]} (${link[3]})` };
+    return { ...run, text: part };
+  });
+
+// Markdown as formatted runs, one line per source line. Formulas are
+// converted first so their contents are never read as emphasis.
+export const markdownToRuns = (markdown: string): TextRun[] => {
+  const text = markdown
+    .replace(/\$\$([\s\S]+?)\$\$/g, (_, tex: string) => latexToText(tex))
+    .replace(/\$([^$\n]+?)\$/g, (_, tex: string) => latexToText(tex));
+
+  let inCodeBlock = false;
+  return text.split('\n').flatMap((line, index): TextRun[] => {
+    const start = { break: index > 0 };
+    if (/^\s*```/.test(line)) {
+      inCodeBlock = !inCodeBlock;
+      return [];
+    }
+    if (inCodeBlock) {
+      return [{ ...start, text: line, code: true }];
+    }
+    const heading = /^#{1,6}\s+(.*)$/.exec(line);
+    if (heading) {
+      return parseInline(heading[1], start).map(run => ({ ...run, bold: true }));
+    }
+    const content = line
+      .replace(/^\s*>\s?/, '')
+      .replace(/^(\s*)[-*+]\s+/, '$1• ');
+    return content ? parseInline(content, start) : [{ ...start, text: '' }];
+  });
+};
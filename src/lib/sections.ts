@@ -0,0 +1,95 @@
+// Sectioned papers. Questions stay in one flat array (answers, drafts and
+// grading all use the flat index); each section owns the next
+// `questionCount` questions in order.
+
+export interface ExamSection {
+  title: string;
+  instructions?: string;
+  // Minutes, counted from when the student enters the section
+  timeLimit?: number;
+  // Only the best N answers in the section count towards the score
+  attemptAny?: number;
+  questionCount: number;
+}
+
+export interface SectionRange {
+  index: number;
+  section: ExamSection;
+  start: number;
+  // Exclusive
+  end: number;
+}
+
+// A paper without sections behaves as one untimed section
+export const getSectionRanges = (sections: ExamSection[] | undefined, questionCount: number): SectionRange[] => {
+  if (!sections?.length) {
+    return [{ index: 0, section: { title: '', questionCount }, start: 0, end: questionCount }];
+  }
+
+  let start = 0;
+  return sections.map((section, index) => {
+    const range = { index, section, start, end: Math.min(start + section.questionCount, questionCount) };
+    start += section.questionCount;
+    return range;
+  });
+};
+
+export const findSectionIndex = (ranges: SectionRange[], questionIndex: number) => {
+  const found = ranges.findIndex(range => questionIndex >= range.start && questionIndex < range.end);
+  return found === -1 ? ranges.length - 1 : found;
+};
+
+// Total of the counted marks. In "attempt any N" sections only the N best
+// scores count; `counted` holds the flat indices that contributed.
+export const computeSectionedScore = (ranges: SectionRange[], marksByIndex: number[]) => {
+  const counted = new Set<number>();
+
+  ranges.forEach(({ section, start, end }) => {
+    const indices = Array.from({ length: end - start }, (_, offset) => start + offset);
+    const limit = section.attemptAny && section.attemptAny < indices.length ? section.attemptAny : indices.length;
+    indices
+      .sort((a, b) => (marksByIndex[b] || 0) - (marksByIndex[a] || 0) || a - b)
+      .slice(0, limit)
+      .forEach(index => counted.add(index));
+  });
+
+  const total = [...counted].reduce((sum, index) => sum + (Number(marksByIndex[index]) || 0), 0);
+  return { total: Math.round(total * 100) / 100, counted };
+};
+
+// Maximum marks a student can earn, given attempt-any limits
+export const getMaxSectionedMarks = (ranges: SectionRange[], questionMarks: number[]) =>
+  computeSectionedScore(ranges, questionMarks).total;
+
+export const getTotalSectionTime = (sections: ExamSection[] = []) =>
+  sections.every(section => section.timeLimit)
+    ? sections.reduce((sum, section) => sum + (section.timeLimit || 0), 0)
+    : null;
+
+// Returns an error message, or null when the sections are consistent
+export const validateSections = (sections: ExamSection[], duration: number, questionCount: number) => {
+  // Questions past the last section would be unreachable and never scored
+  const sectionedCount = sections.reduce((sum, section) => sum + section.questionCount, 0);
+  if (sectionedCount !== questionCount) {
+    return `Sections cover ${sectionedCount} of the paper's ${questionCount} questions`;
+  }
+
+  for (const [index, section] of sections.entries()) {
+    const name = section.title || `Section ${index + 1}`;
+    if (!section.title.trim()) {
+      return `Section ${index + 1} needs a title`;
+    }
+    if (section.questionCount === 0) {
+      return `${name} has no questions`;
+    }
+    if (section.attemptAny && section.attemptAny > section.questionCount) {
+      return `${name} asks for ${section.attemptAny} answers but only has ${section.questionCount} questions`;
+    }
+  }
+
+  const sectionTime = sections.reduce((sum, section) => sum + (section.timeLimit || 0), 0);
+  if (duration && sectionTime > duration) {
+    return `Section time limits add up to ${sectionTime} minutes, more than the ${duration} minute exam`;
+  }
+  return null;
+};
@@ -0,0 +1,82 @@
+import { hasOptions } from './question-types';
+import { ExamSection, getSectionRanges } from './sections';
+
+// Deterministic per-student shuffling. The same student always sees the same
+// order for a paper (across reloads and devices), while answers keep using
+// the canonical question index and option text.
+
+// cyrb53 string hash, used to turn "<student>:<paper>" into a numeric seed
+const hashString = (value: string) => {
+  let h1 = 0xdeadbeef;
+  let h2 = 0x41c6ce57;
+  for (let i = 0; i < value.length; i++) {
+    const ch = value.charCodeAt(i);
+    h1 = Math.imul(h1 ^ ch, 2654435761);
+    h2 = Math.imul(h2 ^ ch, 1597334677);
+  }
+  h1 = Math.imul(h1 ^ (h1 >>> 16), 2246822507) ^ Math.imul(h2 ^ (h2 >>> 13), 3266489909);
+  h2 = Math.imul(h2 ^ (h2 >>> 16), 2246822507) ^ Math.imul(h1 ^ (h1 >>> 13), 3266489909);
+  return 4294967296 * (2097151 & h2) + (h1 >>> 0);
+};
+
+// mulberry32 PRNG returning floats in [0, 1)
+const createRandom = (seed: number) => {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+};
+
+// Fisher-Yates over [0, length), returning the shuffled indices
+export const seededOrder = (length: number, seedKey: string) => {
+  const random = createRandom(hashString(seedKey));
+  const order = Array.from({ length }, (_, index) => index);
+  for (let i = order.length - 1; i > 0; i--) {
+    const j = Math.floor(random() * (i + 1));
+    [order[i], order[j]] = [order[j], order[i]];
+  }
+  return order;
+};
+
+export interface ShuffleSettings {
+  shuffleQuestions?: boolean;
+  shuffleOptions?: boolean;
+}
+
+export interface ExamLayout {
+  // questionOrder[position] is the canonical question index shown at that position
+  questionOrder: number[];
+  // optionOrders[canonicalIndex][position] is the canonical option index
+  optionOrders: number[][];
+}
+
+export const buildExamLayout = (
+  paper: ShuffleSettings & { _id: string; questions: { type?: string; options?: string[] }[]; sections?: ExamSection[] },
+  studentId: string
+): ExamLayout => {
+  const seed = `${studentId}:${paper._id}`;
+  const count = paper.questions.length;
+
+  // Sectioned papers only shuffle within each section, so sections keep
+  // their order and display positions stay inside the section's range
+  const questionOrder = !paper.shuffleQuestions
+    ? Array.from({ length: count }, (_, index) => index)
+    : paper.sections?.length
+      ? getSectionRanges(paper.sections, count).flatMap(({ index, start, end }) =>
+        seededOrder(end - start, `${seed}:questions:${index}`).map(offset => start + offset))
+      : seededOrder(count, `${seed}:questions`);
+
+  const optionOrders = paper.questions.map((question, index) => {
+    const optionCount = question.options?.length || 0;
+    // True/false keeps its natural order
+    return paper.shuffleOptions && hasOptions(question.type)
+      ? seededOrder(optionCount, `${seed}:options:${index}`)
+      : Array.from({ length: optionCount }, (_, optionIndex) => optionIndex);
+  });
+
+  return { questionOrder, optionOrders };
+};
@@ -9,6 +9,7 @@ import { getSubmissions, publishResult } from '@/lib/api';
 import { useNavigate } from 'react-router-dom';
 import { format, formatDistanceToNow } from 'date-fns';
 import { toast } from '@/hooks/use-toast';
+import AccommodationBadge from '@/components/exam/AccommodationBadge';
 import {
   Table,
   TableBody,
@@ -138,7 +139,10 @@ const AdminResults = () => {
                     <TableRow key={submission._id}>
                       <TableCell>
                         <div>
-                          <div className="font-medium">{submission.student?.name}</div>
+                          <div className="flex flex-wrap items-center gap-2 font-medium">
+                            {submission.student?.name}
+                            <AccommodationBadge accommodations={submission.accommodations} />
+                          </div>
                           <div className="text-sm text-gray-500">{submission.student?.studentId}</div>
                         </div>
                       </TableCell>
@@ -1,5 +1,5 @@
 import React, { useEffect, useState } from 'react';
-import { useLocation, useNavigate } from 'react-router-dom';
+import { useLocation, useNavigate, useParams } from 'react-router-dom';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
@@ -7,25 +7,80 @@ import { Label } from '@/components/ui/label';
 import { Textarea } from '@/components/ui/textarea';
 import { useToast } from '@/components/ui/use-toast';
 import { useQuery } from '@tanstack/react-query';
-import { getSubjects, createExamPaper } from '@/lib/api';
+import { getSubjects, createExamPaper, getExamSchedule, getPaper, updatePaper } from '@/lib/api';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { Badge } from '@/components/ui/badge';
-import { Plus, Trash2, Save, Eye, FileText, Clock, ArrowLeft } from 'lucide-react';
+import { Switch } from '@/components/ui/switch';
+import { Plus, Trash2, Save, Eye, FileText, Clock, ArrowLeft, Layers, Library, Wand2, Upload, Send, XCircle } from 'lucide-react';
+import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert';
+import { DEFAULT_PROCTORING_SETTINGS, getProctoringSettings, ProctoringSettings } from '@/lib/proctoring';
+import { DEFAULT_TIMING_SETTINGS, getTimingSettings, MAX_GRACE_PERIOD, parseWarningMinutes, TimingSettings } from '@/lib/exam-timing';
+import { PaperMode, PracticeSettings } from '@/lib/practice';
+import { ShuffleSettings } from '@/lib/shuffle';
+import { toPaperQuestion } from '@/lib/question-bank';
+import { BlueprintResult, getSetLabel, PaperSetVariant } from '@/lib/blueprint';
+import { fromDateTimeInputValue, toDateTimeInputValue, validateExamWindow } from '@/lib/exam-window';
+import { findScheduleClashes, ScheduledPaper } from '@/lib/exam-schedule';
+import { ExamAudience, getAudienceFromSubject } from '@/lib/exam-audience';
+import { ExamSection, findSectionIndex, getMaxSectionedMarks, getSectionRanges, getTotalSectionTime, validateSections } from '@/lib/sections';
+import { canEditPaper, PaperSnapshot, PaperStatus } from '@/lib/paper-versions';
+import {
+  createEmptyQuestion,
+  formatCorrectAnswer,
+  hasOptions,
+  QUESTION_TYPE_LABELS,
+  QuestionDefinition,
+  QuestionType,
+  toQuestionPayload,
+  validateQuestion,
+} from '@/lib/question-types';
+import QuestionTypeFields from '@/components/exam/QuestionTypeFields';
+import RichText from '@/components/exam/RichText';
+import AttachmentUploader from '@/components/exam/AttachmentUploader';
+import AttachmentGallery from '@/components/exam/AttachmentGallery';
+import AudienceFields from '@/components/exam/AudienceFields';
+import ScheduleClashList from '@/components/exam/ScheduleClashList';
+import FreeSlotPicker from '@/components/exam/FreeSlotPicker';
+import PickFromBankDialog from '@/components/exam/PickFromBankDialog';
+import BlueprintDialog from '@/components/exam/BlueprintDialog';
+import ImportQuestionsDialog from '@/components/exam/ImportQuestionsDialog';
 
-interface Question {
+interface Question extends QuestionDefinition {
   id: number;
-  type: 'mcq' | 'subjective';
-  question: string;
-  options?: string[];
-  correctAnswer?: string;
-  marks: number;
+  sectionId?: number;
+  bankQuestionId?: string;
+}
+
+interface PaperSection extends Omit<ExamSection, 'questionCount'> {
+  id: number;
+}
+
+interface EditablePaper extends PaperSnapshot {
+  _id: string;
+  subject: { _id: string };
+  status: PaperStatus;
+  version?: number;
+  rejectionReason?: string;
+  questions: (QuestionDefinition & { bankQuestionId?: string })[];
+  proctoring?: Partial<ProctoringSettings>;
+  timing?: Partial<TimingSettings>;
+  practiceAttemptLimit?: number;
 }
 
 const CreatePaper = () => {
   const location = useLocation();
   const navigate = useNavigate();
   const { toast } = useToast();
-  const subjectId = location.state?.subjectId;
+  const { id: paperId } = useParams();
+  const isEditing = !!paperId;
+
+  const { data: existingPaper } = useQuery<EditablePaper>({
+    queryKey: ['paper', paperId],
+    queryFn: () => getPaper(paperId!),
+    enabled: isEditing
+  });
+
+  const subjectId = location.state?.subjectId ?? existingPaper?.subject._id;
 
   const [examDetails, setExamDetails] = useState({
     title: '',
@@ -36,14 +91,49 @@ const CreatePaper = () => {
     instructions: ''
   });
 
-  const [questions, setQuestions] = useState<Question[]>([]);
-  const [currentQuestion, setCurrentQuestion] = useState<Partial<Question>>({
-    type: 'mcq',
-    question: '',
-    options: ['', '', '', ''],
-    marks: 1
+  const [proctoring, setProctoring] = useState<ProctoringSettings>({
+    ...DEFAULT_PROCTORING_SETTINGS,
+    autoSubmitAfter: 5
+  });
+
+  // Warnings are edited as "10, 5, 1" and parsed on submit
+  const [timing, setTiming] = useState({
+    warnings: DEFAULT_TIMING_SETTINGS.warnings.join(', '),
+    gracePeriod: DEFAULT_TIMING_SETTINGS.gracePeriod
+  });
+
+  const [practice, setPractice] = useState<Required<PracticeSettings>>({
+    mode: 'exam',
+    practiceAttemptLimit: 0
+  });
+
+  const [shuffle, setShuffle] = useState<Required<ShuffleSettings>>({
+    shuffleQuestions: false,
+    shuffleOptions: false
   });
 
+  // datetime-local values, converted to ISO strings on submit
+  const [availability, setAvailability] = useState({
+    availableFrom: '',
+    availableUntil: '',
+    lateEntryUntil: ''
+  });
+  const [audience, setAudience] = useState<ExamAudience>({});
+
+  const [questions, setQuestions] = useState<Question[]>([]);
+  const [currentQuestion, setCurrentQuestion] = useState<Partial<QuestionDefinition>>(createEmptyQuestion('mcq'));
+  const [sections, setSections] = useState<PaperSection[]>([]);
+  const [currentSectionId, setCurrentSectionId] = useState<number>();
+  const [isBankOpen, setIsBankOpen] = useState(false);
+  const [isBlueprintOpen, setIsBlueprintOpen] = useState(false);
+  const [isImportOpen, setIsImportOpen] = useState(false);
+  // Sets B, C, ... from a blueprint; the editor holds set A
+  const [extraSets, setExtraSets] = useState<Question[][]>([]);
+  // Stored with the version this save creates
+  const [changeNote, setChangeNote] = useState('');
+  // The form is filled from the saved paper once, so refetches never overwrite edits
+  const [isLoaded, setIsLoaded] = useState(!isEditing);
+
   const { data: subjects = [] } = useQuery({
     queryKey: ['subjects'],
     queryFn: getSubjects
@@ -51,8 +141,23 @@ const CreatePaper = () => {
 
   const subject = subjects.find((s: any) => s._id === subjectId);
 
+  const { data: schedule = [] } = useQuery<ScheduledPaper[]>({
+    queryKey: ['examSchedule'],
+    queryFn: getExamSchedule
+  });
+
+  const examWindow = {
+    availableFrom: fromDateTimeInputValue(availability.availableFrom),
+    availableUntil: fromDateTimeInputValue(availability.availableUntil),
+    lateEntryUntil: fromDateTimeInputValue(availability.lateEntryUntil),
+  };
+  const scheduleClashes = findScheduleClashes(
+    { _id: paperId, ...examWindow, audience, duration: parseInt(examDetails.duration) || 0 },
+    schedule
+  );
+
   useEffect(() => {
-    if (!subjectId) {
+    if (!subjectId && !isEditing) {
       toast({
         title: "Error",
         description: "No subject selected. Please select a subject first.",
@@ -62,51 +167,127 @@ const CreatePaper = () => {
       return;
     }
 
-    if (subject) {
+    if (subject && !isEditing) {
       // Auto-generate exam title based on subject
       const defaultTitle = `${subject.name} - Semester ${subject.semester} Exam`;
       setExamDetails(prev => ({ ...prev, title: defaultTitle }));
+      setAudience(getAudienceFromSubject(subject));
     }
-  }, [subjectId, subject, navigate, toast]);
+  }, [subjectId, subject, isEditing, navigate, toast]);
 
-  const addQuestion = () => {
-    if (!currentQuestion.question || !currentQuestion.marks) {
+  useEffect(() => {
+    if (!existingPaper || isLoaded) return;
+
+    if (!canEditPaper(existingPaper)) {
       toast({
-        title: "Incomplete Question",
-        description: "Please fill in all required fields",
+        title: "Error",
+        description: "Approved papers can no longer be edited.",
         variant: "destructive"
       });
+      navigate('/faculty/papers');
       return;
     }
 
-    if (currentQuestion.type === 'mcq') {
-      const hasEmptyOptions = currentQuestion.options?.some(opt => !opt.trim());
-      if (hasEmptyOptions || !currentQuestion.correctAnswer) {
-        toast({
-          title: "Incomplete MCQ",
-          description: "Please fill all options and select correct answer",
-          variant: "destructive"
-        });
-        return;
-      }
+    const now = Date.now();
+    const paperSections = (existingPaper.sections || []).map(({ questionCount, ...section }, index) => ({
+      ...section,
+      id: now + index
+    }));
+    // Every set shares the paper's sections, each with its own question counts
+    let nextId = now + paperSections.length;
+    const toEditorQuestions = (paperQuestions: EditablePaper['questions'], questionSections?: ExamSection[]) => {
+      const ranges = getSectionRanges(questionSections, paperQuestions.length);
+      return paperQuestions.map((question, index): Question => ({
+        ...toQuestionPayload(question),
+        bankQuestionId: question.bankQuestionId,
+        id: nextId++,
+        sectionId: paperSections[findSectionIndex(ranges, index)]?.id
+      }));
+    };
+    const timingSettings = getTimingSettings(existingPaper);
+
+    setExamDetails({
+      title: existingPaper.title,
+      duration: String(existingPaper.duration),
+      totalMarks: existingPaper.questions.reduce((sum, question) => sum + question.marks, 0),
+      passingMarks: existingPaper.passingMarks ? String(existingPaper.passingMarks) : '',
+      description: existingPaper.description || '',
+      instructions: existingPaper.instructions || ''
+    });
+    setProctoring(getProctoringSettings(existingPaper));
+    setTiming({ warnings: timingSettings.warnings.join(', '), gracePeriod: timingSettings.gracePeriod });
+    setPractice({ mode: existingPaper.mode || 'exam', practiceAttemptLimit: existingPaper.practiceAttemptLimit || 0 });
+    setShuffle({ shuffleQuestions: !!existingPaper.shuffleQuestions, shuffleOptions: !!existingPaper.shuffleOptions });
+    setAvailability({
+      availableFrom: toDateTimeInputValue(existingPaper.availableFrom),
+      availableUntil: toDateTimeInputValue(existingPaper.availableUntil),
+      lateEntryUntil: toDateTimeInputValue(existingPaper.lateEntryUntil)
+    });
+    setAudience(existingPaper.audience || {});
+    setSections(paperSections);
+    setQuestions(toEditorQuestions(existingPaper.questions, existingPaper.sections));
+    setExtraSets((existingPaper.sets || []).map(set => toEditorQuestions(set.questions, set.sections)));
+    setIsLoaded(true);
+  }, [existingPaper, isLoaded, navigate, toast]);
+
+  // Questions from a removed section, or added before any section existed,
+  // fall into the first section
+  const getQuestionSection = (question: Question) =>
+    sections.find(section => section.id === question.sectionId) || sections[0];
+
+  // Questions are stored flat, ordered section by section
+  const arrangeQuestions = (paperQuestions: Question[]) => ({
+    ordered: sections.length
+      ? sections.flatMap(section => paperQuestions.filter(question => getQuestionSection(question) === section))
+      : paperQuestions,
+    examSections: sections.map(({ id, ...section }): ExamSection => ({
+      ...section,
+      questionCount: paperQuestions.filter(question => getQuestionSection(question).id === id).length
+    }))
+  });
+  const { ordered: orderedQuestions, examSections } = arrangeQuestions(questions);
+  const sectionRanges = getSectionRanges(examSections, orderedQuestions.length);
+  const totalMarks = sections.length
+    ? getMaxSectionedMarks(sectionRanges, orderedQuestions.map(question => question.marks))
+    : examDetails.totalMarks;
+
+  const addSection = () => {
+    const section = { id: Date.now(), title: `Section ${String.fromCharCode(65 + sections.length)}` };
+    setSections([...sections, section]);
+    setCurrentSectionId(section.id);
+  };
+
+  const updateSection = (id: number, changes: Partial<PaperSection>) => {
+    setSections(sections.map(section => section.id === id ? { ...section, ...changes } : section));
+  };
+
+  const removeSection = (id: number) => {
+    setSections(sections.filter(section => section.id !== id));
+    if (currentSectionId === id) {
+      setCurrentSectionId(undefined);
+    }
+  };
+
+  const addQuestion = () => {
+    const validationError = validateQuestion(currentQuestion);
+    if (validationError) {
+      toast({
+        title: "Incomplete Question",
+        description: validationError,
+        variant: "destructive"
+      });
+      return;
     }
 
     const newQuestion: Question = {
+      ...toQuestionPayload(currentQuestion as QuestionDefinition),
       id: Date.now(),
-      type: currentQuestion.type as 'mcq' | 'subjective',
-      question: currentQuestion.question,
-      options: currentQuestion.type === 'mcq' ? currentQuestion.options : undefined,
-      correctAnswer: currentQuestion.type === 'mcq' ? currentQuestion.correctAnswer : undefined,
-      marks: currentQuestion.marks || 1
+      marks: currentQuestion.marks || 1,
+      sectionId: currentSectionId ?? sections[0]?.id
     };
 
     setQuestions([...questions, newQuestion]);
-    setCurrentQuestion({
-      type: 'mcq',
-      question: '',
-      options: ['', '', '', ''],
-      marks: 1
-    });
+    setCurrentQuestion(createEmptyQuestion('mcq'));
 
     setExamDetails(prev => ({
       ...prev,
@@ -119,6 +300,52 @@ const CreatePaper = () => {
     });
   };
 
+  const appendQuestions = (definitions: (QuestionDefinition & { bankQuestionId?: string })[], source: string) => {
+    const now = Date.now();
+    const inserted: Question[] = definitions.map((definition, index) => ({
+      ...definition,
+      id: now + index,
+      sectionId: currentSectionId ?? sections[0]?.id
+    }));
+
+    setQuestions([...questions, ...inserted]);
+    setExamDetails(prev => ({
+      ...prev,
+      totalMarks: prev.totalMarks + inserted.reduce((sum, question) => sum + question.marks, 0)
+    }));
+
+    toast({
+      title: "Questions Added",
+      description: `${inserted.length} ${inserted.length === 1 ? 'question' : 'questions'} added from ${source}`
+    });
+  };
+
+  const applyBlueprint = ({ sets, warnings }: BlueprintResult) => {
+    const now = Date.now();
+    const [paperSet, ...otherSets] = sets.map((set, setIndex) => set.map((bankQuestion, index): Question => ({
+      ...toPaperQuestion(bankQuestion),
+      id: now + setIndex * set.length + index,
+      sectionId: currentSectionId ?? sections[0]?.id
+    })));
+
+    setQuestions(paperSet);
+    setExtraSets(otherSets);
+    setExamDetails(prev => ({
+      ...prev,
+      totalMarks: paperSet.reduce((sum, question) => sum + question.marks, 0)
+    }));
+
+    toast({
+      title: sets.length > 1 ? `${sets.length} Sets Generated` : "Paper Generated",
+      description: [
+        sets.length > 1
+          ? `${getSetLabel(0)} is in the editor; the other sets are saved alongside it.`
+          : `${paperSet.length} questions replaced the draft.`,
+        ...warnings
+      ].join(' ')
+    });
+  };
+
   const removeQuestion = (id: number) => {
     const questionToRemove = questions.find(q => q.id === id);
     setQuestions(questions.filter(q => q.id !== id));
@@ -131,8 +358,8 @@ const CreatePaper = () => {
     }
   };
 
-  const handleSubmit = async (e: React.FormEvent) => {
-    e.preventDefault();
+  // Drafts are saved without being sent for approval
+  const handleSave = async (status: PaperStatus) => {
     if (!examDetails.title || questions.length === 0) {
       toast({
         title: "Incomplete Paper",
@@ -142,47 +369,85 @@ const CreatePaper = () => {
       return;
     }
 
-    try {
-      const paperData = {
-        title: examDetails.title,
-        description: examDetails.description,
-        subject: subjectId,
-        duration: parseInt(examDetails.duration),
-        totalMarks: examDetails.totalMarks,
-        passingMarks: parseInt(examDetails.passingMarks),
-        questions: questions.map(q => ({
-          type: q.type,
-          question: q.question,
-          options: q.type === 'mcq' ? q.options : undefined,
-          correctAnswer: q.type === 'mcq' ? q.correctAnswer : undefined,
-          marks: q.marks
+    const windowError = validateExamWindow({ ...examWindow, duration: parseInt(examDetails.duration) || 0 });
+    if (windowError) {
+      toast({
+        title: "Invalid Availability",
+        description: windowError,
+        variant: "destructive"
+      });
+      return;
+    }
+
+    const sectionError = sections.length ? validateSections(examSections, parseInt(examDetails.duration) || 0, orderedQuestions.length) : null;
+    if (sectionError) {
+      toast({
+        title: "Invalid Sections",
+        description: sectionError,
+        variant: "destructive"
+      });
+      return;
+    }
+
+    const toSetData = (paperQuestions: Question[]) => {
+      const { ordered, examSections: paperSections } = arrangeQuestions(paperQuestions);
+      return {
+        questions: ordered.map(question => ({
+          ...toQuestionPayload(question),
+          bankQuestionId: question.bankQuestionId
         })),
-        instructions: examDetails.instructions
+        sections: sections.length ? paperSections : undefined,
+        totalMarks: sections.length
+          ? getMaxSectionedMarks(getSectionRanges(paperSections, ordered.length), ordered.map(question => question.marks))
+          : ordered.reduce((sum, question) => sum + question.marks, 0),
       };
+    };
+
+    // Set A is the paper itself; the other sets are saved with it in the same
+    // request, so editing replaces them rather than adding more papers
+    const paperData = {
+      title: examDetails.title,
+      status,
+      description: examDetails.description,
+      subject: subjectId,
+      duration: parseInt(examDetails.duration),
+      ...toSetData(questions),
+      sets: extraSets.map((set, index): PaperSetVariant => ({ label: getSetLabel(index + 1), ...toSetData(set) })),
+      passingMarks: parseInt(examDetails.passingMarks),
+      instructions: examDetails.instructions,
+      proctoring,
+      timing: { warnings: parseWarningMinutes(timing.warnings), gracePeriod: timing.gracePeriod },
+      ...practice,
+      ...shuffle,
+      ...examWindow,
+      audience
+    };
+
+    try {
+      if (isEditing) {
+        await updatePaper(paperId!, { ...paperData, changeNote: changeNote.trim() || undefined });
+      } else {
+        await createExamPaper(paperData);
+      }
 
-      await createExamPaper(paperData);
-      
+      const saved = extraSets.length ? `Exam paper with ${extraSets.length + 1} sets` : 'Exam paper';
       toast({
         title: "Success",
-        description: "Exam paper created successfully!",
+        description: status === 'draft'
+          ? `${saved} saved as a draft.`
+          : `${saved} ${isEditing ? 'saved and ' : ''}submitted for approval.`,
       });
       navigate('/faculty/papers');
     } catch (error: any) {
       toast({
         title: "Error",
-        description: error.response?.data?.message || "Failed to create exam paper. Please try again.",
+        description: error.response?.data?.message || "Failed to save exam paper. Please try again.",
         variant: "destructive"
       });
     }
   };
 
-  const updateOption = (index: number, value: string) => {
-    const newOptions = [...(currentQuestion.options || ['', '', '', ''])];
-    newOptions[index] = value;
-    setCurrentQuestion({...currentQuestion, options: newOptions});
-  };
-
-  if (!subject) {
+  if (!subject || !isLoaded) {
     return null;
   }
 
@@ -194,17 +459,31 @@ const CreatePaper = () => {
           <Button
             variant="ghost"
             size="icon"
-            onClick={() => navigate('/faculty/dashboard')}
+            onClick={() => navigate(isEditing ? '/faculty/papers' : '/faculty/dashboard')}
             className="rounded-full hover:bg-gray-200"
           >
             <ArrowLeft className="h-6 w-6" />
           </Button>
           <div>
-            <h1 className="text-3xl font-bold text-gray-900">Create Exam Paper</h1>
-            <p className="text-gray-600 mt-1">Creating exam for {subject.name}</p>
+            <h1 className="text-3xl font-bold text-gray-900">{isEditing ? 'Edit Exam Paper' : 'Create Exam Paper'}</h1>
+            <p className="text-gray-600 mt-1">
+              {isEditing
+                ? `Editing version ${existingPaper?.version || 1} of an exam for ${subject.name}`
+                : `Creating exam for ${subject.name}`}
+            </p>
           </div>
         </div>
 
+        {existingPaper?.status === 'rejected' && (
+          <Alert variant="destructive">
+            <XCircle className="h-4 w-4" />
+            <AlertTitle>This paper was rejected</AlertTitle>
+            <AlertDescription>
+              {existingPaper.rejectionReason || 'No reason was given.'} Revise it and submit it for approval again.
+            </AlertDescription>
+          </Alert>
+        )}
+
         {/* Stats Cards */}
         <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-4 gap-4">
           <Card className="bg-gradient-to-r from-blue-50 to-blue-100 border-blue-200">
@@ -223,9 +502,9 @@ const CreatePaper = () => {
               <div className="flex items-center justify-between">
                 <div>
                   <p className="text-green-600 text-sm font-medium">Total Marks</p>
-                  <p className="text-2xl font-bold text-green-800">{examDetails.totalMarks}</p>
+                  <p className="text-2xl font-bold text-green-800">{totalMarks}</p>
                 </div>
-                <Badge className="bg-green-600">{examDetails.totalMarks}</Badge>
+                <Badge className="bg-green-600">{totalMarks}</Badge>
               </div>
             </CardContent>
           </Card>
@@ -298,8 +577,61 @@ const CreatePaper = () => {
               </div>
               <div className="space-y-2">
                 <Label>Total Marks</Label>
-                <Input value={examDetails.totalMarks} disabled className="h-11 bg-gray-50" />
+                <Input value={totalMarks} disabled className="h-11 bg-gray-50" />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="time-warnings">Time warnings (minutes left)</Label>
+                <Input
+                  id="time-warnings"
+                  value={timing.warnings}
+                  onChange={(e) => setTiming({ ...timing, warnings: e.target.value })}
+                  placeholder="10, 5, 1"
+                  className="h-11"
+                />
+                <p className="text-sm text-gray-500">Leave empty for no warnings</p>
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="grace-period">Grace period (seconds)</Label>
+                <Input
+                  id="grace-period"
+                  type="number"
+                  min={0}
+                  max={MAX_GRACE_PERIOD}
+                  value={timing.gracePeriod}
+                  onChange={(e) => setTiming({ ...timing, gracePeriod: parseInt(e.target.value) || 0 })}
+                  className="h-11"
+                />
+                <p className="text-sm text-gray-500">Time for last answers to finish saving before auto-submit</p>
               </div>
+              <div className="space-y-2">
+                <Label>Paper Type</Label>
+                <Select
+                  value={practice.mode}
+                  onValueChange={(value) => setPractice({ ...practice, mode: value as PaperMode })}
+                >
+                  <SelectTrigger className="h-11">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="exam">Graded exam</SelectItem>
+                    <SelectItem value="practice">Practice (instant feedback, not graded)</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+              {practice.mode === 'practice' && (
+                <div className="space-y-2">
+                  <Label htmlFor="practice-attempts">Attempts per student</Label>
+                  <Input
+                    id="practice-attempts"
+                    type="number"
+                    min={0}
+                    value={practice.practiceAttemptLimit}
+                    onChange={(e) => setPractice({ ...practice, practiceAttemptLimit: Math.max(0, parseInt(e.target.value) || 0) })}
+                    className="h-11"
+                  />
+                  <p className="text-sm text-gray-500">0 allows unlimited attempts</p>
+                </div>
+              )}
             </div>
             <div className="space-y-2">
               <Label htmlFor="description">Description</Label>
@@ -323,27 +655,303 @@ const CreatePaper = () => {
                 rows={4}
               />
             </div>
+            <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+              <div className="flex items-center justify-between gap-4">
+                <div>
+                  <Label htmlFor="shuffle-questions">Shuffle questions</Label>
+                  <p className="text-sm text-gray-500">Each student gets their own question order</p>
+                </div>
+                <Switch
+                  id="shuffle-questions"
+                  checked={shuffle.shuffleQuestions}
+                  onCheckedChange={(checked) => setShuffle({ ...shuffle, shuffleQuestions: checked })}
+                />
+              </div>
+              <div className="flex items-center justify-between gap-4">
+                <div>
+                  <Label htmlFor="shuffle-options">Shuffle MCQ options</Label>
+                  <p className="text-sm text-gray-500">Options are reordered per student; grading is unaffected</p>
+                </div>
+                <Switch
+                  id="shuffle-options"
+                  checked={shuffle.shuffleOptions}
+                  onCheckedChange={(checked) => setShuffle({ ...shuffle, shuffleOptions: checked })}
+                />
+              </div>
+            </div>
+          </CardContent>
+        </Card>
+
+        {/* Proctoring */}
+        <Card>
+          <CardHeader>
+            <CardTitle>Proctoring</CardTitle>
+            <CardDescription>Record integrity signals while students take this exam</CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-6">
+            <div className="flex items-center justify-between gap-4">
+              <div>
+                <Label htmlFor="proctoring-enabled">Record proctoring events</Label>
+                <p className="text-sm text-gray-500">Tab switches, focus loss, fullscreen exits, copy/paste and right-clicks</p>
+              </div>
+              <Switch
+                id="proctoring-enabled"
+                checked={proctoring.enabled}
+                onCheckedChange={(checked) => setProctoring({ ...proctoring, enabled: checked })}
+              />
+            </div>
+            {proctoring.enabled && (
+              <>
+                <div className="flex items-center justify-between gap-4">
+                  <div>
+                    <Label htmlFor="proctoring-fullscreen">Require fullscreen</Label>
+                    <p className="text-sm text-gray-500">Students are asked to stay in fullscreen for the whole exam</p>
+                  </div>
+                  <Switch
+                    id="proctoring-fullscreen"
+                    checked={proctoring.requireFullscreen}
+                    onCheckedChange={(checked) => setProctoring({ ...proctoring, requireFullscreen: checked })}
+                  />
+                </div>
+                <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+                  <div className="space-y-2">
+                    <Label htmlFor="warnAfter">Warn after (violations)</Label>
+                    <Input
+                      id="warnAfter"
+                      type="number"
+                      min="0"
+                      value={proctoring.warnAfter}
+                      onChange={(e) => setProctoring({ ...proctoring, warnAfter: parseInt(e.target.value) || 0 })}
+                      className="h-11"
+                    />
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor="autoSubmitAfter">Auto-submit after (violations, 0 to disable)</Label>
+                    <Input
+                      id="autoSubmitAfter"
+                      type="number"
+                      min="0"
+                      value={proctoring.autoSubmitAfter}
+                      onChange={(e) => setProctoring({ ...proctoring, autoSubmitAfter: parseInt(e.target.value) || 0 })}
+                      className="h-11"
+                    />
+                  </div>
+                </div>
+              </>
+            )}
+          </CardContent>
+        </Card>
+
+        {/* Availability */}
+        <Card>
+          <CardHeader>
+            <CardTitle>Availability &amp; Audience</CardTitle>
+            <CardDescription>When the exam can be taken and which students see it</CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-6">
+            <div className="grid grid-cols-1 lg:grid-cols-3 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="availableFrom">Opens at</Label>
+                <Input
+                  id="availableFrom"
+                  type="datetime-local"
+                  value={availability.availableFrom}
+                  onChange={(e) => setAvailability({ ...availability, availableFrom: e.target.value })}
+                  className="h-11"
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="lateEntryUntil">Late entry until (optional)</Label>
+                <Input
+                  id="lateEntryUntil"
+                  type="datetime-local"
+                  value={availability.lateEntryUntil}
+                  onChange={(e) => setAvailability({ ...availability, lateEntryUntil: e.target.value })}
+                  className="h-11"
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="availableUntil">Closes at</Label>
+                <Input
+                  id="availableUntil"
+                  type="datetime-local"
+                  value={availability.availableUntil}
+                  onChange={(e) => setAvailability({ ...availability, availableUntil: e.target.value })}
+                  className="h-11"
+                />
+              </div>
+            </div>
+            <p className="text-sm text-gray-500">
+              Students cannot start after the late-entry cutoff. Attempts still running when the exam closes are submitted.
+              Leave empty to keep the exam open once approved.
+            </p>
+            <AudienceFields audience={audience} onChange={setAudience} />
+            <ScheduleClashList clashes={scheduleClashes} />
+            {scheduleClashes.length > 0 && (
+              <p className="text-sm text-gray-500">
+                You can still submit the paper; an admin has to approve the clash or it must be rescheduled.
+              </p>
+            )}
+            <FreeSlotPicker
+              audience={audience}
+              durationMinutes={parseInt(examDetails.duration) || 0}
+              schedule={schedule}
+              onSelect={(slot) => setAvailability({
+                availableFrom: toDateTimeInputValue(slot.start),
+                availableUntil: toDateTimeInputValue(slot.end),
+                lateEntryUntil: ''
+              })}
+            />
           </CardContent>
         </Card>
 
+        {/* Sections */}
+        <Card>
+          <CardHeader>
+            <div className="flex flex-wrap items-center justify-between gap-2">
+              <div>
+                <CardTitle>Sections</CardTitle>
+                <CardDescription>
+                  Optional. Students take sections in order and cannot go back to a finished section.
+                </CardDescription>
+              </div>
+              <Button type="button" variant="outline" onClick={addSection}>
+                <Plus className="h-4 w-4 mr-2" />
+                Add Section
+              </Button>
+            </div>
+          </CardHeader>
+          {sections.length > 0 && (
+            <CardContent className="space-y-4">
+              {sections.map((section, index) => (
+                <div key={section.id} className="p-4 border rounded-lg space-y-4">
+                  <div className="flex items-center justify-between gap-2">
+                    <Badge variant="outline">
+                      <Layers className="h-3 w-3 mr-1" />
+                      Section {index + 1} • {examSections[index].questionCount} questions
+                    </Badge>
+                    <Button
+                      type="button"
+                      size="sm"
+                      variant="outline"
+                      onClick={() => removeSection(section.id)}
+                      className="text-red-600 hover:text-red-700 hover:bg-red-50"
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </div>
+                  <div className="grid grid-cols-1 lg:grid-cols-3 gap-4">
+                    <div className="space-y-2">
+                      <Label htmlFor={`section-title-${section.id}`}>Title</Label>
+                      <Input
+                        id={`section-title-${section.id}`}
+                        value={section.title}
+                        onChange={(e) => updateSection(section.id, { title: e.target.value })}
+                        placeholder="Section A"
+                      />
+                    </div>
+                    <div className="space-y-2">
+                      <Label htmlFor={`section-time-${section.id}`}>Time limit (minutes, optional)</Label>
+                      <Input
+                        id={`section-time-${section.id}`}
+                        type="number"
+                        min="1"
+                        value={section.timeLimit ?? ''}
+                        onChange={(e) => updateSection(section.id, { timeLimit: parseInt(e.target.value) || undefined })}
+                      />
+                    </div>
+                    <div className="space-y-2">
+                      <Label htmlFor={`section-attempt-${section.id}`}>Attempt any (optional)</Label>
+                      <Input
+                        id={`section-attempt-${section.id}`}
+                        type="number"
+                        min="1"
+                        value={section.attemptAny ?? ''}
+                        onChange={(e) => updateSection(section.id, { attemptAny: parseInt(e.target.value) || undefined })}
+                        placeholder="All questions"
+                      />
+                    </div>
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor={`section-instructions-${section.id}`}>Instructions</Label>
+                    <Textarea
+                      id={`section-instructions-${section.id}`}
+                      value={section.instructions || ''}
+                      onChange={(e) => updateSection(section.id, { instructions: e.target.value })}
+                      placeholder="Shown at the top of the section"
+                      className="resize-none"
+                      rows={2}
+                    />
+                  </div>
+                </div>
+              ))}
+              {getTotalSectionTime(examSections) !== null && (
+                <p className="text-sm text-gray-500">
+                  Section time limits add up to {getTotalSectionTime(examSections)} minutes
+                  {examDetails.duration && ` of the ${examDetails.duration} minute exam`}.
+                </p>
+              )}
+            </CardContent>
+          )}
+        </Card>
+
         {/* Question Form */}
         <Card>
           <CardHeader>
-            <CardTitle>Add Question</CardTitle>
-            <CardDescription>Create a new question for the exam paper</CardDescription>
+            <div className="flex flex-wrap items-start justify-between gap-2">
+              <div>
+                <CardTitle>Add Question</CardTitle>
+                <CardDescription>Create a new question for the exam paper</CardDescription>
+              </div>
+              <div className="flex flex-wrap gap-2">
+                <Button type="button" variant="outline" onClick={() => setIsBankOpen(true)}>
+                  <Library className="h-4 w-4 mr-2" />
+                  Pick from Bank
+                </Button>
+                <Button type="button" variant="outline" onClick={() => setIsBlueprintOpen(true)}>
+                  <Wand2 className="h-4 w-4 mr-2" />
+                  Generate from Blueprint
+                </Button>
+                <Button type="button" variant="outline" onClick={() => setIsImportOpen(true)}>
+                  <Upload className="h-4 w-4 mr-2" />
+                  Import
+                </Button>
+              </div>
+            </div>
           </CardHeader>
           <CardContent>
             <div className="space-y-4">
+              {sections.length > 0 && (
+                <div className="space-y-2">
+                  <Label>Section</Label>
+                  <Select
+                    value={String(currentSectionId ?? sections[0].id)}
+                    onValueChange={(value) => setCurrentSectionId(Number(value))}
+                  >
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {sections.map((section, index) => (
+                        <SelectItem key={section.id} value={String(section.id)}>
+                          {section.title || `Section ${index + 1}`}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              )}
+
               <div className="space-y-2">
                 <Label>Question Type</Label>
                 <Select
                   value={currentQuestion.type}
                   onValueChange={(value) => {
                     setCurrentQuestion({
-                      type: value as 'mcq' | 'subjective',
-                      question: '',
-                      options: value === 'mcq' ? ['', '', '', ''] : undefined,
-                      marks: 1
+                      ...createEmptyQuestion(value as QuestionType),
+                      question: currentQuestion.question,
+                      marks: currentQuestion.marks,
+                      explanation: currentQuestion.explanation
                     });
                   }}
                 >
@@ -351,8 +959,9 @@ const CreatePaper = () => {
                     <SelectValue placeholder="Select question type" />
                   </SelectTrigger>
                   <SelectContent>
-                    <SelectItem value="mcq">Multiple Choice</SelectItem>
-                    <SelectItem value="subjective">Subjective</SelectItem>
+                    {Object.entries(QUESTION_TYPE_LABELS).map(([type, label]) => (
+                      <SelectItem key={type} value={type}>{label}</SelectItem>
+                    ))}
                   </SelectContent>
                 </Select>
               </div>
@@ -360,44 +969,56 @@ const CreatePaper = () => {
               <div className="space-y-2">
                 <Label>Question Text</Label>
                 <Textarea
-                  placeholder="Enter your question here"
+                  placeholder={currentQuestion.type === 'fill_blank'
+                    ? 'Use ___ to mark the blank, e.g. The capital of France is ___.'
+                    : 'Enter your question here'}
                   value={currentQuestion.question}
                   onChange={(e) => setCurrentQuestion({ ...currentQuestion, question: e.target.value })}
                 />
               </div>
 
-              {currentQuestion.type === 'mcq' && (
-                <div className="space-y-4">
-                  <div className="space-y-2">
-                    <Label>Options</Label>
-                    {currentQuestion.options?.map((option, index) => (
-                      <div key={index} className="flex gap-2 items-center">
-                        <Input
-                          placeholder={`Option ${index + 1}`}
-                          value={option}
-                          onChange={(e) => updateOption(index, e.target.value)}
-                        />
-                        <Button
-                          type="button"
-                          variant="outline"
-                          size="sm"
-                          onClick={() => {
-                            setCurrentQuestion({
-                              ...currentQuestion,
-                              correctAnswer: String(index)
-                            });
-                          }}
-                          className={
-                            currentQuestion.correctAnswer === String(index)
-                              ? 'bg-green-100 hover:bg-green-200 text-green-700'
-                              : ''
-                          }
-                        >
-                          Correct
-                        </Button>
-                      </div>
-                    ))}
+              <div className="space-y-2">
+                <Label>Images and Diagrams</Label>
+                <AttachmentUploader
+                  attachments={currentQuestion.attachments || []}
+                  onChange={(attachments) => setCurrentQuestion({ ...currentQuestion, attachments })}
+                />
+              </div>
+
+              <QuestionTypeFields question={currentQuestion} onChange={setCurrentQuestion} />
+
+              <div className="space-y-2">
+                <Label>Explanation (optional)</Label>
+                <Textarea
+                  placeholder="Why the answer is correct; shown to students after they check a practice answer"
+                  value={currentQuestion.explanation || ''}
+                  onChange={(e) => setCurrentQuestion({ ...currentQuestion, explanation: e.target.value })}
+                />
+              </div>
+
+              {currentQuestion.question?.trim() && (
+                <div className="space-y-2">
+                  <Label>Preview</Label>
+                  <div className="p-4 border rounded-lg bg-gray-50 space-y-3">
+                    <RichText content={currentQuestion.question} />
+                    <AttachmentGallery attachments={currentQuestion.attachments} />
+                    {hasOptions(currentQuestion.type) && currentQuestion.options?.some(option => option.trim()) && (
+                      <ol className="space-y-1 text-sm">
+                        {currentQuestion.options.map((option, index) => (
+                          <li key={index} className="flex flex-wrap gap-2">
+                            <span className="font-medium">{String.fromCharCode(65 + index)}.</span>
+                            <RichText content={option} inline />
+                            {currentQuestion.optionAttachments?.[index] && (
+                              <AttachmentGallery compact attachments={[currentQuestion.optionAttachments[index]!]} />
+                            )}
+                          </li>
+                        ))}
+                      </ol>
+                    )}
                   </div>
+                  <p className="text-xs text-gray-500">
+                    Supports Markdown, `code`, fenced code blocks and LaTeX: $x^2$ inline or $$\int_0^1 f(x)\,dx$$ on its own line.
+                  </p>
                 </div>
               )}
 
@@ -423,6 +1044,43 @@ const CreatePaper = () => {
           </CardContent>
         </Card>
 
+        {/* Blueprint Sets */}
+        {extraSets.length > 0 && (
+          <Card>
+            <CardHeader>
+              <div className="flex flex-wrap items-start justify-between gap-2">
+                <div>
+                  <CardTitle>Paper Sets</CardTitle>
+                  <CardDescription>
+                    The questions below are {getSetLabel(0)}. The sets are saved with this paper, and each student is given one of them.
+                  </CardDescription>
+                </div>
+                <Button type="button" variant="outline" size="sm" onClick={() => setExtraSets([])}>
+                  <Trash2 className="h-4 w-4 mr-2" />
+                  Discard Other Sets
+                </Button>
+              </div>
+            </CardHeader>
+            <CardContent className="space-y-3">
+              {extraSets.map((set, index) => (
+                <div key={index} className="p-3 border rounded-lg space-y-1">
+                  <div className="flex items-center gap-2">
+                    <span className="font-medium">{getSetLabel(index + 1)}</span>
+                    <Badge variant="outline">
+                      {set.length} questions • {set.reduce((sum, question) => sum + question.marks, 0)} marks
+                    </Badge>
+                  </div>
+                  <ol className="list-decimal pl-5 text-sm text-gray-600">
+                    {set.map(question => (
+                      <li key={question.id} className="truncate">{question.question}</li>
+                    ))}
+                  </ol>
+                </div>
+              ))}
+            </CardContent>
+          </Card>
+        )}
+
         {/* Questions List */}
         {questions.length > 0 && (
           <Card className="shadow-lg">
@@ -432,51 +1090,77 @@ const CreatePaper = () => {
             </CardHeader>
             <CardContent className="p-6">
               <div className="space-y-6">
-                {questions.map((question, index) => (
-                  <div key={question.id} className="p-6 border border-gray-200 rounded-xl bg-white shadow-sm hover:shadow-md transition-shadow">
-                    <div className="flex flex-col md:flex-row md:items-start justify-between gap-4 mb-4">
-                      <div className="flex items-center gap-3">
-                        <span className="font-bold text-lg text-gray-900 bg-gray-100 rounded-full w-8 h-8 flex items-center justify-center">
-                          {index + 1}
-                        </span>
-                        <Badge variant={question.type === 'mcq' ? 'default' : 'secondary'} className="px-3 py-1">
-                          {question.type === 'mcq' ? 'Multiple Choice' : 'Subjective'}
-                        </Badge>
-                        <Badge variant="outline" className="px-3 py-1">
-                          {question.marks} {question.marks === 1 ? 'mark' : 'marks'}
-                        </Badge>
+                {orderedQuestions.map((question, index) => (
+                  <React.Fragment key={question.id}>
+                    {sectionRanges
+                      .filter(range => sections.length > 0 && range.start === index && range.end > index)
+                      .map(({ index: sectionIndex, section }) => (
+                        <div key={sectionIndex} className="flex flex-wrap items-center gap-2 pt-2">
+                          <h3 className="font-semibold text-gray-900">{section.title}</h3>
+                          {section.attemptAny && <Badge variant="secondary">Attempt any {section.attemptAny}</Badge>}
+                          {section.timeLimit && <Badge variant="outline">{section.timeLimit} min</Badge>}
+                        </div>
+                      ))}
+                    <div className="p-6 border border-gray-200 rounded-xl bg-white shadow-sm hover:shadow-md transition-shadow">
+                      <div className="flex flex-col md:flex-row md:items-start justify-between gap-4 mb-4">
+                        <div className="flex items-center gap-3">
+                          <span className="font-bold text-lg text-gray-900 bg-gray-100 rounded-full w-8 h-8 flex items-center justify-center">
+                            {index + 1}
+                          </span>
+                          <Badge variant={question.type === 'subjective' ? 'secondary' : 'default'} className="px-3 py-1">
+                            {QUESTION_TYPE_LABELS[question.type]}
+                          </Badge>
+                          <Badge variant="outline" className="px-3 py-1">
+                            {question.marks} {question.marks === 1 ? 'mark' : 'marks'}
+                          </Badge>
+                          {question.bankQuestionId && (
+                            <Badge variant="outline" className="px-3 py-1 text-gray-600">
+                              <Library className="h-3 w-3 mr-1" />
+                              From bank
+                            </Badge>
+                          )}
+                        </div>
+                        <Button
+                          size="sm"
+                          variant="outline"
+                          onClick={() => removeQuestion(question.id)}
+                          className="text-red-600 hover:text-red-700 hover:bg-red-50 self-start"
+                        >
+                          <Trash2 className="h-4 w-4" />
+                        </Button>
                       </div>
-                      <Button
-                        size="sm"
-                        variant="outline"
-                        onClick={() => removeQuestion(question.id)}
-                        className="text-red-600 hover:text-red-700 hover:bg-red-50 self-start"
-                      >
-                        <Trash2 className="h-4 w-4" />
-                      </Button>
-                    </div>
-                    
-                    <div className="mb-4">
-                      <p className="text-gray-800 leading-relaxed">{question.question}</p>
-                    </div>
                     
-                    {question.type === 'mcq' && question.options && (
-                      <div className="grid grid-cols-1 md:grid-cols-2 gap-2">
-                        {question.options.map((option, optIndex) => (
-                          <div
-                            key={optIndex}
-                            className={`text-sm p-3 rounded-lg border transition-colors ${
-                              option === question.correctAnswer
-                                ? 'bg-green-50 border-green-200 text-green-800 font-medium'
-                                : 'bg-gray-50 border-gray-200 text-gray-700'
-                            }`}
-                          >
-                            <span className="font-medium">{String.fromCharCode(65 + optIndex)}.</span> {option}
-                          </div>
-                        ))}
+                      <div className="mb-4">
+                        <RichText content={question.question} className="text-gray-800 leading-relaxed" />
+                        <AttachmentGallery attachments={question.attachments} className="mt-3" />
                       </div>
-                    )}
-                  </div>
+                    
+                      {hasOptions(question.type) && question.options ? (
+                        <div className="grid grid-cols-1 md:grid-cols-2 gap-2">
+                          {question.options.map((option, optIndex) => (
+                            <div
+                              key={optIndex}
+                              className={`text-sm p-3 rounded-lg border transition-colors ${
+                                option === question.correctAnswer || question.correctAnswers?.includes(option)
+                                  ? 'bg-green-50 border-green-200 text-green-800 font-medium'
+                                  : 'bg-gray-50 border-gray-200 text-gray-700'
+                              }`}
+                            >
+                              <span className="font-medium">{String.fromCharCode(65 + optIndex)}.</span> <RichText content={option} inline />
+                              {question.optionAttachments?.[optIndex] && (
+                                <AttachmentGallery compact attachments={[question.optionAttachments[optIndex]!]} className="mt-2" />
+                              )}
+                            </div>
+                          ))}
+                        </div>
+                      ) : formatCorrectAnswer(question) && (
+                        <div className="text-sm p-3 rounded-lg border bg-green-50 border-green-200 text-green-800">
+                          <span className="font-medium">Answer: </span>
+                          <span className="whitespace-pre-wrap">{formatCorrectAnswer(question)}</span>
+                        </div>
+                      )}
+                    </div>
+                  </React.Fragment>
                 ))}
               </div>
             </CardContent>
@@ -484,23 +1168,67 @@ const CreatePaper = () => {
         )}
 
         {/* Submit Button */}
-        <div className="flex justify-end gap-4 pt-6">
+        {isEditing && (
+          <div className="space-y-2 pt-6">
+            <Label htmlFor="change-note">Change note (optional)</Label>
+            <Input
+              id="change-note"
+              value={changeNote}
+              onChange={(e) => setChangeNote(e.target.value)}
+              placeholder="e.g. Fixed a typo in question 4"
+              className="h-11"
+            />
+            <p className="text-sm text-gray-500">Saved with this version so reviewers can see what changed</p>
+          </div>
+        )}
+        <div className="flex flex-wrap justify-end gap-4 pt-6">
           <Button
             variant="outline"
-            onClick={() => navigate('/faculty/dashboard')}
+            onClick={() => navigate(isEditing ? '/faculty/papers' : '/faculty/dashboard')}
             className="px-6"
           >
             Cancel
           </Button>
           <Button
-            onClick={handleSubmit}
+            variant="outline"
+            onClick={() => handleSave('draft')}
+            className="px-6"
+            disabled={questions.length === 0}
+          >
+            <Save className="h-4 w-4 mr-2" />
+            Save as Draft
+          </Button>
+          <Button
+            onClick={() => handleSave('pending')}
             className="bg-gradient-to-r from-purple-600 to-indigo-600 hover:from-purple-700 hover:to-indigo-700 px-6"
             disabled={questions.length === 0}
           >
-            Create Exam Paper
+            <Send className="h-4 w-4 mr-2" />
+            {existingPaper?.status === 'pending' ? 'Save Changes' : 'Submit for Approval'}
           </Button>
         </div>
       </div>
+
+      <PickFromBankDialog
+        subjectId={subjectId}
+        open={isBankOpen}
+        onOpenChange={setIsBankOpen}
+        onInsert={(bankQuestions) => appendQuestions(bankQuestions.map(toPaperQuestion), 'the question bank')}
+        usedIds={questions.flatMap(question => question.bankQuestionId ? [question.bankQuestionId] : [])}
+      />
+
+      <BlueprintDialog
+        subjectId={subjectId}
+        open={isBlueprintOpen}
+        onOpenChange={setIsBlueprintOpen}
+        onGenerate={applyBlueprint}
+      />
+
+      <ImportQuestionsDialog
+        open={isImportOpen}
+        onOpenChange={setIsImportOpen}
+        onImport={(imported) => appendQuestions(imported, 'the imported file')}
+      />
     </div>
   );
 };
@@ -7,8 +7,9 @@ import { useQuery } from '@tanstack/react-query';
 import { getExamPapers, getSubmissions } from '@/lib/api';
 import { useNavigate } from 'react-router-dom';
 import { useAuthContext } from '@/lib/auth-context';
+import { isPracticePaper, PracticeSettings } from '@/lib/practice';
 
-interface ExamPaper {
+interface ExamPaper extends PracticeSettings {
   _id: string;
   title: string;
   subject: {
@@ -71,9 +72,10 @@ const Dashboard = () => {
     sub?.status
   );
   
-  // Get active exams that student hasn't submitted yet
+  // Get active exams that student hasn't submitted yet. Practice papers are
+  // listed on the exams page instead.
   const activeExams = examPapers.filter(exam => {
-    if (!exam?._id || !exam?.questions || !exam?.isActive) return false;
+    if (!exam?._id || !exam?.questions || !exam?.isActive || isPracticePaper(exam)) return false;
     const hasSubmitted = studentSubmissions.some(sub => sub?.examPaper?._id === exam._id);
     return exam.isActive && !hasSubmitted;
   });
@@ -241,7 +243,7 @@ const Dashboard = () => {
                 <div className="flex items-center gap-2 self-end sm:self-auto">
                   {exam.status === 'live' && !exam.isSubmitted && (
                     <Button 
-                      onClick={() => navigate(`/exam-panel/${exam.id}`)}
+                      onClick={() => navigate(`/exam-lobby/${exam.id}`)}
                       className="bg-gradient-to-r from-blue-600 to-blue-700 hover:from-blue-700 hover:to-blue-800 text-white shadow-md hover:shadow-lg transition-all duration-200"
                     >
                       Start Exam
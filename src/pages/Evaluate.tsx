@@ -9,26 +9,40 @@ import { Progress } from '@/components/ui/progress';
 import { Save, ArrowLeft, ArrowRight, CheckCircle, ChevronLeft, Send } from 'lucide-react';
 import { toast } from '@/hooks/use-toast';
 import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
-import { getSubmission, evaluateSubmission, submitToAdmin } from '@/lib/api';
+import { getSubmission, evaluateSubmission, submitToAdmin, getProctoringEvents } from '@/lib/api';
 import { useParams, useNavigate } from 'react-router-dom';
 import { format, isValid, parseISO, differenceInMinutes } from 'date-fns';
+import ProctoringLog from '@/components/exam/ProctoringLog';
+import RichText from '@/components/exam/RichText';
+import AttachmentGallery from '@/components/exam/AttachmentGallery';
+import CodeAnswerReview from '@/components/exam/CodeAnswerReview';
+import AccommodationBadge from '@/components/exam/AccommodationBadge';
+import { ProctoringEvent } from '@/lib/proctoring';
+import {
+  formatAnswer,
+  formatCorrectAnswer,
+  gradeAnswer,
+  isAutoGraded,
+  parseListAnswer,
+  QuestionDefinition,
+} from '@/lib/question-types';
+import { gradeCodeAnswer, TestCaseResult } from '@/lib/code-questions';
+import { computeSectionedScore, ExamSection, findSectionIndex, getSectionRanges } from '@/lib/sections';
+import { Accommodations, hasAccommodations } from '@/lib/accommodations';
 
 interface Answer {
   questionIndex: number;
   selectedOption: string;
   marks?: number;
   comment?: string;
+  // Code answers: the test run made when the exam was submitted
+  testResults?: TestCaseResult[];
 }
 
 interface ExamPaper {
   title: string;
-  questions: {
-    type: string;
-    question: string;
-    options: string[];
-    correctAnswer: string;
-    marks: number;
-  }[];
+  questions: QuestionDefinition[];
+  sections?: ExamSection[];
 }
 
 interface Submission {
@@ -42,8 +56,16 @@ interface Submission {
   status: 'pending' | 'evaluated' | 'submitted_to_admin' | 'published';
   startTime: string;
   submittedAt: string;
+  // Copied from the attempt; extra time is already part of the time taken
+  accommodations?: Accommodations;
 }
 
+// Marks from the answer key, or for code from the submission's test run;
+// null when only an evaluator can mark the answer
+const getComputedMarks = (question: QuestionDefinition, answer?: Answer) =>
+  gradeAnswer(question, answer?.selectedOption || '') ??
+  gradeCodeAnswer(question.codeSettings, answer?.testResults, Number(question.marks) || 0);
+
 const Evaluate = () => {
   const navigate = useNavigate();
   const { id } = useParams();
@@ -80,6 +102,13 @@ const Evaluate = () => {
   // Debug log
   console.log('Submission data:', submission);
 
+  const { data: proctoringEvents = [], isLoading: isLoadingEvents } = useQuery<ProctoringEvent[]>({
+    queryKey: ['proctoringEvents', id],
+    queryFn: () => getProctoringEvents(id || ''),
+    enabled: !!id,
+    retry: 1,
+  });
+
   useEffect(() => {
     if (!id) {
       console.log('No submission ID found, redirecting...');
@@ -88,17 +117,19 @@ const Evaluate = () => {
     }
   }, [id, navigate]);
 
-  // Initialize marks and comments from existing evaluation data
+  // Initialize marks and comments from existing evaluation data, falling back
+  // to the computed marks for auto-gradable and tested code questions
   useEffect(() => {
-    if (submission?.answers) {
+    if (submission?.examPaper?.questions) {
       const existingMarks: {[key: number]: number} = {};
       const existingComments: {[key: number]: string} = {};
-      
-      submission.answers.forEach((answer: Answer, index: number) => {
-        existingMarks[index + 1] = Number(answer.marks) || 0;
-        existingComments[index + 1] = answer.comment || '';
+
+      submission.examPaper.questions.forEach((question: QuestionDefinition, index: number) => {
+        const answer = submission.answers?.find((a: Answer) => a.questionIndex === index);
+        existingMarks[index + 1] = Number(answer?.marks ?? getComputedMarks(question, answer) ?? 0);
+        existingComments[index + 1] = answer?.comment || '';
       });
-      
+
       setMarks(existingMarks);
       setComments(existingComments);
     }
@@ -202,20 +233,32 @@ const Evaluate = () => {
   };
 
   // Map the submission answers to include question details from exam paper
-  const questions = submission.examPaper?.questions?.map((question: any, index: number) => {
+  // Auto-gradable types are pre-filled with the computed marks until saved
+  const questions = submission.examPaper?.questions?.map((question: QuestionDefinition, index: number) => {
     const submittedAnswer = submission.answers?.find(
       (a: any) => a.questionIndex === index
     );
+    const studentAnswer = submittedAnswer?.selectedOption || '';
+    const autoMarks = getComputedMarks(question, submittedAnswer);
+    const isMulti = question.type === 'multi_select';
     return {
       id: index + 1,
       type: question.type,
       question: question.question,
       options: question.options,
+      attachments: question.attachments || [],
+      optionAttachments: question.optionAttachments || [],
+      codeSettings: question.codeSettings,
+      testResults: submittedAnswer?.testResults,
       correctAnswer: question.correctAnswer,
-      studentAnswer: submittedAnswer?.selectedOption || '',
-      marks: Number(submittedAnswer?.marks || 0),
+      correctOptions: isMulti ? question.correctAnswers || [] : [question.correctAnswer || ''],
+      correctDisplay: formatCorrectAnswer(question),
+      studentAnswer,
+      studentOptions: isMulti ? parseListAnswer(studentAnswer) : [studentAnswer],
+      studentDisplay: formatAnswer(question, studentAnswer),
+      marks: Number(submittedAnswer?.marks ?? autoMarks ?? 0),
       maxMarks: Number(question.marks || 0),
-      isCorrect: submittedAnswer?.selectedOption === question.correctAnswer
+      isCorrect: autoMarks !== null && autoMarks >= Number(question.marks || 0)
     };
   }) || [];
 
@@ -224,28 +267,37 @@ const Evaluate = () => {
     type: '',
     question: '',
     options: [],
+    attachments: [],
+    optionAttachments: [],
+    codeSettings: undefined,
+    testResults: undefined,
     correctAnswer: '',
+    correctOptions: [],
+    correctDisplay: '',
     studentAnswer: '',
+    studentOptions: [],
+    studentDisplay: '',
     marks: 0,
     maxMarks: 0,
     isCorrect: false
   };
 
-  const calculateTotalAwarded = () => {
-    const marksFromState = Object.values(marks).reduce((sum, mark) => {
-      const numMark = Number(mark) || 0;
-      return sum + numMark;
-    }, 0);
-    
-    if (marksFromState > 0) return marksFromState;
-    
-    return questions.reduce((sum, q) => {
-      const questionMark = Number(q.marks) || 0;
-      return sum + questionMark;
-    }, 0);
-  };
+  const getAwardedMarks = (questionId: number) =>
+    Number(marks[questionId] ?? questions[questionId - 1]?.marks) || 0;
+
+  const calculateTotalAwarded = () =>
+    questions.reduce((sum, q) => sum + getAwardedMarks(q.id), 0);
 
-  const totalAwarded = calculateTotalAwarded();
+  // Attempt-any sections only count the best answers
+  const isSectioned = !!submission.examPaper?.sections?.length;
+  const sectionRanges = getSectionRanges(submission.examPaper?.sections, questions.length);
+  const sectionedScore = computeSectionedScore(
+    sectionRanges,
+    questions.map(q => getAwardedMarks(q.id))
+  );
+  const currentSectionRange = sectionRanges[findSectionIndex(sectionRanges, currentQuestionIndex)];
+
+  const totalAwarded = isSectioned ? sectionedScore.total : calculateTotalAwarded();
   const progress = ((currentQuestionIndex + 1) / Math.max(questions.length, 1)) * 100;
 
   const handleMarkChange = (questionId: number, newMark: string | number) => {
@@ -262,12 +314,12 @@ const Evaluate = () => {
   const saveEvaluation = () => {
     const evaluationData = questions.map((q, index) => ({
       questionIndex: index,
-      marks: marks[index + 1] || q.marks,
+      marks: getAwardedMarks(q.id),
       comment: comments[index + 1] || ''
     }));
 
     evaluateMutation.mutate({
-      score: evaluationData.reduce((sum, item) => sum + item.marks, 0),
+      score: isSectioned ? sectionedScore.total : evaluationData.reduce((sum, item) => sum + item.marks, 0),
       evaluations: evaluationData
     });
   };
@@ -365,6 +417,12 @@ const Evaluate = () => {
                 <span className="font-medium text-gray-600">Submitted:</span>
                 <p>{formatSubmissionDate(submission.submittedAt)}</p>
               </div>
+              {hasAccommodations(submission.accommodations) && (
+                <div className="sm:col-span-2 space-y-1">
+                  <span className="font-medium text-gray-600">Accommodations:</span>
+                  <AccommodationBadge accommodations={submission.accommodations} detailed />
+                </div>
+              )}
               <div>
                 <span className="font-medium text-gray-600">Time Taken:</span>
                 <p>{formatTimeTaken(submission.startTime, submission.submittedAt)}</p>
@@ -395,6 +453,9 @@ const Evaluate = () => {
         </Card>
       </div>
 
+      {/* Proctoring */}
+      <ProctoringLog events={proctoringEvents} isLoading={isLoadingEvents} />
+
       {/* Question Evaluation */}
       <Card>
         <CardHeader>
@@ -408,6 +469,14 @@ const Evaluate = () => {
                 <Badge variant="outline">
                   {currentQuestion.maxMarks} marks
                 </Badge>
+                {isSectioned && (
+                  <Badge variant="outline">{currentSectionRange.section.title}</Badge>
+                )}
+                {isSectioned && !sectionedScore.counted.has(currentQuestionIndex) && (
+                  <Badge variant="outline" className="bg-gray-100 text-gray-600">
+                    Not counted (attempt any {currentSectionRange.section.attemptAny})
+                  </Badge>
+                )}
               </div>
             </div>
             <div className="flex gap-2 w-full sm:w-auto">
@@ -438,39 +507,51 @@ const Evaluate = () => {
           {/* Question */}
           <div>
             <Label className="text-base font-medium">Question:</Label>
-            <p className="mt-2 p-3 bg-gray-50 rounded-lg whitespace-pre-wrap">{currentQuestion.question}</p>
+            <div className="mt-2 p-3 bg-gray-50 rounded-lg">
+              <RichText content={currentQuestion.question} />
+              <AttachmentGallery attachments={currentQuestion.attachments} className="mt-3" />
+            </div>
           </div>
 
           {/* MCQ Options (if applicable) */}
-          {currentQuestion.type === 'mcq' && currentQuestion.options && (
+          {currentQuestion.options && currentQuestion.options.length > 0 && (
             <div>
               <Label className="text-base font-medium">Options:</Label>
               <div className="mt-2 space-y-2">
-                {currentQuestion.options.map((option: string, index: number) => (
-                  <div
-                    key={index}
-                    className={`p-3 rounded border ${
-                      option === currentQuestion.correctAnswer
-                        ? 'bg-green-100 border-green-300'
-                        : option === currentQuestion.studentAnswer
-                        ? currentQuestion.isCorrect
+                {currentQuestion.options.map((option: string, index: number) => {
+                  const isCorrectOption = currentQuestion.correctOptions.includes(option);
+                  const isStudentOption = currentQuestion.studentOptions.includes(option);
+                  return (
+                    <div
+                      key={index}
+                      className={`p-3 rounded border ${
+                        isCorrectOption
                           ? 'bg-green-100 border-green-300'
-                          : 'bg-red-100 border-red-300'
-                        : 'bg-gray-50 border-gray-200'
-                    }`}
-                  >
-                    <div className="flex items-start gap-2">
-                      <span className="font-medium">{String.fromCharCode(65 + index)}.</span>
-                      <span className="flex-1">{option}</span>
-                      {option === currentQuestion.correctAnswer && (
-                        <span className="text-green-600 font-medium whitespace-nowrap">(Correct)</span>
-                      )}
-                      {option === currentQuestion.studentAnswer && option !== currentQuestion.correctAnswer && (
-                        <span className="text-red-600 font-medium whitespace-nowrap">(Student Answer)</span>
-                      )}
+                          : isStudentOption
+                          ? 'bg-red-100 border-red-300'
+                          : 'bg-gray-50 border-gray-200'
+                      }`}
+                    >
+                      <div className="flex items-start gap-2">
+                        <span className="font-medium">{String.fromCharCode(65 + index)}.</span>
+                        <div className="flex-1">
+                          <RichText content={option} inline />
+                          {currentQuestion.optionAttachments[index] && (
+                            <AttachmentGallery compact attachments={[currentQuestion.optionAttachments[index]!]} className="mt-2" />
+                          )}
+                        </div>
+                        {isCorrectOption && (
+                          <span className="text-green-600 font-medium whitespace-nowrap">(Correct)</span>
+                        )}
+                        {isStudentOption && (
+                          <span className={`${isCorrectOption ? 'text-green-600' : 'text-red-600'} font-medium whitespace-nowrap`}>
+                            (Student Answer)
+                          </span>
+                        )}
+                      </div>
                     </div>
-                  </div>
-                ))}
+                  );
+                })}
               </div>
             </div>
           )}
@@ -479,18 +560,37 @@ const Evaluate = () => {
           <div>
             <Label className="text-base font-medium">Student Answer:</Label>
             <div className="mt-2">
-              {currentQuestion.type === 'mcq' ? (
-                <div className={`p-3 rounded-lg flex items-center gap-2 ${
+              {currentQuestion.type === 'code' && currentQuestion.codeSettings ? (
+                <CodeAnswerReview
+                  key={currentQuestion.id}
+                  submissionId={id!}
+                  questionIndex={currentQuestion.id - 1}
+                  settings={currentQuestion.codeSettings}
+                  answer={currentQuestion.studentAnswer}
+                  testResults={currentQuestion.testResults}
+                  maxMarks={currentQuestion.maxMarks}
+                  onScored={(score) => handleMarkChange(currentQuestion.id, score)}
+                />
+              ) : isAutoGraded(currentQuestion.type) ? (
+                <div className={`p-3 rounded-lg flex items-start gap-2 ${
                   currentQuestion.isCorrect ? 'bg-green-50' : 'bg-red-50'
                 }`}>
-                  <CheckCircle className={`h-5 w-5 ${
+                  <CheckCircle className={`h-5 w-5 flex-shrink-0 ${
                     currentQuestion.isCorrect ? 'text-green-600' : 'text-red-600'
                   }`} />
-                  <span>{currentQuestion.studentAnswer || 'No answer provided'}</span>
+                  <span className="whitespace-pre-wrap">{currentQuestion.studentDisplay || 'No answer provided'}</span>
                 </div>
               ) : (
-                <div className="p-3 bg-gray-50 rounded-lg whitespace-pre-wrap">
-                  {currentQuestion.studentAnswer || 'No answer provided'}
+                <div className="p-3 bg-gray-50 rounded-lg">
+                  {currentQuestion.studentAnswer
+                    ? <RichText content={currentQuestion.studentAnswer} />
+                    : 'No answer provided'}
+                </div>
+              )}
+              {isAutoGraded(currentQuestion.type) && !currentQuestion.options?.length && currentQuestion.correctDisplay && (
+                <div className="mt-2 p-3 rounded-lg bg-green-50 border border-green-200 text-sm">
+                  <span className="font-medium text-green-800">Correct answer: </span>
+                  <span className="whitespace-pre-wrap">{currentQuestion.correctDisplay}</span>
                 </div>
               )}
             </div>
@@ -506,7 +606,7 @@ const Evaluate = () => {
                   type="number"
                   min="0"
                   max={currentQuestion.maxMarks}
-                  value={marks[currentQuestion.id] || currentQuestion.marks}
+                  value={marks[currentQuestion.id] ?? currentQuestion.marks}
                   onChange={(e) => handleMarkChange(currentQuestion.id, e.target.value)}
                   className="w-24"
                 />
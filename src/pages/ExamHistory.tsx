@@ -1,10 +1,12 @@
 import React from 'react';
+import { useNavigate } from 'react-router-dom';
 import { useQuery } from '@tanstack/react-query';
 import { getSubmissions } from '@/lib/api';
 import { useAuthContext } from '@/lib/auth-context';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
-import { AlertCircle, Clock, FileText, CheckCircle, XCircle, Calendar, Timer, Book } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { AlertCircle, Clock, FileText, CheckCircle, XCircle, Calendar, Timer, Book, Receipt } from 'lucide-react';
 import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert';
 import { Progress } from '@/components/ui/progress';
 import { Separator } from '@/components/ui/separator';
@@ -77,6 +79,7 @@ const getScoreStatus = (score: number, totalMarks: number) => {
 };
 
 const ExamHistory = () => {
+  const navigate = useNavigate();
   const { user } = useAuthContext();
   
   const { data: submissions = [], isLoading, error } = useQuery({
@@ -341,8 +344,14 @@ const ExamHistory = () => {
                     </div>
 
                     {/* Submission Time */}
-                    <div className="text-sm text-gray-500 mt-4">
-                      Submitted {formatDistanceToNow(new Date(submission.endTime), { addSuffix: true })}
+                    <div className="flex flex-wrap items-center justify-between gap-2 mt-4">
+                      <span className="text-sm text-gray-500">
+                        Submitted {formatDistanceToNow(new Date(submission.endTime), { addSuffix: true })}
+                      </span>
+                      <Button variant="outline" size="sm" onClick={() => navigate(`/submissions/${submission._id}/receipt`)}>
+                        <Receipt className="h-4 w-4 mr-2" />
+                        Receipt
+                      </Button>
                     </div>
                   </div>
                 );
@@ -0,0 +1,308 @@
+import React, { useEffect, useState } from 'react';
+import { useNavigate, useParams } from 'react-router-dom';
+import { useQuery } from '@tanstack/react-query';
+import { format } from 'date-fns';
+import { getExamPaper } from '@/lib/api';
+import { useToast } from '@/hooks/use-toast';
+import { useExamAttempt, useStartExamAttempt } from '@/hooks/use-exam-timer';
+import { useExamAccessibility } from '@/hooks/use-exam-accessibility';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Label } from '@/components/ui/label';
+import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert';
+import { AlertCircle, ArrowLeft, Award, Calendar, Clock, FileText, Maximize, Play } from 'lucide-react';
+import RichText from '@/components/exam/RichText';
+import {
+  EXAM_WINDOW_STATUS_LABELS,
+  ExamWindowSource,
+  formatCountdown,
+  getExamWindow,
+  getExamWindowStatus,
+} from '@/lib/exam-window';
+import { ExamAudience, formatAudience, isInAudience } from '@/lib/exam-audience';
+import { useAuthContext } from '@/lib/auth-context';
+import { getProctoringSettings, ProctoringSettings } from '@/lib/proctoring';
+import { ExamSection } from '@/lib/sections';
+import {
+  describeAccommodations,
+  getAdjustedDuration,
+  getAdjustedSectionTime,
+  getExtraTimeMinutes,
+} from '@/lib/accommodations';
+
+interface LobbyPaper extends ExamWindowSource {
+  _id: string;
+  title: string;
+  description?: string;
+  instructions?: string;
+  subject: {
+    name: string;
+  };
+  totalMarks: number;
+  passingMarks?: number;
+  audience?: ExamAudience;
+  questions: unknown[];
+  sections?: ExamSection[];
+  proctoring?: Partial<ProctoringSettings>;
+}
+
+// Pre-exam lobby: the student reads the instructions, acknowledges them and
+// starts the attempt once the exam window opens
+const ExamLobby = () => {
+  const { id } = useParams();
+  const navigate = useNavigate();
+  const { toast } = useToast();
+  const { user } = useAuthContext();
+  const [acknowledged, setAcknowledged] = useState(false);
+  const [now, setNow] = useState(Date.now());
+
+  const { data: paper, isLoading: isLoadingPaper, error: paperError } = useQuery<LobbyPaper, Error>({
+    queryKey: ['examPaper', id],
+    queryFn: () => getExamPaper(id!),
+    enabled: !!id,
+    retry: 1,
+  });
+
+  const { data: attempt, isLoading: isLoadingAttempt } = useExamAttempt(id, !!paper);
+  const startMutation = useStartExamAttempt(id);
+
+  const serverOffset = attempt?.serverOffset ?? 0;
+  const examWindow = paper ? getExamWindow(paper) : null;
+  const status = examWindow ? getExamWindowStatus(examWindow, now + serverOffset) : 'open';
+  const accommodations = attempt?.accommodations ?? user?.accommodations;
+  useExamAccessibility(accommodations);
+
+  // Tick while waiting for the window to open or close
+  useEffect(() => {
+    const timer = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(timer);
+  }, []);
+
+  const handleStart = () => {
+    if (attempt) {
+      navigate(`/exam-panel/${id}`);
+      return;
+    }
+
+    startMutation.mutate(undefined, {
+      onSuccess: () => navigate(`/exam-panel/${id}`),
+      onError: (error: Error & { response?: { data?: { message?: string } } }) => {
+        toast({
+          title: 'Cannot Start Exam',
+          description: error.response?.data?.message || 'Failed to start the exam. Please try again.',
+          variant: 'destructive',
+        });
+      },
+    });
+  };
+
+  if (isLoadingPaper || isLoadingAttempt) {
+    return (
+      <div className="flex items-center justify-center min-h-screen">
+        <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-gray-900"></div>
+      </div>
+    );
+  }
+
+  if (paperError || !paper) {
+    return (
+      <div className="p-6 max-w-4xl mx-auto space-y-4">
+        <Alert variant="destructive">
+          <AlertCircle className="h-4 w-4" />
+          <AlertTitle>Error</AlertTitle>
+          <AlertDescription>Failed to load exam paper. Please try again later.</AlertDescription>
+        </Alert>
+        <Button variant="outline" onClick={() => navigate('/exams')}>
+          <ArrowLeft className="w-4 h-4 mr-2" />
+          Back to Exams
+        </Button>
+      </div>
+    );
+  }
+
+  const proctoring = getProctoringSettings(paper);
+  const isEligible = isInAudience(paper.audience, user);
+  const canStart = !!attempt || (acknowledged && isEligible && status === 'open');
+  const extraMinutes = getExtraTimeMinutes(paper.duration, accommodations);
+  const accommodationLabels = describeAccommodations(accommodations);
+
+  return (
+    <div className="p-4 md:p-6">
+      <div className="max-w-4xl mx-auto space-y-6">
+        <Button variant="ghost" className="text-gray-600 hover:text-gray-900" onClick={() => navigate('/exams')}>
+          <ArrowLeft className="h-4 w-4 mr-2" />
+          Back to Exams
+        </Button>
+
+        <div>
+          <Badge variant="outline" className="mb-2">{paper.subject.name}</Badge>
+          <h1 className="text-3xl font-bold text-gray-900">{paper.title}</h1>
+          {paper.description && <p className="text-gray-600 mt-2">{paper.description}</p>}
+        </div>
+
+        <div className="grid grid-cols-2 lg:grid-cols-4 gap-4">
+          <Card>
+            <CardContent className="p-4">
+              <Clock className="h-5 w-5 text-blue-600 mb-2" />
+              <p className="text-sm text-gray-600">Duration</p>
+              <p className="text-xl font-bold">{getAdjustedDuration(paper.duration, accommodations)} min</p>
+              {extraMinutes > 0 && <p className="text-xs text-gray-500">Includes {extraMinutes} min extra time</p>}
+            </CardContent>
+          </Card>
+          <Card>
+            <CardContent className="p-4">
+              <Award className="h-5 w-5 text-green-600 mb-2" />
+              <p className="text-sm text-gray-600">Total Marks</p>
+              <p className="text-xl font-bold">{paper.totalMarks}</p>
+            </CardContent>
+          </Card>
+          <Card>
+            <CardContent className="p-4">
+              <Award className="h-5 w-5 text-orange-600 mb-2" />
+              <p className="text-sm text-gray-600">Passing Marks</p>
+              <p className="text-xl font-bold">{paper.passingMarks ?? '-'}</p>
+            </CardContent>
+          </Card>
+          <Card>
+            <CardContent className="p-4">
+              <FileText className="h-5 w-5 text-purple-600 mb-2" />
+              <p className="text-sm text-gray-600">Questions</p>
+              <p className="text-xl font-bold">{paper.questions.length}</p>
+            </CardContent>
+          </Card>
+        </div>
+
+        <Card>
+          <CardHeader>
+            <CardTitle>Instructions</CardTitle>
+            <CardDescription>Read these carefully before you start</CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            {paper.instructions?.trim()
+              ? <RichText content={paper.instructions} className="text-gray-700" />
+              : <p className="text-gray-500">No special instructions for this exam.</p>}
+
+            {paper.sections && paper.sections.length > 0 && (
+              <div className="space-y-2">
+                <h3 className="font-medium">Sections</h3>
+                <p className="text-sm text-gray-600">
+                  Sections are taken in order. You cannot return to a section once you move on.
+                </p>
+                <ul className="space-y-1 text-sm">
+                  {paper.sections.map((section, index) => (
+                    <li key={index} className="flex flex-wrap items-center gap-2">
+                      <span className="font-medium">{section.title}</span>
+                      <span className="text-gray-500">{section.questionCount} questions</span>
+                      {section.timeLimit && (
+                        <Badge variant="outline">
+                          {getAdjustedSectionTime(section.timeLimit, paper.duration, accommodations)} min
+                        </Badge>
+                      )}
+                      {section.attemptAny && <Badge variant="secondary">Attempt any {section.attemptAny}</Badge>}
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            )}
+
+            <ul className="list-disc list-inside space-y-1 text-sm text-gray-600">
+              <li>The timer starts when you press Start Exam and keeps running if you close the page</li>
+              <li>Your answers are saved automatically as you go</li>
+              {accommodationLabels.length > 0 && (
+                <li>Your accommodations apply automatically: {accommodationLabels.join(', ')}</li>
+              )}
+              {proctoring.enabled && <li>Switching tabs, leaving the window, copying and pasting are recorded</li>}
+              {proctoring.enabled && proctoring.requireFullscreen && (
+                <li>
+                  <Maximize className="inline h-3 w-3 mr-1" />
+                  The exam runs in fullscreen
+                </li>
+              )}
+            </ul>
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardContent className="py-6 space-y-6">
+            <div className="flex flex-wrap items-center justify-between gap-4">
+              <div className="space-y-1 text-sm text-gray-700">
+                {examWindow?.opensAt && (
+                  <div className="flex items-center gap-2">
+                    <Calendar className="h-4 w-4 text-gray-500" />
+                    Opens {format(examWindow.opensAt, 'PPp')}
+                  </div>
+                )}
+                {examWindow?.entryClosesAt && examWindow.entryClosesAt !== examWindow.closesAt && (
+                  <div className="flex items-center gap-2">
+                    <Clock className="h-4 w-4 text-gray-500" />
+                    Late entry until {format(examWindow.entryClosesAt, 'PPp')}
+                  </div>
+                )}
+                {examWindow?.closesAt && (
+                  <div className="flex items-center gap-2">
+                    <Clock className="h-4 w-4 text-gray-500" />
+                    Closes {format(examWindow.closesAt, 'PPp')}
+                  </div>
+                )}
+              </div>
+              {status === 'upcoming' && examWindow?.opensAt ? (
+                <Badge variant="outline" className="text-lg py-2 px-4">
+                  <Clock className="w-4 h-4 mr-2" />
+                  Starts in {formatCountdown(examWindow.opensAt - (now + serverOffset))}
+                </Badge>
+              ) : (
+                <Badge variant={status === 'open' ? 'default' : 'secondary'}>{EXAM_WINDOW_STATUS_LABELS[status]}</Badge>
+              )}
+            </div>
+
+            {!isEligible && !attempt && (
+              <Alert variant="destructive">
+                <AlertCircle className="h-4 w-4" />
+                <AlertTitle>Not available to you</AlertTitle>
+                <AlertDescription>This exam is for {formatAudience(paper.audience)}.</AlertDescription>
+              </Alert>
+            )}
+
+            {status === 'closed' && !attempt && (
+              <Alert variant="destructive">
+                <AlertCircle className="h-4 w-4" />
+                <AlertTitle>Exam closed</AlertTitle>
+                <AlertDescription>The window for starting this exam has passed.</AlertDescription>
+              </Alert>
+            )}
+
+            {attempt ? (
+              <p className="text-sm text-gray-600">
+                You started this exam on {format(new Date(attempt.startTime), 'PPp')}. Your timer is still running.
+              </p>
+            ) : (
+              <div className="flex items-start gap-3">
+                <Checkbox
+                  id="acknowledge"
+                  checked={acknowledged}
+                  onCheckedChange={(checked) => setAcknowledged(checked === true)}
+                />
+                <Label htmlFor="acknowledge" className="leading-snug">
+                  I have read and understood the instructions, and I am ready to start the exam.
+                </Label>
+              </div>
+            )}
+
+            <Button
+              className="w-full bg-gradient-to-r from-blue-600 to-blue-700 hover:from-blue-700 hover:to-blue-800"
+              onClick={handleStart}
+              disabled={!canStart || startMutation.isPending}
+            >
+              <Play className="h-4 w-4 mr-2" />
+              {attempt ? 'Resume Exam' : startMutation.isPending ? 'Starting...' : 'Start Exam'}
+            </Button>
+          </CardContent>
+        </Card>
+      </div>
+    </div>
+  );
+};
+
+export default ExamLobby;
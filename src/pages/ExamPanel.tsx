@@ -1,24 +1,68 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useMemo } from 'react';
 import { useParams, useNavigate } from 'react-router-dom';
-import { useQuery, useMutation, UseQueryOptions } from '@tanstack/react-query';
-import { getExamPaper, submitExam } from '@/lib/api';
+import { useQuery, useMutation, useQueryClient, UseQueryOptions } from '@tanstack/react-query';
+import { getExamPaper, getSubmissionDraft, submitExam } from '@/lib/api';
 import { useToast } from '@/hooks/use-toast';
+import { useExamAttempt, useExamTimer } from '@/hooks/use-exam-timer';
+import { useDraftAutosave } from '@/hooks/use-draft-autosave';
+import { useProctoring } from '@/hooks/use-proctoring';
+import { useExamPresence } from '@/hooks/use-exam-presence';
+import { useExamAnnouncements } from '@/hooks/use-exam-announcements';
+import { useExamSections } from '@/hooks/use-exam-sections';
+import { useExamAccessibility } from '@/hooks/use-exam-accessibility';
+import { useTimeWarnings } from '@/hooks/use-time-warnings';
 import { useAuthContext } from '@/lib/auth-context';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
-import { Textarea } from '@/components/ui/textarea';
-import { RadioGroup, RadioGroupItem } from '@/components/ui/radio-group';
-import { Label } from '@/components/ui/label';
 import { Progress } from '@/components/ui/progress';
-import { AlertCircle, Clock, CheckCircle, ArrowLeft, Send } from 'lucide-react';
+import { AlertCircle, Clock, CheckCircle, ArrowLeft, Send, Flag, ShieldAlert, Maximize, Layers, Lock } from 'lucide-react';
 import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog';
+import QuestionPalette from '@/components/exam/QuestionPalette';
+import SubmissionReview from '@/components/exam/SubmissionReview';
+import SaveStatusIndicator from '@/components/exam/SaveStatusIndicator';
+import AnnouncementBanner from '@/components/exam/AnnouncementBanner';
+import QuestionAnswerInput from '@/components/exam/QuestionAnswerInput';
+import RichText from '@/components/exam/RichText';
+import AttachmentGallery from '@/components/exam/AttachmentGallery';
+import { formatTimeLeft, getQuestionStatus } from '@/lib/exam-state';
+import { getProctoringSettings, ProctoringSettings } from '@/lib/proctoring';
+import { buildExamLayout, ShuffleSettings } from '@/lib/shuffle';
+import { formatAnswer, MatchPair, NumericAnswer, QuestionType } from '@/lib/question-types';
+import { QuestionAttachment } from '@/lib/attachments';
+import { CodeSettings } from '@/lib/code-questions';
+import { ExamSection } from '@/lib/sections';
+import { ExamWindowSource, getExamWindow } from '@/lib/exam-window';
+import { getAdjustedDuration, getExtraTimeMinutes } from '@/lib/accommodations';
+import { SubmissionReceipt } from '@/lib/receipt';
+import {
+  CLOCK_LEVEL_CLASSES,
+  getSubmitRetryDelay,
+  getTimingSettings,
+  isNetworkError,
+  TimingSettings,
+} from '@/lib/exam-timing';
 
 interface Question {
   _id: string;
-  type: 'mcq' | 'subjective';
+  type: QuestionType;
   question: string;
   options?: string[];
+  pairs?: MatchPair[];
+  numericAnswer?: NumericAnswer;
+  attachments?: QuestionAttachment[];
+  optionAttachments?: (QuestionAttachment | null)[];
+  codeSettings?: CodeSettings;
   marks: number;
 }
 
@@ -28,7 +72,7 @@ interface Answer {
   question: string;
 }
 
-interface ExamPaper {
+interface ExamPaper extends ShuffleSettings, ExamWindowSource {
   _id: string;
   title: string;
   description?: string;
@@ -41,18 +85,27 @@ interface ExamPaper {
   questions: Question[];
   isActive: boolean;
   isCompleted: boolean;
+  proctoring?: Partial<ProctoringSettings>;
+  timing?: Partial<TimingSettings>;
+  sections?: ExamSection[];
 }
 
 const ExamPanel = () => {
   const { id } = useParams();
   const navigate = useNavigate();
   const { toast } = useToast();
+  const queryClient = useQueryClient();
   const { user, token } = useAuthContext();
-  const [timeLeft, setTimeLeft] = useState<number>(0);
   const [currentQuestionIndex, setCurrentQuestionIndex] = useState(0);
   const [answers, setAnswers] = useState<Answer[]>([]);
+  const [flagged, setFlagged] = useState<number[]>([]);
+  const [visited, setVisited] = useState<number[]>([0]);
+  const [isReviewing, setIsReviewing] = useState(false);
   const [isSubmitting, setIsSubmitting] = useState(false);
-  const [startTime] = useState<Date>(new Date());
+  const [isDraftRestored, setIsDraftRestored] = useState(false);
+  const [isConfirmingSection, setIsConfirmingSection] = useState(false);
+  // Set when the clock runs out; answers are locked from then on
+  const [isTimeUp, setIsTimeUp] = useState(false);
 
   // Redirect if not authenticated
   useEffect(() => {
@@ -69,13 +122,65 @@ const ExamPanel = () => {
     retry: 1,
   };
 
-  const { data: examPaper, isLoading, error } = useQuery<ExamPaper, Error>(queryOptions);
+  const { data: examPaper, isLoading: isLoadingPaper, error: paperError } = useQuery<ExamPaper, Error>(queryOptions);
+
+  // Resume the attempt started from the lobby; the server owns the start time
+  const {
+    data: attempt,
+    isLoading: isLoadingAttempt,
+    error: attemptError
+  } = useExamAttempt(id, !!token && !!examPaper);
+
+  const isLoading = isLoadingPaper || isLoadingAttempt;
+  const error = paperError || attemptError;
+
+  // The exam starts in the lobby, after the instructions are acknowledged
+  useEffect(() => {
+    if (attempt === null) {
+      navigate(`/exam-lobby/${id}`, { replace: true });
+    }
+  }, [attempt, id, navigate]);
+
+  // Per-student question and option order. currentQuestionIndex, flagged and
+  // visited are display positions; answers always use the canonical index.
+  const layout = useMemo(
+    () => examPaper ? buildExamLayout(examPaper, user?._id || '') : null,
+    [examPaper, user?._id]
+  );
+  const toCanonical = (position: number) => layout?.questionOrder[position] ?? position;
+  const toPosition = (index: number) => {
+    const position = layout?.questionOrder.indexOf(index) ?? index;
+    return position === -1 ? index : position;
+  };
+
+  // Server-side draft, used when resuming on another browser or device
+  const { data: serverDraft, isFetched: isDraftFetched } = useQuery({
+    queryKey: ['submissionDraft', id],
+    queryFn: () => getSubmissionDraft(id!),
+    enabled: !!attempt,
+    staleTime: Infinity,
+    gcTime: 0,
+    retry: false,
+  });
+
+  const { status: saveStatus, lastSavedAt, clearDraft, flush: flushDraft } = useDraftAutosave({
+    examPaperId: examPaper?._id,
+    answers,
+    flagged,
+    enabled: isDraftRestored && !isSubmitting,
+  });
 
   // Handle query errors
   useEffect(() => {
     if (error) {
       if ((error as any).response?.status === 401) {
         navigate('/login', { state: { from: `/exam-panel/${id}` } });
+      } else if ((error as any).response?.data?.message === 'You have already submitted this exam') {
+        toast({
+          title: 'Already Submitted',
+          description: 'You have already submitted this exam.',
+        });
+        navigate('/dashboard');
       } else {
         toast({
           title: 'Error',
@@ -87,10 +192,13 @@ const ExamPanel = () => {
     }
   }, [error, navigate, id, toast]);
 
-  // Submit exam mutation
+  // Submit exam mutation. Requests that never reach the server keep retrying
+  // (and pause while offline), so the attempt cannot be left open.
   const submitMutation = useMutation({
     mutationFn: submitExam,
-    onSuccess: () => {
+    retry: (_failureCount, error: { response?: unknown }) => isNetworkError(error),
+    retryDelay: getSubmitRetryDelay,
+    onSuccess: (data: { submission?: { _id: string }; receipt?: SubmissionReceipt }) => {
       toast({
         title: 'Success',
         description: 'Exam submitted successfully!',
@@ -98,9 +206,19 @@ const ExamPanel = () => {
       // Clear local storage
       localStorage.removeItem(`exam_${id}_answers`);
       localStorage.removeItem(`exam_${id}_questionIndex`);
-      localStorage.removeItem(`exam_${id}_timeLeft`);
-      localStorage.removeItem(`exam_${id}_startTime`);
-      navigate('/dashboard');
+      localStorage.removeItem(`exam_${id}_flagged`);
+      localStorage.removeItem(`exam_${id}_visited`);
+      localStorage.removeItem(`exam_${id}_updatedAt`);
+      localStorage.removeItem(`exam_${id}_violations`);
+      localStorage.removeItem(`exam_${id}_announcementsSeen`);
+      clearDraft();
+      // Show the receipt the server issued for this submission
+      if (data?.receipt) {
+        queryClient.setQueryData(['submissionReceipt', data.receipt.submissionId], data.receipt);
+        navigate(`/submissions/${data.receipt.submissionId}/receipt`, { replace: true });
+      } else {
+        navigate('/dashboard');
+      }
     },
     onError: (error: any) => {
       setIsSubmitting(false);
@@ -125,39 +243,128 @@ const ExamPanel = () => {
     },
   });
 
-  // Timer effect
+  // Accommodations are copied onto the attempt when it starts; the profile
+  // is only a fallback for attempts started before they were recorded
+  const accommodations = attempt?.accommodations ?? user?.accommodations;
+  const extraMinutes = examPaper ? getExtraTimeMinutes(examPaper.duration, accommodations) : 0;
+  const windowClosesAt = examPaper ? getExamWindow(examPaper).closesAt : null;
+  useExamAccessibility(accommodations);
+
+  // Timer derived from the server-recorded attempt start. Reloads, closed
+  // tabs and device switches all resume against the same deadline. Extra
+  // time also pushes back the window close for this student.
+  const { timeLeft, deadline } = useExamTimer({
+    startTime: attempt?.startTime,
+    durationMinutes: examPaper ? getAdjustedDuration(examPaper.duration, accommodations) : undefined,
+    serverOffset: attempt?.serverOffset,
+    closesAt: windowClosesAt !== null ? windowClosesAt + extraMinutes * 60 * 1000 : null,
+    onExpire: () => handleTimeUp(),
+  });
+
+  const timing = useMemo(() => getTimingSettings(examPaper ?? undefined), [examPaper]);
+  const clockLevel = useTimeWarnings(timeLeft, timing.warnings, (minutes) => {
+    toast({
+      title: `${minutes} ${minutes === 1 ? 'minute' : 'minutes'} left`,
+      description: 'Your exam will be submitted automatically when the time is up.',
+      variant: minutes === Math.min(...timing.warnings) ? 'destructive' : 'default',
+    });
+  });
+
+  // Screen readers hear the remaining time every five minutes
+  const [timeAnnouncement, setTimeAnnouncement] = useState('');
   useEffect(() => {
-    if (examPaper?.duration) {
-      const duration = examPaper.duration * 60; // Convert to seconds
-      setTimeLeft(duration);
-
-      const timer = setInterval(() => {
-        setTimeLeft((prev) => {
-          if (prev <= 1) {
-            clearInterval(timer);
-            handleSubmit(); // Auto-submit when time's up
-            return 0;
-          }
-          return prev - 1;
-        });
-      }, 1000);
+    if (!accommodations?.screenReader || !timeLeft || timeLeft % 300 !== 0) return;
+    setTimeAnnouncement(`${timeLeft / 60} minutes remaining`);
+  }, [accommodations?.screenReader, timeLeft]);
+
+  // Sectioned papers: one section at a time, each with its own clock
+  const {
+    ranges: sectionRanges,
+    isSectioned,
+    currentSection,
+    currentRange,
+    isLastSection,
+    sectionTimeLeft,
+    isSectionExpired,
+    canAccess,
+    advance,
+    isAdvancing,
+  } = useExamSections({
+    examPaperId: examPaper?._id,
+    sections: examPaper?.sections,
+    questionCount: examPaper?.questions.length || 0,
+    duration: examPaper?.duration,
+    attempt: attempt ?? undefined,
+    onSectionExpire: (sectionIndex, isLast) => {
+      if (isLast) {
+        handleTimeUp();
+        return;
+      }
+      toast({
+        title: 'Section time is up',
+        description: `${examPaper?.sections?.[sectionIndex]?.title || 'This section'} is now locked.`,
+        variant: 'destructive',
+      });
+      goToNextSection();
+    },
+  });
+
+  // Integrity signals: tab switches, focus loss, fullscreen exits, copy/paste
+  const proctoringSettings = getProctoringSettings(examPaper);
+  const { violations, isFullscreen, enterFullscreen } = useProctoring({
+    examPaperId: examPaper?._id,
+    studentId: user?._id,
+    settings: proctoringSettings,
+    enabled: !!attempt && !isSubmitting,
+    getQuestionIndex: () => toCanonical(currentQuestionIndex),
+    onWarning: (count) => {
+      toast({
+        title: 'Warning: you left the exam',
+        description: proctoringSettings.autoSubmitAfter > 0
+          ? `This has been recorded (${count} of ${proctoringSettings.autoSubmitAfter}). Your exam will be submitted automatically if it continues.`
+          : `This has been recorded (${count} times) and will be visible to your faculty.`,
+        variant: 'destructive',
+      });
+    },
+    onLimitReached: () => {
+      toast({
+        title: 'Exam submitted',
+        description: 'You left the exam window too many times. Your answers have been submitted.',
+        variant: 'destructive',
+      });
+      submitAnswers({ autoSubmitted: true });
+    },
+  });
 
-      // Save timer state to localStorage
-      localStorage.setItem(`exam_${id}_timeLeft`, duration.toString());
-      localStorage.setItem(`exam_${id}_startTime`, startTime.toISOString());
+  // Let invigilators follow this attempt live
+  useExamPresence({
+    examPaperId: examPaper?._id,
+    studentId: user?._id,
+    answeredCount: answers.filter(a => a.selectedOption?.trim() !== '').length,
+    questionCount: examPaper?.questions.length || 0,
+    currentQuestionIndex: toCanonical(currentQuestionIndex),
+    deadline,
+    enabled: !!attempt && !isSubmitting,
+  });
 
-      return () => {
-        clearInterval(timer);
-        localStorage.removeItem(`exam_${id}_timeLeft`);
-        localStorage.removeItem(`exam_${id}_startTime`);
-      };
-    }
-  }, [examPaper]);
+  // Clarifications from faculty; stored ones are shown again on resume
+  const { announcements, unreadCount, markAllRead } = useExamAnnouncements({
+    examPaperId: examPaper?._id,
+    enabled: !!attempt,
+    onAnnouncement: (announcement) => {
+      toast({
+        title: 'New announcement',
+        description: announcement.message,
+      });
+    },
+  });
 
   // Restore exam state from localStorage
   useEffect(() => {
     const savedAnswers = localStorage.getItem(`exam_${id}_answers`);
     const savedQuestionIndex = localStorage.getItem(`exam_${id}_questionIndex`);
+    const savedFlagged = localStorage.getItem(`exam_${id}_flagged`);
+    const savedVisited = localStorage.getItem(`exam_${id}_visited`);
     
     if (savedAnswers) {
       setAnswers(JSON.parse(savedAnswers));
@@ -165,70 +372,157 @@ const ExamPanel = () => {
     if (savedQuestionIndex) {
       setCurrentQuestionIndex(parseInt(savedQuestionIndex));
     }
+    if (savedFlagged) {
+      setFlagged(JSON.parse(savedFlagged));
+    }
+    if (savedVisited) {
+      setVisited(JSON.parse(savedVisited));
+    }
   }, [id]);
 
   // Save exam state to localStorage
   useEffect(() => {
     localStorage.setItem(`exam_${id}_answers`, JSON.stringify(answers));
     localStorage.setItem(`exam_${id}_questionIndex`, currentQuestionIndex.toString());
-  }, [answers, currentQuestionIndex, id]);
-
-  // Format time left
-  const formatTime = (seconds: number) => {
-    const hrs = Math.floor(seconds / 3600);
-    const mins = Math.floor((seconds % 3600) / 60);
-    const secs = seconds % 60;
-    return `${hrs.toString().padStart(2, '0')}:${mins.toString().padStart(2, '0')}:${secs.toString().padStart(2, '0')}`;
+    localStorage.setItem(`exam_${id}_flagged`, JSON.stringify(flagged));
+    localStorage.setItem(`exam_${id}_visited`, JSON.stringify(visited));
+  }, [answers, currentQuestionIndex, flagged, visited, id]);
+
+  // Prefer the server draft when it is newer than what this browser has.
+  // Autosave stays off until this has run so an empty local state never
+  // overwrites the server copy.
+  useEffect(() => {
+    if (!isDraftFetched || isDraftRestored || !examPaper) {
+      return;
+    }
+
+    const localUpdatedAt = localStorage.getItem(`exam_${id}_updatedAt`);
+    const isServerNewer = serverDraft?.updatedAt && (
+      !localUpdatedAt || new Date(serverDraft.updatedAt) > new Date(localUpdatedAt)
+    );
+
+    if (isServerNewer) {
+      setAnswers((serverDraft.answers || []).map((answer: { questionIndex: number; selectedOption: string }) => ({
+        questionIndex: answer.questionIndex,
+        selectedOption: answer.selectedOption,
+        question: examPaper.questions[answer.questionIndex]?._id
+      })));
+      setFlagged(serverDraft.flagged || []);
+      localStorage.setItem(`exam_${id}_updatedAt`, serverDraft.updatedAt);
+    }
+    setIsDraftRestored(true);
+  }, [isDraftFetched, isDraftRestored, serverDraft, examPaper, id]);
+
+  // Keep the student inside the section in progress, e.g. after a reload
+  // restores a position from a section that has since been locked
+  useEffect(() => {
+    if (isSectioned && attempt && currentRange &&
+      (currentQuestionIndex < currentRange.start || currentQuestionIndex >= currentRange.end)) {
+      setCurrentQuestionIndex(currentRange.start);
+    }
+  }, [isSectioned, attempt, currentRange, currentQuestionIndex]);
+
+  // Track every question the student has opened
+  useEffect(() => {
+    setVisited(prev => prev.includes(currentQuestionIndex) ? prev : [...prev, currentQuestionIndex]);
+  }, [currentQuestionIndex]);
+
+  const markLocalChange = () => {
+    localStorage.setItem(`exam_${id}_updatedAt`, new Date().toISOString());
   };
 
   // Handle answer changes
   const handleAnswerChange = (answer: string) => {
-    const existingAnswerIndex = answers.findIndex(a => a.questionIndex === currentQuestionIndex);
+    if (isTimeUp || isSubmitting) {
+      return;
+    }
+    markLocalChange();
+    const questionIndex = toCanonical(currentQuestionIndex);
+    const existingAnswerIndex = answers.findIndex(a => a.questionIndex === questionIndex);
     
     if (existingAnswerIndex !== -1) {
       const newAnswers = [...answers];
       newAnswers[existingAnswerIndex] = {
-        questionIndex: currentQuestionIndex,
+        questionIndex,
         selectedOption: answer,
-        question: examPaper.questions[currentQuestionIndex]._id
+        question: examPaper.questions[questionIndex]._id
       };
       setAnswers(newAnswers);
     } else {
       setAnswers([...answers, { 
-        questionIndex: currentQuestionIndex,
+        questionIndex,
         selectedOption: answer,
-        question: examPaper.questions[currentQuestionIndex]._id
+        question: examPaper.questions[questionIndex]._id
       }]);
     }
   };
 
+  const getAnswer = (position: number) =>
+    answers.find(a => a.questionIndex === toCanonical(position))?.selectedOption || '';
+
+  const isAnswered = (position: number) => getAnswer(position).trim() !== '';
+
+  const getStatus = (index: number) =>
+    getQuestionStatus(index, { answered: isAnswered(index), flagged, visited });
+
+  const toggleFlag = (index: number) => {
+    markLocalChange();
+    setFlagged(prev => prev.includes(index) ? prev.filter(i => i !== index) : [...prev, index]);
+  };
+
   // Navigate between questions
+  const handleJumpTo = (index: number) => {
+    if (!canAccess(index)) {
+      toast({
+        title: 'Question locked',
+        description: 'You can only open questions in the current section.',
+        variant: 'destructive',
+      });
+      return;
+    }
+    setCurrentQuestionIndex(index);
+    setIsReviewing(false);
+  };
+
   const handleNext = () => {
-    if (currentQuestionIndex < examPaper.questions.length - 1) {
+    if (currentQuestionIndex < currentRange.end - 1) {
       setCurrentQuestionIndex(prev => prev + 1);
     }
   };
 
   const handlePrevious = () => {
-    if (currentQuestionIndex > 0) {
+    if (currentQuestionIndex > currentRange.start) {
       setCurrentQuestionIndex(prev => prev - 1);
     }
   };
 
-  // Submit exam
-  const handleSubmit = async () => {
-    if (isSubmitting) {
-      return; // Prevent multiple submissions
-    }
-
-    if (!user || !examPaper) {
-      navigate('/login', { state: { from: `/exam-panel/${id}` } });
-      return;
-    }
+  // Lock the current section and open the next one
+  const goToNextSection = () => {
+    const nextRange = sectionRanges[currentSection + 1];
+    if (!nextRange) return;
+
+    setIsConfirmingSection(false);
+    advance(undefined, {
+      onSuccess: () => {
+        setIsReviewing(false);
+        setCurrentQuestionIndex(nextRange.start);
+      },
+      onError: (error: Error & { response?: { data?: { message?: string } } }) => {
+        toast({
+          title: 'Error',
+          description: error.response?.data?.message || 'Failed to move to the next section. Please try again.',
+          variant: 'destructive',
+        });
+      },
+    });
+  };
 
-    if (answers.length < examPaper.questions.length) {
-      const confirmed = window.confirm('You have unanswered questions. Are you sure you want to submit?');
-      if (!confirmed) return;
+  // Send the answers to the server. Auto-submit on timeout calls this
+  // directly and skips the review step. The flag is passed in because callers
+  // that waited (handleTimeUp) hold state from before time ran out.
+  const submitAnswers = ({ autoSubmitted = false } = {}) => {
+    if (isSubmitting || !examPaper || !attempt) {
+      return; // Prevent multiple submissions
     }
 
     setIsSubmitting(true);
@@ -238,13 +532,44 @@ const ExamPanel = () => {
         questionIndex: answer.questionIndex,
         selectedOption: answer.selectedOption
       })),
-      startTime: startTime.toISOString(),
-      endTime: new Date().toISOString(),
-      isSubmitted: true
+      startTime: attempt.startTime,
+      endTime: new Date(Date.now() + attempt.serverOffset).toISOString(),
+      isSubmitted: true,
+      autoSubmitted
     });
   };
 
-  if (isLoading) {
+  // Time is up: lock the answers, give saves already on their way a short
+  // grace window to land, then submit
+  const handleTimeUp = async () => {
+    if (isTimeUp || isSubmitting) {
+      return;
+    }
+
+    setIsTimeUp(true);
+    setIsReviewing(false);
+    await Promise.race([
+      flushDraft(),
+      new Promise(resolve => setTimeout(resolve, timing.gracePeriod * 1000)),
+    ]);
+    submitAnswers({ autoSubmitted: true });
+  };
+
+  // Submit exam: the student confirms from the review step
+  const handleSubmit = async () => {
+    if (isSubmitting || isTimeUp) {
+      return; // Prevent multiple submissions
+    }
+
+    if (!user || !examPaper) {
+      navigate('/login', { state: { from: `/exam-panel/${id}` } });
+      return;
+    }
+
+    setIsReviewing(true);
+  };
+
+  if (isLoading || attempt === null) {
     return (
       <div className="flex items-center justify-center min-h-screen">
         <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-gray-900"></div>
@@ -276,13 +601,34 @@ const ExamPanel = () => {
     );
   }
 
-  const currentQuestion = examPaper.questions[currentQuestionIndex];
-  const progress = (answers.length / examPaper.questions.length) * 100;
-  const isLastQuestion = currentQuestionIndex === examPaper.questions.length - 1;
+  const orderedQuestions = layout!.questionOrder.map(index => examPaper.questions[index]);
+  const currentQuestion = orderedQuestions[currentQuestionIndex];
+  const currentOptionOrder = layout!.optionOrders[toCanonical(currentQuestionIndex)];
+  const currentOptions = currentOptionOrder.map(index => currentQuestion.options![index]);
+  const currentOptionAttachments = currentOptionOrder.map(index => currentQuestion.optionAttachments?.[index] || null);
+  // Announcements reference canonical indices; show them as the student sees them
+  const displayedAnnouncements = announcements.map(announcement =>
+    typeof announcement.questionIndex === 'number'
+      ? { ...announcement, questionIndex: toPosition(announcement.questionIndex) }
+      : announcement
+  );
+  const answeredCount = examPaper.questions.filter((_, index) => isAnswered(index)).length;
+  const progress = (answeredCount / examPaper.questions.length) * 100;
+  const isLastInSection = currentQuestionIndex === currentRange.end - 1;
+  const sectionAnsweredCount = Array.from(
+    { length: currentRange.end - currentRange.start },
+    (_, offset) => currentRange.start + offset
+  ).filter(isAnswered).length;
+  const isFlagged = flagged.includes(currentQuestionIndex);
+  const showViolationWarning = proctoringSettings.enabled &&
+    proctoringSettings.warnAfter > 0 &&
+    violations >= proctoringSettings.warnAfter;
+  // One column, with the palette after the question, reads in a sensible order
+  const isScreenReaderLayout = !!accommodations?.screenReader;
 
   return (
     <div className="min-h-screen bg-gradient-to-br from-gray-50 to-gray-100 p-4 md:p-6">
-      <div className="max-w-4xl mx-auto space-y-6">
+      <div className="max-w-6xl mx-auto space-y-6">
         {/* Header */}
         <div className="flex items-center justify-between">
           <div>
@@ -292,103 +638,296 @@ const ExamPanel = () => {
             </p>
           </div>
           <div className="flex items-center gap-4">
-            <Badge variant="outline" className="text-lg py-2 px-4">
+            {violations > 0 && (
+              <Badge variant="outline" className="py-2 px-3 bg-red-50 text-red-700 border-red-300">
+                <ShieldAlert className="w-4 h-4 mr-2" />
+                {violations} {violations === 1 ? 'violation' : 'violations'}
+              </Badge>
+            )}
+            <SaveStatusIndicator status={saveStatus} lastSavedAt={lastSavedAt} />
+            {sectionTimeLeft !== null && (
+              <Badge variant="outline" className="py-2 px-3 bg-blue-50 text-blue-700 border-blue-300">
+                <Layers className="w-4 h-4 mr-2" />
+                Section: {formatTimeLeft(sectionTimeLeft)}
+              </Badge>
+            )}
+            <Badge
+              variant="outline"
+              className={`text-lg py-2 px-4 ${CLOCK_LEVEL_CLASSES[clockLevel]}`}
+              role="timer"
+              aria-label="Time remaining"
+            >
               <Clock className="w-4 h-4 mr-2" />
-              {formatTime(timeLeft)}
+              {formatTimeLeft(timeLeft ?? getAdjustedDuration(examPaper.duration, accommodations) * 60)}
             </Badge>
           </div>
         </div>
+        {isScreenReaderLayout && (
+          <div className="sr-only" aria-live="polite">{timeAnnouncement}</div>
+        )}
+
+        {(isTimeUp || submitMutation.isPaused || submitMutation.failureCount > 0) && (
+          <Alert variant={submitMutation.failureCount > 0 ? 'destructive' : 'default'}>
+            <Lock className="h-4 w-4" />
+            <AlertTitle>{isTimeUp ? 'Time is up' : 'Submitting your exam'}</AlertTitle>
+            <AlertDescription className="flex flex-col sm:flex-row sm:items-center justify-between gap-2">
+              <span>
+                {submitMutation.isPaused || submitMutation.failureCount > 0
+                  ? 'Your answers are locked. The network is unavailable, so the submission keeps retrying. Keep this page open.'
+                  : isSubmitting
+                    ? 'Your answers are locked and being submitted.'
+                    : isTimeUp && submitMutation.isError
+                      ? 'Your answers are locked, but the submission failed.'
+                      : 'Your answers are locked. Saving your last changes...'}
+              </span>
+              {isTimeUp && !isSubmitting && submitMutation.isError && (
+                <Button size="sm" variant="outline" onClick={() => submitAnswers({ autoSubmitted: true })}>
+                  Try Again
+                </Button>
+              )}
+            </AlertDescription>
+          </Alert>
+        )}
 
-        {/* Progress */}
-        <Card className="bg-white shadow-sm">
-          <CardContent className="py-4">
-            <div className="flex items-center justify-between mb-2">
-              <span className="text-sm text-gray-600">Progress</span>
-              <span className="text-sm font-medium">{Math.round(progress)}%</span>
-            </div>
-            <Progress value={progress} className="h-2" />
-          </CardContent>
-        </Card>
-
-        {/* Question Card */}
-        <Card className="bg-white shadow-lg">
-          <CardHeader>
-            <div className="flex items-center justify-between">
-              <Badge variant="outline">
-                Question {currentQuestionIndex + 1} of {examPaper.questions.length}
-              </Badge>
-              <Badge variant="secondary">
-                Marks: {currentQuestion.marks}
-              </Badge>
-            </div>
-            <CardTitle className="text-lg mt-4">{currentQuestion.question}</CardTitle>
-          </CardHeader>
-          <CardContent className="space-y-4">
-            {currentQuestion.type === 'mcq' ? (
-              <RadioGroup
-                value={answers.find(a => a.questionIndex === currentQuestionIndex)?.selectedOption || ''}
-                onValueChange={handleAnswerChange}
+        <AnnouncementBanner
+          announcements={displayedAnnouncements}
+          unreadCount={unreadCount}
+          onMarkRead={markAllRead}
+          onJumpToQuestion={handleJumpTo}
+        />
+
+        {proctoringSettings.enabled && proctoringSettings.requireFullscreen && !isFullscreen && (
+          <Alert variant="destructive">
+            <Maximize className="h-4 w-4" />
+            <AlertTitle>Fullscreen required</AlertTitle>
+            <AlertDescription className="flex flex-col sm:flex-row sm:items-center justify-between gap-2">
+              <span>This exam must be taken in fullscreen. Leaving fullscreen is recorded.</span>
+              <Button size="sm" variant="outline" onClick={enterFullscreen}>
+                Enter Fullscreen
+              </Button>
+            </AlertDescription>
+          </Alert>
+        )}
+
+        {showViolationWarning && (
+          <Alert variant="destructive">
+            <ShieldAlert className="h-4 w-4" />
+            <AlertTitle>Integrity warning</AlertTitle>
+            <AlertDescription>
+              You have left the exam window {violations} times. Every switch is recorded and shared with your faculty.
+              {proctoringSettings.autoSubmitAfter > 0 &&
+                ` Your exam will be submitted automatically after ${proctoringSettings.autoSubmitAfter}.`}
+            </AlertDescription>
+          </Alert>
+        )}
+
+        <div className={isScreenReaderLayout ? 'grid gap-6' : 'grid gap-6 lg:grid-cols-[1fr,280px]'}>
+          {isReviewing ? (
+            <SubmissionReview
+              questions={orderedQuestions}
+              getAnswerPreview={(position) => formatAnswer(orderedQuestions[position], getAnswer(position))}
+              flagged={flagged}
+              isSubmitting={isSubmitting}
+              onJumpTo={handleJumpTo}
+              onBack={() => setIsReviewing(false)}
+              onConfirm={() => submitAnswers()}
+            />
+          ) : (
+            <div className="space-y-6">
+              {/* Progress */}
+              <Card className="bg-white shadow-sm">
+                <CardContent className="py-4">
+                  <div className="flex items-center justify-between mb-2">
+                    <span className="text-sm text-gray-600">Progress</span>
+                    <span className="text-sm font-medium">{Math.round(progress)}%</span>
+                  </div>
+                  <Progress value={progress} className="h-2" />
+                </CardContent>
+              </Card>
+
+              {/* Section */}
+              {isSectioned && (
+                <Card className="bg-white shadow-sm">
+                  <CardHeader>
+                    <div className="flex flex-wrap items-center justify-between gap-2">
+                      <CardTitle className="text-lg">
+                        Section {currentSection + 1} of {sectionRanges.length}: {currentRange.section.title}
+                      </CardTitle>
+                      {currentRange.section.attemptAny ? (
+                        <Badge variant="secondary">
+                          Attempt any {currentRange.section.attemptAny} • {sectionAnsweredCount} answered
+                        </Badge>
+                      ) : null}
+                    </div>
+                    {currentRange.section.instructions && (
+                      <RichText content={currentRange.section.instructions} className="text-sm text-gray-600" />
+                    )}
+                  </CardHeader>
+                  {currentRange.section.attemptAny ? (
+                    <CardContent className="pt-0 text-sm text-gray-500">
+                      If you answer more than {currentRange.section.attemptAny}, your best answers are counted.
+                    </CardContent>
+                  ) : null}
+                </Card>
+              )}
+
+              {isSectionExpired && !isLastSection && (
+                <Alert variant="destructive">
+                  <AlertCircle className="h-4 w-4" />
+                  <AlertTitle>Section time is up</AlertTitle>
+                  <AlertDescription className="flex flex-wrap items-center justify-between gap-2">
+                    <span>This section is locked. Continue to the next section.</span>
+                    <Button size="sm" onClick={goToNextSection} disabled={isAdvancing}>
+                      {isAdvancing ? 'Moving...' : 'Continue to next section'}
+                    </Button>
+                  </AlertDescription>
+                </Alert>
+              )}
+
+              {/* Question Card */}
+              <Card
+                className="bg-white shadow-lg"
+                role="region"
+                aria-label={`Question ${currentQuestionIndex + 1} of ${examPaper.questions.length}`}
               >
-                {currentQuestion.options?.map((option, index) => (
-                  <div key={index} className="flex items-center space-x-2">
-                    <RadioGroupItem value={option} id={`option-${index}`} />
-                    <Label htmlFor={`option-${index}`}>{option}</Label>
+                <CardHeader>
+                  <div className="flex items-center justify-between">
+                    <Badge variant="outline">
+                      Question {currentQuestionIndex + 1} of {examPaper.questions.length}
+                    </Badge>
+                    <div className="flex items-center gap-2">
+                      {isFlagged && (
+                        <Badge variant="outline" className="bg-purple-50 text-purple-700 border-purple-300">
+                          <Flag className="w-3 h-3 mr-1" />
+                          Marked for review
+                        </Badge>
+                      )}
+                      <Badge variant="secondary">
+                        Marks: {currentQuestion.marks}
+                      </Badge>
+                    </div>
                   </div>
-                ))}
-              </RadioGroup>
-            ) : (
-              <Textarea
-                value={answers.find(a => a.questionIndex === currentQuestionIndex)?.selectedOption || ''}
-                onChange={(e) => handleAnswerChange(e.target.value)}
-                placeholder="Type your answer here..."
-                className="min-h-[200px]"
-              />
-            )}
-          </CardContent>
-        </Card>
-
-        {/* Navigation */}
-        <div className="flex justify-between items-center">
-          <Button
-            variant="outline"
-            onClick={handlePrevious}
-            disabled={currentQuestionIndex === 0}
-          >
-            <ArrowLeft className="w-4 h-4 mr-2" />
-            Previous
-          </Button>
+                  <RichText content={currentQuestion.question} className="mt-4 text-base text-gray-900" />
+                  <AttachmentGallery attachments={currentQuestion.attachments} className="mt-4" />
+                </CardHeader>
+                <CardContent className="space-y-4">
+                  <fieldset disabled={isTimeUp || isSubmitting} className="space-y-4">
+                    <QuestionAnswerInput
+                      key={currentQuestionIndex}
+                      question={currentQuestion}
+                      options={currentOptions}
+                      optionAttachments={currentOptionAttachments}
+                      value={getAnswer(currentQuestionIndex)}
+                      onChange={handleAnswerChange}
+                    />
+                  </fieldset>
+                </CardContent>
+              </Card>
+
+              {/* Navigation */}
+              <div className="flex justify-between items-center">
+                <Button
+                  variant="outline"
+                  onClick={handlePrevious}
+                  disabled={currentQuestionIndex === currentRange.start}
+                >
+                  <ArrowLeft className="w-4 h-4 mr-2" />
+                  Previous
+                </Button>
           
-          <div className="flex gap-2">
-            {isLastQuestion ? (
+                <div className="flex gap-2">
+                  <Button
+                    variant="outline"
+                    onClick={() => toggleFlag(currentQuestionIndex)}
+                    className={isFlagged ? 'bg-purple-50 border-purple-300 text-purple-700 hover:bg-purple-100' : ''}
+                  >
+                    <Flag className="w-4 h-4 mr-2" />
+                    {isFlagged ? 'Unmark Review' : 'Mark for Review'}
+                  </Button>
+                  {isLastInSection && !isLastSection ? (
+                    <Button onClick={() => setIsConfirmingSection(true)} disabled={isAdvancing}>
+                      Finish Section
+                      <ArrowLeft className="w-4 h-4 ml-2 rotate-180" />
+                    </Button>
+                  ) : isLastInSection ? (
+                    <Button
+                      onClick={handleSubmit}
+                      disabled={isSubmitting || isTimeUp}
+                      className="bg-green-600 hover:bg-green-700"
+                    >
+                      <Send className="w-4 h-4 mr-2" />
+                      {isSubmitting ? 'Submitting...' : 'Submit Exam'}
+                    </Button>
+                  ) : (
+                    <Button onClick={handleNext}>
+                      Next
+                      <ArrowLeft className="w-4 h-4 ml-2 rotate-180" />
+                    </Button>
+                  )}
+                </div>
+              </div>
+
+              <AlertDialog open={isConfirmingSection} onOpenChange={setIsConfirmingSection}>
+                <AlertDialogContent>
+                  <AlertDialogHeader>
+                    <AlertDialogTitle>Finish {currentRange.section.title}?</AlertDialogTitle>
+                    <AlertDialogDescription>
+                      You have answered {sectionAnsweredCount} of {currentRange.end - currentRange.start} questions
+                      in this section. Once you move on you cannot come back to it.
+                    </AlertDialogDescription>
+                  </AlertDialogHeader>
+                  <AlertDialogFooter>
+                    <AlertDialogCancel>Stay</AlertDialogCancel>
+                    <AlertDialogAction onClick={goToNextSection}>Next Section</AlertDialogAction>
+                  </AlertDialogFooter>
+                </AlertDialogContent>
+              </AlertDialog>
+
+              {/* Instructions Alert */}
+              <Alert>
+                <AlertCircle className="h-4 w-4" />
+                <AlertTitle>Important Notes</AlertTitle>
+                <AlertDescription>
+                  <ul className="list-disc list-inside space-y-1 mt-2">
+                    <li>Your answers are saved automatically, and kept on this device if the network drops</li>
+                    <li>The timer keeps running if you reload or close this page</li>
+                    <li>
+                      The exam will auto-submit when the timer reaches zero
+                      {timing.warnings.length > 0 && `; you are warned at ${timing.warnings.join(', ')} minutes left`}
+                    </li>
+                    <li>Switching tabs, leaving the window, copying and pasting are recorded</li>
+                    <li>You can review and change your answers before final submission</li>
+                  </ul>
+                </AlertDescription>
+              </Alert>
+            </div>
+          )}
+
+          {/* Question Palette */}
+          <div className={isScreenReaderLayout ? 'space-y-4' : 'space-y-4 lg:sticky lg:top-4 self-start'}>
+            <QuestionPalette
+              questionCount={examPaper.questions.length}
+              currentIndex={currentQuestionIndex}
+              getStatus={getStatus}
+              isAnswered={isAnswered}
+              onSelect={handleJumpTo}
+              sections={isSectioned
+                ? sectionRanges.map(range => ({ title: range.section.title, start: range.start, end: range.end }))
+                : undefined}
+              isLocked={(index) => !canAccess(index)}
+            />
+            {!isReviewing && (
               <Button
                 onClick={handleSubmit}
-                disabled={isSubmitting}
-                className="bg-green-600 hover:bg-green-700"
+                disabled={isSubmitting || isTimeUp}
+                className="w-full bg-green-600 hover:bg-green-700"
               >
                 <Send className="w-4 h-4 mr-2" />
-                {isSubmitting ? 'Submitting...' : 'Submit Exam'}
-              </Button>
-            ) : (
-              <Button onClick={handleNext}>
-                Next
-                <ArrowLeft className="w-4 h-4 ml-2 rotate-180" />
+                Review &amp; Submit
               </Button>
             )}
           </div>
         </div>
-
-        {/* Instructions Alert */}
-        <Alert>
-          <AlertCircle className="h-4 w-4" />
-          <AlertTitle>Important Notes</AlertTitle>
-          <AlertDescription>
-            <ul className="list-disc list-inside space-y-1 mt-2">
-              <li>Your answers are saved automatically when you change questions</li>
-              <li>The exam will auto-submit when the timer reaches zero</li>
-              <li>You can review and change your answers before final submission</li>
-            </ul>
-          </AlertDescription>
-        </Alert>
       </div>
     </div>
   );
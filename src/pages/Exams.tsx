@@ -1,19 +1,52 @@
-import React from 'react';
+import React, { useEffect, useState } from 'react';
 import { useNavigate } from 'react-router-dom';
 import { useQuery } from '@tanstack/react-query';
-import { getExamPapers, getSubmissions } from '@/lib/api';
+import { getExamPapers, getPracticeAttempts, getSubmissions } from '@/lib/api';
 import { useAuthContext } from '@/lib/auth-context';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
-import { Clock, FileText, AlertCircle, CheckCircle, Lock } from 'lucide-react';
+import { Clock, FileText, AlertCircle, CheckCircle, Lock, Calendar, Dumbbell } from 'lucide-react';
+import { format } from 'date-fns';
+import {
+  EXAM_WINDOW_STATUS_LABELS,
+  ExamWindowSource,
+  ExamWindowStatus,
+  getExamWindow,
+  getExamWindowStatus,
+  isResumeOnly,
+} from '@/lib/exam-window';
+import { useExamAttempts } from '@/hooks/use-exam-timer';
+import { isInAudience } from '@/lib/exam-audience';
+import { getRemainingPracticeAttempts, isPracticePaper, PracticeAttempt, PracticeSettings } from '@/lib/practice';
 import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert';
 import { useToast } from '@/hooks/use-toast';
 
+const STATUS_GROUPS: { status: ExamWindowStatus; title: string }[] = [
+  { status: 'open', title: 'Open now' },
+  { status: 'upcoming', title: 'Upcoming' },
+  { status: 'closed', title: 'Closed' },
+];
+
+const STATUS_BADGE_STYLES: Record<ExamWindowStatus, string> = {
+  open: 'bg-green-50 text-green-700 border-green-300',
+  upcoming: 'bg-blue-50 text-blue-700 border-blue-300',
+  closed: 'bg-gray-100 text-gray-600 border-gray-300',
+};
+
+type ListedPaper = ExamWindowSource & PracticeSettings & { _id: string; status: string };
+
 const Exams = () => {
   const navigate = useNavigate();
   const { user } = useAuthContext();
   const { toast } = useToast();
+  const [now, setNow] = useState(Date.now());
+
+  // Move exams between upcoming, open and closed without a reload
+  useEffect(() => {
+    const timer = setInterval(() => setNow(Date.now()), 30 * 1000);
+    return () => clearInterval(timer);
+  }, []);
   
   // Fetch both exam papers and submissions
   const { data: examPapers, isLoading: isLoadingExams } = useQuery({
@@ -26,7 +59,19 @@ const Exams = () => {
     queryFn: getSubmissions,
   });
 
-  const isLoading = isLoadingExams || isLoadingSubmissions;
+  const { data: practiceAttempts = [], isLoading: isLoadingPractice } = useQuery<PracticeAttempt[]>({
+    queryKey: ['practiceAttempts'],
+    queryFn: () => getPracticeAttempts(),
+  });
+
+  // Papers past their entry cutoff are only reachable for students who
+  // started before it, so look up the student's attempt on those
+  const resumeOnlyIds: string[] = (examPapers || [])
+    .filter((exam: ListedPaper) => exam.status === 'approved' && !isPracticePaper(exam) && isResumeOnly(getExamWindow(exam), now))
+    .map((exam: ListedPaper) => exam._id);
+  const resumeOnlyAttempts = useExamAttempts(resumeOnlyIds);
+
+  const isLoading = isLoadingExams || isLoadingSubmissions || isLoadingPractice || resumeOnlyAttempts.some(query => query.isLoading);
 
   if (isLoading) {
     return (
@@ -45,10 +90,31 @@ const Exams = () => {
       sub.isSubmitted
     );
 
-    // Show exam if it's approved and not submitted
-    return exam.status === 'approved' && !hasSubmitted;
+    // Show exam if it's approved, meant for this student and not submitted
+    return exam.status === 'approved' && isInAudience(exam.audience, user) && !isPracticePaper(exam) && !hasSubmitted;
   }) || [];
 
+  // Practice papers stay listed after an attempt, while the window is open
+  const practicePapers = examPapers?.filter(exam =>
+    exam.status === 'approved' &&
+    isInAudience(exam.audience, user) &&
+    isPracticePaper(exam) &&
+    getExamWindowStatus(getExamWindow(exam), now) !== 'closed'
+  ) || [];
+
+  const resumableIds = new Set(resumeOnlyIds.filter((_, index) => resumeOnlyAttempts[index]?.data));
+
+  // Attempts started before the entry cutoff run until the window closes
+  const getExamStatus = (exam: ListedPaper): ExamWindowStatus => {
+    const status = getExamWindowStatus(getExamWindow(exam), now);
+    return status === 'closed' && resumableIds.has(exam._id) ? 'open' : status;
+  };
+
+  const examGroups = STATUS_GROUPS.map(group => ({
+    ...group,
+    exams: availableExams.filter(exam => getExamStatus(exam) === group.status),
+  })).filter(group => group.exams.length > 0);
+
   const handleStartExam = (examId: string) => {
     // Double check if exam is already submitted
     const hasSubmitted = submissions?.some((sub: any) => 
@@ -66,7 +132,7 @@ const Exams = () => {
       return;
     }
 
-    navigate(`/exam-panel/${examId}`);
+    navigate(`/exam-lobby/${examId}`);
   };
 
   return (
@@ -76,7 +142,7 @@ const Exams = () => {
         <p className="text-gray-600 mt-2">View and take your scheduled examinations</p>
       </div>
 
-      {availableExams.length === 0 ? (
+      {availableExams.length === 0 && practicePapers.length === 0 ? (
         <Card className="bg-gray-50 border-dashed">
           <CardContent className="flex flex-col items-center justify-center py-12">
             <FileText className="h-12 w-12 text-gray-400 mb-4" />
@@ -87,46 +153,142 @@ const Exams = () => {
           </CardContent>
         </Card>
       ) : (
-        <div className="grid gap-6 md:grid-cols-2 lg:grid-cols-3">
-          {availableExams.map((exam: any) => (
-            <Card key={exam._id} className="hover:shadow-lg transition-shadow">
-              <CardHeader>
-                <div className="flex justify-between items-start">
-                  <Badge variant="outline" className="mb-2">
-                    {exam.subject.name}
-                  </Badge>
-                  <Badge variant="secondary">
-                    {exam.totalMarks} Marks
-                  </Badge>
-                </div>
-                <CardTitle className="text-xl">{exam.title}</CardTitle>
-                <CardDescription className="line-clamp-2">
-                  {exam.description || 'No description available'}
-                </CardDescription>
-              </CardHeader>
-              <CardContent>
-                <div className="space-y-4">
-                  <div className="flex items-center justify-between text-sm">
-                    <div className="flex items-center text-gray-600">
-                      <Clock className="h-4 w-4 mr-2" />
-                      Duration: {exam.duration} mins
-                    </div>
-                    <div className="flex items-center text-gray-600">
-                      <FileText className="h-4 w-4 mr-2" />
-                      Questions: {exam.questions?.length || 0}
-                    </div>
-                  </div>
-                  
-                  <Button 
-                    className="w-full bg-gradient-to-r from-blue-600 to-blue-700 hover:from-blue-700 hover:to-blue-800"
-                    onClick={() => handleStartExam(exam._id)}
-                  >
-                    Start Exam
-                  </Button>
-                </div>
-              </CardContent>
-            </Card>
+        <div className="space-y-8">
+          {examGroups.map(({ status, title, exams }) => (
+            <section key={status} className="space-y-4">
+              <h2 className="text-xl font-semibold text-gray-900">{title} ({exams.length})</h2>
+              <div className="grid gap-6 md:grid-cols-2 lg:grid-cols-3">
+                {exams.map((exam: any) => {
+                  const examWindow = getExamWindow(exam);
+                  return (
+                    <Card key={exam._id} className={`hover:shadow-lg transition-shadow ${status === 'closed' ? 'opacity-75' : ''}`}>
+                      <CardHeader>
+                        <div className="flex justify-between items-start gap-2">
+                          <Badge variant="outline" className="mb-2">
+                            {exam.subject.name}
+                          </Badge>
+                          <div className="flex gap-2">
+                            <Badge variant="outline" className={STATUS_BADGE_STYLES[status]}>
+                              {EXAM_WINDOW_STATUS_LABELS[status]}
+                            </Badge>
+                            <Badge variant="secondary">
+                              {exam.totalMarks} Marks
+                            </Badge>
+                          </div>
+                        </div>
+                        <CardTitle className="text-xl">{exam.title}</CardTitle>
+                        <CardDescription className="line-clamp-2">
+                          {exam.description || 'No description available'}
+                        </CardDescription>
+                      </CardHeader>
+                      <CardContent>
+                        <div className="space-y-4">
+                          <div className="flex items-center justify-between text-sm">
+                            <div className="flex items-center text-gray-600">
+                              <Clock className="h-4 w-4 mr-2" />
+                              Duration: {exam.duration} mins
+                            </div>
+                            <div className="flex items-center text-gray-600">
+                              <FileText className="h-4 w-4 mr-2" />
+                              Questions: {exam.questions?.length || 0}
+                            </div>
+                          </div>
+                          {(examWindow.opensAt || examWindow.entryClosesAt) && (
+                            <div className="space-y-1 text-sm text-gray-600">
+                              {examWindow.opensAt && (
+                                <div className="flex items-center">
+                                  <Calendar className="h-4 w-4 mr-2" />
+                                  Opens {format(examWindow.opensAt, 'PPp')}
+                                </div>
+                              )}
+                              {resumableIds.has(exam._id) && examWindow.closesAt ? (
+                                <div className="flex items-center">
+                                  <Lock className="h-4 w-4 mr-2" />
+                                  Finish by {format(examWindow.closesAt, 'PPp')}
+                                </div>
+                              ) : examWindow.entryClosesAt && (
+                                <div className="flex items-center">
+                                  <Lock className="h-4 w-4 mr-2" />
+                                  Start by {format(examWindow.entryClosesAt, 'PPp')}
+                                </div>
+                              )}
+                            </div>
+                          )}
+
+                          {status === 'closed' ? (
+                            <Button variant="outline" className="w-full" disabled>
+                              Closed
+                            </Button>
+                          ) : (
+                            <Button
+                              className="w-full bg-gradient-to-r from-blue-600 to-blue-700 hover:from-blue-700 hover:to-blue-800"
+                              onClick={() => handleStartExam(exam._id)}
+                            >
+                              {resumableIds.has(exam._id) ? 'Resume Exam' : status === 'open' ? 'View Exam' : 'View Details'}
+                            </Button>
+                          )}
+                        </div>
+                      </CardContent>
+                    </Card>
+                  );
+                })}
+              </div>
+            </section>
           ))}
+
+          {practicePapers.length > 0 && (
+            <section className="space-y-4">
+              <h2 className="text-xl font-semibold text-gray-900">Practice ({practicePapers.length})</h2>
+              <div className="grid gap-6 md:grid-cols-2 lg:grid-cols-3">
+                {practicePapers.map(exam => {
+                  const used = practiceAttempts.filter(attempt => attempt.examPaper._id === exam._id).length;
+                  const remaining = getRemainingPracticeAttempts(exam, used);
+                  const isUpcoming = getExamWindowStatus(getExamWindow(exam), now) === 'upcoming';
+                  return (
+                    <Card key={exam._id} className="hover:shadow-lg transition-shadow">
+                      <CardHeader>
+                        <div className="flex justify-between items-start gap-2">
+                          <Badge variant="outline" className="mb-2">
+                            {exam.subject.name}
+                          </Badge>
+                          <Badge variant="outline" className="bg-teal-50 text-teal-700 border-teal-300">
+                            <Dumbbell className="h-3 w-3 mr-1" />
+                            Practice
+                          </Badge>
+                        </div>
+                        <CardTitle className="text-xl">{exam.title}</CardTitle>
+                        <CardDescription className="line-clamp-2">
+                          {exam.description || 'No description available'}
+                        </CardDescription>
+                      </CardHeader>
+                      <CardContent>
+                        <div className="space-y-4">
+                          <div className="flex items-center justify-between text-sm text-gray-600">
+                            <div className="flex items-center">
+                              <FileText className="h-4 w-4 mr-2" />
+                              Questions: {exam.questions?.length || 0}
+                            </div>
+                            <div>
+                              {used} {used === 1 ? 'attempt' : 'attempts'}
+                              {remaining !== null && ` • ${remaining} left`}
+                            </div>
+                          </div>
+                          <Button
+                            className="w-full"
+                            variant="outline"
+                            disabled={isUpcoming || remaining === 0}
+                            onClick={() => navigate(`/practice/${exam._id}`)}
+                          >
+                            {isUpcoming ? 'Not open yet' : remaining === 0 ? 'No attempts left' : used ? 'Practice Again' : 'Start Practice'}
+                          </Button>
+                        </div>
+                      </CardContent>
+                    </Card>
+                  );
+                })}
+              </div>
+            </section>
+          )}
         </div>
       )}
     </div>
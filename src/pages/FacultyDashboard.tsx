@@ -2,7 +2,7 @@ import React, { useState } from 'react';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
-import { BookOpen, Users, ClipboardCheck, Clock, Plus, Eye, GraduationCap } from 'lucide-react';
+import { BookOpen, Users, ClipboardCheck, Clock, Plus, Eye, GraduationCap, Library } from 'lucide-react';
 import { useQuery } from '@tanstack/react-query';
 import { getExamPapers, getSubmissions, getSubjects } from '@/lib/api';
 import { useNavigate } from 'react-router-dom';
@@ -314,6 +314,15 @@ const FacultyDashboard = () => {
                           <Eye className="h-4 w-4 mr-2" />
                           View Papers
                         </Button>
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          onClick={() => navigate(`/faculty/question-bank?subject=${subject._id}`)}
+                          className="flex-1 sm:flex-none justify-center"
+                        >
+                          <Library className="h-4 w-4 mr-2" />
+                          Question Bank
+                        </Button>
                         <Button
                           className="bg-gradient-to-r from-purple-600 to-indigo-600 hover:from-purple-700 hover:to-indigo-700 text-white flex-1 sm:flex-none justify-center"
                           size="sm"
@@ -0,0 +1,435 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { useParams, useNavigate } from 'react-router-dom';
+import { useQuery } from '@tanstack/react-query';
+import { formatDistance } from 'date-fns';
+import { getPaper, getLiveAttempts } from '@/lib/api';
+import { useSocket } from '@/lib/socket-context';
+import { EXAM_SOCKET_EVENTS, LiveAttempt, LiveAttemptStatus, mergeLiveAttempt } from '@/lib/exam-socket';
+import { isNewViolation, ProctoringEvent } from '@/lib/proctoring';
+import { formatTimeLeft } from '@/lib/exam-state';
+import { measureServerOffset } from '@/hooks/use-exam-timer';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Progress } from '@/components/ui/progress';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Sheet, SheetContent, SheetDescription, SheetHeader, SheetTitle } from '@/components/ui/sheet';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import { ArrowLeft, Users, Wifi, WifiOff, CheckCircle, ShieldAlert, Clock, Search } from 'lucide-react';
+import ProctoringLog from '@/components/exam/ProctoringLog';
+import SendAnnouncementDialog from '@/components/exam/SendAnnouncementDialog';
+import AccommodationBadge from '@/components/exam/AccommodationBadge';
+
+type StatusFilter = 'all' | LiveAttemptStatus | 'alerts';
+type SortKey = 'name' | 'progress' | 'timeLeft' | 'lastActivity' | 'alerts';
+
+const getTimeLeft = (attempt: LiveAttempt, now: number) => {
+  if (!attempt.deadline) return null;
+  return Math.max(0, Math.floor((new Date(attempt.deadline).getTime() - now) / 1000));
+};
+
+const getStatusBadge = (status: LiveAttemptStatus) => {
+  switch (status) {
+    case 'connected':
+      return (
+        <Badge variant="outline" className="bg-green-50 text-green-700 border-green-300">
+          <Wifi className="w-3 h-3 mr-1" />
+          Connected
+        </Badge>
+      );
+    case 'disconnected':
+      return (
+        <Badge variant="outline" className="bg-yellow-50 text-yellow-700 border-yellow-300">
+          <WifiOff className="w-3 h-3 mr-1" />
+          Disconnected
+        </Badge>
+      );
+    case 'submitted':
+      return (
+        <Badge variant="outline" className="bg-blue-50 text-blue-700 border-blue-300">
+          <CheckCircle className="w-3 h-3 mr-1" />
+          Submitted
+        </Badge>
+      );
+    default:
+      return null;
+  }
+};
+
+const Invigilation = () => {
+  const { id } = useParams();
+  const navigate = useNavigate();
+  const { socket, isConnected } = useSocket();
+  const [attempts, setAttempts] = useState<LiveAttempt[]>([]);
+  // Server time, so time remaining matches what the students see
+  const [now, setNow] = useState(Date.now());
+  const [searchTerm, setSearchTerm] = useState('');
+  const [statusFilter, setStatusFilter] = useState<StatusFilter>('all');
+  const [sortKey, setSortKey] = useState<SortKey>('name');
+  const [selectedStudentId, setSelectedStudentId] = useState<string | null>(null);
+
+  const { data: paper } = useQuery({
+    queryKey: ['paper', id],
+    queryFn: () => getPaper(id as string),
+    enabled: !!id,
+  });
+
+  const { data: initialAttempts, isLoading } = useQuery({
+    queryKey: ['liveAttempts', id],
+    queryFn: () => measureServerOffset<{ attempts: LiveAttempt[]; serverTime: string }>(() => getLiveAttempts(id as string)),
+    enabled: !!id,
+    staleTime: 0,
+  });
+  const serverOffset = initialAttempts?.serverOffset || 0;
+
+  // Debounced per student exactly as the student's own counter is. Kept
+  // across socket reconnects so replayed events are not counted twice.
+  const lastViolationAt = useRef(new Map<string, number>());
+
+  useEffect(() => {
+    if (initialAttempts) {
+      setAttempts(initialAttempts.data.attempts);
+    }
+  }, [initialAttempts]);
+
+  // Live updates for this paper
+  useEffect(() => {
+    if (!socket || !isConnected || !id) {
+      return;
+    }
+
+    const handleSnapshot = (snapshot: LiveAttempt[]) => setAttempts(snapshot);
+    const handleUpdate = (update: Partial<LiveAttempt> & { student: LiveAttempt['student'] }) => {
+      setAttempts(prev => mergeLiveAttempt(prev, update));
+    };
+    const handleProctoringEvent = ({ student, event }: { student: string; event: ProctoringEvent }) => {
+      const time = new Date(event.timestamp).getTime();
+      const isViolation = isNewViolation(event.type, time, lastViolationAt.current.get(student) || 0);
+      if (isViolation) {
+        lastViolationAt.current.set(student, time);
+      }
+      setAttempts(prev => prev.map(attempt => {
+        if (attempt.student._id !== student) return attempt;
+        return {
+          ...attempt,
+          lastActivityAt: event.timestamp,
+          violations: attempt.violations + (isViolation ? 1 : 0),
+          events: [...(attempt.events || []), event],
+        };
+      }));
+    };
+
+    socket.emit(EXAM_SOCKET_EVENTS.JOIN_INVIGILATION, { examPaper: id });
+    socket.on(EXAM_SOCKET_EVENTS.INVIGILATION_SNAPSHOT, handleSnapshot);
+    socket.on(EXAM_SOCKET_EVENTS.INVIGILATION_UPDATE, handleUpdate);
+    socket.on(EXAM_SOCKET_EVENTS.PROCTORING_EVENT, handleProctoringEvent);
+
+    return () => {
+      socket.emit(EXAM_SOCKET_EVENTS.LEAVE_INVIGILATION, { examPaper: id });
+      socket.off(EXAM_SOCKET_EVENTS.INVIGILATION_SNAPSHOT, handleSnapshot);
+      socket.off(EXAM_SOCKET_EVENTS.INVIGILATION_UPDATE, handleUpdate);
+      socket.off(EXAM_SOCKET_EVENTS.PROCTORING_EVENT, handleProctoringEvent);
+    };
+  }, [socket, isConnected, id]);
+
+  // Tick so time remaining and last activity stay current
+  useEffect(() => {
+    setNow(Date.now() + serverOffset);
+    const timer = setInterval(() => setNow(Date.now() + serverOffset), 1000);
+    return () => clearInterval(timer);
+  }, [serverOffset]);
+
+  const visibleAttempts = useMemo(() => {
+    const search = searchTerm.trim().toLowerCase();
+
+    const filtered = attempts.filter(attempt => {
+      const matchesSearch = search === '' ||
+        attempt.student.name?.toLowerCase().includes(search) ||
+        attempt.student.email?.toLowerCase().includes(search) ||
+        attempt.student.studentId?.toLowerCase().includes(search);
+
+      const matchesStatus = statusFilter === 'all' ||
+        (statusFilter === 'alerts' ? attempt.violations > 0 : attempt.status === statusFilter);
+
+      return matchesSearch && matchesStatus;
+    });
+
+    return [...filtered].sort((a, b) => {
+      switch (sortKey) {
+        case 'progress':
+          return (b.answeredCount / Math.max(b.questionCount, 1)) - (a.answeredCount / Math.max(a.questionCount, 1));
+        case 'timeLeft':
+          return (getTimeLeft(a, now) ?? Infinity) - (getTimeLeft(b, now) ?? Infinity);
+        case 'lastActivity':
+          return (b.lastActivityAt || '').localeCompare(a.lastActivityAt || '');
+        case 'alerts':
+          return b.violations - a.violations;
+        default:
+          return (a.student.name || '').localeCompare(b.student.name || '');
+      }
+    });
+  }, [attempts, searchTerm, statusFilter, sortKey, now]);
+
+  const selectedAttempt = attempts.find(attempt => attempt.student._id === selectedStudentId);
+
+  const stats = {
+    connected: attempts.filter(a => a.status === 'connected').length,
+    disconnected: attempts.filter(a => a.status === 'disconnected').length,
+    submitted: attempts.filter(a => a.status === 'submitted').length,
+    alerts: attempts.filter(a => a.violations > 0).length,
+  };
+
+  const renderTimeLeft = (attempt: LiveAttempt) => {
+    if (attempt.status === 'submitted') return '—';
+    const timeLeft = getTimeLeft(attempt, now);
+    return timeLeft === null ? 'Unknown' : formatTimeLeft(timeLeft);
+  };
+
+  const renderLastActivity = (attempt: LiveAttempt) =>
+    attempt.lastActivityAt
+      ? formatDistance(new Date(attempt.lastActivityAt), now, { addSuffix: true })
+      : 'No activity yet';
+
+  return (
+    <div className="container mx-auto px-4 py-6 space-y-6 max-w-7xl">
+      <div className="flex flex-col sm:flex-row items-start sm:items-center justify-between gap-4">
+        <div>
+          <div className="flex items-center gap-4">
+            <Button variant="outline" onClick={() => navigate(-1)}>
+              <ArrowLeft className="h-4 w-4 mr-2" />
+              Back
+            </Button>
+            <h1 className="text-2xl sm:text-3xl font-bold text-gray-900">Live Invigilation</h1>
+          </div>
+          <p className="text-gray-600 mt-1">
+            {paper ? `${paper.title} • ${paper.subject?.name}` : 'Loading paper...'}
+          </p>
+        </div>
+        <div className="flex items-center gap-3">
+          <Badge
+            variant="outline"
+            className={isConnected ? 'bg-green-50 text-green-700 border-green-300' : 'bg-red-50 text-red-700 border-red-300'}
+          >
+            {isConnected ? <Wifi className="w-3 h-3 mr-1" /> : <WifiOff className="w-3 h-3 mr-1" />}
+            {isConnected ? 'Live' : 'Reconnecting...'}
+          </Badge>
+          {id && (
+            <SendAnnouncementDialog examPaperId={id} questionCount={paper?.questions?.length || 0} />
+          )}
+        </div>
+      </div>
+
+      {/* Stats */}
+      <div className="grid grid-cols-2 lg:grid-cols-4 gap-4">
+        <Card className="bg-gradient-to-r from-green-50 to-green-100 border-green-200">
+          <CardContent className="p-4 flex items-center justify-between">
+            <div>
+              <p className="text-green-600 text-sm font-medium">In Exam</p>
+              <p className="text-2xl font-bold text-green-800">{stats.connected}</p>
+            </div>
+            <Users className="h-8 w-8 text-green-600" />
+          </CardContent>
+        </Card>
+        <Card className="bg-gradient-to-r from-yellow-50 to-yellow-100 border-yellow-200">
+          <CardContent className="p-4 flex items-center justify-between">
+            <div>
+              <p className="text-yellow-600 text-sm font-medium">Disconnected</p>
+              <p className="text-2xl font-bold text-yellow-800">{stats.disconnected}</p>
+            </div>
+            <WifiOff className="h-8 w-8 text-yellow-600" />
+          </CardContent>
+        </Card>
+        <Card className="bg-gradient-to-r from-blue-50 to-blue-100 border-blue-200">
+          <CardContent className="p-4 flex items-center justify-between">
+            <div>
+              <p className="text-blue-600 text-sm font-medium">Submitted</p>
+              <p className="text-2xl font-bold text-blue-800">{stats.submitted}</p>
+            </div>
+            <CheckCircle className="h-8 w-8 text-blue-600" />
+          </CardContent>
+        </Card>
+        <Card className="bg-gradient-to-r from-red-50 to-red-100 border-red-200">
+          <CardContent className="p-4 flex items-center justify-between">
+            <div>
+              <p className="text-red-600 text-sm font-medium">With Alerts</p>
+              <p className="text-2xl font-bold text-red-800">{stats.alerts}</p>
+            </div>
+            <ShieldAlert className="h-8 w-8 text-red-600" />
+          </CardContent>
+        </Card>
+      </div>
+
+      {/* Filters */}
+      <div className="grid gap-4 grid-cols-1 md:grid-cols-[2fr,1fr,1fr]">
+        <div className="relative">
+          <Search className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-gray-400" />
+          <Input
+            placeholder="Search students..."
+            value={searchTerm}
+            onChange={(e) => setSearchTerm(e.target.value)}
+            className="pl-9"
+          />
+        </div>
+        <Select value={statusFilter} onValueChange={(value) => setStatusFilter(value as StatusFilter)}>
+          <SelectTrigger>
+            <SelectValue placeholder="Filter by status" />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="all">All Students</SelectItem>
+            <SelectItem value="connected">Connected</SelectItem>
+            <SelectItem value="disconnected">Disconnected</SelectItem>
+            <SelectItem value="submitted">Submitted</SelectItem>
+            <SelectItem value="alerts">With Alerts</SelectItem>
+          </SelectContent>
+        </Select>
+        <Select value={sortKey} onValueChange={(value) => setSortKey(value as SortKey)}>
+          <SelectTrigger>
+            <SelectValue placeholder="Sort by" />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="name">Sort by Name</SelectItem>
+            <SelectItem value="progress">Sort by Progress</SelectItem>
+            <SelectItem value="timeLeft">Sort by Time Remaining</SelectItem>
+            <SelectItem value="lastActivity">Sort by Last Activity</SelectItem>
+            <SelectItem value="alerts">Sort by Alerts</SelectItem>
+          </SelectContent>
+        </Select>
+      </div>
+
+      {/* Students */}
+      <Card>
+        <CardHeader>
+          <CardTitle>Students</CardTitle>
+          <CardDescription>Select a student to see their full activity</CardDescription>
+        </CardHeader>
+        <CardContent>
+          {isLoading ? (
+            <div className="text-center py-6">
+              <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-gray-900 mx-auto"></div>
+              <p className="mt-2 text-gray-600">Loading attempts...</p>
+            </div>
+          ) : visibleAttempts.length === 0 ? (
+            <div className="text-center py-6 text-gray-500">No students are in this exam yet</div>
+          ) : (
+            <div className="overflow-x-auto">
+              <Table>
+                <TableHeader>
+                  <TableRow className="bg-muted/50">
+                    <TableHead>Student</TableHead>
+                    <TableHead>Status</TableHead>
+                    <TableHead>Answered</TableHead>
+                    <TableHead>Time Remaining</TableHead>
+                    <TableHead>Last Activity</TableHead>
+                    <TableHead>Alerts</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {visibleAttempts.map(attempt => (
+                    <TableRow
+                      key={attempt.student._id}
+                      className="cursor-pointer"
+                      onClick={() => setSelectedStudentId(attempt.student._id)}
+                    >
+                      <TableCell>
+                        <div className="flex flex-wrap items-center gap-2 font-medium">
+                          {attempt.student.name}
+                          <AccommodationBadge accommodations={attempt.accommodations} />
+                        </div>
+                        <div className="text-xs text-gray-500">{attempt.student.studentId || attempt.student.email}</div>
+                      </TableCell>
+                      <TableCell>{getStatusBadge(attempt.status)}</TableCell>
+                      <TableCell>
+                        <div className="flex items-center gap-2 min-w-[120px]">
+                          <Progress
+                            value={(attempt.answeredCount / Math.max(attempt.questionCount, 1)) * 100}
+                            className="h-2 w-16"
+                          />
+                          <span className="text-sm">{attempt.answeredCount}/{attempt.questionCount}</span>
+                        </div>
+                      </TableCell>
+                      <TableCell className="font-mono text-sm">{renderTimeLeft(attempt)}</TableCell>
+                      <TableCell className="text-sm text-gray-600">{renderLastActivity(attempt)}</TableCell>
+                      <TableCell>
+                        {attempt.violations > 0 ? (
+                          <Badge variant="outline" className="bg-red-50 text-red-700 border-red-300">
+                            <ShieldAlert className="w-3 h-3 mr-1" />
+                            {attempt.violations}
+                          </Badge>
+                        ) : (
+                          <span className="text-sm text-gray-400">None</span>
+                        )}
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      {/* Student detail drawer */}
+      <Sheet open={!!selectedAttempt} onOpenChange={(open) => !open && setSelectedStudentId(null)}>
+        <SheetContent className="w-full sm:max-w-lg overflow-y-auto">
+          {selectedAttempt && (
+            <>
+              <SheetHeader>
+                <SheetTitle>{selectedAttempt.student.name}</SheetTitle>
+                <SheetDescription>
+                  {selectedAttempt.student.studentId || selectedAttempt.student.email}
+                </SheetDescription>
+              </SheetHeader>
+              <div className="space-y-6 mt-6">
+                <div className="flex items-center justify-between">
+                  {getStatusBadge(selectedAttempt.status)}
+                  <div className="flex items-center text-sm text-gray-600">
+                    <Clock className="h-4 w-4 mr-2" />
+                    {renderTimeLeft(selectedAttempt)}
+                  </div>
+                </div>
+                <AccommodationBadge accommodations={selectedAttempt.accommodations} detailed />
+                <div className="space-y-2">
+                  <div className="flex justify-between text-sm">
+                    <span className="text-gray-600">Questions answered</span>
+                    <span className="font-medium">
+                      {selectedAttempt.answeredCount} of {selectedAttempt.questionCount}
+                    </span>
+                  </div>
+                  <Progress
+                    value={(selectedAttempt.answeredCount / Math.max(selectedAttempt.questionCount, 1)) * 100}
+                    className="h-2"
+                  />
+                </div>
+                <div className="grid grid-cols-2 gap-4 text-sm">
+                  <div>
+                    <span className="text-gray-600">Current question</span>
+                    <p className="font-medium">
+                      {typeof selectedAttempt.currentQuestionIndex === 'number'
+                        ? `Q${selectedAttempt.currentQuestionIndex + 1}`
+                        : 'Unknown'}
+                    </p>
+                  </div>
+                  <div>
+                    <span className="text-gray-600">Last activity</span>
+                    <p className="font-medium">{renderLastActivity(selectedAttempt)}</p>
+                  </div>
+                </div>
+                <ProctoringLog events={selectedAttempt.events || []} />
+              </div>
+            </>
+          )}
+        </SheetContent>
+      </Sheet>
+    </div>
+  );
+};
+
+export default Invigilation;
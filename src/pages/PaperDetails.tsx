@@ -1,18 +1,26 @@
-import React from 'react';
+import React, { useState } from 'react';
 import { useParams, useNavigate } from 'react-router-dom';
 import { useQuery } from '@tanstack/react-query';
 import { getPaper } from '@/lib/api';
 import { Card, CardContent, CardHeader, CardTitle, CardDescription } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
-import { ArrowLeft, User, Award, Clock, Calendar } from 'lucide-react';
+import { ArrowLeft, User, Award, Clock, Calendar, Printer, Edit } from 'lucide-react';
 import { Badge } from '@/components/ui/badge';
 import { format } from 'date-fns';
 import { useAuthContext } from '@/lib/auth-context';
+import { formatCorrectAnswer, QUESTION_TYPE_LABELS } from '@/lib/question-types';
+import RichText from '@/components/exam/RichText';
+import AttachmentGallery from '@/components/exam/AttachmentGallery';
+import { getSectionRanges } from '@/lib/sections';
+import { formatAudience } from '@/lib/exam-audience';
+import ExportPaperDialog from '@/components/exam/ExportPaperDialog';
+import { canEditPaper } from '@/lib/paper-versions';
 
 const PaperDetails = () => {
   const { id } = useParams();
   const navigate = useNavigate();
   const { user } = useAuthContext();
+  const [isExportOpen, setIsExportOpen] = useState(false);
 
   const { data: paper, isLoading } = useQuery({
     queryKey: ['paper', id],
@@ -21,6 +29,8 @@ const PaperDetails = () => {
 
   const getStatusBadge = (status: string) => {
     switch (status) {
+      case 'draft':
+        return <Badge variant="outline" className="bg-gray-50 text-gray-700 border-gray-300">Draft</Badge>;
       case 'pending':
         return <Badge variant="outline" className="bg-yellow-50 text-yellow-700 border-yellow-300">Pending</Badge>;
       case 'approved':
@@ -42,6 +52,8 @@ const PaperDetails = () => {
     return <div>Paper not found</div>;
   }
 
+  const sectionRanges = getSectionRanges(paper.sections, paper.questions.length);
+
   return (
     <div className="container mx-auto px-4 py-6 space-y-6">
       <div className="flex items-center gap-4">
@@ -50,6 +62,18 @@ const PaperDetails = () => {
           Back
         </Button>
         <h1 className="text-2xl font-bold">Paper Details</h1>
+        <div className="ml-auto flex gap-2">
+          {user?.role === 'faculty' && canEditPaper(paper) && (
+            <Button variant="outline" onClick={() => navigate(`/faculty/papers/${paper._id}/edit`)}>
+              <Edit className="h-4 w-4 mr-2" />
+              Edit
+            </Button>
+          )}
+          <Button variant="outline" onClick={() => setIsExportOpen(true)}>
+            <Printer className="h-4 w-4 mr-2" />
+            Export
+          </Button>
+        </div>
       </div>
 
       <Card>
@@ -91,6 +115,20 @@ const PaperDetails = () => {
                   <span>Scheduled for: {format(new Date(paper.scheduledDate), 'PPp')}</span>
                 </div>
               )}
+              {(paper.availableFrom || paper.availableUntil) && (
+                <div className="flex items-center gap-2">
+                  <Clock className="h-5 w-5 text-gray-500" />
+                  <span>
+                    Available {paper.availableFrom ? `from ${format(new Date(paper.availableFrom), 'PPp')}` : ''}
+                    {paper.availableUntil ? ` until ${format(new Date(paper.availableUntil), 'PPp')}` : ''}
+                    {paper.lateEntryUntil ? ` (late entry until ${format(new Date(paper.lateEntryUntil), 'PPp')})` : ''}
+                  </span>
+                </div>
+              )}
+              <div className="flex items-center gap-2">
+                <User className="h-5 w-5 text-gray-500" />
+                <span>For: {formatAudience(paper.audience)}</span>
+              </div>
             </div>
           </div>
 
@@ -98,34 +136,69 @@ const PaperDetails = () => {
             <h3 className="font-medium mb-4">Questions</h3>
             <div className="space-y-6">
               {paper.questions.map((question, index) => (
-                <Card key={question._id}>
-                  <CardContent className="pt-6">
-                    <div className="flex justify-between items-start">
-                      <div className="space-y-2">
-                        <div className="font-medium">Question {index + 1}</div>
-                        <div className="text-gray-600">{question.question}</div>
-                        {question.type === 'mcq' && question.options && (
-                          <div className="mt-2 space-y-1">
-                            {question.options.map((option, optIndex) => (
-                              <div key={optIndex} className="flex items-center gap-2">
-                                <div className="w-6 h-6 rounded-full border border-gray-300 flex items-center justify-center">
-                                  {String.fromCharCode(65 + optIndex)}
-                                </div>
-                                <span>{option}</span>
-                              </div>
-                            ))}
-                          </div>
+                <React.Fragment key={question._id}>
+                  {paper.sections?.length > 0 && sectionRanges
+                    .filter(range => range.start === index && range.end > index)
+                    .map(({ index: sectionIndex, section }) => (
+                      <div key={sectionIndex} className="flex flex-wrap items-center gap-2 pt-2">
+                        <h4 className="font-semibold">{section.title}</h4>
+                        {section.attemptAny && <Badge variant="secondary">Attempt any {section.attemptAny}</Badge>}
+                        {section.timeLimit && (
+                          <Badge variant="outline">
+                            <Clock className="h-3 w-3 mr-1" />
+                            {section.timeLimit} min
+                          </Badge>
                         )}
                       </div>
-                      <Badge>{question.marks} marks</Badge>
-                    </div>
-                  </CardContent>
-                </Card>
+                    ))}
+                  <Card>
+                    <CardContent className="pt-6">
+                      <div className="flex justify-between items-start">
+                        <div className="space-y-2">
+                          <div className="flex items-center gap-2">
+                            <span className="font-medium">Question {index + 1}</span>
+                            {QUESTION_TYPE_LABELS[question.type] && (
+                              <Badge variant="outline">{QUESTION_TYPE_LABELS[question.type]}</Badge>
+                            )}
+                          </div>
+                          <RichText content={question.question} className="text-gray-600" />
+                          <AttachmentGallery attachments={question.attachments} />
+                          {question.options?.length > 0 && (
+                            <div className="mt-2 space-y-1">
+                              {question.options.map((option, optIndex) => (
+                                <div key={optIndex} className="flex items-center gap-2">
+                                  <div className="w-6 h-6 rounded-full border border-gray-300 flex items-center justify-center">
+                                    {String.fromCharCode(65 + optIndex)}
+                                  </div>
+                                  <RichText content={option} inline />
+                                  {question.optionAttachments?.[optIndex] && (
+                                    <AttachmentGallery compact attachments={[question.optionAttachments[optIndex]]} />
+                                  )}
+                                </div>
+                              ))}
+                            </div>
+                          )}
+                          {formatCorrectAnswer(question) && (
+                            <div className="text-sm text-green-700 whitespace-pre-wrap">
+                              Answer: {formatCorrectAnswer(question)}
+                            </div>
+                          )}
+                        </div>
+                        <Badge>{question.marks} marks</Badge>
+                      </div>
+                    </CardContent>
+                  </Card>
+                </React.Fragment>
               ))}
             </div>
           </div>
         </CardContent>
       </Card>
+
+      <ExportPaperDialog
+        paperId={isExportOpen ? paper._id : null}
+        onOpenChange={setIsExportOpen}
+      />
     </div>
   );
 };
@@ -4,10 +4,10 @@ import { Input } from '@/components/ui/input';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
-import { Search, Eye, Check, X, Plus, Edit, FileText, Clock, CheckCircle2, XCircle, ArrowLeft, Calendar } from 'lucide-react';
+import { Search, Eye, Check, X, Plus, Edit, FileText, Clock, CheckCircle2, XCircle, ArrowLeft, Calendar, Radio, AlertTriangle, CalendarDays, Printer, History, Send } from 'lucide-react';
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogFooter, DialogDescription } from '@/components/ui/dialog';
 import { toast } from '@/hooks/use-toast';
-import { getPapers, updatePaper, approveExamPaper, rejectExamPaper } from '@/lib/api';
+import { getPapers, updatePaper, approveExamPaper, rejectExamPaper, getExamSchedule, submitExamPaper } from '@/lib/api';
 import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
 import { useNavigate, useLocation } from 'react-router-dom';
 import { useAuthContext } from '@/lib/auth-context';
@@ -23,6 +23,16 @@ import {
   TableHeader,
   TableRow,
 } from "@/components/ui/table";
+import { QuestionType } from '@/lib/question-types';
+import { ExamAudience } from '@/lib/exam-audience';
+import { ExamWindowSource, getExamWindow } from '@/lib/exam-window';
+import { findScheduleClashes, ScheduledPaper } from '@/lib/exam-schedule';
+import ScheduleDialog from '@/components/exam/ScheduleDialog';
+import ScheduleClashList from '@/components/exam/ScheduleClashList';
+import ExamTimetable from '@/components/exam/ExamTimetable';
+import ExportPaperDialog from '@/components/exam/ExportPaperDialog';
+import PaperVersionsDialog from '@/components/exam/PaperVersionsDialog';
+import { canEditPaper, PaperStatus } from '@/lib/paper-versions';
 
 interface User {
   _id: string;
@@ -37,13 +47,13 @@ interface User {
 interface Question {
   _id: string;
   question: string;
-  type: 'mcq' | 'subjective';
+  type: QuestionType;
   options?: string[];
   correctAnswer?: string;
   marks: number;
 }
 
-interface Paper {
+interface Paper extends ExamWindowSource {
   _id: string;
   title: string;
   description: string;
@@ -62,8 +72,9 @@ interface Paper {
   duration: number;
   totalMarks: number;
   passingMarks: number;
-  status: 'pending' | 'approved' | 'rejected' | 'completed';
+  status: PaperStatus;
   rejectionReason?: string;
+  version?: number;
   questions: Question[];
   instructions: string;
   isActive: boolean;
@@ -71,7 +82,9 @@ interface Paper {
   endTime?: Date;
   isSubmitted?: boolean;
   isAvailable?: boolean;
-  scheduledDate?: Date;
+  scheduledDate?: string;
+  audience?: ExamAudience;
+  clashOverrideReason?: string;
   createdAt: Date;
   updatedAt: Date;
 }
@@ -86,6 +99,12 @@ const Papers = () => {
   const [rejectDialogOpen, setRejectDialogOpen] = useState(false);
   const [selectedPaperId, setSelectedPaperId] = useState<string | null>(null);
   const [rejectionReason, setRejectionReason] = useState('');
+  const [schedulingPaper, setSchedulingPaper] = useState<Paper | null>(null);
+  const [approvingPaper, setApprovingPaper] = useState<Paper | null>(null);
+  const [clashOverrideReason, setClashOverrideReason] = useState('');
+  const [showTimetable, setShowTimetable] = useState(false);
+  const [exportingPaperId, setExportingPaperId] = useState<string | null>(null);
+  const [historyPaperId, setHistoryPaperId] = useState<string | null>(null);
   const navigate = useNavigate();
   const location = useLocation();
   const { user } = useAuthContext();
@@ -97,6 +116,15 @@ const Papers = () => {
     queryFn: () => getPapers()
   });
 
+  // Every scheduled paper, not just this user's, for clash detection
+  const { data: schedule = [] } = useQuery<ScheduledPaper[]>({
+    queryKey: ['examSchedule'],
+    queryFn: getExamSchedule,
+    enabled: user?.role === 'admin' || user?.role === 'faculty'
+  });
+
+  const getClashes = (paper: Paper) => findScheduleClashes(paper, schedule);
+
   // Debug logging
   React.useEffect(() => {
     if (user?.role === 'student') {
@@ -137,9 +165,12 @@ const Papers = () => {
   });
 
   const approvePaperMutation = useMutation({
-    mutationFn: approveExamPaper,
+    mutationFn: ({ id, reason }: { id: string; reason?: string }) => approveExamPaper(id, reason),
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ['papers'] });
+      queryClient.invalidateQueries({ queryKey: ['examSchedule'] });
+      setApprovingPaper(null);
+      setClashOverrideReason('');
       toast({
         title: "Success",
         description: "Paper approved successfully"
@@ -154,6 +185,25 @@ const Papers = () => {
     }
   });
 
+  const submitPaperMutation = useMutation({
+    mutationFn: submitExamPaper,
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['papers'] });
+      queryClient.invalidateQueries({ queryKey: ['examSchedule'] });
+      toast({
+        title: "Success",
+        description: "Paper submitted for approval"
+      });
+    },
+    onError: (error: { response?: { data?: { message?: string } } }) => {
+      toast({
+        title: "Error",
+        description: error.response?.data?.message || "Failed to submit paper",
+        variant: "destructive"
+      });
+    }
+  });
+
   const rejectPaperMutation = useMutation({
     mutationFn: (id: string) => rejectExamPaper(id, "Rejected by admin"),
     onSuccess: () => {
@@ -183,8 +233,10 @@ const Papers = () => {
 
     const matchesSubject = subjectFilter === 'all' || paper.subject?.name === subjectFilter;
     const matchesStatus = statusFilter === 'all' || paper.status === statusFilter;
+    // Drafts stay with their faculty member until submitted
+    const isVisible = user?.role !== 'admin' || paper.status !== 'draft';
 
-    return matchesSearch && matchesSubject && matchesStatus;
+    return matchesSearch && matchesSubject && matchesStatus && isVisible;
   });
 
   const handleCreatePaper = () => {
@@ -195,8 +247,13 @@ const Papers = () => {
     navigate(`/faculty/papers/${id}`);
   };
 
-  const handleApprovePaper = (id: string) => {
-    approvePaperMutation.mutate(id);
+  // Clashing papers need a recorded reason before they can be approved
+  const handleApprovePaper = (paper: Paper) => {
+    if (getClashes(paper).length > 0) {
+      setApprovingPaper(paper);
+      return;
+    }
+    approvePaperMutation.mutate({ id: paper._id });
   };
 
   const handleRejectPaper = (id: string) => {
@@ -269,6 +326,13 @@ const Papers = () => {
             Approved
           </Badge>
         );
+      case 'draft':
+        return (
+          <Badge variant="outline" className="bg-gray-50 text-gray-700 border-gray-300">
+            <Edit className="w-3 h-3 mr-1" />
+            Draft
+          </Badge>
+        );
       case 'rejected':
         return (
           <Badge variant="outline" className="bg-red-50 text-red-700 border-red-300">
@@ -299,6 +363,83 @@ const Papers = () => {
     navigate(path);
   };
 
+  const handleInvigilate = (paperId: string) => {
+    navigate(`${getViewDetailsPath(paperId)}/invigilate`);
+  };
+
+  const renderInvigilateButton = (paper: Paper) => paper.status === 'approved' && (
+    <Button
+      variant="outline"
+      size="sm"
+      onClick={() => handleInvigilate(paper._id)}
+      className="flex-shrink-0"
+    >
+      <Radio className="h-4 w-4 mr-2" />
+      Invigilate
+    </Button>
+  );
+
+  const renderExportButton = (paper: Paper) => (
+    <Button
+      variant="outline"
+      size="sm"
+      onClick={() => setExportingPaperId(paper._id)}
+      className="flex-shrink-0"
+    >
+      <Printer className="h-4 w-4 mr-2" />
+      Export
+    </Button>
+  );
+
+  // Only papers saved more than once have anything to compare
+  const renderHistoryButton = (paper: Paper) => (paper.version || 1) > 1 && (
+    <Button
+      variant="outline"
+      size="sm"
+      onClick={() => setHistoryPaperId(paper._id)}
+      className="flex-shrink-0"
+    >
+      <History className="h-4 w-4 mr-2" />
+      {user?.role === 'admin' ? 'Compare Versions' : 'History'}
+    </Button>
+  );
+
+  const renderSchedule = (paper: Paper) => {
+    const { opensAt, closesAt } = getExamWindow(paper);
+    const clashes = getClashes(paper);
+    return (
+      <>
+        {opensAt && (
+          <div className="flex items-center text-sm text-gray-600">
+            <Calendar className="h-4 w-4 mr-2 flex-shrink-0" />
+            Scheduled: {format(opensAt, 'PPp')}{closesAt && ` – ${format(closesAt, 'PPp')}`}
+          </div>
+        )}
+        {clashes.length > 0 && (
+          <div className="flex items-start text-sm text-red-700">
+            <AlertTriangle className="h-4 w-4 mr-2 mt-0.5 flex-shrink-0" />
+            <span>
+              Clashes with {clashes.map(clash => clash.paper.title).join(', ')}
+              {paper.clashOverrideReason && ` (overridden: ${paper.clashOverrideReason})`}
+            </span>
+          </div>
+        )}
+      </>
+    );
+  };
+
+  const renderScheduleButton = (paper: Paper) => ['draft', 'pending', 'approved'].includes(paper.status) && (
+    <Button
+      variant="outline"
+      size="sm"
+      onClick={() => setSchedulingPaper(paper)}
+      className="flex-shrink-0"
+    >
+      <CalendarDays className="h-4 w-4 mr-2" />
+      Schedule
+    </Button>
+  );
+
   const renderAdminView = (paper: Paper) => (
     <Card key={paper._id} className="hover:shadow-lg transition-shadow bg-gradient-to-br from-slate-50 to-gray-50">
       <CardHeader className="border-b border-gray-100">
@@ -329,12 +470,7 @@ const Papers = () => {
               <Clock className="h-4 w-4 mr-2 flex-shrink-0" />
               Duration: {paper.duration} minutes
             </div>
-            {paper.scheduledDate && (
-              <div className="flex items-center text-sm text-gray-600">
-                <Calendar className="h-4 w-4 mr-2 flex-shrink-0" />
-                Scheduled: {format(new Date(paper.scheduledDate), 'PPp')}
-              </div>
-            )}
+            {renderSchedule(paper)}
           </div>
         </div>
         <div className="flex flex-wrap gap-2 pt-4 border-t border-gray-100">
@@ -352,7 +488,7 @@ const Papers = () => {
               <Button
                 variant="outline"
                 size="sm"
-                onClick={() => handleApprovePaper(paper._id)}
+                onClick={() => handleApprovePaper(paper)}
                 className="flex-shrink-0 bg-green-50 hover:bg-green-100 text-green-700 border-green-300"
               >
                 <Check className="h-4 w-4 mr-2" />
@@ -369,6 +505,10 @@ const Papers = () => {
               </Button>
             </>
           )}
+          {renderScheduleButton(paper)}
+          {renderInvigilateButton(paper)}
+          {renderExportButton(paper)}
+          {renderHistoryButton(paper)}
           {paper.status === 'approved' && (
             <Button
               variant="destructive"
@@ -410,14 +550,9 @@ const Papers = () => {
               Duration: {paper.duration} minutes
             </div>
           </div>
-          {paper.scheduledDate && (
-            <div className="space-y-2">
-              <div className="flex items-center text-sm text-gray-600">
-                <Calendar className="h-4 w-4 mr-2 flex-shrink-0" />
-                Scheduled: {format(new Date(paper.scheduledDate), 'PPp')}
-              </div>
-            </div>
-          )}
+          <div className="space-y-2">
+            {renderSchedule(paper)}
+          </div>
         </div>
         <div className="flex flex-wrap gap-2 pt-4 mt-4 border-t border-purple-100">
           <Button
@@ -429,6 +564,33 @@ const Papers = () => {
             <Eye className="h-4 w-4 mr-2" />
             View Details
           </Button>
+          {canEditPaper(paper) && (
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => navigate(`/faculty/papers/${paper._id}/edit`)}
+              className="flex-shrink-0"
+            >
+              <Edit className="h-4 w-4 mr-2" />
+              Edit
+            </Button>
+          )}
+          {paper.status === 'draft' && (
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => submitPaperMutation.mutate(paper._id)}
+              disabled={submitPaperMutation.isPending}
+              className="flex-shrink-0 bg-purple-50 hover:bg-purple-100 text-purple-700 border-purple-300"
+            >
+              <Send className="h-4 w-4 mr-2" />
+              Submit for Approval
+            </Button>
+          )}
+          {renderScheduleButton(paper)}
+          {renderInvigilateButton(paper)}
+          {renderExportButton(paper)}
+          {renderHistoryButton(paper)}
         </div>
       </CardContent>
     </Card>
@@ -461,17 +623,25 @@ const Papers = () => {
               : 'View available exam papers'}
           </p>
         </div>
-        {user?.role === 'faculty' && (
-          <Button
-            onClick={() => navigate('/create-paper')}
-            className="bg-gradient-to-r from-purple-600 to-indigo-600 hover:from-purple-700 hover:to-indigo-700 w-full sm:w-auto"
-          >
-            <Plus className="h-4 w-4 mr-2" />
-            Create Paper
+        <div className="flex flex-col sm:flex-row gap-2 w-full sm:w-auto">
+          <Button variant="outline" onClick={() => setShowTimetable(!showTimetable)}>
+            <CalendarDays className="h-4 w-4 mr-2" />
+            {showTimetable ? 'Hide Timetable' : 'Timetable'}
           </Button>
-        )}
+          {user?.role === 'faculty' && (
+            <Button
+              onClick={() => navigate('/create-paper')}
+              className="bg-gradient-to-r from-purple-600 to-indigo-600 hover:from-purple-700 hover:to-indigo-700 w-full sm:w-auto"
+            >
+              <Plus className="h-4 w-4 mr-2" />
+              Create Paper
+            </Button>
+          )}
+        </div>
       </div>
 
+      {showTimetable && <ExamTimetable schedule={schedule} />}
+
       <div className="grid gap-4 grid-cols-1 md:grid-cols-[2fr,1fr]">
         <Input
           placeholder="Search papers..."
@@ -498,7 +668,7 @@ const Papers = () => {
           </SelectTrigger>
           <SelectContent>
             <SelectItem value="all">All Status</SelectItem>
-            <SelectItem value="draft">Draft</SelectItem>
+            {user?.role !== 'admin' && <SelectItem value="draft">Draft</SelectItem>}
             <SelectItem value="pending">Pending</SelectItem>
             <SelectItem value="approved">Approved</SelectItem>
             <SelectItem value="rejected">Rejected</SelectItem>
@@ -566,6 +736,74 @@ const Papers = () => {
           </DialogFooter>
         </DialogContent>
       </Dialog>
+
+      <ScheduleDialog
+        paper={schedulingPaper}
+        schedule={schedule}
+        canOverride={user?.role === 'admin'}
+        onOpenChange={(open) => !open && setSchedulingPaper(null)}
+      />
+
+      {/* Clash Override Dialog */}
+      <Dialog
+        open={!!approvingPaper}
+        onOpenChange={(open) => {
+          if (!open) {
+            setApprovingPaper(null);
+            setClashOverrideReason('');
+          }
+        }}
+      >
+        <DialogContent className="max-w-lg">
+          <DialogHeader>
+            <DialogTitle>Approve Despite Clash</DialogTitle>
+            <DialogDescription>
+              {approvingPaper?.title} overlaps other exams for students in the same cohort.
+              The reason is recorded with the approval.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4 py-2">
+            {approvingPaper && <ScheduleClashList clashes={getClashes(approvingPaper)} />}
+            <div className="space-y-2">
+              <Label htmlFor="clash-reason">Override Reason</Label>
+              <Textarea
+                id="clash-reason"
+                placeholder="e.g. Students sit the two papers in different halls"
+                value={clashOverrideReason}
+                onChange={(e) => setClashOverrideReason(e.target.value)}
+              />
+            </div>
+          </div>
+          <DialogFooter>
+            <Button
+              variant="outline"
+              onClick={() => {
+                setApprovingPaper(null);
+                setSchedulingPaper(approvingPaper);
+              }}
+            >
+              Reschedule
+            </Button>
+            <Button
+              onClick={() => approvePaperMutation.mutate({ id: approvingPaper!._id, reason: clashOverrideReason.trim() })}
+              disabled={!clashOverrideReason.trim() || approvePaperMutation.isPending}
+              className="bg-green-600 hover:bg-green-700"
+            >
+              Approve Anyway
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      <ExportPaperDialog
+        paperId={exportingPaperId}
+        onOpenChange={(open) => !open && setExportingPaperId(null)}
+      />
+
+      <PaperVersionsDialog
+        paperId={historyPaperId}
+        onOpenChange={(open) => !open && setHistoryPaperId(null)}
+      />
     </div>
   );
 };
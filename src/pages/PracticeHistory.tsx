@@ -0,0 +1,142 @@
+import React from 'react';
+import { useNavigate } from 'react-router-dom';
+import { useQuery } from '@tanstack/react-query';
+import { format } from 'date-fns';
+import { CartesianGrid, Line, LineChart, ResponsiveContainer, Tooltip, XAxis, YAxis } from 'recharts';
+import { getPracticeAttempts } from '@/lib/api';
+import { getPracticePercentage, PracticeAttempt, summarizePracticeAttempts } from '@/lib/practice';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Dumbbell, TrendingDown, TrendingUp } from 'lucide-react';
+
+// Practice scores per paper over time
+const PracticeHistory = () => {
+  const navigate = useNavigate();
+
+  const { data: attempts = [], isLoading } = useQuery<PracticeAttempt[]>({
+    queryKey: ['practiceAttempts'],
+    queryFn: () => getPracticeAttempts(),
+  });
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center justify-center min-h-screen">
+        <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-gray-900"></div>
+      </div>
+    );
+  }
+
+  const summaries = summarizePracticeAttempts(attempts);
+
+  return (
+    <div className="p-6 space-y-6">
+      <div>
+        <h1 className="text-3xl font-bold text-gray-900">Practice History</h1>
+        <p className="text-gray-600 mt-2">Your practice attempts and how your scores have changed</p>
+      </div>
+
+      {summaries.length === 0 ? (
+        <Card className="bg-gray-50 border-dashed">
+          <CardContent className="flex flex-col items-center justify-center py-12">
+            <Dumbbell className="h-12 w-12 text-gray-400 mb-4" />
+            <p className="text-gray-600 text-center">You have not taken any practice papers yet.</p>
+            <Button variant="outline" className="mt-4" onClick={() => navigate('/exams')}>
+              Find Practice Papers
+            </Button>
+          </CardContent>
+        </Card>
+      ) : (
+        summaries.map(({ paper, attempts: paperAttempts, best, latest, average, improvement }) => (
+          <Card key={paper._id}>
+            <CardHeader>
+              <div className="flex flex-wrap items-start justify-between gap-2">
+                <div>
+                  <CardTitle>{paper.title}</CardTitle>
+                  <CardDescription>
+                    {paper.subject?.name && `${paper.subject.name} • `}
+                    {paperAttempts.length} {paperAttempts.length === 1 ? 'attempt' : 'attempts'}
+                  </CardDescription>
+                </div>
+                <Button variant="outline" size="sm" onClick={() => navigate(`/practice/${paper._id}`)}>
+                  Practice Again
+                </Button>
+              </div>
+            </CardHeader>
+            <CardContent className="space-y-6">
+              <div className="grid grid-cols-2 md:grid-cols-4 gap-4 text-sm">
+                <div>
+                  <p className="text-gray-600">Best</p>
+                  <p className="text-xl font-bold">{best}%</p>
+                </div>
+                <div>
+                  <p className="text-gray-600">Latest</p>
+                  <p className="text-xl font-bold">{latest}%</p>
+                </div>
+                <div>
+                  <p className="text-gray-600">Average</p>
+                  <p className="text-xl font-bold">{average}%</p>
+                </div>
+                <div>
+                  <p className="text-gray-600">Since first attempt</p>
+                  <p className={`flex items-center text-xl font-bold ${improvement < 0 ? 'text-red-600' : 'text-green-600'}`}>
+                    {improvement < 0 ? <TrendingDown className="h-5 w-5 mr-1" /> : <TrendingUp className="h-5 w-5 mr-1" />}
+                    {improvement > 0 ? '+' : ''}{improvement} pts
+                  </p>
+                </div>
+              </div>
+
+              {paperAttempts.length > 1 && (
+                <div className="h-[220px]">
+                  <ResponsiveContainer width="100%" height="100%">
+                    <LineChart
+                      data={paperAttempts.map(attempt => ({
+                        attempt: `#${attempt.attemptNumber}`,
+                        score: getPracticePercentage(attempt),
+                      }))}
+                    >
+                      <CartesianGrid strokeDasharray="3 3" />
+                      <XAxis dataKey="attempt" />
+                      <YAxis domain={[0, 100]} unit="%" />
+                      <Tooltip />
+                      <Line type="monotone" dataKey="score" stroke="#0D9488" name="Score" />
+                    </LineChart>
+                  </ResponsiveContainer>
+                </div>
+              )}
+
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Attempt</TableHead>
+                    <TableHead>Date</TableHead>
+                    <TableHead>Score</TableHead>
+                    <TableHead>Answered</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {[...paperAttempts].reverse().map(attempt => (
+                    <TableRow key={attempt._id}>
+                      <TableCell>#{attempt.attemptNumber}</TableCell>
+                      <TableCell>{format(new Date(attempt.endTime), 'PPp')}</TableCell>
+                      <TableCell>
+                        {attempt.score}/{attempt.maxScore}{' '}
+                        <Badge variant="secondary">{getPracticePercentage(attempt)}%</Badge>
+                      </TableCell>
+                      <TableCell>
+                        {attempt.answers.filter(answer => answer.selectedOption).length}/{attempt.answers.length}
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </CardContent>
+          </Card>
+        ))
+      )}
+    </div>
+  );
+};
+
+export default PracticeHistory;
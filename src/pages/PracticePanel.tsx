@@ -0,0 +1,311 @@
+import React, { useState } from 'react';
+import { useNavigate, useParams } from 'react-router-dom';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { createPracticeAttempt, getExamPaper, getPracticeAttempts } from '@/lib/api';
+import { toast } from '@/hooks/use-toast';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Progress } from '@/components/ui/progress';
+import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert';
+import { AlertCircle, ArrowLeft, ArrowRight, CheckCircle, LineChart, RotateCcw } from 'lucide-react';
+import QuestionAnswerInput from '@/components/exam/QuestionAnswerInput';
+import PracticeFeedback from '@/components/exam/PracticeFeedback';
+import RichText from '@/components/exam/RichText';
+import AttachmentGallery from '@/components/exam/AttachmentGallery';
+import { QuestionDefinition } from '@/lib/question-types';
+import {
+  getPracticePercentage,
+  getRemainingPracticeAttempts,
+  gradePracticeAnswers,
+  isInstantlyGraded,
+  PracticeAttempt,
+  PracticeSettings,
+} from '@/lib/practice';
+import { cn } from '@/lib/utils';
+
+interface PracticePaper extends PracticeSettings {
+  _id: string;
+  title: string;
+  description?: string;
+  subject: { _id: string; name: string };
+  questions: (QuestionDefinition & { _id: string })[];
+}
+
+// Untimed practice run: every answer can be checked as the student goes, and
+// the finished attempt is stored for the practice history
+const PracticePanel = () => {
+  const { id } = useParams();
+  const navigate = useNavigate();
+  const queryClient = useQueryClient();
+  const [currentIndex, setCurrentIndex] = useState(0);
+  const [answers, setAnswers] = useState<Record<number, string>>({});
+  const [checked, setChecked] = useState<number[]>([]);
+  const [startTime, setStartTime] = useState(() => new Date().toISOString());
+  const [result, setResult] = useState<PracticeAttempt | null>(null);
+
+  const { data: paper, isLoading: isLoadingPaper, error } = useQuery<PracticePaper, Error>({
+    queryKey: ['examPaper', id],
+    queryFn: () => getExamPaper(id!),
+    enabled: !!id,
+    retry: 1,
+  });
+
+  const { data: previousAttempts = [], isLoading: isLoadingAttempts } = useQuery<PracticeAttempt[]>({
+    queryKey: ['practiceAttempts', id],
+    queryFn: () => getPracticeAttempts(id),
+    enabled: !!id,
+  });
+
+  const finishMutation = useMutation({
+    mutationFn: () => createPracticeAttempt(id!, {
+      answers: Object.entries(answers).map(([questionIndex, selectedOption]) => ({
+        questionIndex: Number(questionIndex),
+        selectedOption,
+      })),
+      startTime,
+      endTime: new Date().toISOString(),
+    }),
+    onSuccess: (attempt: PracticeAttempt) => {
+      queryClient.invalidateQueries({ queryKey: ['practiceAttempts'] });
+      setResult(attempt);
+    },
+    onError: (error: { response?: { data?: { message?: string } } }) => {
+      toast({
+        title: "Error",
+        description: error.response?.data?.message || "Failed to save this practice attempt",
+        variant: "destructive"
+      });
+    }
+  });
+
+  if (isLoadingPaper || isLoadingAttempts) {
+    return (
+      <div className="flex items-center justify-center min-h-screen">
+        <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-gray-900"></div>
+      </div>
+    );
+  }
+
+  if (error || !paper) {
+    return (
+      <div className="p-6 max-w-4xl mx-auto space-y-4">
+        <Alert variant="destructive">
+          <AlertCircle className="h-4 w-4" />
+          <AlertTitle>Error</AlertTitle>
+          <AlertDescription>Failed to load this practice paper. Please try again later.</AlertDescription>
+        </Alert>
+        <Button variant="outline" onClick={() => navigate('/exams')}>
+          <ArrowLeft className="w-4 h-4 mr-2" />
+          Back to Exams
+        </Button>
+      </div>
+    );
+  }
+
+  const questions = paper.questions;
+  const remaining = getRemainingPracticeAttempts(paper, previousAttempts.length);
+  const { results, score, maxScore } = gradePracticeAnswers(questions, Object.entries(answers).map(
+    ([questionIndex, selectedOption]) => ({ questionIndex: Number(questionIndex), selectedOption })
+  ));
+
+  const restart = () => {
+    setAnswers({});
+    setChecked([]);
+    setCurrentIndex(0);
+    setStartTime(new Date().toISOString());
+    setResult(null);
+  };
+
+  const header = (
+    <div className="space-y-2">
+      <Button variant="ghost" className="text-gray-600 hover:text-gray-900" onClick={() => navigate('/exams')}>
+        <ArrowLeft className="h-4 w-4 mr-2" />
+        Back to Exams
+      </Button>
+      <div className="flex flex-wrap items-center gap-2">
+        <Badge variant="outline">{paper.subject.name}</Badge>
+        <Badge variant="outline" className="bg-teal-50 text-teal-700 border-teal-300">Practice</Badge>
+        <Badge variant="secondary">
+          {remaining === null ? 'Unlimited attempts' : `${remaining} ${remaining === 1 ? 'attempt' : 'attempts'} left`}
+        </Badge>
+      </div>
+      <h1 className="text-2xl font-bold text-gray-900">{paper.title}</h1>
+    </div>
+  );
+
+  if (result) {
+    const percentage = getPracticePercentage(result);
+    const canRetry = getRemainingPracticeAttempts(paper, previousAttempts.length) !== 0;
+    return (
+      <div className="p-4 md:p-6">
+        <div className="max-w-4xl mx-auto space-y-6">
+          {header}
+          <Card>
+            <CardHeader>
+              <CardTitle>Attempt {result.attemptNumber} complete</CardTitle>
+              <CardDescription>Practice scores are not graded or shared with your faculty</CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              <div className="flex items-end gap-3">
+                <span className="text-4xl font-bold">{percentage}%</span>
+                <span className="text-gray-600 mb-1">{result.score} of {result.maxScore} marks</span>
+              </div>
+              <Progress value={percentage} className="h-2" />
+              <div className="flex flex-wrap gap-2">
+                {canRetry && (
+                  <Button onClick={restart}>
+                    <RotateCcw className="h-4 w-4 mr-2" />
+                    Try Again
+                  </Button>
+                )}
+                <Button variant="outline" onClick={() => navigate('/practice-history')}>
+                  <LineChart className="h-4 w-4 mr-2" />
+                  Practice History
+                </Button>
+              </div>
+            </CardContent>
+          </Card>
+
+          {questions.map((question, index) => (
+            <Card key={question._id || index}>
+              <CardHeader>
+                <div className="flex items-center justify-between">
+                  <Badge variant="outline">Question {index + 1}</Badge>
+                  <Badge variant="secondary">Marks: {question.marks}</Badge>
+                </div>
+                <RichText content={question.question} className="mt-2 text-gray-900" />
+              </CardHeader>
+              <CardContent>
+                <PracticeFeedback
+                  question={question}
+                  selectedOption={result.answers[index]?.selectedOption ?? answers[index] ?? ''}
+                  marks={result.answers[index]?.marks ?? null}
+                  showAnswer
+                />
+              </CardContent>
+            </Card>
+          ))}
+        </div>
+      </div>
+    );
+  }
+
+  if (remaining === 0) {
+    return (
+      <div className="p-4 md:p-6">
+        <div className="max-w-4xl mx-auto space-y-6">
+          {header}
+          <Alert>
+            <AlertCircle className="h-4 w-4" />
+            <AlertTitle>No attempts left</AlertTitle>
+            <AlertDescription className="flex flex-col sm:flex-row sm:items-center justify-between gap-2">
+              <span>You have used all {paper.practiceAttemptLimit} attempts for this practice paper.</span>
+              <Button size="sm" variant="outline" onClick={() => navigate('/practice-history')}>
+                View Practice History
+              </Button>
+            </AlertDescription>
+          </Alert>
+        </div>
+      </div>
+    );
+  }
+
+  const question = questions[currentIndex];
+  const isChecked = checked.includes(currentIndex);
+  const answer = answers[currentIndex] || '';
+
+  return (
+    <div className="p-4 md:p-6">
+      <div className="max-w-4xl mx-auto space-y-6">
+        {header}
+
+        <Card>
+          <CardContent className="py-4 space-y-3">
+            <div className="flex justify-between text-sm">
+              <span className="text-gray-600">Checked {checked.length} of {questions.length}</span>
+              <span className="font-medium">Score so far: {score}/{maxScore}</span>
+            </div>
+            <div className="flex flex-wrap gap-2">
+              {questions.map((_, index) => {
+                const marks = results[index].marks;
+                const isDone = checked.includes(index);
+                return (
+                  <Button
+                    key={index}
+                    size="sm"
+                    variant="outline"
+                    onClick={() => setCurrentIndex(index)}
+                    className={cn(
+                      'w-9 h-9 p-0',
+                      index === currentIndex && 'ring-2 ring-offset-1 ring-blue-500',
+                      isDone && marks === null && 'bg-blue-50 border-blue-300',
+                      isDone && marks !== null && marks > 0 && 'bg-green-50 border-green-300 text-green-800',
+                      isDone && marks === 0 && 'bg-red-50 border-red-300 text-red-800'
+                    )}
+                  >
+                    {index + 1}
+                  </Button>
+                );
+              })}
+            </div>
+          </CardContent>
+        </Card>
+
+        <Card className="shadow-lg">
+          <CardHeader>
+            <div className="flex items-center justify-between">
+              <Badge variant="outline">Question {currentIndex + 1} of {questions.length}</Badge>
+              <Badge variant="secondary">Marks: {question.marks}</Badge>
+            </div>
+            <RichText content={question.question} className="mt-4 text-base text-gray-900" />
+            <AttachmentGallery attachments={question.attachments} className="mt-4" />
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <fieldset disabled={isChecked}>
+              <QuestionAnswerInput
+                key={currentIndex}
+                question={question}
+                options={question.options || []}
+                optionAttachments={question.optionAttachments}
+                value={answer}
+                onChange={(value) => setAnswers({ ...answers, [currentIndex]: value })}
+              />
+            </fieldset>
+            {isChecked ? (
+              <PracticeFeedback question={question} selectedOption={answer} marks={results[currentIndex].marks} />
+            ) : (
+              <Button variant="outline" onClick={() => setChecked([...checked, currentIndex])} disabled={!answer}>
+                <CheckCircle className="h-4 w-4 mr-2" />
+                {isInstantlyGraded(question) ? 'Check Answer' : 'Show Explanation'}
+              </Button>
+            )}
+          </CardContent>
+        </Card>
+
+        <div className="flex justify-between items-center">
+          <Button variant="outline" onClick={() => setCurrentIndex(currentIndex - 1)} disabled={currentIndex === 0}>
+            <ArrowLeft className="w-4 h-4 mr-2" />
+            Previous
+          </Button>
+          {currentIndex < questions.length - 1 ? (
+            <Button onClick={() => setCurrentIndex(currentIndex + 1)}>
+              Next
+              <ArrowRight className="w-4 h-4 ml-2" />
+            </Button>
+          ) : (
+            <Button
+              onClick={() => finishMutation.mutate()}
+              disabled={finishMutation.isPending}
+              className="bg-green-600 hover:bg-green-700"
+            >
+              {finishMutation.isPending ? 'Saving...' : 'Finish Attempt'}
+            </Button>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default PracticePanel;
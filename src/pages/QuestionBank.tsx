@@ -0,0 +1,236 @@
+import React, { useState } from 'react';
+import { useNavigate, useSearchParams } from 'react-router-dom';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { format } from 'date-fns';
+import { deleteBankQuestion, getSubjects } from '@/lib/api';
+import { useAuthContext } from '@/lib/auth-context';
+import { toast } from '@/hooks/use-toast';
+import { useQuestionBank } from '@/hooks/use-question-bank';
+import { BankFilters, BankQuestion, EMPTY_BANK_FILTERS, hasBankFilters } from '@/lib/question-bank';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent, AlertDialogDescription, AlertDialogFooter, AlertDialogHeader, AlertDialogTitle } from '@/components/ui/alert-dialog';
+import { ChevronDown, ChevronUp, Library, Pencil, Plus, Trash2 } from 'lucide-react';
+import BankFilterBar from '@/components/exam/BankFilterBar';
+import BankQuestionMeta from '@/components/exam/BankQuestionMeta';
+import BankQuestionDialog from '@/components/exam/BankQuestionDialog';
+import RichText from '@/components/exam/RichText';
+import AttachmentGallery from '@/components/exam/AttachmentGallery';
+
+interface Subject {
+  _id: string;
+  name: string;
+  facultyId: {
+    _id: string;
+    name: string;
+  };
+  semester: number;
+}
+
+// Reusable questions for each of the faculty member's subjects
+const QuestionBank = () => {
+  const navigate = useNavigate();
+  const queryClient = useQueryClient();
+  const { user } = useAuthContext();
+  const [searchParams, setSearchParams] = useSearchParams();
+  const [filters, setFilters] = useState<BankFilters>(EMPTY_BANK_FILTERS);
+  const [editing, setEditing] = useState<{ question: BankQuestion | null }>();
+  const [deleting, setDeleting] = useState<BankQuestion | null>(null);
+  const [expandedId, setExpandedId] = useState<string>();
+
+  const { data: subjects = [], isLoading: isLoadingSubjects } = useQuery<Subject[]>({
+    queryKey: ['subjects'],
+    queryFn: getSubjects
+  });
+
+  const facultySubjects = subjects.filter(subject => subject.facultyId?._id === user?._id);
+  const subjectId = searchParams.get('subject') || facultySubjects[0]?._id;
+  const subject = facultySubjects.find(s => s._id === subjectId);
+
+  const { questions, tags, isLoading, isFetching } = useQuestionBank(subject?._id, filters);
+
+  const deleteMutation = useMutation({
+    mutationFn: (id: string) => deleteBankQuestion(id),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['questionBank', subjectId] });
+      queryClient.invalidateQueries({ queryKey: ['questionBankTags', subjectId] });
+      toast({
+        title: "Question deleted",
+        description: "Papers that used it keep their own copy"
+      });
+    },
+    onError: (error: { response?: { data?: { message?: string } } }) => {
+      toast({
+        title: "Error",
+        description: error.response?.data?.message || "Failed to delete question",
+        variant: "destructive"
+      });
+    }
+  });
+
+  if (isLoadingSubjects) {
+    return (
+      <div className="flex items-center justify-center min-h-screen">
+        <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-gray-900"></div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="p-6 space-y-6">
+      <div className="flex flex-col md:flex-row md:items-end justify-between gap-4">
+        <div>
+          <h1 className="text-3xl font-bold text-gray-900">Question Bank</h1>
+          <p className="text-gray-600 mt-2">Save questions once and reuse them across papers</p>
+        </div>
+        {facultySubjects.length > 0 && (
+          <div className="flex flex-col sm:flex-row sm:items-end gap-2">
+            <div className="space-y-2">
+              <Label>Subject</Label>
+              <Select
+                value={subjectId}
+                onValueChange={(value) => {
+                  setSearchParams({ subject: value });
+                  setFilters(EMPTY_BANK_FILTERS);
+                }}
+              >
+                <SelectTrigger className="sm:w-64">
+                  <SelectValue placeholder="Select a subject" />
+                </SelectTrigger>
+                <SelectContent>
+                  {facultySubjects.map(s => (
+                    <SelectItem key={s._id} value={s._id}>
+                      {s.name} (Semester {s.semester})
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <Button onClick={() => setEditing({ question: null })} disabled={!subject}>
+              <Plus className="h-4 w-4 mr-2" />
+              New Question
+            </Button>
+          </div>
+        )}
+      </div>
+
+      {!subject ? (
+        <Card className="bg-gray-50 border-dashed">
+          <CardContent className="flex flex-col items-center justify-center py-12">
+            <Library className="h-12 w-12 text-gray-400 mb-4" />
+            <p className="text-gray-600 text-center">
+              {facultySubjects.length ? 'Select one of your subjects to see its question bank.' : 'You have no subjects assigned yet.'}
+            </p>
+            <Button variant="outline" className="mt-4" onClick={() => navigate('/faculty')}>
+              Back to Dashboard
+            </Button>
+          </CardContent>
+        </Card>
+      ) : (
+        <Card>
+          <CardHeader>
+            <CardTitle>{subject.name}</CardTitle>
+            <CardDescription>
+              {isLoading ? 'Loading questions...' : `${questions.length} ${questions.length === 1 ? 'question' : 'questions'}${hasBankFilters(filters) ? ' match these filters' : ''}`}
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <BankFilterBar filters={filters} onChange={setFilters} tags={tags} />
+
+            <div className={`space-y-3 ${isFetching ? 'opacity-60' : ''}`}>
+              {!isLoading && questions.length === 0 && (
+                <div className="flex flex-col items-center justify-center py-12 text-gray-500">
+                  <Library className="h-10 w-10 mb-2" />
+                  <p>{hasBankFilters(filters) ? 'No questions match these filters.' : 'This bank is empty. Add a question to get started.'}</p>
+                </div>
+              )}
+              {questions.map(question => (
+                <div key={question._id} className="p-4 border rounded-lg space-y-3">
+                  <div className="flex items-start justify-between gap-4">
+                    <div className="flex-1 min-w-0 space-y-2">
+                      <RichText content={question.question} />
+                      <AttachmentGallery compact attachments={question.attachments} />
+                    </div>
+                    <div className="flex gap-2">
+                      <Button size="sm" variant="outline" onClick={() => setEditing({ question })}>
+                        <Pencil className="h-4 w-4" />
+                      </Button>
+                      <Button
+                        size="sm"
+                        variant="outline"
+                        className="text-red-600 hover:text-red-700 hover:bg-red-50"
+                        onClick={() => setDeleting(question)}
+                      >
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
+                    </div>
+                  </div>
+                  <div className="flex flex-wrap items-center justify-between gap-2">
+                    <BankQuestionMeta question={question} />
+                    {question.usage.length > 0 && (
+                      <Button
+                        size="sm"
+                        variant="ghost"
+                        onClick={() => setExpandedId(expandedId === question._id ? undefined : question._id)}
+                      >
+                        Usage history
+                        {expandedId === question._id ? <ChevronUp className="h-4 w-4 ml-1" /> : <ChevronDown className="h-4 w-4 ml-1" />}
+                      </Button>
+                    )}
+                  </div>
+                  {expandedId === question._id && (
+                    <ul className="text-sm text-gray-600 border-t pt-2 space-y-1">
+                      {question.usage.map(use => (
+                        <li key={`${use.paper._id}-${use.usedAt}`} className="flex justify-between gap-4">
+                          <button
+                            type="button"
+                            className="text-left hover:underline"
+                            onClick={() => navigate(`/faculty/papers/${use.paper._id}`)}
+                          >
+                            {use.paper.title}
+                          </button>
+                          <span className="text-gray-500">{format(new Date(use.usedAt), 'PP')}</span>
+                        </li>
+                      ))}
+                    </ul>
+                  )}
+                </div>
+              ))}
+            </div>
+          </CardContent>
+        </Card>
+      )}
+
+      <BankQuestionDialog
+        subjectId={subject?._id}
+        open={!!editing}
+        question={editing?.question ?? null}
+        onOpenChange={(open) => !open && setEditing(undefined)}
+      />
+
+      <AlertDialog open={!!deleting} onOpenChange={(open) => !open && setDeleting(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete Bank Question</AlertDialogTitle>
+            <AlertDialogDescription>
+              The question will be removed from the bank. Papers that already use it are not affected.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={() => deleting && deleteMutation.mutate(deleting._id)}
+              className="bg-red-600 hover:bg-red-700"
+            >
+              Delete Question
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+};
+
+export default QuestionBank;
@@ -7,6 +7,8 @@ import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
 import { ArrowLeft, Clock, Book, FileText, CheckCircle, XCircle, Award } from 'lucide-react';
+import { formatAnswer, MatchPair, NumericAnswer, QUESTION_TYPE_LABELS, QuestionType } from '@/lib/question-types';
+import RichText from '@/components/exam/RichText';
 
 // Updated interfaces to match backend models
 interface Answer {
@@ -20,8 +22,10 @@ interface Question {
   _id: string;
   question: string;
   marks: number;
-  type: 'mcq' | 'subjective';
+  type: QuestionType;
   options?: string[];
+  pairs?: MatchPair[];
+  numericAnswer?: NumericAnswer;
 }
 
 const SubmissionDetails = () => {
@@ -210,16 +214,25 @@ const SubmissionDetails = () => {
                           <Badge variant="outline" className="ml-2">
                             {question.marks} marks
                           </Badge>
+                          {QUESTION_TYPE_LABELS[question.type] && (
+                            <Badge variant="secondary">{QUESTION_TYPE_LABELS[question.type]}</Badge>
+                          )}
                         </div>
-                        <p className="text-gray-700 whitespace-pre-wrap">{question.question || 'Question text not available'}</p>
+                        {question.question
+                          ? <RichText content={question.question} className="text-gray-700" />
+                          : <p className="text-gray-700">Question text not available</p>}
                       </div>
                     </div>
 
                     <div className={`p-4 rounded-md ${hasAnswer ? 'bg-gray-50' : 'bg-red-50'}`}>
                       <h4 className="text-sm font-medium text-gray-700 mb-2">Your Answer:</h4>
-                      <p className={`whitespace-pre-wrap ${hasAnswer ? 'text-gray-800' : 'text-red-600 italic'}`}>
-                        {hasAnswer ? answer.selectedOption : 'Not answered'}
-                      </p>
+                      {hasAnswer ? (
+                        question.type === 'subjective'
+                          ? <RichText content={answer.selectedOption} className="text-gray-800" />
+                          : <p className="whitespace-pre-wrap text-gray-800">{formatAnswer(question, answer.selectedOption)}</p>
+                      ) : (
+                        <p className="text-red-600 italic">Not answered</p>
+                      )}
                       {answer?.marks !== undefined && answer?.marks !== null && (
                         <div className="mt-2 pt-2 border-t">
                           <p className="text-sm font-medium text-gray-700">
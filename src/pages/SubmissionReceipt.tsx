@@ -0,0 +1,72 @@
+import React from 'react';
+import { useNavigate, useParams } from 'react-router-dom';
+import { useQuery } from '@tanstack/react-query';
+import { getSubmissionReceipt } from '@/lib/api';
+import { SubmissionReceipt as Receipt } from '@/lib/receipt';
+import { Button } from '@/components/ui/button';
+import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert';
+import { AlertCircle, ArrowLeft, CheckCircle, History } from 'lucide-react';
+import ReceiptCard from '@/components/exam/ReceiptCard';
+
+// Shown straight after submitting, and reachable later from the exam history
+const SubmissionReceipt = () => {
+  const { id } = useParams();
+  const navigate = useNavigate();
+
+  const { data: receipt, isLoading, error } = useQuery<Receipt, Error>({
+    queryKey: ['submissionReceipt', id],
+    queryFn: () => getSubmissionReceipt(id!),
+    enabled: !!id,
+    staleTime: Infinity,
+  });
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center justify-center min-h-screen">
+        <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-gray-900"></div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="p-4 md:p-6">
+      <div className="max-w-3xl mx-auto space-y-6">
+        <Button variant="ghost" className="text-gray-600 hover:text-gray-900" onClick={() => navigate('/dashboard')}>
+          <ArrowLeft className="h-4 w-4 mr-2" />
+          Back to Dashboard
+        </Button>
+
+        {error || !receipt ? (
+          <Alert variant="destructive">
+            <AlertCircle className="h-4 w-4" />
+            <AlertTitle>Receipt unavailable</AlertTitle>
+            <AlertDescription>
+              The receipt could not be loaded. Your submission is listed in your exam history.
+            </AlertDescription>
+          </Alert>
+        ) : (
+          <>
+            <div className="flex items-center gap-3">
+              <CheckCircle className="h-8 w-8 text-green-600" />
+              <div>
+                <h1 className="text-2xl font-bold text-gray-900">Your exam has been submitted</h1>
+                <p className="text-gray-600">Save the confirmation code or download the receipt as proof.</p>
+              </div>
+            </div>
+            <ReceiptCard
+              receipt={receipt}
+              actions={
+                <Button variant="outline" onClick={() => navigate('/exam-history')}>
+                  <History className="h-4 w-4 mr-2" />
+                  Exam History
+                </Button>
+              }
+            />
+          </>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default SubmissionReceipt;
@@ -9,6 +9,7 @@ import { useQuery } from '@tanstack/react-query';
 import { getSubmissions } from '@/lib/api';
 import { useNavigate } from 'react-router-dom';
 import { format, formatDistanceToNow, isValid } from 'date-fns';
+import AccommodationBadge from '@/components/exam/AccommodationBadge';
 import Evaluate from './Evaluate';
 
 const Submissions = () => {
@@ -106,6 +107,7 @@ const Submissions = () => {
                     <div className="flex items-center gap-2">
                       <h3 className="font-medium">{submission.examPaper?.title || 'Untitled Exam'}</h3>
                       <Badge variant="outline">{submission.examPaper?.subject?.name || 'No Subject'}</Badge>
+                      <AccommodationBadge accommodations={submission.accommodations} />
                     </div>
                     <div className="flex flex-wrap items-center gap-2 text-sm text-gray-500">
                       <span>Student: {submission.student?.name || 'Unknown'} ({submission.student?.studentId || 'No ID'})</span>
@@ -28,9 +28,12 @@ import {
 } from "@/components/ui/table";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
-import { Search, Filter, UserPlus, Users as UsersIcon, School, BookOpen, Upload, Trash2 } from 'lucide-react';
+import { Search, Filter, UserPlus, Users as UsersIcon, School, BookOpen, Upload, Trash2, Accessibility } from 'lucide-react';
 import { COLLEGE_STRUCTURE } from '@/lib/constants';
 import { Checkbox } from "@/components/ui/checkbox";
+import AccommodationsDialog from '@/components/exam/AccommodationsDialog';
+import AccommodationBadge from '@/components/exam/AccommodationBadge';
+import { Accommodations } from '@/lib/accommodations';
 import { AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent, AlertDialogDescription, AlertDialogFooter, AlertDialogHeader, AlertDialogTitle } from "@/components/ui/alert-dialog";
 
 type SchoolType = keyof typeof COLLEGE_STRUCTURE;
@@ -45,8 +48,10 @@ interface User {
   school: string;
   specialization?: string;
   semester?: number;
+  section?: string;
   studentId?: string;
   facultyId?: string;
+  accommodations?: Accommodations;
 }
 
 const Users = () => {
@@ -60,6 +65,7 @@ const Users = () => {
   const [semesterFilter, setSemesterFilter] = useState('all');
   const [selectedUsers, setSelectedUsers] = useState<string[]>([]);
   const [isDeleteDialogOpen, setIsDeleteDialogOpen] = useState(false);
+  const [accommodationsUser, setAccommodationsUser] = useState<User | null>(null);
   const fileInputRef = useRef<HTMLInputElement>(null);
   const [currentPage, setCurrentPage] = useState(1);
   const itemsPerPage = 10;
@@ -530,7 +536,12 @@ const Users = () => {
                           onCheckedChange={() => toggleSelectUser(user._id)}
                         />
                       </TableCell>
-                      <TableCell className="w-[200px] font-medium">{user.name}</TableCell>
+                      <TableCell className="w-[200px] font-medium">
+                        <div className="flex flex-wrap items-center gap-2">
+                          {user.name}
+                          <AccommodationBadge accommodations={user.accommodations} />
+                        </div>
+                      </TableCell>
                       <TableCell className="w-[100px]">
                         <Badge className={getRoleBadgeColor(user.role)}>
                           {user.role}
@@ -540,9 +551,22 @@ const Users = () => {
                       <TableCell className="w-[150px]">{user.school}</TableCell>
                       <TableCell className="w-[150px]">{user.department}</TableCell>
                       <TableCell className="w-[150px]">{user.specialization || '-'}</TableCell>
-                      <TableCell className="w-[100px]">{user.semester || '-'}</TableCell>
+                      <TableCell className="w-[100px]">
+                        {user.semester || '-'}
+                        {user.section && <span className="text-gray-500"> ({user.section})</span>}
+                      </TableCell>
                       <TableCell className="w-[150px] text-right">
                         <div className="flex justify-end gap-2">
+                          {user.role === 'student' && (
+                            <Button
+                              variant="outline"
+                              size="sm"
+                              onClick={() => setAccommodationsUser(user)}
+                              title="Accommodations"
+                            >
+                              <Accessibility className="h-4 w-4" />
+                            </Button>
+                          )}
                           <Button
                             variant="outline"
                             size="sm"
@@ -686,6 +710,7 @@ const Users = () => {
                 ))}
               </SelectContent>
             </Select>
+            <Input name="section" placeholder="Section, e.g. A (for students)" />
             <Input name="studentId" placeholder="Student ID (for students)" />
             <Input name="facultyId" placeholder="Faculty ID (for faculty)" />
             <Button type="submit">Add User</Button>
@@ -693,6 +718,12 @@ const Users = () => {
         </DialogContent>
       </Dialog>
 
+      <AccommodationsDialog
+        student={accommodationsUser}
+        onOpenChange={(open) => !open && setAccommodationsUser(null)}
+        onSaved={fetchUsers}
+      />
+
       {/* Delete Confirmation Dialog */}
       <AlertDialog open={isDeleteDialogOpen} onOpenChange={setIsDeleteDialogOpen}>
         <AlertDialogContent>
@@ -0,0 +1,88 @@
+import React, { useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { useQuery } from '@tanstack/react-query';
+import { lookupSubmissionReceipt } from '@/lib/api';
+import { normalizeConfirmationCode, SubmissionReceipt } from '@/lib/receipt';
+import { useAuthContext } from '@/lib/auth-context';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert';
+import { AlertCircle, Eye, Search } from 'lucide-react';
+import ReceiptCard from '@/components/exam/ReceiptCard';
+
+// Faculty and admins check a confirmation code a student quotes in a dispute
+const VerifyReceipt = () => {
+  const navigate = useNavigate();
+  const { user } = useAuthContext();
+  const [input, setInput] = useState('');
+  const [code, setCode] = useState('');
+
+  const { data: receipt, isFetching, error } = useQuery<SubmissionReceipt, Error & { response?: { status?: number } }>({
+    queryKey: ['submissionReceiptLookup', code],
+    queryFn: () => lookupSubmissionReceipt(code),
+    enabled: !!code,
+    retry: false,
+  });
+
+  const handleSearch = (e: React.FormEvent) => {
+    e.preventDefault();
+    setCode(normalizeConfirmationCode(input));
+  };
+
+  return (
+    <div className="p-4 md:p-6 space-y-6">
+      <div>
+        <h1 className="text-2xl md:text-3xl font-bold text-gray-900">Verify Submission</h1>
+        <p className="text-gray-600">Look up a submission by the confirmation code on the student's receipt</p>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Confirmation Code</CardTitle>
+          <CardDescription>Dashes and letter case do not matter</CardDescription>
+        </CardHeader>
+        <CardContent>
+          <form onSubmit={handleSearch} className="flex flex-col sm:flex-row gap-2">
+            <Input
+              value={input}
+              onChange={(e) => setInput(e.target.value)}
+              placeholder="e.g. 7KQ2-M9XD-4RTP"
+              className="font-mono"
+            />
+            <Button type="submit" disabled={!normalizeConfirmationCode(input) || isFetching}>
+              <Search className="h-4 w-4 mr-2" />
+              {isFetching ? 'Searching...' : 'Look Up'}
+            </Button>
+          </form>
+        </CardContent>
+      </Card>
+
+      {error && (
+        <Alert variant="destructive">
+          <AlertCircle className="h-4 w-4" />
+          <AlertTitle>{error.response?.status === 404 ? 'No matching submission' : 'Lookup failed'}</AlertTitle>
+          <AlertDescription>
+            {error.response?.status === 404
+              ? 'No submission has this confirmation code. Check the code with the student.'
+              : 'The submission could not be looked up. Please try again.'}
+          </AlertDescription>
+        </Alert>
+      )}
+
+      {receipt && !error && (
+        <ReceiptCard
+          receipt={receipt}
+          actions={user?.role === 'faculty' && (
+            <Button variant="outline" onClick={() => navigate(`/evaluate/${receipt.submissionId}`)}>
+              <Eye className="h-4 w-4 mr-2" />
+              Open Submission
+            </Button>
+          )}
+        />
+      )}
+    </div>
+  );
+};
+
+export default VerifyReceipt;